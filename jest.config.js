@@ -1,3 +1,6 @@
+// Run under a zone other than UTC, so code that depends on the host zone fails here too
+process.env.TZ = 'America/New_York';
+
 /** @type {import('ts-jest').JestConfigWithTsJest} */
 module.exports = {
   preset: 'ts-jest',
@@ -0,0 +1,181 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import { parseBundle } from '../parse';
+import { parseAppAttestation, verifyAppAttestation } from '../appattest';
+import { verifyBundle } from '../verify-bundle';
+import { createStampFromBundle } from '../create';
+import { verifyProofModeStamp } from '../verify';
+import {
+  SYNTHETIC_MEDIA,
+  createDeviceKeys,
+  createSignedBundle,
+  createSyntheticBundle,
+} from './fixtures/create-fixture';
+import { createAppAttestation } from './fixtures/create-certificates';
+import type { LocationStamp } from '@decentralized-geo/astral-sdk/plugins';
+
+const MEDIA_HASH = bytesToHex(sha256(SYNTHETIC_MEDIA));
+const APP_ID = 'TEAMID1234.org.witness.proofmode';
+
+function makeStamp(zip: Uint8Array): LocationStamp {
+  return {
+    ...createStampFromBundle(parseBundle(zip), '0.1.0'),
+    signatures: [
+      {
+        signer: { scheme: 'pgp-fingerprint', value: 'ABCD1234' },
+        algorithm: 'pgp',
+        value: 'fake-pgp-signature',
+        timestamp: 1700000000,
+      },
+    ],
+  };
+}
+
+function codes(result: { details: { checks: Array<{ code: string }> } }) {
+  return result.details.checks.map(c => c.code);
+}
+
+describe('iOS bundles', () => {
+  it('recognizes the iOS file names and metadata keys', () => {
+    const { attestation } = createAppAttestation({ clientData: MEDIA_HASH });
+    const bundle = parseBundle(createSyntheticBundle({
+      ios: true, includeMedia: true, appAttestation: attestation, deviceCheckToken: 'ZGV2aWNlY2hlY2s=\n',
+    }));
+
+    expect(bundle.platform).toBe('ios');
+    expect(bundle.publicKey).toContain('BEGIN PGP PUBLIC KEY BLOCK');
+    expect(bundle.metadataSignature).toBeDefined();
+    expect(bundle.appAttestation).toEqual(attestation);
+    expect(bundle.deviceCheckToken).toBe('ZGV2aWNlY2hlY2s=');
+    expect(bundle.metadata.signals).toMatchObject({
+      'Location.Latitude': 40.7484,
+      'Location.Accuracy': 10,
+      'Location.Bearing': 180,
+      'Location.Time': 1700000000000,
+      DeviceID: 'E621E1F8-C36C-495A-93FC-0C247A3E6E5F',
+      FileHash: MEDIA_HASH,
+    });
+  });
+
+  it('infers the platform from files, then device metadata', () => {
+    expect(parseBundle(createSyntheticBundle()).platform).toBe('android');
+    expect(parseBundle(createSyntheticBundle({ ios: true })).platform).toBe('ios');
+  });
+});
+
+describe('App Attest', () => {
+  it('decodes the attested key and environment', () => {
+    const { attestation, keyId } = createAppAttestation({ clientData: MEDIA_HASH, development: true });
+    expect(parseAppAttestation(attestation)).toMatchObject({
+      format: 'apple-appattest',
+      keyId,
+      environment: 'development',
+      rpIdHash: bytesToHex(sha256(new TextEncoder().encode(APP_ID))),
+      counter: 0,
+    });
+    expect(parseAppAttestation(Buffer.from(attestation).toString('base64'))!.keyId).toBe(keyId);
+    expect(parseAppAttestation('not an attestation')).toBeNull();
+  });
+
+  it('verifies the chain, key identifier, nonce and App ID', async () => {
+    const { attestation, rootCert } = createAppAttestation({ clientData: MEDIA_HASH });
+    const result = await verifyAppAttestation(attestation, { trustedRoots: [rootCert], appId: APP_ID }, MEDIA_HASH);
+    expect(result!.verification).toEqual({
+      verified: true,
+      chainValid: true,
+      trustedRoot: 'Test App Attestation Root CA',
+      keyIdValid: true,
+      nonceValid: true,
+      appIdValid: true,
+      error: undefined,
+    });
+  });
+
+  it.each([
+    ['an untrusted root', {}, { trustedRoots: [] as Uint8Array[] }, MEDIA_HASH, /No trusted root/],
+    ['a credential ID for another key', { wrongKey: true }, {}, MEDIA_HASH, /Credential ID/],
+    ['different client data', {}, {}, 'f'.repeat(64), /nonce/],
+    ['another App ID', {}, { appId: 'OTHERTEAM1.com.example.app' }, MEDIA_HASH, /App ID/],
+    ['the development environment', { development: true }, {}, MEDIA_HASH, /development/],
+  ])('rejects %s', async (_, fixture, trust, mediaHash, error) => {
+    const { attestation, rootCert } = createAppAttestation({ clientData: MEDIA_HASH, ...fixture });
+    const result = await verifyAppAttestation(attestation, { trustedRoots: [rootCert], ...trust }, mediaHash);
+    expect(result!.verification!.verified).toBe(false);
+    expect(result!.verification!.error).toMatch(error);
+  });
+
+  it('does not verify an attestation without the attested media hash', async () => {
+    const { attestation, rootCert } = createAppAttestation({ clientData: MEDIA_HASH });
+    const result = await verifyAppAttestation(attestation, { trustedRoots: [rootCert] });
+    expect(result!.verification).toMatchObject({
+      verified: false,
+      chainValid: true,
+      keyIdValid: true,
+      nonceValid: undefined,
+      error: 'Leaf certificate nonce was not checked; the attested media hash is unknown',
+    });
+  });
+
+  it('is checked by verifyBundle when Apple\'s root is configured', async () => {
+    const keys = await createDeviceKeys();
+    const { attestation, rootCert } = createAppAttestation({ clientData: MEDIA_HASH });
+    const bundle = parseBundle(await createSignedBundle(keys, { ios: true, appAttestation: attestation }));
+
+    const unverified = await verifyBundle(bundle);
+    expect(unverified.valid).toBe(true);
+    expect(unverified.appAttest!.verification).toBeUndefined();
+
+    const verified = await verifyBundle(bundle, { appAttest: { trustedRoots: [rootCert] } });
+    expect(verified.valid).toBe(true);
+    expect(verified.appAttest!.verification!.nonceValid).toBe(true);
+
+    const other = createAppAttestation({ clientData: MEDIA_HASH });
+    const untrusted = await verifyBundle(bundle, { appAttest: { trustedRoots: [other.rootCert] } });
+    expect(untrusted.valid).toBe(false);
+  });
+
+  describe('stamps', () => {
+    it('record the platform and attestation', () => {
+      const { attestation } = createAppAttestation({ clientData: MEDIA_HASH });
+      const stamp = makeStamp(createSyntheticBundle({
+        ios: true, includeMedia: true, appAttestation: attestation, deviceCheckToken: 'ZGV2aWNlY2hlY2s=',
+      }));
+      expect(stamp.signals).toMatchObject({
+        Platform: 'ios',
+        'AppAttest.Attestation': Buffer.from(attestation).toString('base64'),
+        'DeviceCheck.Token': 'ZGV2aWNlY2hlY2s=',
+      });
+      expect(makeStamp(createSyntheticBundle()).signals.Platform).toBe('android');
+    });
+
+    it('are verified against Apple\'s root when configured', async () => {
+      const { attestation, rootCert } = createAppAttestation({ clientData: MEDIA_HASH });
+      const stamp = makeStamp(createSyntheticBundle({ ios: true, includeMedia: true, appAttestation: attestation }));
+
+      expect(codes(await verifyProofModeStamp(stamp))).toContain('APPATTEST_UNVERIFIED');
+      const verified = await verifyProofModeStamp(stamp, { appAttest: { trustedRoots: [rootCert] } });
+      expect(verified.details.checks.filter((c: { severity: string }) => c.severity === 'fail'))
+        .toEqual([expect.objectContaining({ code: 'SIGNATURES_UNVERIFIED' })]);
+      expect(codes(verified)).toContain('APPATTEST_VERIFIED');
+
+      const other = createAppAttestation({ clientData: MEDIA_HASH });
+      const invalid = await verifyProofModeStamp(stamp, { appAttest: { trustedRoots: [other.rootCert] } });
+      expect(invalid.valid).toBe(false);
+      expect(codes(invalid)).toContain('APPATTEST_INVALID');
+    });
+
+    it('satisfy a required attestation, which forensic also requires verified', async () => {
+      const { attestation } = createAppAttestation({ clientData: MEDIA_HASH });
+      const stamp = makeStamp(createSyntheticBundle({ ios: true, includeMedia: true, appAttestation: attestation }));
+
+      const required = await verifyProofModeStamp(stamp, { policy: { requireSafetyNet: true } });
+      expect(codes(required)).not.toContain('SAFETYNET_MISSING');
+
+      const forensic = await verifyProofModeStamp(stamp, { policy: 'forensic' });
+      const unverified = forensic.details.checks.find((c: { code: string }) => c.code === 'APPATTEST_UNVERIFIED');
+      expect(unverified.severity).toBe('fail');
+    });
+  });
+});
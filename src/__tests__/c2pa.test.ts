@@ -0,0 +1,213 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+import { parseBundle, extractJUMBF, parseJUMBF } from '../parse';
+import { readC2PAManifest, verifyC2PA } from '../c2pa';
+import { decodeCBOR, encodeCBOR, CBORTag } from '../crypto/cbor';
+import { resolvePolicy } from '../policy';
+import { verifyBundle } from '../verify-bundle';
+import { createStampFromBundle } from '../create';
+import { verifyProofModeStamp } from '../verify';
+import { createDeviceKeys, createSignedBundle, createSyntheticBundle } from './fixtures/create-fixture';
+import { createC2PAJPEG } from './fixtures/create-c2pa';
+import { createECKeyPair, createCertificate } from './fixtures/create-certificates';
+import type { LocationStamp } from '@decentralized-geo/astral-sdk/plugins';
+
+// Matches the synthetic bundle: Empire State Building, 2023-11-14T22:13:20Z
+const MATCHING_EXIF = {
+  'exif:GPSLatitude': '40,44.91N',
+  'exif:GPSLongitude': '73,59.136W',
+  'exif:DateTimeOriginal': '2023-11-14T17:13:25-05:00',
+};
+
+const policy = resolvePolicy('standard');
+
+function bundleWithMedia(media: Uint8Array) {
+  return parseBundle(createSyntheticBundle({ includeMedia: true, media }));
+}
+
+function makeStamp(media: Uint8Array): LocationStamp {
+  return {
+    ...createStampFromBundle(bundleWithMedia(media), '0.1.0'),
+    signatures: [
+      {
+        signer: { scheme: 'pgp-fingerprint', value: 'ABCD1234' },
+        algorithm: 'pgp',
+        value: 'fake-pgp-signature',
+        timestamp: 1700000000,
+      },
+    ],
+  };
+}
+
+describe('CBOR', () => {
+  it('round-trips the values COSE and C2PA use', () => {
+    const value = { a: [1, -1, 300, -70000], b: new Uint8Array([1, 2]), c: 'text', d: true, e: null };
+    expect(decodeCBOR(encodeCBOR(value))).toEqual(value);
+    expect(decodeCBOR(encodeCBOR(new Map([[1, -7]])))).toEqual({ '1': -7 });
+    const tagged = decodeCBOR(encodeCBOR(new CBORTag(18, []))) as CBORTag;
+    expect(tagged).toBeInstanceOf(CBORTag);
+    expect(tagged.tag).toBe(18);
+  });
+
+  it('decodes floats and indefinite lengths', () => {
+    expect(decodeCBOR(new Uint8Array([0xf9, 0x3c, 0x00]))).toBe(1);
+    expect(decodeCBOR(new Uint8Array([0xfb, 0x40, 0x09, 0x21, 0xfb, 0x54, 0x44, 0x2d, 0x18]))).toBeCloseTo(Math.PI);
+    expect(decodeCBOR(new Uint8Array([0x9f, 0x01, 0x02, 0xff]))).toEqual([1, 2]);
+    expect(decodeCBOR(new Uint8Array([0x7f, 0x61, 0x61, 0x61, 0x62, 0xff]))).toBe('ab');
+  });
+
+  it('rejects truncated input and trailing bytes', () => {
+    expect(() => decodeCBOR(new Uint8Array([0x82, 0x01]))).toThrow(/end of input/);
+    expect(() => decodeCBOR(new Uint8Array([0x01, 0x02]))).toThrow(/trailing/);
+  });
+});
+
+describe('C2PA', () => {
+  it('finds the manifest store in APP11 segments', () => {
+    const { jpeg } = createC2PAJPEG({ exif: MATCHING_EXIF, segmentSize: 200 });
+    const [jumbf] = extractJUMBF(jpeg);
+    const store = parseJUMBF(jumbf);
+    expect(store.label).toBe('c2pa');
+    expect(store.children[0].children.map(c => c.label)).toEqual([
+      'c2pa.assertions', 'c2pa.claim', 'c2pa.signature',
+    ]);
+  });
+
+  it('reads the active manifest without verifying it', () => {
+    const manifest = readC2PAManifest(createC2PAJPEG({ exif: MATCHING_EXIF }).jpeg)!;
+    expect(manifest).toMatchObject({
+      claimGenerator: 'ProofMode/1.0 c2pa-rs/0.30',
+      signatureAlgorithm: 'ES256',
+      signer: 'Test Camera Signer',
+      metadata: { captureTime: 1700000005, timeZoneKnown: true },
+    });
+    expect(manifest.assertions.map(a => a.label)).toEqual(['stds.exif', 'c2pa.hash.data']);
+    expect(manifest.metadata!.latitude).toBeCloseTo(40.7485, 4);
+    expect(readC2PAManifest(new TextEncoder().encode('synthetic-jpeg-bytes'))).toBeUndefined();
+  });
+
+  describe('verifyC2PA', () => {
+    it('verifies the signature, assertions and hard binding', async () => {
+      const { jpeg, rootCert } = createC2PAJPEG({ exif: MATCHING_EXIF, segmentSize: 300 });
+      const result = (await verifyC2PA(bundleWithMedia(jpeg), policy, { c2pa: { trustedRoots: [rootCert] } }))!;
+      expect(result).toMatchObject({
+        valid: true,
+        signatureValid: true,
+        chainValid: true,
+        trustedRoot: 'Test C2PA Root',
+        assertionsValid: true,
+        hardBindingValid: true,
+        consistent: true,
+        errors: [],
+      });
+      expect(result.checks.map(c => c.field)).toEqual(['location', 'time']);
+    });
+
+    it('checks the chain only with trusted roots configured, and is only valid once checked', async () => {
+      const { jpeg } = createC2PAJPEG({ exif: MATCHING_EXIF });
+      const other = createECKeyPair();
+      const otherRoot = createCertificate({
+        subject: 'Other Root', issuer: 'Other Root',
+        publicKey: other.publicKey, signingKey: other.privateKey, isCA: true,
+      });
+      const bundle = bundleWithMedia(jpeg);
+
+      const unanchored = (await verifyC2PA(bundle, policy))!;
+      expect(unanchored.valid).toBe(false);
+      expect(unanchored.signatureValid).toBe(true);
+      expect(unanchored.chainValid).toBeUndefined();
+      expect(unanchored.errors).toEqual(['Signing certificate chain was not checked; no C2PA trusted roots configured']);
+
+      const untrusted = (await verifyC2PA(bundle, policy, { c2pa: { trustedRoots: [otherRoot] } }))!;
+      expect(untrusted.valid).toBe(false);
+      expect(untrusted.chainValid).toBe(false);
+    });
+
+    it.each([
+      ['signature', 'signatureValid', /signature does not verify/],
+      ['assertion', 'assertionsValid', /stds.exif does not match/],
+      ['media', 'hardBindingValid', /hard binding/],
+    ] as const)('detects a tampered %s', async (tamper, field, error) => {
+      const { jpeg } = createC2PAJPEG({ exif: MATCHING_EXIF, tamper });
+      const result = (await verifyC2PA(bundleWithMedia(jpeg), policy))!;
+      expect(result.valid).toBe(false);
+      expect(result[field]).toBe(false);
+      expect(result.errors.join('; ')).toMatch(error);
+    });
+
+    it('is not valid with a hard binding it does not check', async () => {
+      const { jpeg, rootCert } = createC2PAJPEG({ exif: MATCHING_EXIF, bmffBinding: true });
+      const result = (await verifyC2PA(bundleWithMedia(jpeg), policy, { c2pa: { trustedRoots: [rootCert] } }))!;
+      expect(result).toMatchObject({ valid: false, signatureValid: true, chainValid: true, assertionsValid: true });
+      expect(result.hardBindingValid).toBeUndefined();
+      expect(result.errors).toEqual(['Manifest hard binding is not a c2pa.hash.data assertion and was not checked']);
+    });
+
+    it('flags assertions that disagree with the metadata', async () => {
+      const { jpeg, rootCert } = createC2PAJPEG({
+        exif: { 'exif:GPSLatitude': '48,51.504N', 'exif:GPSLongitude': '2,17.67E', 'exif:DateTimeOriginal': '2023-11-10T09:00:00Z' },
+      });
+      const result = (await verifyC2PA(bundleWithMedia(jpeg), policy, { c2pa: { trustedRoots: [rootCert] } }))!;
+      expect(result.valid).toBe(true);
+      expect(result.consistent).toBe(false);
+      expect(result.checks.filter(c => !c.matches).map(c => c.field)).toEqual(['location', 'time']);
+    });
+  });
+
+  it('makes the bundle invalid when the manifest does not verify', async () => {
+    const keys = await createDeviceKeys();
+    const { jpeg, rootCert } = createC2PAJPEG({ exif: MATCHING_EXIF });
+    const goodBundle = parseBundle(await createSignedBundle(keys, { media: jpeg }));
+    const good = await verifyBundle(goodBundle, { c2pa: { trustedRoots: [rootCert] } });
+    expect(good.valid).toBe(true);
+    expect(good.c2pa!.valid).toBe(true);
+
+    // Like an attestation's, the chain is only judged with roots configured
+    const unanchored = await verifyBundle(goodBundle);
+    expect(unanchored.valid).toBe(true);
+    expect(unanchored.c2pa!.valid).toBe(false);
+    expect((await verifyBundle(goodBundle, { c2pa: { trustedRoots: [createC2PAJPEG().rootCert] } })).valid).toBe(false);
+
+    const unbound = await verifyBundle(parseBundle(await createSignedBundle(keys, {
+      media: createC2PAJPEG({ exif: MATCHING_EXIF, bmffBinding: true }).jpeg,
+    })));
+    expect(unbound.valid).toBe(false);
+    expect(unbound.c2pa!.hardBindingValid).toBeUndefined();
+
+    const tampered = await verifyBundle(parseBundle(await createSignedBundle(keys, {
+      media: createC2PAJPEG({ exif: MATCHING_EXIF, tamper: 'assertion' }).jpeg,
+    })));
+    expect(tampered.valid).toBe(false);
+    expect(tampered.c2pa!.assertionsValid).toBe(false);
+  });
+
+  describe('stamps', () => {
+    it('carry the manifest signals and are cross-checked', async () => {
+      const stamp = makeStamp(createC2PAJPEG({ exif: MATCHING_EXIF }).jpeg);
+      expect(stamp.signals).toMatchObject({
+        'C2PA.ClaimGenerator': 'ProofMode/1.0 c2pa-rs/0.30',
+        'C2PA.Signer': 'Test Camera Signer',
+        'C2PA.Time': 1700000005,
+      });
+      expect(stamp.signals['C2PA.Manifest']).toMatch(/^urn:uuid:/);
+
+      const result = await verifyProofModeStamp(stamp);
+      const codes = result.details.checks.map((c: { code: string }) => c.code);
+      expect(codes).toContain('C2PA_CONSISTENT');
+    });
+
+    it('warn on a mismatch, and fail under the forensic policy', async () => {
+      const stamp = makeStamp(createC2PAJPEG({
+        exif: { ...MATCHING_EXIF, 'exif:GPSLatitude': '48,51.504N', 'exif:GPSLongitude': '2,17.67E' },
+      }).jpeg);
+
+      const standard = await verifyProofModeStamp(stamp);
+      const mismatch = standard.details.checks.find((c: { code: string }) => c.code === 'C2PA_LOCATION_MISMATCH');
+      expect(mismatch.severity).toBe('warn');
+
+      const forensic = await verifyProofModeStamp(stamp, { policy: 'forensic' });
+      expect(forensic.details.checks.find((c: { code: string }) => c.code === 'C2PA_LOCATION_MISMATCH').severity)
+        .toBe('fail');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+import { MemoryCellTowerDatabase, checkServingCell } from '../celltowers';
+import { parseBundle, parseCellInfo, parseCSV } from '../parse';
+import { createStampFromBundle } from '../create';
+import { verifyProofModeStamp } from '../verify';
+import { createSyntheticBundle } from './fixtures/create-fixture';
+import type { LocationStamp } from '@decentralized-geo/astral-sdk/plugins';
+
+const TOWERS_CSV = [
+  'radio,mcc,net,area,cell,unit,lon,lat,range,samples,changeable,created,updated,averageSignal',
+  // ~300m from the Empire State Building fixture location
+  'GSM,310,260,12345,67890,0,-73.9880,40.7500,1000,12,1,1459692000,1680000000,0',
+  'LTE,310,260,1234,5678901,0,-0.1246,51.5007,2000,40,1,1459692000,1680000000,0',
+  'not,a,valid,row',
+].join('\n');
+
+function makeStamp(): LocationStamp {
+  const unsigned = createStampFromBundle(parseBundle(createSyntheticBundle()), '0.1.0');
+  return {
+    ...unsigned,
+    signatures: [
+      {
+        signer: { scheme: 'pgp-fingerprint', value: 'ABCD1234' },
+        algorithm: 'pgp',
+        value: 'fake-pgp-signature',
+        timestamp: 1700000000,
+      },
+    ],
+  };
+}
+
+describe('CellInfo', () => {
+  describe('parseCellInfo', () => {
+    it('parses colon-separated identifiers', () => {
+      expect(parseCellInfo('310:260:12345:67890')).toEqual([
+        { mcc: 310, mnc: 260, lac: 12345, cid: 67890 },
+      ]);
+      expect(parseCellInfo('LTE:310:260:1234:5678901:-95; GSM:310:260:42:7')).toEqual([
+        { type: 'lte', mcc: 310, mnc: 260, lac: 1234, cid: 5678901, signalStrength: -95 },
+        { type: 'gsm', mcc: 310, mnc: 260, lac: 42, cid: 7 },
+      ]);
+    });
+
+    it('parses Android CellInfo toString() output', () => {
+      const text =
+        'CellInfoLte:{mRegistered=YES mTimeStamp=123ns CellIdentityLte:{ mCi=5678901 mPci=101 ' +
+        'mTac=1234 mEarfcn=5230 mMcc=310 mMnc=260} CellSignalStrengthLte: rssi=-71 rsrp=-95 level=3}' +
+        'CellInfoGsm:{mRegistered=NO CellIdentityGsm:{ mLac=42 mCid=7 mMcc=310 mMnc=2147483647}}';
+      expect(parseCellInfo(text)).toEqual([
+        { type: 'lte', mcc: 310, mnc: 260, tac: 1234, cid: 5678901, pci: 101, signalStrength: -71, registered: true },
+        { type: 'gsm', mcc: 310, lac: 42, cid: 7, registered: false },
+      ]);
+    });
+
+    it('parses JSON arrays and ignores unrecognised text', () => {
+      expect(parseCellInfo('[{"mcc":310,"mnc":260,"lac":42,"cid":7}]')).toEqual([
+        { mcc: 310, mnc: 260, lac: 42, cid: 7 },
+      ]);
+      expect(parseCellInfo('unknown')).toEqual([]);
+      expect(parseCellInfo('[not json')).toEqual([]);
+    });
+
+    it('fills Cells from the CellInfo signal', () => {
+      const { signals } = parseCSV('CellInfo,310:260:12345:67890');
+      expect(signals.CellInfo).toBe('310:260:12345:67890');
+      expect(signals.Cells).toEqual([{ mcc: 310, mnc: 260, lac: 12345, cid: 67890 }]);
+    });
+  });
+
+  describe('MemoryCellTowerDatabase', () => {
+    it('loads an OpenCellID CSV and looks towers up by LAC or TAC', async () => {
+      const db = MemoryCellTowerDatabase.fromCSV(TOWERS_CSV);
+      const gsm = await db.getCellTower({ mcc: 310, mnc: 260, lac: 12345, cid: 67890 });
+      expect(gsm).toMatchObject({ radio: 'GSM', latitude: 40.75, longitude: -73.988, range: 1000 });
+
+      const lte = await db.getCellTower({ type: 'lte', mcc: 310, mnc: 260, tac: 1234, cid: 5678901 });
+      expect(lte!.latitude).toBe(51.5007);
+      expect(await db.getCellTower({ mcc: 310, mnc: 260, lac: 1, cid: 1 })).toBeUndefined();
+    });
+
+    it('loads files without a header row', async () => {
+      const db = MemoryCellTowerDatabase.fromCSV(TOWERS_CSV.split('\n').slice(1).join('\n'));
+      expect(await db.getCellTower({ mcc: 310, mnc: 260, lac: 12345, cid: 67890 })).toBeDefined();
+    });
+  });
+
+  describe('cross-check', () => {
+    const db = MemoryCellTowerDatabase.fromCSV(TOWERS_CSV);
+
+    it('accepts a fix within the serving tower range', async () => {
+      const check = await checkServingCell(makeStamp().signals, db, 1000);
+      expect(check!.consistent).toBe(true);
+      expect(check!.distance).toBeGreaterThan(200);
+      expect(check!.distance).toBeLessThan(400);
+      expect(check!.allowedDistance).toBe(1000 + 10 + 1000);
+    });
+
+    it('flags a fix implausibly far from the serving tower', async () => {
+      const stamp = makeStamp();
+      stamp.signals['CellInfo'] = 'LTE:310:260:1234:5678901';
+      delete stamp.signals['Cells'];
+
+      const result = await verifyProofModeStamp(stamp, { cellTowers: db });
+      expect(result.details.checks).toContainEqual(
+        expect.objectContaining({ code: 'CELL_TOWER_TOO_FAR', severity: 'warn', category: 'signals' })
+      );
+      expect(result.signalsConsistent).toBe(true);
+
+      const forensic = await verifyProofModeStamp(stamp, { cellTowers: db, policy: 'forensic' });
+      expect(forensic.signalsConsistent).toBe(false);
+    });
+
+    it('reports towers missing from the database', async () => {
+      const result = await verifyProofModeStamp(makeStamp(), {
+        cellTowers: new MemoryCellTowerDatabase(),
+      });
+      expect(result.details.checks).toContainEqual(
+        expect.objectContaining({ code: 'CELL_TOWER_UNKNOWN', severity: 'info' })
+      );
+    });
+  });
+});
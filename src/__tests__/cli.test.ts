@@ -0,0 +1,179 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { unzipSync, zipSync } from 'fflate';
+import { EXIT_ERROR, EXIT_INVALID, EXIT_OK, run } from '../cli';
+import { expandPaths } from '../cli/glob';
+import {
+  createDeviceKeys,
+  createMultiItemBundle,
+  createSignedBundle,
+  createSyntheticBundle,
+} from './fixtures/create-fixture';
+
+/** Run the CLI, capturing its output. */
+async function cli(...argv: string[]) {
+  let stdout = '';
+  let stderr = '';
+  const code = await run(argv, { stdout: t => { stdout += t; }, stderr: t => { stderr += t; } });
+  return { code, stdout, stderr };
+}
+
+describe('proofmode CLI', () => {
+  let dir: string;
+  let signed: string;
+  let unsigned: string;
+  let batch: string;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'proofmode-cli-'));
+    mkdirSync(join(dir, 'batch', 'day-2'), { recursive: true });
+    signed = join(dir, 'signed.zip');
+    unsigned = join(dir, 'batch', 'unsigned.zip');
+    batch = join(dir, 'batch', 'day-2', 'export.zip');
+    writeFileSync(signed, await createSignedBundle(await createDeviceKeys()));
+    writeFileSync(unsigned, createSyntheticBundle());
+    writeFileSync(batch, createMultiItemBundle([
+      { mediaName: 'a.jpg', media: new TextEncoder().encode('a') },
+      { mediaName: 'b.jpg', media: new TextEncoder().encode('b'), timestamp: 1700000060000 },
+    ]));
+  });
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('inspects classified files and signals', async () => {
+    const { code, stdout } = await cli('inspect', signed);
+    expect(code).toBe(EXIT_OK);
+    expect(stdout).toMatch(/pubkey\.asc\s+\d+ B {2}public key/);
+    expect(stdout).toMatch(/\.proof\.csv\.asc\s+\d+ B {2}proof csvSignature/);
+    expect(stdout).toMatch(/test-photo\.jpg\.asc\s+\d+ B {2}media signature/);
+    expect(stdout).toContain('item 1 of 1: android, test-photo.jpg');
+    expect(stdout).toMatch(/Location\.Latitude\s+40\.7484/);
+
+    const json = JSON.parse((await cli('inspect', '--json', batch)).stdout);
+    expect(json[0].items.map((i: { mediaFileName: string }) => i.mediaFileName)).toEqual(['a.jpg', 'b.jpg']);
+    expect(json[0].entries.find((e: { name: string }) => e.name === 'a.jpg')).toMatchObject({ kind: 'media', size: 1 });
+    expect(json[0].unmatchedMedia).toEqual([]);
+
+    const stray = join(dir, 'stray.bundle');
+    writeFileSync(stray, zipSync({ ...unzipSync(readFileSync(batch)), 'c.jpg': new TextEncoder().encode('c') }));
+    expect((await cli('inspect', stray)).stdout).toContain('unmatched media (no proof item): c.jpg');
+  });
+
+  it('prints stamp JSON, one object per item', async () => {
+    const single = await cli('create', '--shape', 'circle', signed);
+    expect(single.code).toBe(EXIT_OK);
+    const stamp = JSON.parse(single.stdout);
+    expect(stamp).toMatchObject({ lpVersion: '0.2', srs: expect.any(String), location: { type: 'Polygon' } });
+    expect(stamp.signatures).toHaveLength(2);
+
+    const many = JSON.parse((await cli('create', signed, batch)).stdout);
+    expect(many).toHaveLength(3);
+  });
+
+  it('verifies bundles and stamp files with exit codes', async () => {
+    const good = await cli('verify', signed);
+    expect(good.code).toBe(EXIT_OK);
+    expect(good.stdout).toMatch(/signed\.zip {2}VALID/);
+    expect(good.stdout).toContain('bundle  ok (signatures 2/2, media ok, key ');
+    expect(good.stdout).toContain('1 of 1 verified');
+
+    const bad = await cli('verify', signed, unsigned);
+    expect(bad.code).toBe(EXIT_INVALID);
+    expect(bad.stdout).toMatch(/unsigned\.zip {2}INVALID/);
+    expect(bad.stdout).toMatch(/fail {2}SIGNATURES_MISSING/);
+    expect(bad.stdout).toContain('1 of 2 verified');
+
+    const stampFile = join(dir, 'stamp.json');
+    writeFileSync(stampFile, (await cli('create', '--mode', 'destructured', signed)).stdout);
+    const fromStamp = await cli('verify', '--json', stampFile);
+    expect(fromStamp.code).toBe(EXIT_OK);
+    expect(JSON.parse(fromStamp.stdout)).toMatchObject({
+      valid: true,
+      results: [{ file: stampFile, valid: true, stamp: { structureValid: true } }],
+    });
+  });
+
+  it('does not pass stamp files whose signatures it cannot check', async () => {
+    const undestructured = join(dir, 'undestructured.json');
+    writeFileSync(undestructured, (await cli('create', '--mode', 'undestructured', signed)).stdout);
+    const result = await cli('verify', undestructured);
+    expect(result.code).toBe(EXIT_INVALID);
+    expect(result.stdout).toMatch(/undestructured\.json {2}INVALID/);
+    expect(result.stdout).toMatch(/fail {2}SIGNATURES_UNVERIFIED/);
+
+    const forged = join(dir, 'forged.json');
+    const stamp = JSON.parse((await cli('create', '--mode', 'destructured', signed)).stdout);
+    const signer = { scheme: 'pgp-fingerprint', value: 'ABCD1234' };
+    writeFileSync(forged, JSON.stringify({ ...stamp, signatures: [{ ...stamp.signatures[0], signer }] }));
+    const forgedResult = await cli('verify', forged);
+    expect(forgedResult.code).toBe(EXIT_INVALID);
+    expect(forgedResult.stdout).toMatch(/fail {2}SIGNATURES_UNVERIFIED/);
+  });
+
+  it('applies the policy and records keys in the registry', async () => {
+    const registryFile = join(dir, 'keys.json');
+    const first = await cli('verify', '--verbose', '--mode', 'destructured', '--key-registry', registryFile, signed);
+    expect(first.stdout).toContain('key new');
+    // The key recorded by the bundle check is not a prior sighting for its stamp
+    expect(first.stdout).not.toMatch(/KEY_(KNOWN|UNVERIFIED)/);
+    expect(JSON.parse(readFileSync(registryFile, 'utf8')).keys).toHaveLength(1);
+    expect((await cli('verify', '--key-registry', registryFile, signed)).stdout).toContain('key known');
+
+    const forensic = await cli('verify', '--policy', 'forensic', signed);
+    expect(forensic.code).toBe(EXIT_INVALID);
+  });
+
+  it('expands quoted globs', async () => {
+    const result = JSON.parse((await cli('verify', '--json', join(dir, 'batch', '**', '*.zip'))).stdout);
+    expect(result.results.map((r: { file: string; item?: number }) => [r.file, r.item])).toEqual([
+      [batch, 0], [batch, 1], [unsigned, 0],
+    ]);
+    expect(await expandPaths([join(dir, '*.zip'), signed])).toEqual([signed]);
+    await expect(expandPaths([join(dir, '*.tar')])).rejects.toThrow(/No files match/);
+  });
+
+  it('reports unreadable files and carries on with the rest', async () => {
+    const broken = join(dir, 'broken.bundle');
+    writeFileSync(broken, new TextEncoder().encode('not a zip'));
+
+    const verified = await cli('verify', broken, signed);
+    expect(verified.code).toBe(EXIT_ERROR);
+    expect(verified.stdout).toMatch(/broken\.bundle {2}INVALID\n {2}error {3}/);
+    expect(verified.stdout).toMatch(/signed\.zip {2}VALID/);
+    expect(verified.stdout).toContain('1 of 2 verified');
+    const json = JSON.parse((await cli('verify', '--json', broken, signed)).stdout);
+    expect(json.valid).toBe(false);
+    expect(json.results[0]).toEqual({ file: broken, valid: false, error: expect.any(String) });
+
+    const inspected = await cli('inspect', broken, signed);
+    expect(inspected.code).toBe(EXIT_ERROR);
+    expect(inspected.stderr).toContain(`proofmode inspect: ${broken}: `);
+    expect(inspected.stdout).toContain('item 1 of 1: android, test-photo.jpg');
+
+    const created = await cli('create', broken, signed);
+    expect(created.code).toBe(EXIT_ERROR);
+    expect(created.stderr).toContain(`proofmode create: ${broken}: `);
+    expect(JSON.parse(created.stdout)).toMatchObject({ lpVersion: '0.2' });
+  });
+
+  it('reports usage and input errors with exit code 2', async () => {
+    expect((await cli('--help')).stdout).toContain('Usage: proofmode');
+    expect((await cli('--version')).stdout).toMatch(/^\d+\.\d+\.\d+/);
+
+    for (const argv of [[], ['frobnicate', signed], ['verify'], ['verify', '--bogus', signed],
+      ['create', '--shape', 'hexagon', signed]]) {
+      const { code, stderr } = await cli(...argv);
+      expect(code).toBe(EXIT_ERROR);
+      expect(stderr).toContain('Usage: proofmode');
+    }
+
+    const missing = await cli('inspect', join(dir, 'missing.zip'));
+    expect(missing.code).toBe(EXIT_ERROR);
+    expect(missing.stderr).toMatch(/^proofmode inspect: .*ENOENT/);
+    expect((await cli('verify', '--policy', 'paranoid', signed)).code).toBe(EXIT_ERROR);
+    expect((await cli('verify', join(dir, '*.tar'))).stderr).toContain('No files match');
+  });
+});
@@ -1,16 +1,24 @@
 // Copyright © 2026 Sophia Systems Corporation
 
+import { unzipSync, zipSync } from 'fflate';
 import { ProofModePlugin } from '../index';
 import { parseBundle } from '../parse';
-import { createStampFromBundle } from '../create';
-import { createSyntheticBundle } from './fixtures/create-fixture';
+import { createLocationStampFromBundle, stampSignatures } from '../create';
+import { verifyProofModeStamp } from '../verify';
+import { verifyBundle } from '../verify-bundle';
+import {
+  createDeviceKeys,
+  createMultiItemBundle,
+  createSignedBundle,
+  createSyntheticBundle,
+} from './fixtures/create-fixture';
 import type { RawSignals } from '@decentralized-geo/astral-sdk/plugins';
 
 describe('ProofModePlugin.create()', () => {
   const plugin = new ProofModePlugin();
 
-  it('creates an UnsignedLocationStamp from signals with zipData', async () => {
-    const zipData = createSyntheticBundle();
+  it('creates a LocationStamp from signals with zipData', async () => {
+    const zipData = await createSignedBundle(await createDeviceKeys());
     const signals: RawSignals = {
       plugin: 'proofmode',
       timestamp: Math.floor(Date.now() / 1000),
@@ -27,8 +35,8 @@ describe('ProofModePlugin.create()', () => {
     expect(stamp.signals['Location.Longitude']).toBe(-73.9857);
   });
 
-  it('matches output of parseBundle + createStampFromBundle', async () => {
-    const zipData = createSyntheticBundle();
+  it('matches output of parseBundle + createLocationStampFromBundle', async () => {
+    const zipData = await createSignedBundle(await createDeviceKeys());
 
     // Standard interface
     const signals: RawSignals = {
@@ -40,11 +48,104 @@ describe('ProofModePlugin.create()', () => {
 
     // Direct convenience methods
     const bundle = parseBundle(zipData);
-    const viaDirect = createStampFromBundle(bundle, plugin.version);
+    const viaDirect = await createLocationStampFromBundle(bundle, plugin.version, {
+      verification: await verifyBundle(bundle),
+    });
 
     expect(viaCreate).toEqual(viaDirect);
   });
 
+  it('refuses a bundle whose metadata no longer matches its signature', async () => {
+    const keys = await createDeviceKeys();
+    const files = unzipSync(await createSignedBundle(keys));
+    const csvName = Object.keys(files).find(n => n.endsWith('.proof.csv'))!;
+    const csv = new TextDecoder().decode(files[csvName]);
+    files[csvName] = new TextEncoder().encode(csv.replace('40.7484', '48.8584'));
+    const zipData = zipSync(files);
+    const bundle = parseBundle(zipData);
+
+    const verification = await verifyBundle(bundle);
+    expect(verification.valid).toBe(false);
+    expect(verification.signatures.map(s => s.valid)).toEqual([false, true]);
+
+    await expect(plugin.create({ plugin: 'proofmode', timestamp: 1700000000, data: { zipData } }))
+      .rejects.toThrow(/metadata signature verifies/);
+    await expect(plugin.create({ plugin: 'proofmode', timestamp: 1700000000, data: { zipData: createSyntheticBundle() } }))
+      .rejects.toThrow(/metadata signature verifies/);
+
+    // Only the media signature still verifies, and it alone does not vouch for the stamp
+    const stamp = await createLocationStampFromBundle(bundle, plugin.version, { verification });
+    expect(stamp.signals['Location.Latitude']).toBe(48.8584);
+    expect(stamp.signatures).toHaveLength(1);
+    const result = await verifyProofModeStamp(stamp);
+    expect(result.valid).toBe(false);
+    expect(result.details.checks).toContainEqual(
+      expect.objectContaining({ code: 'SIGNATURES_UNVERIFIED', severity: 'fail' })
+    );
+  });
+
+  it('signs the stamp with the device\'s PGP signatures', async () => {
+    const keys = await createDeviceKeys();
+    const zipData = await createSignedBundle(keys);
+    const signals: RawSignals = {
+      plugin: 'proofmode',
+      timestamp: Math.floor(Date.now() / 1000),
+      data: { zipData },
+    };
+
+    const stamp = await plugin.create(signals);
+    const { keyFingerprint, signatures } = await verifyBundle(parseBundle(zipData));
+
+    expect(stamp.signatures).toHaveLength(2);
+    stamp.signatures.forEach((signature: { value: string }, i: number) => {
+      expect(signature).toMatchObject({
+        signer: { scheme: 'pgp-fingerprint', value: keyFingerprint },
+        algorithm: 'pgp',
+        timestamp: signatures[i].signatureCreated,
+      });
+      expect(signature.value).toMatch(/^-----BEGIN PGP SIGNATURE-----/);
+    });
+
+    // Without destructured evidence the stamp's signatures cannot be checked
+    const result = await verifyProofModeStamp(stamp);
+    expect(result.signaturesValid).toBe(false);
+    const destructured = await plugin.create({ ...signals, data: { zipData, mode: 'destructured' } });
+    expect((await verifyProofModeStamp(destructured)).signaturesValid).toBe(true);
+  });
+
+  it('names the issuer when the bundle has no public key', async () => {
+    const keys = await createDeviceKeys();
+    const bundle = parseBundle(await createSignedBundle(keys));
+    const verification = await verifyBundle(bundle);
+    const withKey = await stampSignatures(bundle, verification);
+    const withoutKey = await stampSignatures({ ...bundle, publicKey: undefined }, verification);
+    expect(withKey).toHaveLength(2);
+    expect(withoutKey.map((s: { signer: unknown }) => s.signer))
+      .toEqual(withKey.map((s: { signer: unknown }) => s.signer));
+  });
+
+  it('createAll() creates one stamp per item in a batch export', async () => {
+    const encoder = new TextEncoder();
+    const zipData = createMultiItemBundle([
+      { lat: 40.7484, lon: -73.9857, media: encoder.encode('photo-1'), mediaName: 'IMG_0001.jpg' },
+      { lat: 51.5007, lon: -0.1246, media: encoder.encode('photo-2'), mediaName: 'IMG_0002.jpg' },
+    ]);
+    const signals: RawSignals = {
+      plugin: 'proofmode',
+      timestamp: Math.floor(Date.now() / 1000),
+      data: { zipData },
+    };
+
+    const stamps = await plugin.createAll(signals);
+
+    expect(stamps).toHaveLength(2);
+    expect(stamps.map(s => s.location)).toEqual([
+      { type: 'Point', coordinates: [-73.9857, 40.7484] },
+      { type: 'Point', coordinates: [-0.1246, 51.5007] },
+    ]);
+    expect(stamps[0].signals['FileHash']).not.toBe(stamps[1].signals['FileHash']);
+  });
+
   it('throws if zipData is missing', async () => {
     const signals: RawSignals = {
       plugin: 'proofmode',
@@ -0,0 +1,147 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+import { ProofModePlugin } from '../index';
+import { parseBundle } from '../parse';
+import { createStampFromBundle } from '../create';
+import { archiveMatchesStamp, bundleFromStamp } from '../evidence';
+import { verifyProofModeStamp } from '../verify';
+import {
+  createDeviceKeys,
+  createSignedBundle,
+  createSyntheticBundle,
+} from './fixtures/create-fixture';
+import type { LocationStamp, UnsignedLocationStamp } from '@decentralized-geo/astral-sdk/plugins';
+
+function sign(unsigned: UnsignedLocationStamp): LocationStamp {
+  return {
+    ...unsigned,
+    signatures: [
+      {
+        signer: { scheme: 'pgp-fingerprint', value: 'ABCD1234' },
+        algorithm: 'pgp',
+        value: 'fake-pgp-signature',
+        timestamp: 1700000000,
+      },
+    ],
+  };
+}
+
+describe('stamp evidence', () => {
+  let keys: { privateKey: string; publicKey: string };
+  let zipData: Uint8Array;
+
+  beforeAll(async () => {
+    keys = await createDeviceKeys();
+    zipData = await createSignedBundle(keys);
+  });
+
+  describe('destructured mode', () => {
+    it('embeds the signed metadata, signatures and public key', () => {
+      const bundle = parseBundle(zipData);
+      const stamp = createStampFromBundle(bundle, '0.1.0', { mode: 'destructured' });
+
+      expect(stamp.signals['Bundle.Mode']).toBe('destructured');
+      expect(stamp.signals['Bundle.PublicKey']).toBe(keys.publicKey);
+      expect(stamp.signals['Bundle.MetadataFormat']).toBe('csv');
+
+      const rebuilt = bundleFromStamp(stamp);
+      expect(rebuilt.signedMetadata).toEqual(bundle.signedMetadata);
+      expect(rebuilt.metadataSignature).toEqual(bundle.metadataSignature);
+      expect(rebuilt.mediaSignature).toEqual(bundle.mediaSignature);
+      expect(rebuilt.metadata.signals).toEqual(bundle.metadata.signals);
+      expect(rebuilt.mediaFile).toBeUndefined();
+    });
+
+    it('re-verifies the embedded signature without the ZIP', async () => {
+      const plugin = new ProofModePlugin();
+      const stamp = await plugin.create({
+        plugin: 'proofmode',
+        timestamp: Math.floor(Date.now() / 1000),
+        data: { zipData, mode: 'destructured' },
+      });
+
+      const result = await verifyProofModeStamp(stamp);
+      expect(result.valid).toBe(true);
+      const evidence = result.details.embeddedEvidence as { valid: boolean; keyFingerprint: string };
+      expect(evidence.valid).toBe(true);
+      expect(evidence.keyFingerprint).toMatch(/^[0-9A-F]{40}$/);
+
+      // Signatures from any other key are not vouched for by the evidence
+      const forged = await verifyProofModeStamp(sign(stamp));
+      expect(forged.signaturesValid).toBe(false);
+      expect(forged.details.checks).toContainEqual(
+        expect.objectContaining({ code: 'SIGNATURES_UNVERIFIED', severity: 'fail', value: [0] })
+      );
+    });
+
+    it('fails when the stamp location differs from the signed metadata', async () => {
+      const stamp = await new ProofModePlugin().create({
+        plugin: 'proofmode',
+        timestamp: Math.floor(Date.now() / 1000),
+        data: { zipData, mode: 'destructured' },
+      });
+      const moved = { ...stamp, location: { type: 'Point', coordinates: [2.2945, 48.8584] } };
+
+      const result = await verifyProofModeStamp(moved);
+      expect(result.signaturesValid).toBe(true);
+      expect(result.signalsConsistent).toBe(false);
+      expect(result.details.checks).toContainEqual(
+        expect.objectContaining({ code: 'EMBEDDED_LOCATION_MISMATCH', severity: 'fail' })
+      );
+    });
+
+    it('fails when the embedded metadata was tampered with', async () => {
+      const stamp = createStampFromBundle(parseBundle(zipData), '0.1.0', { mode: 'destructured' });
+      const metadata = Buffer.from(stamp.signals['Bundle.Metadata'] as string, 'base64');
+      metadata[metadata.length - 1] ^= 0x01;
+      stamp.signals['Bundle.Metadata'] = metadata.toString('base64');
+
+      const result = await verifyProofModeStamp(sign(stamp));
+      expect(result.signaturesValid).toBe(false);
+      expect(result.valid).toBe(false);
+    });
+
+    it('requires a signed metadata file', () => {
+      const bundle = { ...parseBundle(createSyntheticBundle()), metadataSignature: undefined };
+      expect(() => createStampFromBundle(bundle, '0.1.0', { mode: 'destructured' })).toThrow(
+        'Destructured mode requires a signed metadata file'
+      );
+    });
+  });
+
+  describe('un-destructured mode', () => {
+    it('records the archive hash and matches only the original ZIP', () => {
+      const stamp = createStampFromBundle(parseBundle(zipData), '0.1.0', {
+        mode: 'undestructured',
+        archive: zipData,
+      });
+
+      expect(stamp.signals['Bundle.Mode']).toBe('undestructured');
+      expect(stamp.signals['Bundle.SHA256']).toMatch(/^[0-9a-f]{64}$/);
+      expect(stamp.signals['Bundle.Size']).toBe(zipData.length);
+      expect(stamp.signals['Bundle.Metadata']).toBeUndefined();
+
+      expect(archiveMatchesStamp(stamp, zipData)).toBe(true);
+      const altered = new Uint8Array(zipData);
+      altered[10] ^= 0x01;
+      expect(archiveMatchesStamp(stamp, altered)).toBe(false);
+    });
+
+    it('requires the archive bytes', () => {
+      expect(() =>
+        createStampFromBundle(parseBundle(zipData), '0.1.0', { mode: 'undestructured' })
+      ).toThrow('Un-destructured mode requires the original archive bytes');
+    });
+  });
+
+  it('rejects an unknown mode in create()', async () => {
+    const plugin = new ProofModePlugin();
+    await expect(
+      plugin.create({
+        plugin: 'proofmode',
+        timestamp: Math.floor(Date.now() / 1000),
+        data: { zipData, mode: 'compressed' },
+      })
+    ).rejects.toThrow("Unknown ProofMode stamp mode 'compressed'");
+  });
+});
@@ -0,0 +1,138 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Creates JPEGs carrying a signed C2PA manifest store for testing: a JUMBF
+ * tree with `stds.exif` and `c2pa.hash.data` assertions, a CBOR claim and
+ * an ES256 COSE_Sign1 signature by a test certificate chain.
+ * Not a test file.
+ */
+
+import { createHash, sign } from 'crypto';
+import { CBORTag, encodeCBOR } from '../../crypto/cbor';
+import { createCertificate, createECKeyPair } from './create-certificates';
+
+const encoder = new TextEncoder();
+
+const be16 = (n: number) => [n >> 8, n & 0xff];
+const be32 = (n: number) => [n >>> 24, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+const sha256 = (data: Uint8Array) => new Uint8Array(createHash('sha256').update(data).digest());
+
+/** C2PA JUMBF content type UUIDs: a 4-character code then a fixed suffix. */
+const uuid = (code: string) => [...encoder.encode(code), ...Buffer.from('00110010800000aa00389b71', 'hex')];
+
+const box = (type: string, payload: Uint8Array | number[]) => [...be32(payload.length + 8), ...encoder.encode(type), ...payload];
+
+/** A `jumb` superbox with a requestable, labelled description box. */
+function superbox(code: string, label: string, contents: number[]): number[] {
+  const description = box('jumd', [...uuid(code), 0x03, ...encoder.encode(label), 0]);
+  return box('jumb', [...description, ...contents]);
+}
+
+export interface C2PAFixtureOptions {
+  /** `stds.exif` assertion properties; omit for no assertion */
+  exif?: Record<string, string>;
+  claimGenerator?: string;
+  /** Largest JUMBF payload per APP11 segment (default 60000) */
+  segmentSize?: number;
+  /** Corrupt one part after signing */
+  tamper?: 'signature' | 'assertion' | 'media';
+  /** Label the hard binding `c2pa.hash.bmff`, which is not checked */
+  bmffBinding?: boolean;
+}
+
+/**
+ * A JPEG with a C2PA manifest in APP11 right after SOI. Returns the file
+ * and the root certificate the claim signer chains to.
+ */
+export function createC2PAJPEG(options: C2PAFixtureOptions = {}) {
+  const root = createECKeyPair();
+  const signer = createECKeyPair();
+  const rootCert = createCertificate({
+    subject: 'Test C2PA Root', issuer: 'Test C2PA Root',
+    publicKey: root.publicKey, signingKey: root.privateKey, isCA: true,
+  });
+  const signerCert = createCertificate({
+    subject: 'Test Camera Signer', issuer: 'Test C2PA Root',
+    publicKey: signer.publicKey, signingKey: root.privateKey,
+  });
+
+  const segment = (marker: number, payload: number[]) => [0xff, marker, ...be16(payload.length + 2), ...payload];
+  const image = [
+    ...segment(0xe0, [...encoder.encode('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 0, 0]),
+    ...segment(0xda, [1, 1, 0, 0, 0x3f, 0]),
+    1, 2, 3, 4,
+    0xff, 0xd9,
+  ];
+  // Everything but the manifest segments is hashed
+  const assetHash = sha256(new Uint8Array([0xff, 0xd8, ...image]));
+
+  const buildStore = (excludedLength: number) => {
+    const assertions: Array<{ label: string; box: number[]; signed: number[] }> = [];
+    if (options.exif) {
+      const json = JSON.stringify({ '@context': { exif: 'http://ns.adobe.com/exif/1.0/' }, ...options.exif });
+      const signedBox = superbox('json', 'stds.exif', box('json', encoder.encode(json)));
+      const embedded = options.tamper === 'assertion'
+        ? superbox('json', 'stds.exif', box('json', encoder.encode(json.replace(/\d/, d => String((+d + 1) % 10)))))
+        : signedBox;
+      assertions.push({ label: 'stds.exif', box: embedded, signed: signedBox });
+    }
+    const bindingLabel = options.bmffBinding ? 'c2pa.hash.bmff' : 'c2pa.hash.data';
+    const hashData = superbox('cbor', bindingLabel, box('cbor', encodeCBOR({
+      exclusions: [{ start: 2, length: excludedLength }],
+      name: 'jumbf manifest',
+      alg: 'sha256',
+      hash: assetHash,
+      pad: new Uint8Array(0),
+    })));
+    assertions.push({ label: bindingLabel, box: hashData, signed: hashData });
+
+    const claim = encodeCBOR({
+      claim_generator: options.claimGenerator ?? 'ProofMode/1.0 c2pa-rs/0.30',
+      signature: 'self#jumbf=c2pa.signature',
+      assertions: assertions.map(a => ({
+        url: `self#jumbf=c2pa.assertions/${a.label}`,
+        hash: sha256(new Uint8Array(a.signed.slice(8))),
+      })),
+      alg: 'sha256',
+      'dc:format': 'image/jpeg',
+      instanceID: 'xmp:iid:5e9cf3a0-0000-4000-8000-000000000001',
+    });
+
+    const protectedHeader = encodeCBOR(new Map<number, unknown>([[1, -7], [33, signerCert]]));
+    const toBeSigned = encodeCBOR(['Signature1', protectedHeader, new Uint8Array(0), claim]);
+    const signature = new Uint8Array(sign('sha256', toBeSigned, { key: signer.privateKey, dsaEncoding: 'ieee-p1363' }));
+    if (options.tamper === 'signature') signature[0] ^= 0xff;
+    const cose = encodeCBOR(new CBORTag(18, [protectedHeader, {}, null, signature]));
+
+    const manifest = superbox('c2ma', 'urn:uuid:0f4b8a8e-0000-4000-8000-000000000001', [
+      ...superbox('c2as', 'c2pa.assertions', assertions.flatMap(a => a.box)),
+      ...superbox('c2cl', 'c2pa.claim', box('cbor', claim)),
+      ...superbox('c2cs', 'c2pa.signature', box('cbor', cose)),
+    ]);
+    return superbox('c2pa', 'c2pa', manifest);
+  };
+
+  const app11 = (store: number[]) => {
+    const size = options.segmentSize ?? 60000;
+    const segments: number[] = [];
+    for (let at = 0, z = 1; at < store.length; at += size, z++) {
+      const header = at === 0 ? [] : store.slice(0, 8);
+      segments.push(...segment(0xeb, [
+        ...encoder.encode('JP'), ...be16(1), ...be32(z), ...header, ...store.slice(at, at + size),
+      ]));
+    }
+    return segments;
+  };
+
+  // The exclusion length is part of what it measures; settle it
+  let excluded = 0;
+  let segments = app11(buildStore(excluded));
+  while (segments.length !== excluded) {
+    excluded = segments.length;
+    segments = app11(buildStore(excluded));
+  }
+
+  const jpeg = new Uint8Array([0xff, 0xd8, ...segments, ...image]);
+  if (options.tamper === 'media') jpeg[jpeg.length - 3] ^= 0xff;
+  return { jpeg, rootCert };
+}
@@ -0,0 +1,261 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Creates synthetic X.509 certificate chains, signed JWS tokens, Play
+ * Integrity tokens and App Attest attestation objects for testing.
+ * Not a test file.
+ */
+
+import { createCipheriv, createHash, generateKeyPairSync, randomBytes, sign, type KeyObject } from 'crypto';
+import { encodeCBOR } from '../../crypto/cbor';
+
+function length(n: number): number[] {
+  if (n < 0x80) return [n];
+  const bytes: number[] = [];
+  for (let v = n; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return [0x80 | bytes.length, ...bytes];
+}
+
+function tlv(tag: number, ...contents: Uint8Array[]): Uint8Array {
+  const body = Buffer.concat(contents);
+  return new Uint8Array(Buffer.concat([Buffer.from([tag, ...length(body.length)]), body]));
+}
+
+const seq = (...c: Uint8Array[]) => tlv(0x30, ...c);
+const set = (...c: Uint8Array[]) => tlv(0x31, ...c);
+const explicit = (n: number, ...c: Uint8Array[]) => tlv(0xa0 | n, ...c);
+
+function oid(dotted: string): Uint8Array {
+  const [a, b, ...rest] = dotted.split('.').map(Number);
+  const bytes = [a * 40 + b];
+  for (const part of rest) {
+    const chunk = [part & 0x7f];
+    for (let v = Math.floor(part / 128); v > 0; v = Math.floor(v / 128)) {
+      chunk.unshift(0x80 | (v & 0x7f));
+    }
+    bytes.push(...chunk);
+  }
+  return tlv(0x06, new Uint8Array(bytes));
+}
+
+const integer = (n: number) => tlv(0x02, new Uint8Array([n]));
+const utf8 = (s: string) => tlv(0x0c, new TextEncoder().encode(s));
+const bitString = (b: Uint8Array) => tlv(0x03, new Uint8Array([0]), b);
+const octetString = (b: Uint8Array) => tlv(0x04, b);
+
+function utcTime(date: Date): Uint8Array {
+  const s = date.toISOString().replace(/[-:T]/g, '').slice(2, 14) + 'Z';
+  return tlv(0x17, new TextEncoder().encode(s));
+}
+
+const name = (cn: string) => seq(set(seq(oid('2.5.4.3'), utf8(cn))));
+
+function algorithmFor(key: KeyObject): Uint8Array {
+  return key.asymmetricKeyType === 'rsa'
+    ? seq(oid('1.2.840.113549.1.1.11'), tlv(0x05))
+    : seq(oid('1.2.840.10045.4.3.2'));
+}
+
+export interface TestKeyPair {
+  publicKey: KeyObject;
+  privateKey: KeyObject;
+}
+
+export function createRSAKeyPair(): TestKeyPair {
+  return generateKeyPairSync('rsa', { modulusLength: 2048 });
+}
+
+export function createECKeyPair(): TestKeyPair {
+  return generateKeyPairSync('ec', { namedCurve: 'P-256' });
+}
+
+/**
+ * Build a DER-encoded X.509 v3 certificate.
+ */
+export function createCertificate(options: {
+  subject: string;
+  issuer: string;
+  publicKey: KeyObject;
+  signingKey: KeyObject;
+  notBefore?: Date;
+  notAfter?: Date;
+  isCA?: boolean;
+  dnsNames?: string[];
+  /** Further extensions as [OID, DER value] */
+  extensions?: Array<[string, Uint8Array]>;
+}): Uint8Array {
+  const extensions: Uint8Array[] = [];
+  if (options.isCA) {
+    const cA = tlv(0x01, new Uint8Array([0xff]));
+    extensions.push(seq(oid('2.5.29.19'), cA, octetString(seq(cA))));
+  }
+  if (options.dnsNames) {
+    const names = options.dnsNames.map(n => tlv(0x82, new TextEncoder().encode(n)));
+    extensions.push(seq(oid('2.5.29.17'), octetString(seq(...names))));
+  }
+  for (const [id, value] of options.extensions ?? []) {
+    extensions.push(seq(oid(id), octetString(value)));
+  }
+
+  const algorithm = algorithmFor(options.signingKey);
+  const tbs = seq(
+    explicit(0, integer(2)),
+    integer(1),
+    algorithm,
+    name(options.issuer),
+    seq(
+      utcTime(options.notBefore ?? new Date('2020-01-01T00:00:00Z')),
+      utcTime(options.notAfter ?? new Date('2040-01-01T00:00:00Z'))
+    ),
+    name(options.subject),
+    new Uint8Array(options.publicKey.export({ type: 'spki', format: 'der' })),
+    ...(extensions.length > 0 ? [explicit(3, seq(...extensions))] : [])
+  );
+
+  const signature = sign('sha256', tbs, options.signingKey);
+  return seq(tbs, algorithm, bitString(new Uint8Array(signature)));
+}
+
+/**
+ * A root → intermediate → leaf chain mirroring Google's SafetyNet layout.
+ */
+export function createAttestationChain(options: { leafHostname?: string } = {}) {
+  const root = createECKeyPair();
+  const intermediate = createECKeyPair();
+  const leaf = createRSAKeyPair();
+
+  const rootCert = createCertificate({
+    subject: 'Test Root CA', issuer: 'Test Root CA',
+    publicKey: root.publicKey, signingKey: root.privateKey, isCA: true,
+  });
+  const intermediateCert = createCertificate({
+    subject: 'Test Intermediate CA', issuer: 'Test Root CA',
+    publicKey: intermediate.publicKey, signingKey: root.privateKey, isCA: true,
+  });
+  const leafHostname = options.leafHostname ?? 'attest.android.com';
+  const leafCert = createCertificate({
+    subject: leafHostname, issuer: 'Test Intermediate CA',
+    publicKey: leaf.publicKey, signingKey: intermediate.privateKey, dnsNames: [leafHostname],
+  });
+
+  return { rootCert, intermediateCert, leafCert, leafKey: leaf.privateKey };
+}
+
+/**
+ * Create an RS256 JWS with an x5c header.
+ */
+export function createSignedJWS(
+  payload: Record<string, unknown>,
+  signingKey: KeyObject,
+  chain: Uint8Array[]
+): string {
+  const header = Buffer.from(JSON.stringify({
+    alg: 'RS256',
+    x5c: chain.map(c => Buffer.from(c).toString('base64')),
+  })).toString('base64url');
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = sign('sha256', Buffer.from(`${header}.${body}`), signingKey);
+  return `${header}.${body}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Play Integrity response keys as the Play Console provides them, plus the
+ * signing key Google would hold.
+ */
+export function createPlayIntegrityKeys() {
+  const verification = createECKeyPair();
+  return {
+    decryptionKey: randomBytes(32).toString('base64'),
+    verificationKey: verification.publicKey.export({ type: 'spki', format: 'der' }).toString('base64'),
+    signingKey: verification.privateKey,
+  };
+}
+
+/**
+ * An encrypted Play Integrity token: an ES256 JWS wrapped in an
+ * A256KW/A256GCM JWE, as the Play Integrity API issues them.
+ */
+export function createPlayIntegrityToken(
+  payload: Record<string, unknown>,
+  keys: { decryptionKey: string; signingKey: KeyObject }
+): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'ES256' })).toString('base64url');
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = sign('sha256', Buffer.from(`${header}.${body}`), {
+    key: keys.signingKey,
+    dsaEncoding: 'ieee-p1363',
+  });
+  const jws = `${header}.${body}.${signature.toString('base64url')}`;
+
+  const protectedHeader = Buffer.from(JSON.stringify({ alg: 'A256KW', enc: 'A256GCM' })).toString('base64url');
+  const cek = randomBytes(32);
+  const wrap = createCipheriv('id-aes256-wrap', Buffer.from(keys.decryptionKey, 'base64'), Buffer.from('A6A6A6A6A6A6A6A6', 'hex'));
+  const encryptedKey = Buffer.concat([wrap.update(cek), wrap.final()]);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', cek, iv);
+  cipher.setAAD(Buffer.from(protectedHeader));
+  const ciphertext = Buffer.concat([cipher.update(jws), cipher.final()]);
+
+  return [protectedHeader, encryptedKey, iv, ciphertext, cipher.getAuthTag()]
+    .map(part => (typeof part === 'string' ? part : part.toString('base64url')))
+    .join('.');
+}
+
+const sha256 = (...data: Uint8Array[]) => {
+  const hash = createHash('sha256');
+  data.forEach(d => hash.update(d));
+  return new Uint8Array(hash.digest());
+};
+
+/**
+ * An App Attest attestation object as the iOS app produces it, with a
+ * root → intermediate → leaf chain mirroring Apple's. The leaf nonce
+ * covers `clientData` (the media hash string ProofMode attests).
+ */
+export function createAppAttestation(options: {
+  clientData: string;
+  appId?: string;
+  development?: boolean;
+  /** Attest a different key than the credential ID names */
+  wrongKey?: boolean;
+}) {
+  const root = createECKeyPair();
+  const intermediate = createECKeyPair();
+  const leaf = createECKeyPair();
+
+  const rootCert = createCertificate({
+    subject: 'Test App Attestation Root CA', issuer: 'Test App Attestation Root CA',
+    publicKey: root.publicKey, signingKey: root.privateKey, isCA: true,
+  });
+  const intermediateCert = createCertificate({
+    subject: 'Test App Attestation CA 1', issuer: 'Test App Attestation Root CA',
+    publicKey: intermediate.publicKey, signingKey: root.privateKey, isCA: true,
+  });
+
+  const spki = new Uint8Array(leaf.publicKey.export({ type: 'spki', format: 'der' }));
+  const point = spki.subarray(spki.length - 65);
+  const credentialId = options.wrongKey ? sha256(randomBytes(65)) : sha256(point);
+  const aaguid = new TextEncoder().encode(options.development ? 'appattestdevelop' : 'appattest\0\0\0\0\0\0\0');
+  const authData = new Uint8Array([
+    ...sha256(new TextEncoder().encode(options.appId ?? 'TEAMID1234.org.witness.proofmode')),
+    0x40, // attested credential data included
+    0, 0, 0, 0,
+    ...aaguid,
+    0, credentialId.length,
+    ...credentialId,
+  ]);
+
+  const nonce = sha256(authData, sha256(new TextEncoder().encode(options.clientData)));
+  const leafCert = createCertificate({
+    subject: 'Test App Attest Key', issuer: 'Test App Attestation CA 1',
+    publicKey: leaf.publicKey, signingKey: intermediate.privateKey,
+    extensions: [['1.2.840.113635.100.8.2', seq(explicit(1, octetString(nonce)))]],
+  });
+
+  const attestation = encodeCBOR({
+    fmt: 'apple-appattest',
+    attStmt: { x5c: [leafCert, intermediateCert], receipt: new Uint8Array([1, 2, 3]) },
+    authData,
+  });
+  return { attestation, rootCert, keyId: Buffer.from(credentialId).toString('base64') };
+}
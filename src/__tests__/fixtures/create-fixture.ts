@@ -6,13 +6,13 @@
  */
 
 import { zipSync } from 'fflate';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import { createMessage, generateKey, readPrivateKey, sign } from 'openpgp';
 
 const encoder = new TextEncoder();
 
-/**
- * Create a minimal synthetic ProofMode proof bundle (CSV format).
- */
-export function createSyntheticBundle(options: {
+export interface SyntheticBundleOptions {
   lat?: number;
   lon?: number;
   accuracy?: number;
@@ -21,13 +21,87 @@ export function createSyntheticBundle(options: {
   includePublicKey?: boolean;
   includeSafetyNet?: boolean;
   includeOTS?: boolean;
-} = {}): Uint8Array {
+  includeMedia?: boolean;
+  /** Media bytes and name (default SYNTHETIC_MEDIA as test-photo.jpg) */
+  media?: Uint8Array;
+  mediaName?: string;
+  /** Lay the bundle out as the iOS app does: spaced JSON keys, publickey.asc */
+  ios?: boolean;
+  /** iOS attestation files */
+  appAttestation?: Uint8Array;
+  deviceCheckToken?: string;
+}
+
+/** Bytes used as the synthetic media file. */
+export const SYNTHETIC_MEDIA = encoder.encode('synthetic-jpeg-bytes');
+
+/**
+ * Create a minimal synthetic ProofMode proof bundle (CSV format).
+ */
+export function createSyntheticBundle(options: SyntheticBundleOptions = {}): Uint8Array {
+  return zipSync(createSyntheticFiles(options));
+}
+
+/**
+ * Create a batch export holding one item per entry in `items`, sharing one public key.
+ */
+export function createMultiItemBundle(items: SyntheticBundleOptions[]): Uint8Array {
+  const files: Record<string, Uint8Array> = {};
+  for (const item of items) {
+    Object.assign(files, createSyntheticFiles({ includeMedia: true, ...item }));
+  }
+  return zipSync(files);
+}
+
+/**
+ * Create a synthetic bundle whose metadata and media signatures are real
+ * PGP detached signatures made with `keys`.
+ */
+export async function createSignedBundle(
+  keys: { privateKey: string; publicKey: string },
+  options: SyntheticBundleOptions = {}
+): Promise<Uint8Array> {
+  const files = createSyntheticFiles({ includeMedia: true, ...options });
+  const signingKeys = await readPrivateKey({ armoredKey: keys.privateKey });
+  const detach = async (data: Uint8Array) =>
+    encoder.encode(
+      await sign({ message: await createMessage({ binary: data }), signingKeys, detached: true })
+    );
+
+  const metadataName = Object.keys(files).find(n => /\.proof\.(csv|json)$/.test(n))!;
+  files[`${metadataName}.asc`] = await detach(files[metadataName]);
+  const mediaName = options.mediaName ?? 'test-photo.jpg';
+  files[`${mediaName}.asc`] = await detach(files[mediaName]);
+  files[options.ios ? 'publickey.asc' : 'pubkey.asc'] = encoder.encode(keys.publicKey);
+
+  return zipSync(files);
+}
+
+/**
+ * Generate a throwaway device key pair for signing synthetic bundles.
+ */
+export async function createDeviceKeys(): Promise<{ privateKey: string; publicKey: string }> {
+  const { privateKey, publicKey } = await generateKey({
+    type: 'ecc',
+    curve: 'curve25519Legacy',
+    userIDs: [{ name: 'ProofMode Test Device' }],
+    format: 'armored',
+  });
+  return { privateKey, publicKey };
+}
+
+function createSyntheticFiles(options: SyntheticBundleOptions): Record<string, Uint8Array> {
   const lat = options.lat ?? 40.7484;
   const lon = options.lon ?? -73.9857;
   const accuracy = options.accuracy ?? 10;
   const provider = options.provider ?? 'gps';
   const timestamp = options.timestamp ?? 1700000000000; // ms
-  const fileHash = 'a'.repeat(64);
+  const media = options.media ?? SYNTHETIC_MEDIA;
+  const mediaName = options.mediaName ?? 'test-photo.jpg';
+
+  // Real bundles are named after the media SHA-256; without media, use a placeholder
+  const fileHash = options.includeMedia ? bytesToHex(sha256(media)) : 'a'.repeat(64);
+  const fileSize = options.includeMedia ? media.length : 1024;
 
   // CSV metadata
   const csv = [
@@ -41,7 +115,7 @@ export function createSyntheticBundle(options: {
     `Location.Speed,0`,
     `Location.Time,${timestamp}`,
     `CellInfo,310:260:12345:67890`,
-    `WiFi.MAC,AA:BB:CC:DD:EE:FF`,
+    `WiFi.MAC,F0:9F:C2:12:34:56`,
     `IPv4,192.168.1.1`,
     `Network,WiFi`,
     `DeviceID,test-device-001`,
@@ -49,8 +123,8 @@ export function createSyntheticBundle(options: {
     `Manufacturer,TestCo`,
     `Model,TestPhone`,
     `MimeType,image/jpeg`,
-    `File.Name,test-photo.jpg`,
-    `File.Size,1024`,
+    `File.Name,${mediaName}`,
+    `File.Size,${fileSize}`,
     `DateCreated,2023-11-14T12:00:00Z`,
   ].join('\n');
 
@@ -63,14 +137,33 @@ export function createSyntheticBundle(options: {
     '-----END PGP SIGNATURE-----',
   ].join('\n');
 
+  // The iOS app writes JSON with spaced keys and an ISO 8601 fix time
+  const json = JSON.stringify({
+    'Location Latitude': lat,
+    'Location Longitude': lon,
+    'Location Horizontal Accuracy': accuracy,
+    'Location Provider': provider,
+    'Location Altitude': 50,
+    'Location Course': 180,
+    'Location Speed': 0,
+    'Location Time': new Date(timestamp).toISOString(),
+    'Identifier For Vendor': 'E621E1F8-C36C-495A-93FC-0C247A3E6E5F',
+    'Manufacturer': 'Apple',
+    'Model': 'iPhone14,2',
+    'File Hash SHA256': fileHash,
+    'File Name': mediaName,
+    'File Size': fileSize,
+  });
+
+  const metadataName = options.ios ? `${fileHash}.proof.json` : `${fileHash}.proof.csv`;
   const files: Record<string, Uint8Array> = {
-    [`${fileHash}.proof.csv`]: encoder.encode(csv),
-    [`${fileHash}.proof.csv.asc`]: encoder.encode(fakeSignature),
-    [`test-photo.jpg.asc`]: encoder.encode(fakeSignature),
+    [metadataName]: encoder.encode(options.ios ? json : csv),
+    [`${metadataName}.asc`]: encoder.encode(fakeSignature),
+    [`${mediaName}.asc`]: encoder.encode(fakeSignature),
   };
 
   if (options.includePublicKey !== false) {
-    files['pubkey.asc'] = encoder.encode([
+    files[options.ios ? 'publickey.asc' : 'pubkey.asc'] = encoder.encode([
       '-----BEGIN PGP PUBLIC KEY BLOCK-----',
       '',
       'mQENBFakeKeyBlockFakeKeyBlockFakeKeyBlock',
@@ -93,9 +186,20 @@ export function createSyntheticBundle(options: {
     files[`${fileHash}.gst`] = encoder.encode(`${header}.${payload}.${signature}`);
   }
 
+  if (options.appAttestation) {
+    files[`${fileHash}.attest`] = options.appAttestation;
+  }
+  if (options.deviceCheckToken) {
+    files[`${fileHash}.devicecheck`] = encoder.encode(options.deviceCheckToken);
+  }
+
   if (options.includeOTS) {
     files[`${fileHash}.ots`] = encoder.encode('fake-ots-proof');
   }
 
-  return zipSync(files);
+  if (options.includeMedia) {
+    files[mediaName] = media;
+  }
+
+  return files;
 }
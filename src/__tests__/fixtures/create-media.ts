@@ -0,0 +1,202 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Creates JPEG, PNG and HEIC files carrying EXIF and XMP for testing.
+ * The image data is a placeholder; only the metadata containers are real.
+ * Not a test file.
+ */
+
+import { zlibSync } from 'fflate';
+
+const encoder = new TextEncoder();
+
+export interface ExifFields {
+  make?: string;
+  model?: string;
+  orientation?: number;
+  dateTimeOriginal?: string;
+  offsetTimeOriginal?: string;
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+  gpsAccuracy?: number;
+  /** `YYYY:MM:DD` and [h, m, s] */
+  gpsDate?: string;
+  gpsTime?: [number, number, number];
+  littleEndian?: boolean;
+}
+
+type Entry = { tag: number; type: number; count: number; bytes: number[] };
+
+/**
+ * Build a TIFF-structured EXIF block with IFD0, Exif and GPS IFDs.
+ */
+export function createExif(fields: ExifFields): Uint8Array {
+  const le = fields.littleEndian ?? false;
+  const u16 = (n: number) => (le ? [n & 0xff, n >> 8] : [n >> 8, n & 0xff]);
+  const u32 = (n: number) => {
+    const b = [n >>> 24, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+    return le ? b.reverse() : b;
+  };
+  const ascii = (tag: number, s: string): Entry => {
+    const bytes = [...encoder.encode(s), 0];
+    return { tag, type: 2, count: bytes.length, bytes };
+  };
+  const short = (tag: number, n: number): Entry => ({ tag, type: 3, count: 1, bytes: u16(n) });
+  const rationals = (tag: number, values: number[]): Entry => ({
+    tag, type: 5, count: values.length,
+    bytes: values.flatMap(v => [...u32(Math.round(v * 10000)), ...u32(10000)]),
+  });
+  const dms = (v: number) => {
+    const a = Math.abs(v);
+    const d = Math.floor(a);
+    const m = Math.floor((a - d) * 60);
+    return [d, m, (a - d - m / 60) * 3600];
+  };
+
+  const ifd0: Entry[] = [];
+  const exif: Entry[] = [];
+  const gps: Entry[] = [];
+  if (fields.make) ifd0.push(ascii(0x010f, fields.make));
+  if (fields.model) ifd0.push(ascii(0x0110, fields.model));
+  if (fields.orientation) ifd0.push(short(0x0112, fields.orientation));
+  if (fields.dateTimeOriginal) exif.push(ascii(0x9003, fields.dateTimeOriginal));
+  if (fields.offsetTimeOriginal) exif.push(ascii(0x9011, fields.offsetTimeOriginal));
+  if (fields.latitude !== undefined && fields.longitude !== undefined) {
+    gps.push(ascii(1, fields.latitude < 0 ? 'S' : 'N'), rationals(2, dms(fields.latitude)));
+    gps.push(ascii(3, fields.longitude < 0 ? 'W' : 'E'), rationals(4, dms(fields.longitude)));
+  }
+  if (fields.altitude !== undefined) {
+    gps.push({ tag: 5, type: 1, count: 1, bytes: [fields.altitude < 0 ? 1 : 0] });
+    gps.push(rationals(6, [Math.abs(fields.altitude)]));
+  }
+  if (fields.gpsTime) gps.push(rationals(7, fields.gpsTime));
+  if (fields.gpsDate) gps.push(ascii(29, fields.gpsDate));
+  if (fields.gpsAccuracy !== undefined) gps.push(rationals(31, [fields.gpsAccuracy]));
+
+  // Layout: header, IFD0, Exif IFD, GPS IFD, then out-of-line values
+  const ifdSize = (entries: Entry[]) => 2 + entries.length * 12 + 4;
+  const ifd0Entries = ifd0.length + (exif.length ? 1 : 0) + (gps.length ? 1 : 0);
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + 2 + ifd0Entries * 12 + 4;
+  const gpsOffset = exifOffset + (exif.length ? ifdSize(exif) : 0);
+  let dataOffset = gpsOffset + (gps.length ? ifdSize(gps) : 0);
+  if (exif.length) ifd0.push({ tag: 0x8769, type: 4, count: 1, bytes: u32(exifOffset) });
+  if (gps.length) ifd0.push({ tag: 0x8825, type: 4, count: 1, bytes: u32(gpsOffset) });
+
+  const extra: number[] = [];
+  const writeIFD = (entries: Entry[]) => {
+    const out = [...u16(entries.length)];
+    for (const e of entries.sort((a, b) => a.tag - b.tag)) {
+      out.push(...u16(e.tag), ...u16(e.type), ...u32(e.count));
+      if (e.bytes.length <= 4) {
+        out.push(...e.bytes, ...new Array(4 - e.bytes.length).fill(0));
+      } else {
+        out.push(...u32(dataOffset + extra.length));
+        extra.push(...e.bytes);
+        if (extra.length % 2) extra.push(0);
+      }
+    }
+    return [...out, ...u32(0)];
+  };
+
+  const body = [
+    ...writeIFD(ifd0),
+    ...(exif.length ? writeIFD(exif) : []),
+    ...(gps.length ? writeIFD(gps) : []),
+  ];
+  const header = [...encoder.encode(le ? 'II' : 'MM'), ...u16(42), ...u32(ifd0Offset)];
+  return new Uint8Array([...header, ...body, ...extra]);
+}
+
+/** An XMP packet with the given properties as `rdf:Description` attributes. */
+export function createXMP(properties: Record<string, string>): string {
+  const attributes = Object.entries(properties).map(([k, v]) => ` ${k}="${v}"`).join('');
+  return [
+    '<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `<rdf:Description rdf:about="" xmlns:exif="http://ns.adobe.com/exif/1.0/"` +
+      ` xmlns:tiff="http://ns.adobe.com/tiff/1.0/" xmlns:xmp="http://ns.adobe.com/xap/1.0/"${attributes}/>`,
+    '</rdf:RDF></x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+}
+
+const be16 = (n: number) => [n >> 8, n & 0xff];
+const be32 = (n: number) => [n >>> 24, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+
+/** A JPEG with APP1 Exif and/or XMP segments before a placeholder scan. */
+export function createJPEG(blocks: { exif?: Uint8Array; xmp?: string }): Uint8Array {
+  const segment = (marker: number, payload: number[]) => [0xff, marker, ...be16(payload.length + 2), ...payload];
+  return new Uint8Array([
+    0xff, 0xd8,
+    ...segment(0xe0, [...encoder.encode('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 0, 0]),
+    ...(blocks.exif ? segment(0xe1, [...encoder.encode('Exif\0\0'), ...blocks.exif]) : []),
+    ...(blocks.xmp
+      ? segment(0xe1, [...encoder.encode('http://ns.adobe.com/xap/1.0/\0'), ...encoder.encode(blocks.xmp)])
+      : []),
+    ...segment(0xda, [1, 1, 0, 0, 0x3f, 0]),
+    1, 2, 3, 4,
+    0xff, 0xd9,
+  ]);
+}
+
+/** A PNG with an eXIf chunk and/or a (optionally compressed) XMP iTXt chunk. CRCs are not computed. */
+export function createPNG(blocks: { exif?: Uint8Array; xmp?: string; compressXMP?: boolean }): Uint8Array {
+  const chunk = (type: string, data: number[]) => [...be32(data.length), ...encoder.encode(type), ...data, 0, 0, 0, 0];
+  const xmpText = blocks.xmp ? encoder.encode(blocks.xmp) : undefined;
+  return new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...chunk('IHDR', [...be32(1), ...be32(1), 8, 2, 0, 0, 0]),
+    ...(blocks.exif ? chunk('eXIf', [...blocks.exif]) : []),
+    ...(xmpText
+      ? chunk('iTXt', [
+          ...encoder.encode('XML:com.adobe.xmp\0'),
+          blocks.compressXMP ? 1 : 0, 0, 0, 0,
+          ...(blocks.compressXMP ? zlibSync(xmpText) : xmpText),
+        ])
+      : []),
+    ...chunk('IDAT', [0]),
+    ...chunk('IEND', []),
+  ]);
+}
+
+/** A HEIC with Exif and/or XMP items located by `iloc`. */
+export function createHEIC(blocks: { exif?: Uint8Array; xmp?: string }): Uint8Array {
+  const box = (type: string, payload: number[]) => [...be32(payload.length + 8), ...encoder.encode(type), ...payload];
+  const fullBox = (type: string, version: number, payload: number[]) => box(type, [version, 0, 0, 0, ...payload]);
+
+  const items: Array<{ id: number; type: string; contentType?: string; data: number[] }> = [
+    { id: 1, type: 'hvc1', data: [0, 0, 0, 0] },
+  ];
+  if (blocks.exif) items.push({ id: 2, type: 'Exif', data: [...be32(0), ...blocks.exif] });
+  if (blocks.xmp) {
+    items.push({ id: 3, type: 'mime', contentType: 'application/rdf+xml', data: [...encoder.encode(blocks.xmp)] });
+  }
+
+  const infes = items.flatMap(item => fullBox('infe', 2, [
+    ...be16(item.id), 0, 0, ...encoder.encode(item.type), 0,
+    ...(item.contentType ? [...encoder.encode(item.contentType), 0] : []),
+  ]));
+  const iinf = fullBox('iinf', 0, [...be16(items.length), ...infes]);
+
+  // iloc v0: 4-byte offsets and lengths, no base offset; offsets patched below
+  const ilocFor = (offsets: number[]) => fullBox('iloc', 0, [
+    0x44, 0x00, ...be16(items.length),
+    ...items.flatMap((item, i) => [...be16(item.id), 0, 0, 0, 1, ...be32(offsets[i]), ...be32(item.data.length)]),
+  ]);
+
+  const ftyp = box('ftyp', [...encoder.encode('heic'), 0, 0, 0, 0, ...encoder.encode('mif1heic')]);
+  const hdlr = fullBox('hdlr', 0, [0, 0, 0, 0, ...encoder.encode('pict'), ...new Array(12).fill(0), 0]);
+  const metaFor = (offsets: number[]) => fullBox('meta', 0, [...hdlr, ...iinf, ...ilocFor(offsets)]);
+
+  const placeholder = metaFor(items.map(() => 0));
+  let cursor = ftyp.length + placeholder.length + 8;
+  const offsets = items.map(item => {
+    const at = cursor;
+    cursor += item.data.length;
+    return at;
+  });
+  const mdat = box('mdat', items.flatMap(item => item.data));
+  return new Uint8Array([...ftyp, ...metaFor(offsets), ...mdat]);
+}
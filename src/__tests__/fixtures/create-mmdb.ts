@@ -0,0 +1,116 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Creates small MaxMind DB files for testing.
+ * Not a test file.
+ */
+
+type Value = string | number | boolean | Value[] | { [key: string]: Value };
+
+const encoder = new TextEncoder();
+
+function control(type: number, size: number): number[] {
+  const head = type <= 7 ? [type << 5] : [0, type - 7];
+  if (size < 29) {
+    head[0] |= size;
+    return head;
+  }
+  head[0] |= 29;
+  return [...head, size - 29];
+}
+
+/** Encode a value; integers become uint32, other numbers doubles. */
+function encode(value: Value): number[] {
+  if (typeof value === 'string') {
+    const bytes = encoder.encode(value);
+    return [...control(2, bytes.length), ...bytes];
+  }
+  if (typeof value === 'boolean') return control(14, value ? 1 : 0);
+  if (typeof value === 'number') {
+    if (Number.isInteger(value) && value >= 0 && value <= 0xffffffff) {
+      return [...control(6, 4), value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    }
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value);
+    return [...control(3, 8), ...new Uint8Array(view.buffer)];
+  }
+  if (Array.isArray(value)) return [...control(11, value.length), ...value.flatMap(encode)];
+  const entries = Object.entries(value);
+  return [...control(7, entries.length), ...entries.flatMap(([k, v]) => [...encode(k), ...encode(v)])];
+}
+
+/** 128 address bits of a network; IPv4 goes under `::/96`. */
+function networkBits(cidr: string): number[] {
+  const [ip, prefixText] = cidr.split('/');
+  const prefix = Number(prefixText);
+  let bits: number[];
+  let offset = 0;
+  if (ip.includes('.')) {
+    bits = ip.split('.').flatMap(p => Array.from({ length: 8 }, (_, i) => (Number(p) >> (7 - i)) & 1));
+    offset = 96;
+  } else {
+    const [head, tail = ''] = ip.split('::');
+    const h = head ? head.split(':') : [];
+    const t = tail ? tail.split(':') : [];
+    const groups = [...h, ...Array(8 - h.length - t.length).fill('0'), ...t];
+    bits = groups.flatMap(g => Array.from({ length: 16 }, (_, i) => (parseInt(g, 16) >> (15 - i)) & 1));
+  }
+  return [...new Array(offset).fill(0), ...bits].slice(0, offset + prefix);
+}
+
+/**
+ * Build an IPv6 MMDB with 24-bit records mapping each network to a record.
+ */
+export function createMMDB(networks: Record<string, Value>, databaseType = 'GeoLite2-City'): Uint8Array {
+  // Tree nodes hold child node indexes, data offsets (negative - 1) or null
+  const nodes: Array<[number | null, number | null]> = [[null, null]];
+  const data: number[] = [];
+
+  for (const [cidr, record] of Object.entries(networks)) {
+    const offset = data.length;
+    data.push(...encode(record));
+    const bits = networkBits(cidr);
+    let node = 0;
+    bits.forEach((bit, i) => {
+      if (i === bits.length - 1) {
+        nodes[node][bit] = -offset - 1;
+        return;
+      }
+      let child = nodes[node][bit];
+      if (child === null || child < 0) {
+        child = nodes.length;
+        nodes.push([null, null]);
+        nodes[node][bit] = child;
+      }
+      node = child;
+    });
+  }
+
+  const nodeCount = nodes.length;
+  const tree = nodes.flatMap(pair =>
+    pair.flatMap(ref => {
+      const value = ref === null ? nodeCount : ref < 0 ? nodeCount + 16 + (-ref - 1) : ref;
+      return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+    })
+  );
+
+  const metadata = encode({
+    node_count: nodeCount,
+    record_size: 24,
+    ip_version: 6,
+    database_type: databaseType,
+    languages: ['en'],
+    binary_format_major_version: 2,
+    binary_format_minor_version: 0,
+    build_epoch: 1700000000,
+    description: { en: 'Test database' },
+  });
+
+  return new Uint8Array([
+    ...tree,
+    ...new Array(16).fill(0),
+    ...data,
+    0xab, 0xcd, 0xef, ...encoder.encode('MaxMind.com'),
+    ...metadata,
+  ]);
+}
@@ -0,0 +1,60 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Creates synthetic OpenTimestamps proofs and matching block headers for testing.
+ * Not a test file.
+ */
+
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+
+const MAGIC = '004f70656e54696d657374616d7073000050726f6f6600bf89e2e884e89294';
+const BITCOIN_TAG = '0588960d73d71901';
+const PENDING_TAG = '83dfe30d2ef90c8e';
+
+function varuint(n: number): number[] {
+  const out: number[] = [];
+  do {
+    let b = n & 0x7f;
+    n = Math.floor(n / 128);
+    if (n > 0) b |= 0x80;
+    out.push(b);
+  } while (n > 0);
+  return out;
+}
+
+const varbytes = (b: Uint8Array) => [...varuint(b.length), ...b];
+const concat = (a: Uint8Array, b: Uint8Array) => new Uint8Array([...a, ...b]);
+
+/**
+ * Build a proof over `digestHex` with a pending calendar branch and a
+ * Bitcoin branch at `height`, plus an 80-byte header that commits to it.
+ */
+export function createOTSProof(digestHex: string, height: number, blockTime = 1700000600) {
+  const digest = hexToBytes(digestHex);
+  const nonce = new Uint8Array(16).fill(7);
+  const prefix = new Uint8Array(8).fill(9);
+
+  // Branch 1: append nonce, sha256 → pending attestation
+  const pendingUri = new TextEncoder().encode('https://alice.btc.calendar.opentimestamps.org');
+  // Branch 2: prepend prefix, sha256 → bitcoin attestation
+  const commitment = sha256(concat(prefix, digest));
+
+  const proof = new Uint8Array([
+    ...hexToBytes(MAGIC),
+    0x01,
+    0x08,
+    ...digest,
+    0xff,
+    0xf0, ...varbytes(nonce), 0x08,
+    0x00, ...hexToBytes(PENDING_TAG), ...varbytes(new Uint8Array(varbytes(pendingUri))),
+    0xf1, ...varbytes(prefix), 0x08,
+    0x00, ...hexToBytes(BITCOIN_TAG), ...varbytes(new Uint8Array(varuint(height))),
+  ]);
+
+  const header = new Uint8Array(80);
+  header.set(commitment, 36);
+  new DataView(header.buffer).setUint32(68, blockTime, true);
+
+  return { proof, header, commitment: bytesToHex(commitment) };
+}
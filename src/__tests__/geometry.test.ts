@@ -0,0 +1,168 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+import { ProofModePlugin } from '../index';
+import { parseBundle } from '../parse';
+import { createStampFromBundle } from '../create';
+import { verifyProofModeStamp } from '../verify';
+import { circlePolygon, locationUncertainty } from '../geometry';
+import { haversineDistance } from '../geo';
+import { createDeviceKeys, createSignedBundle, createSyntheticBundle } from './fixtures/create-fixture';
+import type { LocationStamp, UnsignedLocationStamp } from '@decentralized-geo/astral-sdk/plugins';
+
+function signed(stamp: UnsignedLocationStamp): LocationStamp {
+  return {
+    ...stamp,
+    signatures: [
+      {
+        signer: { scheme: 'pgp-fingerprint', value: 'ABCD1234' },
+        algorithm: 'pgp',
+        value: 'fake-pgp-signature',
+        timestamp: 1700000000,
+      },
+    ],
+  };
+}
+
+describe('location geometry', () => {
+  describe('locationUncertainty', () => {
+    it('uses the reported accuracy, floored at the minimum radius', () => {
+      expect(locationUncertainty({ 'Location.Accuracy': 12, 'Location.Provider': 'gps' }, 1, 2)).toEqual({
+        center: [1, 2], radiusMeters: 12, confidence: 0.68, basis: 'accuracy', provider: 'gps',
+      });
+      expect(locationUncertainty({ 'Location.Accuracy': 3 }, 1, 2).radiusMeters).toBe(5);
+      expect(locationUncertainty({ 'Location.Accuracy': 3 }, 1, 2, 20).radiusMeters).toBe(20);
+    });
+
+    it('falls back to the provider\'s typical accuracy', () => {
+      expect(locationUncertainty({ 'Location.Provider': 'network' }, 1, 2)).toMatchObject({
+        radiusMeters: 2000, basis: 'provider',
+      });
+      expect(locationUncertainty({ 'Location.Provider': 'GPS' }, 1, 2).radiusMeters).toBe(50);
+    });
+  });
+
+  it('builds a closed counter-clockwise ring at the radius', () => {
+    const ring = circlePolygon([-73.9857, 40.7484], 100, 8);
+    expect(ring).toHaveLength(9);
+    expect(ring[8]).toEqual(ring[0]);
+    for (const [lon, lat] of ring) {
+      expect(haversineDistance(40.7484, -73.9857, lat, lon)).toBeCloseTo(100, 3);
+    }
+    // North first, then west
+    expect(ring[0][1]).toBeGreaterThan(40.7484);
+    expect(ring[2][0]).toBeLessThan(-73.9857);
+  });
+
+  it('clamps a circle reaching the antimeridian instead of wrapping the globe', () => {
+    for (const lon of [179.9995, -179.9995]) {
+      const ring = circlePolygon([lon, -17.7], 1000, 16);
+      const lons = ring.map(([vLon]) => vLon);
+      expect(Math.max(...lons) - Math.min(...lons)).toBeLessThan(0.02);
+      expect(lons).toContain(Math.sign(lon) * 180);
+      for (const [vLon, vLat] of ring) {
+        expect(haversineDistance(-17.7, lon, vLat, vLon)).toBeLessThanOrEqual(1000.001);
+      }
+    }
+  });
+
+  describe('createStampFromBundle', () => {
+    const bundle = parseBundle(createSyntheticBundle({ accuracy: 2000, provider: 'network' }));
+
+    it('emits a bare point by default', () => {
+      const stamp = createStampFromBundle(bundle, '0.1.0');
+      expect(stamp.locationType).toBe('geojson-point');
+      expect(stamp.signals['Location.Uncertainty']).toBeUndefined();
+    });
+
+    it('emits a point with an explicit uncertainty', () => {
+      const stamp = createStampFromBundle(bundle, '0.1.0', { geometry: { shape: 'point-uncertainty' } });
+      expect(stamp.location).toEqual({ type: 'Point', coordinates: [-73.9857, 40.7484] });
+      expect(stamp.signals['Location.Uncertainty']).toMatchObject({ radiusMeters: 2000, provider: 'network' });
+    });
+
+    it('emits the accuracy circle as a polygon', () => {
+      const stamp = createStampFromBundle(bundle, '0.1.0', { geometry: { shape: 'circle', vertices: 16 } });
+      expect(stamp.locationType).toBe('geojson-polygon');
+      expect(stamp.location.type).toBe('Polygon');
+      expect(stamp.location.coordinates[0]).toHaveLength(17);
+    });
+
+    it('rejects unusable options', () => {
+      expect(() => createStampFromBundle(bundle, '0.1.0', { geometry: { shape: 'circle', vertices: 2 } }))
+        .toThrow(/at least 3/);
+      expect(() => createStampFromBundle(bundle, '0.1.0', { geometry: { shape: 'ellipse' as 'circle' } }))
+        .toThrow(/Unknown location shape/);
+    });
+  });
+
+  it('is applied by the plugin\'s create()', async () => {
+    const plugin = new ProofModePlugin({ geometry: { shape: 'circle', minRadiusMeters: 25 } });
+    const stamp = await plugin.create({
+      plugin: 'proofmode',
+      timestamp: 1700000000,
+      data: { zipData: await createSignedBundle(await createDeviceKeys()) },
+    });
+    expect(stamp.locationType).toBe('geojson-polygon');
+    expect(stamp.signals['Location.Uncertainty'].radiusMeters).toBe(25);
+  });
+
+  describe('verification', () => {
+    const bundle = parseBundle(createSyntheticBundle());
+
+    it('accepts circle stamps', async () => {
+      const stamp = signed(createStampFromBundle(bundle, '0.1.0', { geometry: { shape: 'circle' } }));
+      const result = await verifyProofModeStamp(stamp);
+      expect(result.structureValid).toBe(true);
+    });
+
+    it('rejects a circle narrower than the reported accuracy', async () => {
+      const stamp = signed(createStampFromBundle(bundle, '0.1.0', { geometry: { shape: 'circle' } }));
+      stamp.signals['Location.Uncertainty'] = { ...stamp.signals['Location.Uncertainty'], radiusMeters: 1 };
+      const result = await verifyProofModeStamp(stamp);
+      expect(result.structureValid).toBe(false);
+      expect(result.details.checks.map((c: { code: string }) => c.code)).toContain('LOCATION_GEOMETRY_INVALID');
+    });
+
+    it('rejects a polygon that is not the recorded circle', async () => {
+      const stamp = signed(createStampFromBundle(bundle, '0.1.0', { geometry: { shape: 'circle' } }));
+      stamp.location = { type: 'Polygon', coordinates: [circlePolygon([2.35, 48.85], 10)] };
+      const result = await verifyProofModeStamp(stamp);
+      expect(result.structureValid).toBe(false);
+    });
+
+    it('accepts a circle clamped at the antimeridian', async () => {
+      const fiji = parseBundle(createSyntheticBundle({ lat: -17.7, lon: 179.9995, accuracy: 1000 }));
+      const stamp = signed(createStampFromBundle(fiji, '0.1.0', { geometry: { shape: 'circle' } }));
+      const result = await verifyProofModeStamp(stamp);
+      expect(result.details.checks.map((c: { code: string }) => c.code)).not.toContain('LOCATION_GEOMETRY_INVALID');
+      expect(result.structureValid).toBe(true);
+    });
+
+    it.each([
+      ['a point without coordinates', { type: 'Point' }],
+      ['a point with non-numeric coordinates', { type: 'Point', coordinates: ['-73.9857', '40.7484'] }],
+      ['a point out of range', { type: 'Point', coordinates: [-73.9857, 140.7484] }],
+      ['a polygon without rings', { type: 'Polygon', coordinates: 'none' }],
+      ['a polygon with a malformed vertex', { type: 'Polygon', coordinates: [[[0, 0], [1], [0, 1], [0, 0]]] }],
+      ['an unsupported type', { type: 'LineString', coordinates: [[0, 0], [1, 1]] }],
+    ])('reports %s as malformed', async (_, location) => {
+      const stamp = signed(createStampFromBundle(bundle, '0.1.0', { geometry: { shape: 'circle' } }));
+      const result = await verifyProofModeStamp({ ...stamp, location } as LocationStamp);
+      expect(result.structureValid).toBe(false);
+      expect(result.details.checks).toContainEqual(expect.objectContaining({
+        code: 'LOCATION_MALFORMED', severity: 'fail', category: 'structure', value: location.type,
+      }));
+    });
+
+    it('checks a destructured circle stamp against the signed fix', async () => {
+      const keys = await createDeviceKeys();
+      const signedBundle = parseBundle(await createSignedBundle(keys));
+      const stamp = signed(createStampFromBundle(signedBundle, '0.1.0', {
+        mode: 'destructured', geometry: { shape: 'circle' },
+      }));
+      const codes = (await verifyProofModeStamp(stamp)).details.checks.map((c: { code: string }) => c.code);
+      expect(codes).toContain('EMBEDDED_SIGNATURE_VALID');
+      expect(codes).not.toContain('EMBEDDED_LOCATION_MISMATCH');
+    });
+  });
+});
@@ -0,0 +1,60 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+import { checkMediaIntegrity } from '../integrity';
+import { parseBundle } from '../parse';
+import { createSyntheticBundle, SYNTHETIC_MEDIA } from './fixtures/create-fixture';
+
+describe('checkMediaIntegrity', () => {
+  const bundle = parseBundle(createSyntheticBundle({ includeMedia: true }));
+
+  it('passes when the media matches the filename hash and File.Size', () => {
+    const result = checkMediaIntegrity(bundle)!;
+    expect(result.valid).toBe(true);
+    expect(result.sha256).toBe(bundle.expectedHash);
+    expect(result.size).toBe(SYNTHETIC_MEDIA.length);
+    expect(result.checks.map(c => c.source)).toEqual(['filename', 'File.Size']);
+  });
+
+  it('fails when the media bytes were replaced', () => {
+    const result = checkMediaIntegrity({ ...bundle, mediaFile: new TextEncoder().encode('other') })!;
+    expect(result.valid).toBe(false);
+    expect(result.checks.every(c => !c.matches)).toBe(true);
+  });
+
+  it('compares the metadata FileHash case-insensitively', () => {
+    const metadata = {
+      ...bundle.metadata,
+      fileHash: bundle.expectedHash!.toUpperCase(),
+    };
+    const result = checkMediaIntegrity({ ...bundle, metadata })!;
+    expect(result.valid).toBe(true);
+    expect(result.checks.find(c => c.source === 'FileHash')!.matches).toBe(true);
+  });
+
+  it('fails when the metadata FileHash disagrees', () => {
+    const metadata = { ...bundle.metadata, fileHash: 'b'.repeat(64) };
+    const result = checkMediaIntegrity({ ...bundle, metadata })!;
+    expect(result.valid).toBe(false);
+    expect(result.checks.find(c => c.source === 'FileHash')!.matches).toBe(false);
+  });
+
+  it('fails with MEDIA_MISSING when a hash is declared but the media is absent', () => {
+    const result = checkMediaIntegrity(parseBundle(createSyntheticBundle()))!;
+    expect(result).toMatchObject({ valid: false, error: 'MEDIA_MISSING' });
+    expect(result.sha256).toBeUndefined();
+    expect(result.checks.map(c => c.source)).toEqual(['filename', 'File.Size']);
+    expect(result.checks.every(c => !c.matches && c.actual === undefined)).toBe(true);
+  });
+
+  it('leaves media excluded from stamp evidence unchecked', () => {
+    const { mediaFile: _, ...withoutMedia } = bundle;
+    expect(checkMediaIntegrity({ ...withoutMedia, mediaExcluded: true })).toBeUndefined();
+  });
+
+  it('returns undefined when the bundle declares nothing to check', () => {
+    const { signals } = bundle.metadata;
+    const metadata = { ...bundle.metadata, signals: { ...signals, 'File.Size': undefined } };
+    const { mediaFile: _, ...withoutMedia } = bundle;
+    expect(checkMediaIntegrity({ ...withoutMedia, expectedHash: undefined, metadata })).toBeUndefined();
+  });
+});
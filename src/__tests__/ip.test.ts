@@ -0,0 +1,240 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+import { MemoryIPGeoDatabase, checkIPGeolocation, classifyIP } from '../ip';
+import { MMDBReader } from '../mmdb';
+import { parseBundle } from '../parse';
+import { createStampFromBundle } from '../create';
+import { verifyProofModeStamp } from '../verify';
+import { createSyntheticBundle } from './fixtures/create-fixture';
+import { createMMDB } from './fixtures/create-mmdb';
+import type { GeoRegion, ReverseGeocoder } from '../types';
+import type { LocationStamp } from '@decentralized-geo/astral-sdk/plugins';
+
+const RANGES_CSV = [
+  'network,country_iso_code,subdivision_1_iso_code,latitude,longitude,accuracy_radius',
+  // Manhattan
+  '8.8.8.0/24,US,NY,40.7128,-74.0060,20',
+  // Amsterdam
+  '145.100.0.0/16,NL,NH,52.3676,4.9041,50',
+  '2a02:a000::/20,NL,,52.3676,4.9041,100',
+  'garbage,US,,0,0,1',
+].join('\n');
+
+function makeStamp(ip = '8.8.8.8'): LocationStamp {
+  const unsigned = createStampFromBundle(parseBundle(createSyntheticBundle()), '0.1.0');
+  return {
+    ...unsigned,
+    signals: { ...unsigned.signals, IPv4: ip },
+    signatures: [
+      {
+        signer: { scheme: 'pgp-fingerprint', value: 'ABCD1234' },
+        algorithm: 'pgp',
+        value: 'fake-pgp-signature',
+        timestamp: 1700000000,
+      },
+    ],
+  };
+}
+
+function geocoder(region: GeoRegion): ReverseGeocoder {
+  return { regionAt: async () => region };
+}
+
+describe('IP geolocation', () => {
+  describe('classifyIP', () => {
+    it('classifies special-purpose addresses', () => {
+      expect(classifyIP('8.8.8.8')).toBe('public');
+      expect(classifyIP('192.168.1.1')).toBe('private');
+      expect(classifyIP('10.20.30.40')).toBe('private');
+      expect(classifyIP('172.31.255.255')).toBe('private');
+      expect(classifyIP('172.32.0.1')).toBe('public');
+      expect(classifyIP('100.64.0.1')).toBe('shared');
+      expect(classifyIP('127.0.0.1')).toBe('loopback');
+      expect(classifyIP('169.254.10.1')).toBe('link-local');
+      expect(classifyIP('203.0.113.5')).toBe('reserved');
+      expect(classifyIP('239.1.1.1')).toBe('multicast');
+    });
+
+    it('classifies IPv6 and IPv4-mapped addresses', () => {
+      expect(classifyIP('2a02:a000::1')).toBe('public');
+      expect(classifyIP('::1')).toBe('loopback');
+      expect(classifyIP('fd12:3456::1')).toBe('private');
+      expect(classifyIP('fe80::1%wlan0')).toBe('link-local');
+      expect(classifyIP('2001:db8::1')).toBe('reserved');
+      expect(classifyIP('::ffff:192.168.0.1')).toBe('private');
+      expect(classifyIP('[::ffff:8.8.8.8]')).toBe('public');
+    });
+
+    it('rejects malformed addresses', () => {
+      expect(classifyIP('256.1.1.1')).toBe('invalid');
+      expect(classifyIP('1:2:3')).toBe('invalid');
+      expect(classifyIP('1::2::3')).toBe('invalid');
+      expect(classifyIP('')).toBe('invalid');
+    });
+  });
+
+  describe('MemoryIPGeoDatabase', () => {
+    it('loads CIDR networks and normalizes records', async () => {
+      const db = MemoryIPGeoDatabase.fromCSV(RANGES_CSV);
+      expect(await db.lookup('8.8.8.8')).toEqual({
+        country: 'US', region: 'NY', latitude: 40.7128, longitude: -74.006, accuracyRadius: 20_000,
+      });
+      expect((await db.lookup('145.100.3.4'))!.country).toBe('NL');
+      expect((await db.lookup('2a02:a00f::1'))!.country).toBe('NL');
+      expect(await db.lookup('8.8.9.1')).toBeUndefined();
+      expect(await db.lookup('not-an-ip')).toBeUndefined();
+    });
+
+    it('loads start/end ranges, including IP2Location integers', async () => {
+      const db = MemoryIPGeoDatabase.fromCSV(
+        'ip_from,ip_to,country_code,region\n' +
+          '134744064,134744319,US,US-CA\n' +
+          '1.0.0.0,1.0.0.255,AU,\n'
+      );
+      expect(await db.lookup('8.8.8.8')).toMatchObject({ country: 'US', region: 'CA' });
+      expect((await db.lookup('1.0.0.7'))!.country).toBe('AU');
+    });
+
+    it('requires range and place columns', () => {
+      expect(() => MemoryIPGeoDatabase.fromCSV('ip,country\n8.8.8.8,US')).toThrow(
+        'IP geolocation CSV needs network or start and end columns'
+      );
+    });
+
+    it('adds ranges programmatically', async () => {
+      const db = new MemoryIPGeoDatabase();
+      db.add('9.9.9.0/24', undefined, { country: 'ch' });
+      db.add('9.9.10.0', '9.9.10.9', { country: 'DE' });
+      expect((await db.lookup('9.9.9.9'))!.country).toBe('CH');
+      expect((await db.lookup('9.9.10.5'))!.country).toBe('DE');
+      expect(() => db.add('9.9.9.0/40', undefined, {})).toThrow("Invalid IP range '9.9.9.0/40'");
+    });
+  });
+
+  describe('MMDBReader', () => {
+    const mmdb = createMMDB({
+      '8.8.8.0/24': {
+        country: { iso_code: 'US' },
+        subdivisions: [{ iso_code: 'NY' }],
+        location: { latitude: 40.7128, longitude: -74.006, accuracy_radius: 20 },
+      },
+      '2a02:a000::/20': { country: { iso_code: 'NL' }, location: { latitude: 52.3676, longitude: 4.9041 } },
+      '1.1.1.0/24': { registered_country: { iso_code: 'AU' }, is_anycast: true },
+    });
+
+    it('reads metadata and looks up IPv4 and IPv6 addresses', async () => {
+      const reader = new MMDBReader(mmdb);
+      expect(reader.metadata).toMatchObject({ ip_version: 6, record_size: 24, database_type: 'GeoLite2-City' });
+
+      expect(await reader.lookup('8.8.8.8')).toEqual({
+        country: 'US', region: 'NY', latitude: 40.7128, longitude: -74.006, accuracyRadius: 20_000,
+      });
+      expect(await reader.lookup('::ffff:8.8.8.200')).toMatchObject({ country: 'US' });
+      expect(await reader.lookup('2a02:a00f::1')).toMatchObject({ country: 'NL', latitude: 52.3676 });
+      expect(await reader.lookup('1.1.1.1')).toMatchObject({ country: 'AU' });
+      expect(await reader.lookup('9.9.9.9')).toBeUndefined();
+    });
+
+    it('returns raw records from get()', () => {
+      const reader = new MMDBReader(mmdb);
+      expect(reader.get('1.1.1.1')).toEqual({ registered_country: { iso_code: 'AU' }, is_anycast: true });
+      expect(reader.get('not-an-ip')).toBeUndefined();
+    });
+
+    it('rejects files that are not MaxMind DBs', () => {
+      expect(() => new MMDBReader(new Uint8Array(64))).toThrow('Not a MaxMind DB file');
+    });
+  });
+
+  describe('cross-check', () => {
+    const db = MemoryIPGeoDatabase.fromCSV(RANGES_CSV);
+
+    it('skips private addresses', async () => {
+      const result = await verifyProofModeStamp(makeStamp('192.168.1.1'), { ipGeolocation: db });
+      expect(result.details.checks).toContainEqual(
+        expect.objectContaining({ code: 'IP_NOT_PUBLIC', severity: 'info', value: 'private' })
+      );
+      expect(result.details.ip).toEqual([{ ip: '192.168.1.1', signal: 'IPv4', addressClass: 'private' }]);
+    });
+
+    it('accepts an IP in the same country and near the fix', async () => {
+      const [check] = await checkIPGeolocation(
+        makeStamp().signals, db, geocoder({ country: 'US', region: 'US-NY' }), 250_000
+      );
+      expect(check).toMatchObject({ countryMatches: true, regionMatches: true, consistent: true });
+      expect(check.distance).toBeLessThan(10_000);
+      expect(check.allowedDistance).toBe(20_000 + 250_000);
+    });
+
+    it('flags a VPN-style country mismatch', async () => {
+      const stamp = makeStamp('145.100.3.4');
+      const options = { ipGeolocation: db, reverseGeocoder: geocoder({ country: 'US', region: 'NY' }) };
+
+      const result = await verifyProofModeStamp(stamp, options);
+      const codes = result.details.checks.map((c: { code: string }) => c.code);
+      expect(codes).toEqual(expect.arrayContaining(['IP_COUNTRY_MISMATCH', 'IP_LOCATION_MISMATCH']));
+      expect(result.signalsConsistent).toBe(true);
+
+      const forensic = await verifyProofModeStamp(stamp, { ...options, policy: 'forensic' });
+      expect(forensic.signalsConsistent).toBe(false);
+    });
+
+    it('compares distance without a reverse geocoder, except on mobile networks', async () => {
+      const stamp = makeStamp('145.100.3.4');
+      const [check] = await checkIPGeolocation(stamp.signals, db, undefined, 250_000);
+      expect(check.countryMatches).toBeUndefined();
+      expect(check.consistent).toBe(false);
+
+      stamp.signals['Network'] = 'mobile';
+      const [mobile] = await checkIPGeolocation(stamp.signals, db, undefined, 250_000);
+      expect(mobile.distance).toBeUndefined();
+      expect(mobile.consistent).toBeUndefined();
+    });
+
+    it('warns of a region mismatch, which the policy can adjust', async () => {
+      const options = { ipGeolocation: db, reverseGeocoder: geocoder({ country: 'US', region: 'NJ' }) };
+      const result = await verifyProofModeStamp(makeStamp(), options);
+      expect(result.details.checks).toContainEqual(
+        expect.objectContaining({ code: 'IP_REGION_MISMATCH', severity: 'warn' })
+      );
+      expect(result.details.checks.map((c: { code: string }) => c.code)).not.toContain('IP_GEO_CONSISTENT');
+
+      const lenient = await verifyProofModeStamp(makeStamp(), { ...options, policy: 'lenient' });
+      expect(lenient.details.checks).toContainEqual(
+        expect.objectContaining({ code: 'IP_REGION_MISMATCH', severity: 'info' })
+      );
+      const fatal = await verifyProofModeStamp(makeStamp(), {
+        ...options, policy: { severities: { IP_REGION_MISMATCH: 'fail' } },
+      });
+      expect(fatal.signalsConsistent).toBe(false);
+    });
+
+    it('says when countries could not be compared', async () => {
+      const countryOnly = MemoryIPGeoDatabase.fromCSV('network,country\n145.100.0.0/16,NL\n');
+      const stamp = makeStamp('145.100.3.4');
+
+      const skipped = await verifyProofModeStamp(stamp, { ipGeolocation: countryOnly });
+      expect(skipped.details.checks).toContainEqual(expect.objectContaining({
+        code: 'IP_COUNTRY_UNCHECKED',
+        severity: 'info',
+        message: 'IPv4 145.100.3.4 geolocates to NL; countries not compared, no reverse geocoder configured',
+      }));
+
+      const unplaced = await verifyProofModeStamp(stamp, {
+        ipGeolocation: countryOnly,
+        reverseGeocoder: { regionAt: async () => undefined },
+      });
+      expect(unplaced.details.checks).toContainEqual(expect.objectContaining({
+        code: 'IP_COUNTRY_UNCHECKED',
+        message: 'IPv4 145.100.3.4 geolocates to NL, but the GPS fix could not be placed in a country',
+      }));
+    });
+
+    it('reports addresses missing from the database', async () => {
+      const result = await verifyProofModeStamp(makeStamp('9.9.9.9'), { ipGeolocation: db });
+      expect(result.details.checks).toContainEqual(
+        expect.objectContaining({ code: 'IP_GEO_UNKNOWN', severity: 'info' })
+      );
+    });
+  });
+});
@@ -0,0 +1,242 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { generateKey, readPrivateKey, revokeKey } from 'openpgp';
+import { ProofModePlugin } from '../index';
+import { parseBundle } from '../parse';
+import { verifyBundle } from '../verify-bundle';
+import { verifyProofModeStamp } from '../verify';
+import { readPublicKeyInfo } from '../crypto';
+import { JSONFileKeyRegistry, MemoryKeyRegistry, checkKeyContinuity } from '../keys';
+import { createDeviceKeys, createSignedBundle } from './fixtures/create-fixture';
+
+const KEY_A = 'AAAA'.repeat(10);
+const KEY_B = 'BBBB'.repeat(10);
+
+function codes(result: { details: { checks: Array<{ code: string }> } }) {
+  return result.details.checks.map(c => c.code);
+}
+
+describe('device keys', () => {
+  let keys: { privateKey: string; publicKey: string };
+  let zipData: Uint8Array;
+
+  beforeAll(async () => {
+    keys = await createDeviceKeys();
+    zipData = await createSignedBundle(keys);
+  });
+
+  describe('readPublicKeyInfo', () => {
+    it('reads the fingerprint, user IDs and creation time', async () => {
+      const info = await readPublicKeyInfo(keys.publicKey);
+      expect(info).toMatchObject({
+        fingerprint: expect.stringMatching(/^[0-9A-F]{40}$/),
+        keyId: expect.stringMatching(/^[0-9A-F]{16}$/),
+        algorithm: 'eddsaLegacy',
+        userIds: ['ProofMode Test Device'],
+        revoked: false,
+      });
+      expect(info!.expires).toBeUndefined();
+      expect(Math.abs(info!.created - Date.now() / 1000)).toBeLessThan(600);
+      expect(await readPublicKeyInfo('not a key')).toBeUndefined();
+    });
+
+    it('reads expiry and revocation', async () => {
+      const expiring = await generateKey({
+        type: 'ecc',
+        curve: 'curve25519Legacy',
+        userIDs: [{ name: 'Expiring Device' }],
+        keyExpirationTime: 86400,
+        format: 'armored',
+      });
+      const info = (await readPublicKeyInfo(expiring.publicKey))!;
+      expect(info.expires).toBe(info.created + 86400);
+
+      const { publicKey } = await revokeKey({
+        key: await readPrivateKey({ armoredKey: expiring.privateKey }),
+        format: 'armored',
+      });
+      expect((await readPublicKeyInfo(publicKey))!.revoked).toBe(true);
+    });
+  });
+
+  describe('checkKeyContinuity', () => {
+    it('flags never-seen keys, then knows them once recorded', async () => {
+      const registry = new MemoryKeyRegistry();
+      expect(await checkKeyContinuity(KEY_A, 'device-1', registry)).toEqual({
+        fingerprint: KEY_A, deviceId: 'device-1', status: 'new', otherKeys: [], firstSeen: undefined,
+      });
+
+      await registry.recordKey(KEY_A, 'device-1', 1700000000);
+      await registry.recordKey(KEY_A, 'device-1', 1690000000);
+      expect(await checkKeyContinuity(KEY_A.toLowerCase(), 'device-1', registry)).toMatchObject({
+        status: 'known', firstSeen: 1690000000,
+      });
+      expect((await registry.getKey(KEY_A))[0].lastSeen).toBe(1700000000);
+    });
+
+    it('detects a device presenting a different key', async () => {
+      const registry = new MemoryKeyRegistry([{ fingerprint: KEY_A, deviceId: 'device-1', firstSeen: 1 }]);
+      expect(await checkKeyContinuity(KEY_B, 'device-1', registry)).toMatchObject({
+        status: 'changed', otherKeys: [KEY_A],
+      });
+      expect((await checkKeyContinuity(KEY_B, 'device-2', registry)).status).toBe('new');
+    });
+
+    it('enforces pinned keys', async () => {
+      const registry = new MemoryKeyRegistry();
+      registry.pin(KEY_A, 'device-1');
+      registry.pin(KEY_B);
+      expect((await checkKeyContinuity(KEY_A, 'device-1', registry)).status).toBe('pinned');
+      expect(await checkKeyContinuity(KEY_B, 'device-1', registry)).toMatchObject({
+        status: 'pin-mismatch', otherKeys: [KEY_A],
+      });
+      expect((await checkKeyContinuity(KEY_B, 'device-2', registry)).status).toBe('pinned');
+    });
+  });
+
+  describe('registries', () => {
+    it('round-trips through JSON', async () => {
+      const registry = new MemoryKeyRegistry();
+      registry.pin(KEY_A, 'device-1');
+      await registry.recordKey(KEY_B, undefined, 1700000000);
+
+      const restored = MemoryKeyRegistry.fromJSON(JSON.stringify(registry));
+      expect(restored.toJSON()).toEqual(registry.toJSON());
+      expect(() => MemoryKeyRegistry.fromJSON('{}')).toThrow(/no keys array/);
+    });
+
+    it('keeps sightings in a JSON file', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'proofmode-keys-'));
+      try {
+        const path = join(dir, 'keys.json');
+        const registry = await JSONFileKeyRegistry.open(path);
+        expect(registry.toJSON()).toEqual({ keys: [] });
+        await registry.recordKey(KEY_A, 'device-1', 1700000000);
+
+        const reopened = await JSONFileKeyRegistry.open(path);
+        expect((await checkKeyContinuity(KEY_A, 'device-1', reopened)).status).toBe('known');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('verifyBundle', () => {
+    it('reports the key and records it once the bundle verifies', async () => {
+      const registry = new MemoryKeyRegistry();
+      const first = await verifyBundle(parseBundle(zipData), { keyRegistry: registry });
+      expect(first.valid).toBe(true);
+      expect(first.key!.fingerprint).toBe(first.keyFingerprint);
+      expect(first.keyContinuity).toMatchObject({ status: 'new', deviceId: 'test-device-001' });
+
+      const second = await verifyBundle(parseBundle(zipData), { keyRegistry: registry });
+      expect(second.keyContinuity).toMatchObject({ status: 'known', firstSeen: 1700000000 });
+    });
+
+    it('rejects a key other than the one pinned for the device', async () => {
+      const registry = new MemoryKeyRegistry();
+      registry.pin(KEY_A, 'test-device-001');
+      const result = await verifyBundle(parseBundle(zipData), { keyRegistry: registry });
+      expect(result.valid).toBe(false);
+      expect(result.keyContinuity!.status).toBe('pin-mismatch');
+      expect(await registry.getDeviceKeys('test-device-001')).toHaveLength(1);
+    });
+
+    it('rejects a revoked key', async () => {
+      const { publicKey } = await revokeKey({
+        key: await readPrivateKey({ armoredKey: keys.privateKey }),
+        format: 'armored',
+      });
+      const result = await verifyBundle({ ...parseBundle(zipData), publicKey });
+      expect(result.key!.revoked).toBe(true);
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe('stamps', () => {
+    const create = (plugin: ProofModePlugin) =>
+      plugin.create({ plugin: 'proofmode', timestamp: 1700000000, data: { zipData, mode: 'destructured' } });
+
+    it('carry the key as PGP.* signals', async () => {
+      const stamp = await create(new ProofModePlugin());
+      const info = (await readPublicKeyInfo(keys.publicKey))!;
+      expect(stamp.signals).toMatchObject({
+        'PGP.Fingerprint': info.fingerprint,
+        'PGP.UserIDs': ['ProofMode Test Device'],
+        'PGP.KeyCreated': info.created,
+        'PGP.KeyRevoked': false,
+      });
+    });
+
+    it('are checked against the registry without recording', async () => {
+      const registry = new MemoryKeyRegistry();
+      const plugin = new ProofModePlugin({ keyRegistry: registry });
+      const stamp = await create(plugin);
+
+      const unknown = await plugin.verify(stamp);
+      expect(unknown.valid).toBe(true);
+      expect(codes(unknown)).toContain('KEY_UNKNOWN');
+      expect(await registry.getKey(stamp.signals['PGP.Fingerprint'])).toEqual([]);
+
+      const forensic = await verifyProofModeStamp(stamp, { keyRegistry: registry, policy: 'forensic' });
+      const check = forensic.details.checks.find((c: { code: string }) => c.code === 'KEY_UNKNOWN');
+      expect(check.severity).toBe('fail');
+
+      registry.pin(stamp.signals['PGP.Fingerprint'], 'test-device-001');
+      expect(codes(await plugin.verify(stamp))).toContain('KEY_PINNED');
+    });
+
+    it('fail for a pinned-key mismatch, a device key change or a revoked key', async () => {
+      const registry = new MemoryKeyRegistry([{ fingerprint: KEY_A, deviceId: 'test-device-001', firstSeen: 1 }]);
+      const stamp = await create(new ProofModePlugin());
+
+      const changed = await verifyProofModeStamp(stamp, { keyRegistry: registry });
+      expect(codes(changed)).toContain('KEY_CHANGED');
+      expect(changed.details.keyContinuity.otherKeys).toEqual([KEY_A]);
+
+      registry.pin(KEY_A, 'test-device-001');
+      const mismatch = await verifyProofModeStamp(stamp, { keyRegistry: registry });
+      expect(mismatch.signaturesValid).toBe(false);
+      expect(codes(mismatch)).toContain('KEY_PIN_MISMATCH');
+
+      const revoked = await verifyProofModeStamp({ ...stamp, signals: { ...stamp.signals, 'PGP.KeyRevoked': true } });
+      expect(codes(revoked)).toContain('KEY_REVOKED');
+      expect(revoked.signaturesValid).toBe(false);
+    });
+
+    it('follow the key that verified the evidence, not the claimed fingerprint', async () => {
+      const registry = new MemoryKeyRegistry();
+      const stamp = await create(new ProofModePlugin());
+      const verifiedKey = stamp.signals['PGP.Fingerprint'];
+      registry.pin(verifiedKey, 'test-device-001');
+
+      // Claiming the pinned key does not borrow its standing
+      registry.pin(KEY_A, 'test-device-002');
+      const claimed = await verifyProofModeStamp(
+        { ...stamp, signals: { ...stamp.signals, 'PGP.Fingerprint': KEY_A, DeviceID: 'test-device-002' } },
+        { keyRegistry: registry }
+      );
+      expect(claimed.signaturesValid).toBe(false);
+      expect(codes(claimed)).toEqual(expect.arrayContaining(['KEY_FINGERPRINT_MISMATCH', 'KEY_PIN_MISMATCH']));
+      expect(claimed.details.keyContinuity.fingerprint).toBe(verifiedKey);
+    });
+
+    it('report continuity as unverifiable without destructured evidence', async () => {
+      const registry = new MemoryKeyRegistry();
+      const stamp = await new ProofModePlugin().create({ plugin: 'proofmode', timestamp: 1700000000, data: { zipData } });
+      registry.pin(stamp.signals['PGP.Fingerprint'], 'test-device-001');
+
+      const result = await verifyProofModeStamp(stamp, { keyRegistry: registry });
+      expect(codes(result)).toContain('KEY_UNVERIFIED');
+      expect(codes(result)).not.toContain('KEY_PINNED');
+      expect(result.details.keyContinuity).toBeUndefined();
+
+      const forensic = await verifyProofModeStamp(stamp, { keyRegistry: registry, policy: 'forensic' });
+      const check = forensic.details.checks.find((c: { code: string }) => c.code === 'KEY_UNVERIFIED');
+      expect(check.severity).toBe('fail');
+    });
+  });
+});
@@ -0,0 +1,147 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+import { extractMediaMetadata, parseBundle } from '../parse';
+import { checkMediaMetadata } from '../media-metadata';
+import { resolvePolicy } from '../policy';
+import { verifyBundle } from '../verify-bundle';
+import { createDeviceKeys, createSignedBundle, createSyntheticBundle } from './fixtures/create-fixture';
+import { createExif, createHEIC, createJPEG, createPNG, createXMP } from './fixtures/create-media';
+
+// Matches the synthetic bundle: Empire State Building, 2023-11-14T22:13:20Z
+const MATCHING_EXIF = {
+  make: 'TestCo',
+  model: 'TestPhone',
+  orientation: 6,
+  dateTimeOriginal: '2023:11:14 17:13:25',
+  offsetTimeOriginal: '-05:00',
+  latitude: 40.7485,
+  longitude: -73.9856,
+  altitude: 52,
+  gpsAccuracy: 5,
+  gpsDate: '2023:11:14',
+  gpsTime: [22, 13, 20] as [number, number, number],
+};
+
+const policy = resolvePolicy('standard');
+
+function bundleWithMedia(media: Uint8Array) {
+  return parseBundle(createSyntheticBundle({ includeMedia: true, media }));
+}
+
+describe('media metadata', () => {
+  describe('extractMediaMetadata', () => {
+    it('reads EXIF from a JPEG', () => {
+      const metadata = extractMediaMetadata(createJPEG({ exif: createExif(MATCHING_EXIF) }))!;
+      expect(metadata).toMatchObject({
+        format: 'jpeg',
+        sources: ['exif'],
+        make: 'TestCo',
+        model: 'TestPhone',
+        orientation: 6,
+        dateTimeOriginal: '2023:11:14 17:13:25',
+        captureTime: 1700000005,
+        timeZoneKnown: true,
+        gpsTime: 1700000000,
+        altitude: 52,
+        gpsAccuracy: 5,
+      });
+      expect(metadata.latitude).toBeCloseTo(40.7485, 6);
+      expect(metadata.longitude).toBeCloseTo(-73.9856, 6);
+    });
+
+    it('reads little-endian EXIF and compressed XMP from a PNG', () => {
+      const png = createPNG({
+        exif: createExif({ model: 'Pixel 7', latitude: -33.8568, longitude: 151.2153, littleEndian: true }),
+        xmp: createXMP({ 'tiff:Make': 'Google', 'exif:DateTimeOriginal': '2024-01-02T03:04:05Z' }),
+        compressXMP: true,
+      });
+      const metadata = extractMediaMetadata(png)!;
+      expect(metadata).toMatchObject({
+        format: 'png',
+        sources: ['exif', 'xmp'],
+        make: 'Google',
+        model: 'Pixel 7',
+        captureTime: Date.UTC(2024, 0, 2, 3, 4, 5) / 1000,
+        timeZoneKnown: true,
+      });
+      expect(metadata.latitude).toBeCloseTo(-33.8568, 6);
+    });
+
+    it('reads Exif and XMP items from a HEIC', () => {
+      const heic = createHEIC({
+        exif: createExif({ make: 'Apple', dateTimeOriginal: '2024:05:06 07:08:09' }),
+        xmp: createXMP({ 'exif:GPSLatitude': '48,51.504N', 'exif:GPSLongitude': '2,17,40.2E' }),
+      });
+      const metadata = extractMediaMetadata(heic)!;
+      expect(metadata).toMatchObject({ format: 'heic', sources: ['exif', 'xmp'], make: 'Apple', timeZoneKnown: false });
+      expect(metadata.latitude).toBeCloseTo(48.8584, 4);
+      expect(metadata.longitude).toBeCloseTo(2.2945, 4);
+    });
+
+    it('prefers EXIF over XMP', () => {
+      const jpeg = createJPEG({
+        exif: createExif({ model: 'From EXIF' }),
+        xmp: createXMP({ 'tiff:Model': 'From XMP', 'tiff:Orientation': '3' }),
+      });
+      expect(extractMediaMetadata(jpeg)).toMatchObject({ model: 'From EXIF', orientation: 3 });
+    });
+
+    it('ignores other formats and damaged blocks', () => {
+      expect(extractMediaMetadata(new TextEncoder().encode('synthetic-jpeg-bytes'))).toBeUndefined();
+      expect(extractMediaMetadata(createJPEG({}))).toBeUndefined();
+
+      const truncated = createExif(MATCHING_EXIF).subarray(0, 40);
+      expect(() => extractMediaMetadata(createJPEG({ exif: truncated }))).not.toThrow();
+      expect(extractMediaMetadata(createJPEG({ exif: new Uint8Array([1, 2, 3]) }))).toBeUndefined();
+    });
+  });
+
+  describe('checkMediaMetadata', () => {
+    it('accepts media whose EXIF agrees with the metadata', () => {
+      const result = checkMediaMetadata(bundleWithMedia(createJPEG({ exif: createExif(MATCHING_EXIF) })), policy)!;
+      expect(result.consistent).toBe(true);
+      expect(result.checks.map(c => c.field)).toEqual(['location', 'time', 'make', 'model']);
+      expect(result.checks[0].difference).toBeLessThan(20);
+      expect(result.checks[1].difference).toBe(5);
+    });
+
+    it('flags EXIF taken elsewhere, at another time, on another device', () => {
+      const exif = createExif({
+        ...MATCHING_EXIF,
+        model: 'OtherPhone',
+        latitude: 48.8584,
+        longitude: 2.2945,
+        dateTimeOriginal: '2023:11:10 09:00:00',
+      });
+      const result = checkMediaMetadata(bundleWithMedia(createJPEG({ exif })), policy)!;
+      expect(result.consistent).toBe(false);
+      expect(result.checks.filter(c => !c.matches).map(c => c.field)).toEqual(['location', 'time', 'model']);
+    });
+
+    it('allows for an unknown time zone on the capture time', () => {
+      const local = (dateTimeOriginal: string) =>
+        checkMediaMetadata(
+          bundleWithMedia(createJPEG({ exif: createExif({ dateTimeOriginal }) })),
+          policy
+        )!.checks[0];
+
+      // 17:13 in New York, recorded without an offset
+      expect(local('2023:11:14 17:13:20')).toMatchObject({ field: 'time', matches: true, difference: 0 });
+      expect(local('2023:11:14 17:43:20')).toMatchObject({ matches: true, difference: 0 });
+      expect(local('2023:11:16 17:13:20').matches).toBe(false);
+    });
+
+    it('needs the media bytes', () => {
+      const bundle = { ...bundleWithMedia(createJPEG({ exif: createExif(MATCHING_EXIF) })), mediaFile: undefined };
+      expect(checkMediaMetadata(bundle, policy)).toBeUndefined();
+    });
+  });
+
+  it('is reported by verifyBundle without affecting validity', async () => {
+    const keys = await createDeviceKeys();
+    const media = createJPEG({ exif: createExif({ ...MATCHING_EXIF, model: 'OtherPhone' }) });
+    const result = await verifyBundle(parseBundle(await createSignedBundle(keys, { media })));
+    expect(result.valid).toBe(true);
+    expect(result.mediaMetadata!.consistent).toBe(false);
+  });
+});
@@ -0,0 +1,135 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+import { MemoryBlockHeaderSource, parseOTSProof, verifyOTSProof } from '../ots';
+import { verifyBundle } from '../verify-bundle';
+import { parseBundle } from '../parse';
+import { createSyntheticBundle } from './fixtures/create-fixture';
+import { createOTSProof } from './fixtures/create-ots';
+
+const DIGEST = 'a'.repeat(64);
+const HEIGHT = 815000;
+
+describe('OpenTimestamps', () => {
+  describe('parseOTSProof', () => {
+    it('walks the operation tree to every attestation', () => {
+      const { proof, commitment } = createOTSProof(DIGEST, HEIGHT);
+      const parsed = parseOTSProof(proof);
+
+      expect(parsed.version).toBe(1);
+      expect(parsed.hashAlgorithm).toBe('sha256');
+      expect(parsed.digest).toBe(DIGEST);
+      expect(parsed.attestations).toHaveLength(2);
+      expect(parsed.attestations[0].type).toBe('pending');
+      expect(parsed.attestations[0].uri).toBe('https://alice.btc.calendar.opentimestamps.org');
+      expect(parsed.attestations[1]).toEqual({ type: 'bitcoin', height: HEIGHT, commitment });
+    });
+
+    it('rejects data without the OTS header', () => {
+      expect(() => parseOTSProof(new TextEncoder().encode('fake-ots-proof'))).toThrow(
+        'missing OpenTimestamps header'
+      );
+    });
+
+    it('rejects truncated proofs', () => {
+      const { proof } = createOTSProof(DIGEST, HEIGHT);
+      expect(() => parseOTSProof(proof.subarray(0, proof.length - 2))).toThrow('unexpected end');
+    });
+  });
+
+  describe('verifyOTSProof', () => {
+    it('verifies against a matching block header and reports the attested time', async () => {
+      const { proof, header } = createOTSProof(DIGEST, HEIGHT, 1700000600);
+      const headers = new MemoryBlockHeaderSource({ [HEIGHT]: header });
+      const result = await verifyOTSProof(parseOTSProof(proof), headers, DIGEST);
+
+      expect(result.valid).toBe(true);
+      expect(result.status).toBe('verified');
+      expect(result.digestMatches).toBe(true);
+      expect(result.attestedTime).toBe(1700000600);
+      expect(result.attestedHeight).toBe(HEIGHT);
+      expect(result.attestations[1].verified).toBe(true);
+      expect(result.attestations[0].verified).toBe(false);
+    });
+
+    it('invalidates the proof when the header merkle root differs', async () => {
+      const { proof } = createOTSProof(DIGEST, HEIGHT);
+      const headers = new MemoryBlockHeaderSource({ [HEIGHT]: new Uint8Array(80) });
+      const result = await verifyOTSProof(parseOTSProof(proof), headers);
+
+      expect(result.valid).toBe(false);
+      expect(result.status).toBe('invalid');
+      expect(result.attestedTime).toBeUndefined();
+      expect(result.attestations[1].error).toBe('Commitment does not match block merkle root');
+    });
+
+    it('reports a proof with no verifiable attestation as pending, not valid', async () => {
+      const { proof } = createOTSProof(DIGEST, HEIGHT);
+      const result = await verifyOTSProof(parseOTSProof(proof), new MemoryBlockHeaderSource(), DIGEST);
+
+      expect(result).toMatchObject({ valid: false, status: 'pending', digestMatches: true });
+      expect(result.attestedTime).toBeUndefined();
+      expect(result.attestations[1].error).toBe('Block header not available');
+    });
+
+    it('reports an attested proof without an expected digest as unbound, not valid', async () => {
+      const { proof, header } = createOTSProof(DIGEST, HEIGHT, 1700000600);
+      const headers = new MemoryBlockHeaderSource({ [HEIGHT]: header });
+      const result = await verifyOTSProof(parseOTSProof(proof), headers);
+
+      expect(result).toMatchObject({ valid: false, status: 'unbound', attestedTime: 1700000600 });
+      expect(result.digestMatches).toBeUndefined();
+    });
+
+    it('invalidates the proof when it timestamps a different digest', async () => {
+      const { proof, header } = createOTSProof(DIGEST, HEIGHT);
+      const headers = new MemoryBlockHeaderSource({ [HEIGHT]: header });
+      const result = await verifyOTSProof(parseOTSProof(proof), headers, 'b'.repeat(64));
+
+      expect(result.valid).toBe(false);
+      expect(result.status).toBe('invalid');
+      expect(result.digestMatches).toBe(false);
+    });
+  });
+
+  describe('MemoryBlockHeaderSource.fromText', () => {
+    it('loads height/header pairs from a headers file', async () => {
+      const { header } = createOTSProof(DIGEST, HEIGHT);
+      const hex = Buffer.from(header).toString('hex');
+      const source = MemoryBlockHeaderSource.fromText(`# headers\n\n${HEIGHT} ${hex}\n`);
+
+      expect(await source.getBlockHeader(HEIGHT)).toEqual(header);
+      expect(await source.getBlockHeader(HEIGHT + 1)).toBeUndefined();
+    });
+  });
+
+  describe('verifyBundle with a header source', () => {
+    it('attaches the timestamp result to the bundle verification', async () => {
+      const { proof, header } = createOTSProof(DIGEST, HEIGHT);
+      const bundle = { ...parseBundle(createSyntheticBundle()), otsProof: proof };
+      const result = await verifyBundle(bundle, {
+        blockHeaders: new MemoryBlockHeaderSource({ [HEIGHT]: header }),
+      });
+
+      expect(result.timestamp!.valid).toBe(true);
+      expect(result.timestamp!.attestedTime).toBe(1700000600);
+    });
+
+    it('neither proves nor invalidates the bundle with a pending proof', async () => {
+      const { proof } = createOTSProof(DIGEST, HEIGHT);
+      const bundle = { ...parseBundle(createSyntheticBundle()), otsProof: proof };
+      const result = await verifyBundle(bundle, { blockHeaders: new MemoryBlockHeaderSource() });
+
+      expect(result.timestamp).toMatchObject({ valid: false, status: 'pending' });
+      expect(result.signatures.every(s => s.valid)).toBe(result.valid);
+    });
+
+    it('reports malformed proofs as an invalid timestamp', async () => {
+      const bundle = parseBundle(createSyntheticBundle({ includeOTS: true }));
+      const result = await verifyBundle(bundle, { blockHeaders: new MemoryBlockHeaderSource() });
+
+      expect(result.valid).toBe(false);
+      expect(result.timestamp!.valid).toBe(false);
+      expect(result.timestamp!.error).toBe('OTS: missing OpenTimestamps header');
+    });
+  });
+});
@@ -1,9 +1,12 @@
 // Copyright © 2026 Sophia Systems Corporation
 
-import { parseBundle } from '../parse';
+import { unzipSync, zipSync } from 'fflate';
+import { parseBundle, parseBundleItems, parseBundleStream } from '../parse';
+import { BundleTooLargeError, MalformedBundleError, SuspiciousEntryError } from '../errors';
+import { checkMediaIntegrity } from '../integrity';
 import { parseCSV } from '../parse/csv';
 import { parseJSON } from '../parse/json';
-import { createSyntheticBundle } from './fixtures/create-fixture';
+import { createMultiItemBundle, createSyntheticBundle } from './fixtures/create-fixture';
 
 describe('ProofMode parser', () => {
   describe('parseBundle', () => {
@@ -78,6 +81,169 @@ describe('ProofMode parser', () => {
     });
   });
 
+  describe('parseBundleItems', () => {
+    const encoder = new TextEncoder();
+    const zipData = createMultiItemBundle([
+      { lat: 40.7484, lon: -73.9857, media: encoder.encode('photo-1'), mediaName: 'IMG_0001.jpg' },
+      { lat: 51.5007, lon: -0.1246, media: encoder.encode('photo-2'), mediaName: 'IMG_0002.jpg' },
+      { lat: 48.8584, lon: 2.2945, media: encoder.encode('video-3'), mediaName: 'VID_0003.mp4' },
+    ]);
+
+    it('returns one bundle per media item', () => {
+      const items = parseBundleItems(zipData);
+      expect(items).toHaveLength(3);
+      expect(items.map(i => i.metadata.signals['Location.Latitude'])).toEqual([
+        40.7484, 51.5007, 48.8584,
+      ]);
+    });
+
+    it('pairs each item with its own media, signature and hash', () => {
+      for (const item of parseBundleItems(zipData)) {
+        const name = item.metadata.signals['File.Name'];
+        expect(item.mediaFileName).toBe(name);
+        expect(item.mediaSignature).toBeTruthy();
+        expect(item.metadataSignature).toBeTruthy();
+        expect(item.expectedHash).toMatch(/^[a-f0-9]{64}$/);
+        expect(item.files.map(f => f.name)).toContain(`${item.expectedHash}.proof.csv`);
+      }
+    });
+
+    it('shares the public key across items', () => {
+      const items = parseBundleItems(zipData);
+      expect(items.every(i => i.publicKey?.includes('BEGIN PGP PUBLIC KEY BLOCK'))).toBe(true);
+    });
+
+    it('returns a single item for a single-item bundle', () => {
+      const items = parseBundleItems(createSyntheticBundle());
+      expect(items).toHaveLength(1);
+      expect(items[0]).toEqual(parseBundle(createSyntheticBundle()));
+    });
+
+    it('makes parseBundle return the first item of a multi-item bundle', () => {
+      expect(parseBundle(zipData)).toEqual(parseBundleItems(zipData)[0]);
+    });
+
+    it('lists media that match no item instead of dropping them', () => {
+      expect(parseBundleItems(zipData).every(i => i.unmatchedMedia === undefined)).toBe(true);
+
+      const files = unzipSync(zipData);
+      files['IMG_9999.jpg'] = encoder.encode('stray photo');
+      const items = parseBundleItems(zipSync(files));
+      expect(items.map(i => i.mediaFileName)).toEqual(['IMG_0001.jpg', 'IMG_0002.jpg', 'VID_0003.mp4']);
+      expect(items.every(i => i.unmatchedMedia?.join() === 'IMG_9999.jpg')).toBe(true);
+    });
+  });
+
+  describe('parseBundleStream', () => {
+    async function* inChunks(data: Uint8Array, size: number) {
+      for (let i = 0; i < data.length; i += size) {
+        yield data.subarray(i, i + size);
+      }
+    }
+
+    const zipData = createSyntheticBundle({ includeMedia: true, includeSafetyNet: true });
+
+    it('matches parseBundleItems when keeping media', async () => {
+      const streamed = await parseBundleStream(inChunks(zipData, 7), { keepMedia: true });
+      const [expected] = parseBundleItems(zipData);
+      expect(streamed).toHaveLength(1);
+      expect(streamed[0]).toEqual({
+        ...expected,
+        mediaSha256: expected.expectedHash,
+        mediaSize: expected.mediaFile!.length,
+      });
+    });
+
+    it('hashes media and drops its bytes by default', async () => {
+      const [bundle] = await parseBundleStream(inChunks(zipData, 64));
+      expect(bundle.mediaFile).toBeUndefined();
+      expect(bundle.mediaFileName).toBe('test-photo.jpg');
+      expect(bundle.mediaSha256).toBe(bundle.expectedHash);
+      expect(bundle.files.map(f => f.name)).not.toContain('test-photo.jpg');
+      expect(checkMediaIntegrity(bundle)!.valid).toBe(true);
+    });
+
+    it('reads from a ReadableStream', async () => {
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(zipData.subarray(0, 100));
+          controller.enqueue(zipData.subarray(100));
+          controller.close();
+        },
+      });
+      const [bundle] = await parseBundleStream(stream);
+      expect(bundle.metadata.signals['Location.Latitude']).toBe(40.7484);
+      expect(bundle.safetyNetToken).toBeTruthy();
+    });
+
+    it('parses every item of a batch export', async () => {
+      const encoder = new TextEncoder();
+      const batch = createMultiItemBundle([
+        { media: encoder.encode('photo-1'), mediaName: 'IMG_0001.jpg' },
+        { media: encoder.encode('photo-2'), mediaName: 'IMG_0002.jpg' },
+      ]);
+      const items = await parseBundleStream(inChunks(batch, 32));
+      expect(items.map(i => i.mediaFileName)).toEqual(['IMG_0001.jpg', 'IMG_0002.jpg']);
+      expect(items.every(i => i.mediaSha256 === i.expectedHash)).toBe(true);
+    });
+
+    it('rejects archives without metadata', async () => {
+      await expect(parseBundleStream(inChunks(new Uint8Array(128), 16))).rejects.toThrow(
+        'missing metadata'
+      );
+    });
+  });
+
+  describe('bundle limits', () => {
+    function withEntries(extra: Record<string, Uint8Array>): Uint8Array {
+      return zipSync({ ...unzipSync(createSyntheticBundle()), ...extra });
+    }
+
+    async function* once(data: Uint8Array) {
+      yield data;
+    }
+
+    it.each(['../evil.sh', 'proof/../../evil.sh', '/etc/passwd', 'C:/evil.sh', 'a\\b.txt'])(
+      'rejects the suspicious entry name %j',
+      async name => {
+        const zipData = withEntries({ [name]: new Uint8Array([1]) });
+        expect(() => parseBundle(zipData)).toThrow(SuspiciousEntryError);
+        await expect(parseBundleStream(once(zipData))).rejects.toThrow(SuspiciousEntryError);
+      }
+    );
+
+    it('rejects archives with too many entries', () => {
+      expect(() => parseBundle(createSyntheticBundle(), { maxEntries: 2 })).toThrow(
+        expect.objectContaining({ name: 'BundleTooLargeError', limit: 'maxEntries' })
+      );
+    });
+
+    it('rejects entries over the size limits', async () => {
+      const zipData = withEntries({ 'video.mp4': new Uint8Array(4096).fill(7) });
+      expect(() => parseBundle(zipData, { maxEntrySize: 1024 })).toThrow(
+        expect.objectContaining({ limit: 'maxEntrySize' })
+      );
+      expect(() => parseBundle(zipData, { maxTotalSize: 2048 })).toThrow(
+        expect.objectContaining({ limit: 'maxTotalSize' })
+      );
+      await expect(
+        parseBundleStream(once(zipData), { limits: { maxTotalSize: 2048 } })
+      ).rejects.toThrow(BundleTooLargeError);
+    });
+
+    it('rejects highly compressed entries before inflating them', async () => {
+      const zipData = withEntries({ 'bomb.jpg': new Uint8Array(8 * 1024 * 1024) });
+      expect(() => parseBundle(zipData)).toThrow(
+        expect.objectContaining({ limit: 'maxCompressionRatio' })
+      );
+      await expect(parseBundleStream(once(zipData))).rejects.toThrow(BundleTooLargeError);
+    });
+
+    it('wraps unreadable archives in MalformedBundleError', () => {
+      expect(() => parseBundle(new Uint8Array(64).fill(0x50))).toThrow(MalformedBundleError);
+    });
+  });
+
   describe('parseCSV', () => {
     it('parses comma-separated format', () => {
       const csv = 'Location.Latitude,40.7484\nLocation.Longitude,-73.9857';
@@ -104,6 +270,62 @@ describe('ProofMode parser', () => {
       const result = parseCSV(csv);
       expect(result.signals['Location.Latitude']).toBe(40.7484);
     });
+
+    it('keeps quoted values with commas, escaped quotes and line breaks whole', () => {
+      const csv =
+        'Location.Latitude,40.7484\r\n' +
+        'CellInfo,"[{""cid"":1,""lac"":2}]"\r\n' +
+        'Address,"350 5th Ave,\nNew York"\r\n';
+      const result = parseCSV(csv);
+      expect(result.csvLayout).toBe('key-value');
+      expect(result.signals['CellInfo']).toBe('[{"cid":1,"lac":2}]');
+      expect(result.signals['Address']).toBe('350 5th Ave,\nNew York');
+      expect(result.signals['Location.Latitude']).toBe(40.7484);
+    });
+
+    it('parses a header row followed by data rows', () => {
+      const csv = [
+        'Location.Latitude,Location.Longitude,Location.Provider,CellInfo',
+        '40.7484,-73.9857,gps,"[{""cid"":1},{""cid"":2}]"',
+        '40.7490,-73.9860,network,',
+      ].join('\r\n');
+      const result = parseCSV(csv);
+
+      expect(result.csvLayout).toBe('wide');
+      expect(result.signals['Location.Latitude']).toBe(40.7484);
+      expect(result.signals['Location.Provider']).toBe('gps');
+      expect(result.signals['CellInfo']).toBe('[{"cid":1},{"cid":2}]');
+      expect(result.rows).toHaveLength(2);
+      expect(result.rows![1]['Location.Provider']).toBe('network');
+      expect(result.rows![1]['CellInfo']).toBeUndefined();
+    });
+
+    it('tells a two-column header row from key-value pairs', () => {
+      const wide = parseCSV('Latitude,Longitude\n40.7484,-73.9857');
+      expect(wide.csvLayout).toBe('wide');
+      expect(wide.signals['Location.Longitude']).toBe(-73.9857);
+
+      const pairs = parseCSV('Location.Latitude,40.7484\nLocation.Longitude,-73.9857');
+      expect(pairs.csvLayout).toBe('key-value');
+    });
+
+    it('reads a two-column header row of known fields even when the data looks like a name', () => {
+      const wide = parseCSV('Location.Provider,Location.Accuracy\ngps,12');
+      expect(wide.csvLayout).toBe('wide');
+      expect(wide.signals).toMatchObject({ 'Location.Provider': 'gps', 'Location.Accuracy': 12 });
+
+      const pairs = parseCSV('Location.Provider,gps\nNetwork,wifi');
+      expect(pairs.csvLayout).toBe('key-value');
+      expect(pairs.signals).toMatchObject({ 'Location.Provider': 'gps', Network: 'wifi' });
+
+      expect(parseCSV('key,value\nLocation.Provider,gps').csvLayout).toBe('key-value');
+    });
+
+    it('falls back to tab- and colon-separated pairs', () => {
+      const result = parseCSV('Location.Latitude\t40.7484\nLocation.Provider: gps');
+      expect(result.signals['Location.Latitude']).toBe(40.7484);
+      expect(result.signals['Location.Provider']).toBe('gps');
+    });
   });
 
   describe('parseJSON', () => {
@@ -126,5 +348,43 @@ describe('ProofMode parser', () => {
       const result = parseJSON(json);
       expect(result.signals['Location.Latitude']).toBe(40.7484);
     });
+
+    it('parses arrays of objects into typed collections', () => {
+      const json = JSON.stringify({
+        'Location.Latitude': 40.7484,
+        CellInfo: [
+          { type: 'CellInfoLte', mcc: '310', mnc: 260, tac: 1234, ci: 5678901, dbm: -95, registered: true },
+          { type: 'GSM', mcc: 310, mnc: 260, lac: 42, cid: 7 },
+        ],
+        WiFi: { Scan: [{ BSSID: 'AA-BB-CC-DD-EE-FF', SSID: 'Lobby', level: -61, frequency: 2437 }] },
+        Locations: [
+          { lat: 40.7484, lng: -73.9857, accuracy: 8, provider: 'gps', time: 1700000000000 },
+          { latitude: 40.7485, longitude: -73.9858 },
+        ],
+        Tags: ['a', 'b'],
+      });
+      const { signals } = parseJSON(json);
+
+      expect(signals.Cells).toEqual([
+        { type: 'lte', mcc: 310, mnc: 260, tac: 1234, cid: 5678901, signalStrength: -95, registered: true },
+        { type: 'gsm', mcc: 310, mnc: 260, lac: 42, cid: 7 },
+      ]);
+      expect(signals['WiFi.AccessPoints']).toEqual([
+        { bssid: 'aa:bb:cc:dd:ee:ff', ssid: 'Lobby', signalStrength: -61, frequency: 2437 },
+      ]);
+      expect(signals['Location.Samples']).toEqual([
+        { latitude: 40.7484, longitude: -73.9857, accuracy: 8, provider: 'gps', time: 1700000000000 },
+        { latitude: 40.7485, longitude: -73.9858 },
+      ]);
+    });
+
+    it('keeps flat fields backward compatible', () => {
+      const cells = [{ cid: 7, lac: 42 }];
+      const { signals } = parseJSON(JSON.stringify({ CellInfo: cells, Tags: ['a', 'b'] }));
+      expect(typeof signals.CellInfo).toBe('string');
+      expect(JSON.parse(signals.CellInfo!)).toEqual(cells);
+      expect(signals['Tags']).toBe('a,b');
+      expect(signals['Location.Latitude']).toBeUndefined();
+    });
   });
 });
@@ -0,0 +1,177 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+import { unzipSync, zipSync } from 'fflate';
+import { ProofModePlugin } from '../index';
+import { POLICY_PRESETS, resolvePolicy } from '../policy';
+import { verifyProofModeStamp } from '../verify';
+import { parseBundle } from '../parse';
+import { createStampFromBundle } from '../create';
+import { MemoryBlockHeaderSource } from '../ots';
+import {
+  createDeviceKeys,
+  createSignedBundle,
+  createSyntheticBundle,
+  type SyntheticBundleOptions,
+} from './fixtures/create-fixture';
+import { createOTSProof } from './fixtures/create-ots';
+import type { VerificationCheck } from '../types';
+import type { LocationStamp, StampVerificationResult } from '@decentralized-geo/astral-sdk/plugins';
+
+function makeStamp(options: SyntheticBundleOptions = {}): LocationStamp {
+  const unsigned = createStampFromBundle(parseBundle(createSyntheticBundle(options)), '0.1.0');
+  return {
+    ...unsigned,
+    signatures: [
+      {
+        signer: { scheme: 'pgp-fingerprint', value: 'ABCD1234' },
+        algorithm: 'pgp',
+        value: 'fake-pgp-signature',
+        timestamp: 1700000000,
+      },
+    ],
+  };
+}
+
+function codes(result: StampVerificationResult): string[] {
+  return (result.details.checks as VerificationCheck[]).map(c => c.code);
+}
+
+describe('verification policy', () => {
+  describe('resolvePolicy', () => {
+    it('defaults to the standard preset', () => {
+      expect(resolvePolicy()).toEqual(POLICY_PRESETS.standard);
+      expect(resolvePolicy('forensic')).toEqual(POLICY_PRESETS.forensic);
+    });
+
+    it('overrides individual settings and merges severities', () => {
+      const policy = resolvePolicy({
+        preset: 'forensic',
+        maxTimestampDriftSeconds: 600,
+        severities: { OTS_MISSING: 'warn' },
+      });
+      expect(policy.maxTimestampDriftSeconds).toBe(600);
+      expect(policy.requireSafetyNet).toBe(true);
+      expect(policy.severities.OTS_MISSING).toBe('warn');
+      expect(policy.severities.SAFETYNET_UNVERIFIED).toBe('fail');
+    });
+
+    it('keeps preset values for overrides that are undefined', () => {
+      const policy = resolvePolicy({
+        preset: 'forensic',
+        maxTimestampDriftSeconds: undefined,
+        requireOTS: undefined,
+        severities: { GPS_ACCURACY_SUSPICIOUS: undefined, TIMESTAMP_DRIFT: 'warn' },
+      });
+      expect(policy.maxTimestampDriftSeconds).toBe(300);
+      expect(policy.requireOTS).toBe(true);
+      expect(policy.severities.GPS_ACCURACY_SUSPICIOUS).toBe('fail');
+      expect(policy.severities.TIMESTAMP_DRIFT).toBe('warn');
+    });
+
+    it('rejects unknown presets', () => {
+      expect(() => resolvePolicy('paranoid' as never)).toThrow(
+        "Unknown verification policy preset 'paranoid'"
+      );
+      expect(() => new ProofModePlugin({ policy: 'paranoid' as never })).toThrow();
+      for (const inherited of ['constructor', 'toString', '__proto__']) {
+        expect(() => resolvePolicy(inherited as never)).toThrow(`Unknown verification policy preset '${inherited}'`);
+      }
+    });
+  });
+
+  it('applies the drift threshold and its severity', async () => {
+    const stamp = makeStamp();
+    stamp.signals['Location.Time'] = (stamp.temporalFootprint.start + 1800) * 1000;
+
+    expect((await verifyProofModeStamp(stamp)).signalsConsistent).toBe(true);
+
+    const forensic = await verifyProofModeStamp(stamp, { policy: 'forensic' });
+    expect(codes(forensic)).toContain('TIMESTAMP_DRIFT');
+    expect(forensic.signalsConsistent).toBe(false);
+
+    stamp.signals['Location.Time'] = (stamp.temporalFootprint.start + 7200) * 1000;
+    const lenient = await verifyProofModeStamp(stamp, { policy: 'lenient' });
+    expect(lenient.signalsConsistent).toBe(true);
+    const custom = await verifyProofModeStamp(stamp, {
+      policy: { preset: 'lenient', maxTimestampDriftSeconds: 3600 },
+    });
+    expect(custom.signalsConsistent).toBe(true);
+    expect(custom.details.checks).toContainEqual(
+      expect.objectContaining({ code: 'TIMESTAMP_DRIFT', severity: 'warn' })
+    );
+  });
+
+  it('makes suspicious accuracy fatal under the forensic preset', async () => {
+    const stamp = makeStamp({
+      accuracy: 80,
+      includePublicKey: true,
+      includeOTS: true,
+    });
+
+    const standard = await verifyProofModeStamp(stamp);
+    expect(codes(standard)).not.toContain('GPS_ACCURACY_SUSPICIOUS');
+
+    const forensic = await verifyProofModeStamp(stamp, { policy: 'forensic' });
+    expect(forensic.details.checks).toContainEqual(
+      expect.objectContaining({ code: 'GPS_ACCURACY_SUSPICIOUS', severity: 'fail' })
+    );
+    expect(forensic.signalsConsistent).toBe(false);
+  });
+
+  it('requires the proofs the policy asks for', async () => {
+    const plugin = new ProofModePlugin({ policy: 'forensic' });
+    const bare = await plugin.verify(makeStamp({ includePublicKey: false }));
+    expect(codes(bare)).toEqual(
+      expect.arrayContaining(['PGP_KEY_MISSING', 'OTS_MISSING', 'SAFETYNET_MISSING'])
+    );
+    expect(bare.signaturesValid).toBe(false);
+
+    // An attestation that cannot be verified without trusted roots is fatal too
+    const complete = await plugin.verify(
+      makeStamp({ includePublicKey: true, includeOTS: true, includeSafetyNet: true })
+    );
+    expect(codes(complete)).not.toContain('SAFETYNET_MISSING');
+    expect(complete.details.checks).toContainEqual(
+      expect.objectContaining({ code: 'SAFETYNET_UNVERIFIED', severity: 'fail' })
+    );
+  });
+
+  it('counts a required key and OTS proof only once verified', async () => {
+    const files = unzipSync(await createSignedBundle(await createDeviceKeys()));
+    const hash = Object.keys(files).find(n => n.endsWith('.proof.csv'))!.replace('.proof.csv', '');
+    const { proof, header } = createOTSProof(hash, 815000);
+    files[`${hash}.ots`] = proof;
+    const bundle = parseBundle(zipSync(files));
+    const { signatures } = makeStamp();
+    const policy = { preset: 'forensic', requireSafetyNet: false } as const;
+    const blockHeaders = new MemoryBlockHeaderSource({ 815000: header });
+    const required = (result: StampVerificationResult) =>
+      (result.details.checks as VerificationCheck[]).filter(c => c.code === 'PGP_KEY_MISSING' || c.code === 'OTS_MISSING');
+
+    // Without the signed evidence the key and proof cannot be checked
+    const plain = { ...createStampFromBundle(bundle, '0.1.0'), signatures };
+    expect(required(await verifyProofModeStamp(plain, { policy, blockHeaders }))).toEqual([
+      expect.objectContaining({
+        code: 'PGP_KEY_MISSING',
+        severity: 'fail',
+        message: 'Policy requires a PGP public key that verifies the embedded signatures',
+      }),
+      expect.objectContaining({
+        code: 'OTS_MISSING',
+        severity: 'fail',
+        message: 'Policy requires a verified OpenTimestamps proof; the proof is unchecked',
+      }),
+    ]);
+
+    const destructured = { ...createStampFromBundle(bundle, '0.1.0', { mode: 'destructured' }), signatures };
+    expect(required(await verifyProofModeStamp(destructured, { policy, blockHeaders }))).toEqual([]);
+
+    const unknownBlock = new MemoryBlockHeaderSource();
+    expect(required(await verifyProofModeStamp(destructured, { policy, blockHeaders: unknownBlock }))).toEqual([
+      expect.objectContaining({
+        code: 'OTS_MISSING',
+        message: 'Policy requires a verified OpenTimestamps proof; the proof is pending',
+      }),
+    ]);
+  });
+});
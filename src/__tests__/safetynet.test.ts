@@ -0,0 +1,262 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+import { parseSafetyNetJWT, verifyAttestationToken, verifySafetyNetJWT } from '../safetynet';
+import { verifyPlayIntegrityToken } from '../playintegrity';
+import { parseBundle } from '../parse';
+import { createStampFromBundle } from '../create';
+import { verifyProofModeStamp } from '../verify';
+import { verifyBundle } from '../verify-bundle';
+import { createDeviceKeys, createSignedBundle, createSyntheticBundle } from './fixtures/create-fixture';
+import {
+  createAttestationChain,
+  createPlayIntegrityKeys,
+  createPlayIntegrityToken,
+  createSignedJWS,
+} from './fixtures/create-certificates';
+
+const PAYLOAD = {
+  basicIntegrity: true,
+  ctsProfileMatch: true,
+  evaluationType: 'BASIC,HARDWARE_BACKED',
+  apkPackageName: 'org.witness.proofmode',
+  timestampMs: 1700000000000,
+};
+
+describe('verifySafetyNetJWT', () => {
+  const chain = createAttestationChain();
+  const jwt = createSignedJWS(PAYLOAD, chain.leafKey, [chain.leafCert, chain.intermediateCert]);
+
+  it('verifies a JWS chaining to a trusted root', async () => {
+    const result = await verifySafetyNetJWT(jwt, { trustedRoots: [chain.rootCert] });
+    expect(result).not.toBeNull();
+    expect(result!.basicIntegrity).toBe(true);
+    expect(result!.verification).toEqual({
+      verified: true,
+      signatureValid: true,
+      chainValid: true,
+      hostnameValid: true,
+      leafHostname: 'attest.android.com',
+      trustedRoot: 'Test Root CA',
+    });
+  });
+
+  it('accepts PEM-encoded roots', async () => {
+    const pem = [
+      '-----BEGIN CERTIFICATE-----',
+      Buffer.from(chain.rootCert).toString('base64'),
+      '-----END CERTIFICATE-----',
+    ].join('\n');
+    const result = await verifySafetyNetJWT(jwt, { trustedRoots: [pem] });
+    expect(result!.verification!.verified).toBe(true);
+  });
+
+  it('rejects a hand-crafted payload', async () => {
+    const [header, , signature] = jwt.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...PAYLOAD, apkPackageName: 'evil' }))
+      .toString('base64url');
+    const result = await verifySafetyNetJWT(`${header}.${forged}.${signature}`, {
+      trustedRoots: [chain.rootCert],
+    });
+    expect(result!.verification!.verified).toBe(false);
+    expect(result!.verification!.signatureValid).toBe(false);
+    expect(result!.verification!.chainValid).toBe(true);
+  });
+
+  it('rejects a chain from an untrusted root', async () => {
+    const other = createAttestationChain();
+    const result = await verifySafetyNetJWT(jwt, { trustedRoots: [other.rootCert] });
+    expect(result!.verification!.verified).toBe(false);
+    expect(result!.verification!.chainValid).toBe(false);
+    expect(result!.verification!.signatureValid).toBe(true);
+  });
+
+  it('rejects a leaf not issued to the attestation service', async () => {
+    const wrongHost = createAttestationChain({ leafHostname: 'evil.example.com' });
+    const token = createSignedJWS(PAYLOAD, wrongHost.leafKey, [
+      wrongHost.leafCert,
+      wrongHost.intermediateCert,
+    ]);
+    const result = await verifySafetyNetJWT(token, { trustedRoots: [wrongHost.rootCert] });
+    expect(result!.verification!.verified).toBe(false);
+    expect(result!.verification!.hostnameValid).toBe(false);
+    expect(result!.verification!.leafHostname).toBe('evil.example.com');
+  });
+
+  it('rejects certificates outside their validity window', async () => {
+    const result = await verifySafetyNetJWT(jwt, {
+      trustedRoots: [chain.rootCert],
+      at: Date.UTC(2050, 0, 1) / 1000,
+    });
+    expect(result!.verification!.chainValid).toBe(false);
+  });
+
+  it('rejects tokens without an x5c header', async () => {
+    const header = Buffer.from(JSON.stringify({ alg: 'RS256' })).toString('base64url');
+    const body = Buffer.from(JSON.stringify(PAYLOAD)).toString('base64url');
+    const result = await verifySafetyNetJWT(`${header}.${body}.sig`, {
+      trustedRoots: [chain.rootCert],
+    });
+    expect(result!.verification!.verified).toBe(false);
+    expect(result!.verification!.error).toBe('JWS header has no x5c certificate chain');
+  });
+
+  it('returns null for undecodable tokens', async () => {
+    expect(await verifySafetyNetJWT('not-a-jwt', { trustedRoots: [chain.rootCert] })).toBeNull();
+  });
+});
+
+describe('verifyAttestationToken', () => {
+  const trust = { safetyNet: { trustedRoots: [createAttestationChain().rootCert] } };
+  const verdictJSON = JSON.stringify({ basicIntegrity: true, ctsProfileMatch: true });
+  const unsignedJWS = [
+    Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url'),
+    Buffer.from(JSON.stringify({
+      deviceIntegrity: { deviceRecognitionVerdict: ['MEETS_BASIC_INTEGRITY', 'MEETS_DEVICE_INTEGRITY'] },
+    })).toString('base64url'),
+    '',
+  ].join('.');
+
+  it('only decodes tokens when no trust material is configured', async () => {
+    for (const token of [verdictJSON, unsignedJWS]) {
+      const result = await verifyAttestationToken(token, {});
+      expect(result!.ctsProfileMatch).toBe(true);
+      expect(result!.verification).toBeUndefined();
+    }
+  });
+
+  it('fails unsigned verdicts once trust material is configured', async () => {
+    const json = await verifyAttestationToken(verdictJSON, trust);
+    expect(json!.verification).toMatchObject({ verified: false, error: 'Token is unsigned verdict JSON' });
+
+    const jws = await verifyAttestationToken(unsignedJWS, trust);
+    expect(jws!.format).toBe('play-integrity');
+    expect(jws!.verification!.verified).toBe(false);
+    expect(jws!.verification!.error).toMatch(/no Play Integrity keys configured/);
+  });
+
+  it('fails undecodable tokens once trust material is configured', async () => {
+    expect(await verifyAttestationToken('garbage', {})).toBeNull();
+    const result = await verifyAttestationToken('garbage', trust);
+    expect(result).toMatchObject({ basicIntegrity: false, ctsProfileMatch: false });
+    expect(result!.verification).toMatchObject({ verified: false, error: 'Token could not be decoded' });
+
+    const bundle = { ...parseBundle(await createSignedBundle(await createDeviceKeys())), safetyNetToken: 'garbage' };
+    expect((await verifyBundle(bundle)).valid).toBe(true);
+    const verified = await verifyBundle(bundle, trust);
+    expect(verified.valid).toBe(false);
+    expect(verified.safetyNet!.verification!.error).toBe('Token could not be decoded');
+  });
+
+  it('makes stamps and bundles holding them invalid', async () => {
+    const bundle = parseBundle(createSyntheticBundle());
+    const unsigned = createStampFromBundle(bundle, '0.1.0');
+    for (const token of [verdictJSON, unsignedJWS]) {
+      const stamp = {
+        ...unsigned,
+        signals: { ...unsigned.signals, 'SafetyNet.JWT': token },
+        signatures: [{ signer: { scheme: 'pgp-fingerprint', value: 'ABCD1234' }, algorithm: 'pgp', value: 'sig', timestamp: 1700000000 }],
+      };
+      const result = await verifyProofModeStamp(stamp, trust);
+      expect(result.signaturesValid).toBe(false);
+      expect(result.details.checks).toContainEqual(expect.objectContaining({ code: 'SAFETYNET_INVALID', severity: 'fail' }));
+
+      const bundleResult = await verifyBundle({ ...bundle, safetyNetToken: token }, trust);
+      expect(bundleResult.safetyNet!.verification!.verified).toBe(false);
+      expect(bundleResult.valid).toBe(false);
+    }
+
+    const decoded = await verifyProofModeStamp({ ...unsigned, signals: { ...unsigned.signals, 'SafetyNet.JWT': verdictJSON } });
+    expect(decoded.details.checks).toContainEqual(expect.objectContaining({
+      code: 'SAFETYNET_UNVERIFIED',
+      message: 'SafetyNet token is unsigned verdict JSON and cannot be verified',
+    }));
+  });
+});
+
+describe('Play Integrity', () => {
+  const PLAY_INTEGRITY_PAYLOAD = {
+    requestDetails: {
+      requestPackageName: 'org.witness.proofmode',
+      timestampMillis: '1700000000000',
+      nonce: 'bm9uY2U',
+    },
+    appIntegrity: {
+      appRecognitionVerdict: 'PLAY_RECOGNIZED',
+      packageName: 'org.witness.proofmode',
+      versionCode: '42',
+    },
+    deviceIntegrity: { deviceRecognitionVerdict: ['MEETS_BASIC_INTEGRITY', 'MEETS_DEVICE_INTEGRITY'] },
+    accountDetails: { appLicensingVerdict: 'LICENSED' },
+  };
+  const keys = createPlayIntegrityKeys();
+  const token = createPlayIntegrityToken(PLAY_INTEGRITY_PAYLOAD, keys);
+  const { decryptionKey, verificationKey } = keys;
+
+  it('maps verdicts onto the unified result', () => {
+    const result = parseSafetyNetJWT(JSON.stringify({ tokenPayloadExternal: PLAY_INTEGRITY_PAYLOAD }))!;
+    expect(result).toMatchObject({
+      format: 'play-integrity',
+      basicIntegrity: true,
+      ctsProfileMatch: true,
+      apkPackageName: 'org.witness.proofmode',
+      timestampMs: 1700000000000,
+      nonce: 'bm9uY2U',
+      deviceRecognitionVerdict: ['MEETS_BASIC_INTEGRITY', 'MEETS_DEVICE_INTEGRITY'],
+      appRecognitionVerdict: 'PLAY_RECOGNIZED',
+      appLicensingVerdict: 'LICENSED',
+    });
+
+    const basicOnly = parseSafetyNetJWT(JSON.stringify({
+      ...PLAY_INTEGRITY_PAYLOAD,
+      deviceIntegrity: { deviceRecognitionVerdict: ['MEETS_BASIC_INTEGRITY'] },
+    }))!;
+    expect(basicOnly).toMatchObject({ basicIntegrity: true, ctsProfileMatch: false });
+  });
+
+  it('detects the format of each token', () => {
+    expect(parseSafetyNetJWT(createSignedJWS(PAYLOAD, createAttestationChain().leafKey, []))!.format)
+      .toBe('safetynet');
+    expect(parseSafetyNetJWT(token)).toMatchObject({ format: 'play-integrity', encrypted: true, basicIntegrity: false });
+  });
+
+  it('decrypts and verifies a token with the app keys', async () => {
+    const result = await verifyAttestationToken(token, { playIntegrity: { decryptionKey, verificationKey } });
+    expect(result).toMatchObject({ format: 'play-integrity', ctsProfileMatch: true, appLicensingVerdict: 'LICENSED' });
+    expect(result!.encrypted).toBeUndefined();
+    expect(result!.verification).toEqual({ verified: true, signatureValid: true });
+  });
+
+  it('rejects a token signed with another key or encrypted for another app', async () => {
+    const other = createPlayIntegrityKeys();
+    const wrongSigner = await verifyPlayIntegrityToken(token, { decryptionKey, verificationKey: other.verificationKey });
+    expect(wrongSigner!.verification).toMatchObject({ verified: false, signatureValid: false });
+
+    const wrongKey = await verifyPlayIntegrityToken(token, { decryptionKey: other.decryptionKey, verificationKey });
+    expect(wrongKey!.verification!.verified).toBe(false);
+    expect(wrongKey!.verification!.error).toMatch(/could not be decrypted/);
+  });
+
+  it('is reported by stamp verification', async () => {
+    const unsigned = createStampFromBundle(parseBundle(createSyntheticBundle()), '0.1.0');
+    const stamp = {
+      ...unsigned,
+      signals: { ...unsigned.signals, 'SafetyNet.JWT': token },
+      signatures: [{ signer: { scheme: 'pgp-fingerprint', value: 'ABCD1234' }, algorithm: 'pgp', value: 'sig', timestamp: 1700000000 }],
+    };
+
+    const undecrypted = await verifyProofModeStamp(stamp);
+    expect(undecrypted.details.checks).toContainEqual(expect.objectContaining({
+      code: 'SAFETYNET_UNVERIFIED',
+      message: 'Play Integrity token is encrypted and no Play Integrity keys are configured',
+    }));
+
+    const verified = await verifyProofModeStamp(stamp, { playIntegrity: { decryptionKey, verificationKey } });
+    expect(verified.details.checks.map((c: { code: string }) => c.code)).toContain('SAFETYNET_VERIFIED');
+    expect(verified.details.safetyNet).toMatchObject({
+      format: 'play-integrity',
+      basicIntegrity: true,
+      deviceRecognitionVerdict: ['MEETS_BASIC_INTEGRITY', 'MEETS_DEVICE_INTEGRITY'],
+      verified: true,
+    });
+  });
+});
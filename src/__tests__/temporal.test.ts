@@ -0,0 +1,177 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+import { unzipSync, zipSync } from 'fflate';
+import { parseBundle } from '../parse';
+import { createLocationStampFromBundle, createStampFromBundle } from '../create';
+import { ProofModePlugin } from '../index';
+import { MemoryBlockHeaderSource } from '../ots';
+import { verifyProofModeStamp } from '../verify';
+import { epochSeconds, fixTime, parseDateTime, temporalFootprint } from '../temporal';
+import { extractSignals } from '../parse';
+import { checkTrajectory } from '../trajectory';
+import { readSignatureCreationTime } from '../crypto';
+import { createDeviceKeys, createSignedBundle, createSyntheticBundle } from './fixtures/create-fixture';
+import { createOTSProof } from './fixtures/create-ots';
+import type { BundleVerificationResult, ParsedBundle, TimeEvidence } from '../types';
+import type { LocationStamp } from '@decentralized-geo/astral-sdk/plugins';
+
+const FIX_TIME = 1700000000; // 2023-11-14T22:13:20Z
+
+/** A synthetic bundle with only the given time signals. */
+function bundleWith(signals: Record<string, unknown>, options = {}): ParsedBundle {
+  const bundle = parseBundle(createSyntheticBundle(options));
+  delete bundle.metadata.signals['Location.Time'];
+  delete bundle.metadata.signals.DateCreated;
+  Object.assign(bundle.metadata.signals, signals);
+  return bundle;
+}
+
+describe('temporal footprint', () => {
+  it('detects the epoch unit from the value\'s range', () => {
+    expect(epochSeconds(FIX_TIME)).toBe(FIX_TIME);
+    expect(epochSeconds(FIX_TIME * 1e3 + 999)).toBe(FIX_TIME);
+    expect(epochSeconds(FIX_TIME * 1e6)).toBe(FIX_TIME);
+    expect(epochSeconds(FIX_TIME * 1e9)).toBe(FIX_TIME);
+    expect(epochSeconds(12345)).toBeUndefined();
+    expect(epochSeconds(NaN)).toBeUndefined();
+  });
+
+  it('parses dates with and without a UTC offset', () => {
+    expect(parseDateTime('2023-11-14T22:13:20Z')).toEqual({ time: FIX_TIME, zoneKnown: true });
+    expect(parseDateTime('2023-11-14T17:13:20-05:00')).toEqual({ time: FIX_TIME, zoneKnown: true });
+    expect(parseDateTime('Tue, 14 Nov 2023 22:13:20 GMT')).toEqual({ time: FIX_TIME, zoneKnown: true });
+    expect(parseDateTime('2023-11-14 22:13:20')).toEqual({ time: FIX_TIME, zoneKnown: false });
+    expect(parseDateTime('yesterday')).toBeUndefined();
+  });
+
+  it('spans the sources that agree with the GPS fix and records the rest', () => {
+    const footprint = temporalFootprint(bundleWith({
+      'Location.Time': FIX_TIME * 1000,
+      Timestamp: FIX_TIME + 120,
+      DateCreated: '2023-11-14T12:00:00Z',
+    }, { includeSafetyNet: true }));
+
+    expect(footprint).toMatchObject({ start: FIX_TIME, end: FIX_TIME + 120, estimated: false });
+    expect(footprint.evidence).toEqual(expect.arrayContaining([
+      { source: 'gps', time: FIX_TIME, used: true },
+      { source: 'timestamp', time: FIX_TIME + 120, used: true },
+      { source: 'file-created', time: FIX_TIME - 36800, used: false },
+      { source: 'safetynet', time: FIX_TIME, used: true },
+    ]));
+  });
+
+  it('honours maxTimeSpreadSeconds', () => {
+    const bundle = bundleWith({ 'Location.Time': FIX_TIME, Timestamp: FIX_TIME + 120 });
+    expect(temporalFootprint(bundle, { maxTimeSpreadSeconds: 60 })).toMatchObject({
+      start: FIX_TIME, end: FIX_TIME + 1,
+    });
+  });
+
+  it('resolves a zoneless creation date to the offset nearest the fix', () => {
+    const footprint = temporalFootprint(bundleWith({
+      'Location.Time': FIX_TIME * 1000,
+      DateCreated: '2023-11-14T17:13:20',
+    }));
+    expect(footprint.evidence).toContainEqual({ source: 'file-created', time: FIX_TIME, used: true, estimated: true });
+    expect(footprint.estimated).toBe(false);
+  });
+
+  it('reads a zoneless iOS fix time the same in any host time zone', () => {
+    // jest.config.js runs the suite in America/New_York
+    expect(new Date(2024, 0, 15).getTimezoneOffset()).toBe(300);
+    const signals = extractSignals({ 'Location Time': '2024-01-15T12:00:00' });
+    expect(signals).toMatchObject({ 'Location.Time': 1705320000000, 'Location.TimeZoneKnown': false });
+    expect(extractSignals({ 'Location Time': '2024-01-15T12:00:00Z' })['Location.TimeZoneKnown']).toBeUndefined();
+
+    // Captured in New York: the zone-known Timestamp resolves the offset
+    const bundle = bundleWith({ ...signals, Timestamp: 1705338000 });
+    expect(fixTime(bundle)).toBe(1705338000);
+    expect(temporalFootprint(bundle)).toMatchObject({ start: 1705338000, estimated: false });
+    expect(createStampFromBundle(bundle, '0.1.0').signals['Location.Time']).toBe(1705338000000);
+    expect(checkTrajectory([bundle]).fixes[0].time).toBe(1705338000);
+  });
+
+  it('uses the PGP signature creation time', async () => {
+    const keys = await createDeviceKeys();
+    const bundle = parseBundle(await createSignedBundle(keys));
+    const signed = (await readSignatureCreationTime(bundle.metadataSignature!))!;
+    expect(Math.abs(signed - Date.now() / 1000)).toBeLessThan(600);
+    expect(await readSignatureCreationTime(new TextEncoder().encode('not a signature'))).toBeUndefined();
+
+    delete bundle.metadata.signals['Location.Time'];
+    delete bundle.metadata.signals.DateCreated;
+    expect(temporalFootprint(bundle, { signatureTimes: [signed] }).start).toBe(signed);
+
+    const stamp = await createLocationStampFromBundle(bundle, '0.1.0');
+    expect(stamp.temporalFootprint.start).toBe(signed);
+    expect(stamp.signals['TemporalFootprint.Sources'].map((e: TimeEvidence) => e.source))
+      .toEqual(['pgp-signature', 'pgp-signature']);
+  });
+
+  it('uses verified signature and OTS times when the plugin creates a stamp', async () => {
+    const files = unzipSync(await createSignedBundle(await createDeviceKeys()));
+    const hash = Object.keys(files).find(n => n.endsWith('.proof.csv'))!.replace('.proof.csv', '');
+    const { proof, header } = createOTSProof(hash, 815000, FIX_TIME + 1800);
+    files[`${hash}.ots`] = proof;
+    const plugin = new ProofModePlugin({ blockHeaders: new MemoryBlockHeaderSource({ 815000: header }) });
+
+    const stamp = await plugin.create({ plugin: 'proofmode', timestamp: FIX_TIME, data: { zipData: zipSync(files) } });
+    const sources: TimeEvidence[] = stamp.signals['TemporalFootprint.Sources'];
+    expect(sources).toContainEqual({ source: 'ots', time: FIX_TIME + 1800, used: true });
+    expect(stamp.temporalFootprint).toEqual({ start: FIX_TIME, end: FIX_TIME + 1800 });
+
+    // Signed just now, so recorded but too far from the 2023 fix to be used
+    const signed = sources.filter(e => e.source === 'pgp-signature');
+    expect(signed).toHaveLength(2);
+    expect(signed.every(e => !e.used && Math.abs(e.time - Date.now() / 1000) < 600)).toBe(true);
+  });
+
+  it('takes verified signature and OTS times from a verification result', () => {
+    const verification = {
+      valid: true,
+      signatures: [{ target: 'metadata', valid: true, signatureCreated: FIX_TIME + 30 }],
+      timestamp: { valid: true, status: 'verified', attestedTime: FIX_TIME + 1800, attestations: [] },
+    } as BundleVerificationResult;
+    const footprint = temporalFootprint(bundleWith({ 'Location.Time': FIX_TIME * 1000 }), { verification });
+    expect(footprint).toMatchObject({ start: FIX_TIME, end: FIX_TIME + 1800 });
+    expect(footprint.evidence.map(e => e.source)).toEqual(['gps', 'pgp-signature', 'ots']);
+  });
+
+  describe('without usable evidence', () => {
+    it('refuses to guess unless told to', () => {
+      expect(() => temporalFootprint(bundleWith({}))).toThrow(/no usable time/);
+      const footprint = temporalFootprint(bundleWith({}), { timeFallback: 'now' });
+      expect(footprint.estimated).toBe(true);
+      expect(footprint.evidence).toEqual([]);
+      expect(Math.abs(footprint.start - Date.now() / 1000)).toBeLessThan(5);
+    });
+
+    it('flags an estimated footprint in the stamp and at verification', async () => {
+      const unsigned = createStampFromBundle(bundleWith({ DateCreated: '2023-11-14 22:13:20' }), '0.1.0');
+      expect(unsigned.temporalFootprint).toEqual({ start: FIX_TIME, end: FIX_TIME + 1 });
+      expect(unsigned.signals['TemporalFootprint.Estimated']).toBe(true);
+      expect(unsigned.signals['TemporalFootprint.Sources']).toEqual([
+        { source: 'file-created', time: FIX_TIME, used: true, estimated: true },
+      ]);
+
+      const stamp: LocationStamp = {
+        ...unsigned,
+        signatures: [
+          {
+            signer: { scheme: 'pgp-fingerprint', value: 'ABCD1234' },
+            algorithm: 'pgp',
+            value: 'fake-pgp-signature',
+            timestamp: FIX_TIME,
+          },
+        ],
+      };
+      const standard = await verifyProofModeStamp(stamp);
+      const check = standard.details.checks.find((c: { code: string }) => c.code === 'TEMPORAL_FOOTPRINT_ESTIMATED');
+      expect(check.severity).toBe('warn');
+      expect(standard.structureValid).toBe(true);
+
+      const forensic = await verifyProofModeStamp(stamp, { policy: 'forensic' });
+      expect(forensic.structureValid).toBe(false);
+    });
+  });
+});
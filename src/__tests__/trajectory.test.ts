@@ -0,0 +1,136 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+import { ProofModePlugin } from '../index';
+import { parseBundle } from '../parse';
+import { checkTrajectory } from '../trajectory';
+import { createSyntheticBundle } from './fixtures/create-fixture';
+import type { TrajectoryPair } from '../types';
+
+const T0 = 1700000000;
+/** About 14 m of latitude. */
+const STEP = 0.000126;
+
+interface FixOptions {
+  lat?: number;
+  lon?: number;
+  time?: number;
+  speed?: number;
+  bearing?: number;
+  deviceId?: string;
+  fileHash?: string;
+}
+
+/** A minimal stamp holding one fix. */
+function stamp({ lat = 40.7484, lon = -73.9857, time = T0, speed, bearing, deviceId = 'device-1', fileHash }: FixOptions) {
+  return {
+    temporalFootprint: { start: time, end: time + 1 },
+    signals: {
+      'Location.Latitude': lat,
+      'Location.Longitude': lon,
+      'Location.Accuracy': 5,
+      'Location.Time': time * 1000,
+      'Location.Speed': speed,
+      'Location.Bearing': bearing,
+      DeviceID: deviceId,
+      FileHash: fileHash,
+    },
+  };
+}
+
+/** Walking north at 1.4 m/s, one fix every 10 s. */
+function walk(count: number, extra: FixOptions = {}) {
+  return Array.from({ length: count }, (_, i) =>
+    stamp({ lat: 40.7484 + i * STEP, time: T0 + i * 10, speed: 1.4, bearing: 0, fileHash: `hash-${i}`, ...extra })
+  );
+}
+
+function codes(pair: TrajectoryPair) {
+  return pair.checks.map(c => c.code);
+}
+
+describe('checkTrajectory', () => {
+  it('accepts a plausible walk', () => {
+    const result = checkTrajectory(walk(3));
+    expect(result.plausible).toBe(true);
+    expect(result.pairs).toHaveLength(2);
+    expect(result.pairs[0]).toMatchObject({ from: 0, to: 1, elapsed: 10, consistent: true });
+    expect(result.pairs[0].distance).toBeCloseTo(14, 0);
+    expect(result.pairs[0].bearing).toBeCloseTo(0, 3);
+    expect(codes(result.pairs[0])).toEqual(['TRAJECTORY_CONSISTENT']);
+  });
+
+  it('flags a device that teleports', () => {
+    const result = checkTrajectory([
+      stamp({ lat: 50.4501, lon: 30.5234, time: T0 }),
+      stamp({ lat: 38.7223, lon: -9.1393, time: T0 + 300 }),
+    ]);
+    expect(result.plausible).toBe(false);
+    expect(codes(result.pairs[0])).toContain('TRAJECTORY_SPEED_IMPLAUSIBLE');
+    expect(result.pairs[0].impliedSpeed).toBeGreaterThan(10000);
+  });
+
+  it('flags distant fixes with the same time', () => {
+    const result = checkTrajectory([stamp({ fileHash: 'a' }), stamp({ lat: 40.8, fileHash: 'b' })]);
+    expect(result.pairs[0].impliedSpeed).toBeUndefined();
+    expect(codes(result.pairs[0])).toContain('TRAJECTORY_SPEED_IMPLAUSIBLE');
+  });
+
+  it('flags time going backwards', () => {
+    const [a, b] = walk(2);
+    const result = checkTrajectory([b, a]);
+    expect(result.pairs[0].elapsed).toBe(-10);
+    expect(codes(result.pairs[0])).toContain('TRAJECTORY_TIME_REVERSED');
+    expect(result.plausible).toBe(false);
+  });
+
+  it('flags duplicated and replayed fixes', () => {
+    const [a, b, c] = walk(3);
+    expect(codes(checkTrajectory([a, a]).pairs[0])).toContain('TRAJECTORY_FIX_DUPLICATED');
+
+    const replayed = checkTrajectory([a, b, c, { ...b, signals: { ...b.signals, FileHash: 'other' } }]);
+    const check = replayed.pairs[2].checks.find(ch => ch.code === 'TRAJECTORY_FIX_REPLAYED');
+    expect(check).toMatchObject({ severity: 'fail', value: 1 });
+  });
+
+  it('compares the reported speed and bearing with the movement', () => {
+    const fast = checkTrajectory(walk(2, { speed: 30 }));
+    expect(codes(fast.pairs[0])).toContain('TRAJECTORY_SPEED_MISMATCH');
+    expect(fast.plausible).toBe(true);
+    expect(checkTrajectory(walk(2, { speed: 30 }), { policy: 'forensic' }).plausible).toBe(false);
+
+    const backwards = checkTrajectory(walk(2, { bearing: 180 }));
+    expect(codes(backwards.pairs[0])).toContain('TRAJECTORY_BEARING_MISMATCH');
+
+    // Reported motion is instantaneous, so long gaps are not compared
+    const sparse = walk(2, { speed: 30 }).map((s, i) => stamp({
+      lat: s.signals['Location.Latitude'], time: T0 + i * 600, speed: 30, fileHash: `hash-${i}`,
+    }));
+    expect(codes(checkTrajectory(sparse).pairs[0])).toEqual(['TRAJECTORY_CONSISTENT']);
+  });
+
+  it('reports fixes from another device and skips items without a fix', () => {
+    const [a, b] = walk(2);
+    const other = { ...b, signals: { ...b.signals, DeviceID: 'device-2' } };
+    const result = checkTrajectory([a, { signals: {} }, other]);
+    expect(result.skipped).toEqual([1]);
+    expect(result.pairs[0]).toMatchObject({ from: 0, to: 2 });
+    expect(codes(result.pairs[0])).toContain('TRAJECTORY_DEVICE_MISMATCH');
+  });
+
+  it('takes thresholds from the policy', () => {
+    const drive = [stamp({ time: T0, fileHash: 'a' }), stamp({ lat: 40.7484 + 0.009, time: T0 + 20, fileHash: 'b' })];
+    expect(checkTrajectory(drive).plausible).toBe(true);
+    expect(checkTrajectory(drive, { policy: { maxTravelSpeedMetersPerSecond: 30 } }).plausible).toBe(false);
+  });
+
+  it('accepts parsed bundles through the plugin', () => {
+    const plugin = new ProofModePlugin();
+    const bundles = [
+      parseBundle(createSyntheticBundle({ timestamp: T0 * 1000 })),
+      parseBundle(createSyntheticBundle({ lat: 51.5007, lon: -0.1246, timestamp: (T0 + 600) * 1000 })),
+    ];
+    const result = plugin.checkTrajectory(bundles);
+    expect(result.fixes[0]).toMatchObject({ deviceId: 'test-device-001', time: T0, accuracy: 10 });
+    expect(codes(result.pairs[0])).toContain('TRAJECTORY_SPEED_IMPLAUSIBLE');
+  });
+});
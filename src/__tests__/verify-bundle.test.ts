@@ -0,0 +1,114 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+import { unzipSync, zipSync } from 'fflate';
+import { verifyBundle } from '../verify-bundle';
+import { parseBundle, parseBundleStream } from '../parse';
+import {
+  createDeviceKeys,
+  createSignedBundle,
+  createSyntheticBundle,
+} from './fixtures/create-fixture';
+
+describe('verifyBundle', () => {
+  let keys: { privateKey: string; publicKey: string };
+  let otherKeys: { privateKey: string; publicKey: string };
+
+  beforeAll(async () => {
+    keys = await createDeviceKeys();
+    otherKeys = await createDeviceKeys();
+  });
+
+  it('verifies metadata and media signatures made by the bundle key', async () => {
+    const bundle = parseBundle(await createSignedBundle(keys));
+    const result = await verifyBundle(bundle);
+
+    expect(result.valid).toBe(true);
+    expect(result.integrity!.valid).toBe(true);
+    expect(result.keyFingerprint).toMatch(/^[0-9A-F]{40}$/);
+    expect(result.signatures.map(s => s.target)).toEqual(['metadata', 'media']);
+    for (const sig of result.signatures) {
+      expect(sig.valid).toBe(true);
+      expect(sig.keyFingerprint).toBe(result.keyFingerprint);
+      expect(sig.signatureCreated).toBeGreaterThan(1700000000);
+    }
+  });
+
+  it('fails when the metadata was tampered with', async () => {
+    const bundle = parseBundle(await createSignedBundle(keys));
+    const tampered = new Uint8Array(bundle.signedMetadata!);
+    tampered[tampered.length - 1] ^= 0x01;
+
+    const result = await verifyBundle({ ...bundle, signedMetadata: tampered });
+    expect(result.valid).toBe(false);
+    expect(result.signatures[0].valid).toBe(false);
+    expect(result.signatures[0].error).toBeDefined();
+    expect(result.signatures[1].valid).toBe(true);
+  });
+
+  it('fails when the media was tampered with', async () => {
+    const bundle = parseBundle(await createSignedBundle(keys));
+    const result = await verifyBundle({ ...bundle, mediaFile: new Uint8Array([1, 2, 3]) });
+    expect(result.valid).toBe(false);
+    expect(result.integrity!.valid).toBe(false);
+    expect(result.signatures[1].valid).toBe(false);
+  });
+
+  it('fails when signed by a different key than the bundled one', async () => {
+    const bundle = parseBundle(await createSignedBundle(keys));
+    const result = await verifyBundle({ ...bundle, publicKey: otherKeys.publicKey });
+    expect(result.valid).toBe(false);
+    expect(result.signatures.every(s => !s.valid)).toBe(true);
+  });
+
+  it('reports structurally present but invalid signatures', async () => {
+    const bundle = parseBundle(createSyntheticBundle());
+    const result = await verifyBundle(bundle);
+    expect(result.valid).toBe(false);
+    expect(result.signatures).toHaveLength(1);
+    expect(result.signatures[0].error).toBeDefined();
+  });
+
+  it('reports a missing public key', async () => {
+    const bundle = parseBundle(await createSignedBundle(keys));
+    const result = await verifyBundle({ ...bundle, publicKey: undefined });
+    expect(result.valid).toBe(false);
+    expect(result.signatures[0].error).toBe('Bundle has no public key');
+  });
+
+  describe('streamed bundles', () => {
+    async function* once(data: Uint8Array) {
+      yield data;
+    }
+
+    it('does not pass a media signature whose media was not retained', async () => {
+      const files = unzipSync(await createSignedBundle(keys));
+      files['test-photo.jpg.asc'] = unzipSync(await createSignedBundle(otherKeys))['test-photo.jpg.asc'];
+      const zipData = zipSync(files);
+
+      const [streamed] = await parseBundleStream(once(zipData));
+      const result = await verifyBundle(streamed);
+      expect(result.valid).toBe(false);
+      expect(result.integrity!.valid).toBe(true);
+      expect(result.signatures[0].valid).toBe(true);
+      expect(result.signatures[1]).toEqual({
+        target: 'media',
+        valid: false,
+        error: 'Media not retained; signature not verified',
+      });
+
+      const [kept] = await parseBundleStream(once(zipData), { keepMedia: true });
+      const keptResult = await verifyBundle(kept);
+      expect(keptResult.valid).toBe(false);
+      expect(keptResult.signatures[1].valid).toBe(false);
+      expect(keptResult.signatures[1].error).not.toMatch(/not retained/);
+    });
+
+    it('verifies the media signature when the media is kept', async () => {
+      const zipData = await createSignedBundle(keys);
+      const [kept] = await parseBundleStream(once(zipData), { keepMedia: true });
+      expect((await verifyBundle(kept)).valid).toBe(true);
+      const [dropped] = await parseBundleStream(once(zipData));
+      expect((await verifyBundle(dropped)).valid).toBe(false);
+    });
+  });
+});
@@ -4,7 +4,13 @@ import { verifyProofModeStamp, parseSafetyNetJWT } from '../verify';
 import { parseBundle } from '../parse';
 import { createStampFromBundle } from '../create';
 import { createSyntheticBundle } from './fixtures/create-fixture';
-import type { LocationStamp } from '@decentralized-geo/astral-sdk/plugins';
+import { createAttestationChain } from './fixtures/create-certificates';
+import type { VerificationCheck } from '../types';
+import type { LocationStamp, StampVerificationResult } from '@decentralized-geo/astral-sdk/plugins';
+
+function findCheck(result: StampVerificationResult, code: string): VerificationCheck | undefined {
+  return (result.details.checks as VerificationCheck[]).find(c => c.code === code);
+}
 
 function makeStamp(overrides: Partial<LocationStamp> = {}): LocationStamp {
   const zipData = createSyntheticBundle();
@@ -27,13 +33,14 @@ function makeStamp(overrides: Partial<LocationStamp> = {}): LocationStamp {
 
 describe('ProofMode verification', () => {
   describe('verifyProofModeStamp', () => {
-    it('validates a well-formed stamp', async () => {
+    it('checks a well-formed stamp but cannot verify its signatures without evidence', async () => {
       const stamp = makeStamp();
       const result = await verifyProofModeStamp(stamp);
       expect(result.structureValid).toBe(true);
-      expect(result.signaturesValid).toBe(true);
       expect(result.signalsConsistent).toBe(true);
-      expect(result.valid).toBe(true);
+      expect(result.signaturesValid).toBe(false);
+      expect(result.valid).toBe(false);
+      expect(findCheck(result, 'SIGNATURES_UNVERIFIED')).toMatchObject({ severity: 'fail', value: [0] });
     });
 
     it('rejects stamp with wrong plugin', async () => {
@@ -55,7 +62,27 @@ describe('ProofMode verification', () => {
       });
       const result = await verifyProofModeStamp(stamp);
       expect(result.signalsConsistent).toBe(false);
-      expect(result.details.invalidLatitude).toBe(999);
+      expect(findCheck(result, 'LATITUDE_INVALID')).toMatchObject({
+        severity: 'fail',
+        category: 'signals',
+        value: 999,
+      });
+    });
+
+    it('reports every finding with a code, severity and category', async () => {
+      const stamp = makeStamp({ lpVersion: '0.1', signatures: [] });
+      stamp.signals['Location.Accuracy'] = 250;
+      const result = await verifyProofModeStamp(stamp);
+
+      expect(result.details.checks).toEqual([
+        expect.objectContaining({ code: 'LP_VERSION_MISMATCH', severity: 'fail', category: 'structure' }),
+        expect.objectContaining({ code: 'SIGNATURES_MISSING', severity: 'fail', category: 'signature' }),
+        expect.objectContaining({ code: 'GPS_ACCURACY_SUSPICIOUS', severity: 'warn', category: 'signals' }),
+      ]);
+      expect(result.structureValid).toBe(false);
+      expect(result.signaturesValid).toBe(false);
+      // A warning alone does not make the signals inconsistent
+      expect(result.signalsConsistent).toBe(true);
     });
 
     it('detects timestamp drift', async () => {
@@ -64,7 +91,27 @@ describe('ProofMode verification', () => {
       stamp.signals['Location.Time'] = 1800000000000; // Way different
       const result = await verifyProofModeStamp(stamp);
       expect(result.signalsConsistent).toBe(false);
-      expect(result.details.timestampDrift).toBeGreaterThan(3600);
+      expect(findCheck(result, 'TIMESTAMP_DRIFT')!.value).toBeGreaterThan(3600);
+    });
+
+    it('fails signatures when a SafetyNet token does not verify against trusted roots', async () => {
+      const bundle = parseBundle(createSyntheticBundle({ includeSafetyNet: true }));
+      const stamp = makeStamp({ signals: createStampFromBundle(bundle, '0.1.0').signals });
+      const { rootCert } = createAttestationChain();
+
+      const unverified = await verifyProofModeStamp(stamp);
+      expect(findCheck(unverified, 'SAFETYNET_INVALID')).toBeUndefined();
+      expect((unverified.details.safetyNet as { verified?: boolean }).verified).toBeUndefined();
+      expect(findCheck(unverified, 'SAFETYNET_UNVERIFIED')!.severity).toBe('info');
+
+      const result = await verifyProofModeStamp(stamp, { safetyNet: { trustedRoots: [rootCert] } });
+      expect(result.signaturesValid).toBe(false);
+      expect((result.details.safetyNet as { verified?: boolean }).verified).toBe(false);
+      expect(findCheck(result, 'SAFETYNET_INVALID')).toMatchObject({
+        severity: 'fail',
+        category: 'signature',
+        value: 'JWS header has no x5c certificate chain',
+      });
     });
   });
 
@@ -0,0 +1,115 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+import {
+  MemoryAccessPointDatabase,
+  checkAccessPoints,
+  isLocallyAdministered,
+  normalizeMac,
+} from '../wifi';
+import { parseBundle } from '../parse';
+import { createStampFromBundle } from '../create';
+import { verifyProofModeStamp } from '../verify';
+import { createSyntheticBundle } from './fixtures/create-fixture';
+import type { LocationStamp } from '@decentralized-geo/astral-sdk/plugins';
+
+const ACCESS_POINTS_CSV = [
+  'bssid,lat,lon,range',
+  // ~60m from the Empire State Building fixture location
+  'F0:9F:C2:12:34:56,40.7489,-73.9852,80',
+  // Across the river in New Jersey
+  '00-1a-2b-3c-4d-5e,40.7357,-74.0303,',
+  'not-a-mac,40.0,-73.0,50',
+].join('\n');
+
+function makeStamp(): LocationStamp {
+  const unsigned = createStampFromBundle(parseBundle(createSyntheticBundle()), '0.1.0');
+  return {
+    ...unsigned,
+    signatures: [
+      {
+        signer: { scheme: 'pgp-fingerprint', value: 'ABCD1234' },
+        algorithm: 'pgp',
+        value: 'fake-pgp-signature',
+        timestamp: 1700000000,
+      },
+    ],
+  };
+}
+
+describe('WiFi access point check', () => {
+  const db = MemoryAccessPointDatabase.fromCSV(ACCESS_POINTS_CSV);
+
+  it('normalizes MACs and detects locally administered ones', () => {
+    expect(normalizeMac('F0-9F-C2-12-34-56')).toBe('f0:9f:c2:12:34:56');
+    expect(normalizeMac('f09f.c212.3456')).toBe('f0:9f:c2:12:34:56');
+    expect(normalizeMac('f0:9f:c2')).toBeUndefined();
+
+    expect(isLocallyAdministered('f0:9f:c2:12:34:56')).toBe(false);
+    expect(isLocallyAdministered('da:a1:19:00:00:01')).toBe(true);
+    expect(isLocallyAdministered('02:00:00:00:00:00')).toBe(true);
+  });
+
+  it('loads a CSV dataset keyed by normalized BSSID', async () => {
+    expect(await db.getAccessPoint('f0:9f:c2:12:34:56')).toEqual({
+      bssid: 'f0:9f:c2:12:34:56', latitude: 40.7489, longitude: -73.9852, range: 80,
+    });
+    expect((await db.getAccessPoint('00:1a:2b:3c:4d:5e'))!.range).toBeUndefined();
+    expect(() => MemoryAccessPointDatabase.fromCSV('ssid,channel\nLobby,6')).toThrow(
+      'needs bssid, latitude and longitude columns'
+    );
+  });
+
+  it('accepts a fix within range of the connected access point', async () => {
+    const [check] = await checkAccessPoints(makeStamp().signals, db, 250);
+    expect(check.consistent).toBe(true);
+    expect(check.distance).toBeLessThan(100);
+    expect(check.allowedDistance).toBe(80 + 10 + 250);
+
+    const result = await verifyProofModeStamp(makeStamp(), { accessPoints: db });
+    expect(result.details.checks).toContainEqual(
+      expect.objectContaining({ code: 'WIFI_AP_CONSISTENT', severity: 'info' })
+    );
+  });
+
+  it('flags access points far from the fix', async () => {
+    const stamp = makeStamp();
+    stamp.signals['WiFi.MAC'] = '00:1A:2B:3C:4D:5E';
+
+    const result = await verifyProofModeStamp(stamp, { accessPoints: db });
+    expect(result.details.checks).toContainEqual(
+      expect.objectContaining({ code: 'WIFI_AP_TOO_FAR', severity: 'warn', category: 'signals' })
+    );
+    expect(result.signalsConsistent).toBe(true);
+
+    const forensic = await verifyProofModeStamp(stamp, { accessPoints: db, policy: 'forensic' });
+    expect(forensic.signalsConsistent).toBe(false);
+  });
+
+  it('flags randomized MACs without looking them up', async () => {
+    const stamp = makeStamp();
+    stamp.signals['WiFi.MAC'] = 'DA:A1:19:00:00:01';
+    stamp.signals['WiFi.AccessPoints'] = [{ bssid: 'f0:9f:c2:12:34:56' }];
+
+    const checks = await checkAccessPoints(stamp.signals, db, 250);
+    expect(checks.map(c => [c.bssid, c.locallyAdministered])).toEqual([
+      ['da:a1:19:00:00:01', true],
+      ['f0:9f:c2:12:34:56', false],
+    ]);
+    expect(checks[0].accessPoint).toBeUndefined();
+
+    // Reported even without a dataset
+    const result = await verifyProofModeStamp(stamp);
+    expect(result.details.checks).toContainEqual(
+      expect.objectContaining({ code: 'WIFI_MAC_RANDOMIZED', severity: 'warn', value: ['da:a1:19:00:00:01'] })
+    );
+  });
+
+  it('reports access points missing from the dataset', async () => {
+    const result = await verifyProofModeStamp(makeStamp(), {
+      accessPoints: new MemoryAccessPointDatabase(),
+    });
+    expect(result.details.checks).toContainEqual(
+      expect.objectContaining({ code: 'WIFI_AP_UNKNOWN', severity: 'info' })
+    );
+  });
+});
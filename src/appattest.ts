@@ -0,0 +1,226 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Apple App Attest attestation parsing and verification
+ *
+ * ProofMode's iOS app attests its signing key with App Attest. The
+ * attestation object is CBOR (`fmt`, `attStmt`, `authData`) whose `x5c`
+ * chain leads to Apple's App Attestation Root CA, supplied by the caller.
+ * The leaf certificate binds the attested key and a nonce over the
+ * authenticator data and the client data — for ProofMode, the media's
+ * SHA-256 hex string. The App Store receipt in `attStmt` is not checked.
+ */
+
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import type { AppAttestResult, AppAttestVerification, AppAttestVerificationOptions } from './types';
+import { decodeCBOR } from './crypto/cbor';
+import { bytesEqual, decodeBitString, readChildren, readElement } from './crypto/der';
+import { parseCertificate, verifyCertificateChain, type Certificate } from './crypto/x509';
+
+/** Leaf certificate extension holding SHA-256(authData || clientDataHash). */
+const OID_APPLE_NONCE = '1.2.840.113635.100.8.2';
+
+/** AAGUIDs of the two App Attest environments. */
+const AAGUID_PRODUCTION = 'appattest\0\0\0\0\0\0\0';
+const AAGUID_DEVELOPMENT = 'appattestdevelop';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+interface AttestationObject {
+  fmt: string;
+  /** Leaf first */
+  x5c: Uint8Array[];
+  authData: Uint8Array;
+}
+
+/** The fixed-layout start of WebAuthn authenticator data. */
+interface AuthenticatorData {
+  rpIdHash: Uint8Array;
+  counter: number;
+  aaguid: string;
+  credentialId: Uint8Array;
+}
+
+/**
+ * Raw CBOR, or base64 text as some exports store it.
+ */
+function attestationBytes(input: string | Uint8Array): Uint8Array {
+  // A CBOR map starts with major type 5
+  if (typeof input !== 'string' && input[0] >> 5 === 5) return input;
+  const text = typeof input === 'string' ? input : decoder.decode(input);
+  return new Uint8Array(Buffer.from(text.trim(), 'base64'));
+}
+
+/**
+ * @throws Error if the input is not an attestation object
+ */
+function decodeAttestation(input: string | Uint8Array): AttestationObject {
+  const object = decodeCBOR(attestationBytes(input));
+  if (!object || typeof object !== 'object') {
+    throw new Error('App Attest: attestation object is not a CBOR map');
+  }
+  const { fmt, attStmt, authData } = object as Record<string, unknown>;
+  if (typeof fmt !== 'string' || !(authData instanceof Uint8Array)) {
+    throw new Error('App Attest: attestation object is missing fmt or authData');
+  }
+  const x5c = (attStmt as Record<string, unknown> | undefined)?.x5c;
+  if (!Array.isArray(x5c) || x5c.length === 0 || !x5c.every(c => c instanceof Uint8Array)) {
+    throw new Error('App Attest: attestation statement has no x5c certificates');
+  }
+  return { fmt, x5c, authData };
+}
+
+/**
+ * @throws Error if the authenticator data has no attested credential
+ */
+function parseAuthenticatorData(authData: Uint8Array): AuthenticatorData {
+  // rpIdHash (32) | flags (1) | counter (4) | aaguid (16) | credentialId length (2)
+  if (authData.length < 55) throw new Error('App Attest: authenticator data is too short');
+  const view = new DataView(authData.buffer, authData.byteOffset, authData.byteLength);
+  const length = view.getUint16(53);
+  if (55 + length > authData.length) throw new Error('App Attest: credential ID is truncated');
+  return {
+    rpIdHash: authData.subarray(0, 32),
+    counter: view.getUint32(33),
+    aaguid: String.fromCharCode(...authData.subarray(37, 53)),
+    credentialId: authData.subarray(55, 55 + length),
+  };
+}
+
+function appAttestResult(attestation: AttestationObject, auth: AuthenticatorData): AppAttestResult {
+  if (auth.aaguid !== AAGUID_PRODUCTION && auth.aaguid !== AAGUID_DEVELOPMENT) {
+    throw new Error('App Attest: authenticator data has an unknown AAGUID');
+  }
+  return {
+    format: attestation.fmt,
+    keyId: Buffer.from(auth.credentialId).toString('base64'),
+    environment: auth.aaguid === AAGUID_DEVELOPMENT ? 'development' : 'production',
+    rpIdHash: bytesToHex(auth.rpIdHash),
+    counter: auth.counter,
+  };
+}
+
+/** The EC point from the leaf's SubjectPublicKeyInfo. */
+function publicKeyPoint(cert: Certificate): Uint8Array {
+  const [, key] = readChildren(readElement(cert.spki));
+  return decodeBitString(key);
+}
+
+/** Nonce extension value: SEQUENCE { [1] EXPLICIT OCTET STRING }. */
+function leafNonce(cert: Certificate): Uint8Array | undefined {
+  const value = cert.extensions[OID_APPLE_NONCE];
+  if (!value) return undefined;
+  const tagged = readChildren(readElement(value)).find(e => e.tag === 0xa1);
+  return tagged ? readChildren(tagged)[0]?.contents : undefined;
+}
+
+async function verifyAttestation(
+  attestation: AttestationObject,
+  auth: AuthenticatorData,
+  options: AppAttestVerificationOptions,
+  clientData: Uint8Array | undefined,
+  at: number
+): Promise<AppAttestVerification> {
+  try {
+    if (attestation.fmt !== 'apple-appattest') {
+      return {
+        verified: false,
+        chainValid: false,
+        keyIdValid: false,
+        error: `Unsupported attestation format '${attestation.fmt}'`,
+      };
+    }
+    const chain = attestation.x5c.map(c => parseCertificate(c));
+    const roots = options.trustedRoots.map(r => parseCertificate(r));
+    const chainResult = await verifyCertificateChain(chain, roots, at);
+
+    const keyIdValid = bytesEqual(sha256(publicKeyPoint(chain[0])), auth.credentialId);
+
+    let nonceValid: boolean | undefined;
+    if (clientData) {
+      const expected = sha256(new Uint8Array([...attestation.authData, ...sha256(clientData)]));
+      const nonce = leafNonce(chain[0]);
+      nonceValid = nonce !== undefined && bytesEqual(nonce, expected);
+    }
+
+    const appIdValid = options.appId === undefined
+      ? undefined
+      : bytesEqual(sha256(encoder.encode(options.appId)), auth.rpIdHash);
+    const environmentValid = auth.aaguid === AAGUID_PRODUCTION || options.allowDevelopment === true;
+
+    const error = !chainResult.valid ? chainResult.error
+      : !keyIdValid ? 'Credential ID is not the hash of the attested public key'
+      : nonceValid === undefined ? 'Leaf certificate nonce was not checked; the attested media hash is unknown'
+      : !nonceValid ? 'Leaf certificate nonce does not match the authenticator and client data'
+      : appIdValid === false ? `Attestation is not for App ID ${options.appId}`
+      : !environmentValid ? 'Attestation is from the App Attest development environment'
+      : undefined;
+
+    return {
+      verified: error === undefined,
+      chainValid: chainResult.valid,
+      trustedRoot: chainResult.trustedRoot,
+      keyIdValid,
+      nonceValid,
+      appIdValid,
+      error,
+    };
+  } catch (err) {
+    return {
+      verified: false,
+      chainValid: false,
+      keyIdValid: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Parse an App Attest attestation object (raw CBOR or base64) and extract
+ * the attested key and environment. Decodes structure only; use
+ * verifyAppAttestation to check it against Apple's root.
+ */
+export function parseAppAttestation(attestation: string | Uint8Array): AppAttestResult | null {
+  try {
+    const decoded = decodeAttestation(attestation);
+    return appAttestResult(decoded, parseAuthenticatorData(decoded.authData));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse and verify an App Attest attestation object: the x5c chain up to
+ * a trusted root, the credential ID against the attested key, the App ID
+ * and environment, and the leaf certificate's nonce against the media hash
+ * the app attested. Without `mediaHash` the nonce cannot be checked, so the
+ * attestation is not verified.
+ *
+ * Returns null if the attestation cannot be decoded.
+ *
+ * @param mediaHash - SHA-256 (lowercase hex) of the media, the attested client data
+ * @param capturedAt - Capture time (Unix seconds), used when `options.at` is unset
+ */
+export async function verifyAppAttestation(
+  attestation: string | Uint8Array,
+  options: AppAttestVerificationOptions,
+  mediaHash?: string,
+  capturedAt?: number
+): Promise<AppAttestResult | null> {
+  let decoded: AttestationObject;
+  let auth: AuthenticatorData;
+  let result: AppAttestResult;
+  try {
+    decoded = decodeAttestation(attestation);
+    auth = parseAuthenticatorData(decoded.authData);
+    result = appAttestResult(decoded, auth);
+  } catch {
+    return null;
+  }
+
+  const at = options.at ?? capturedAt ?? Math.floor(Date.now() / 1000);
+  const clientData = mediaHash ? encoder.encode(mediaHash) : undefined;
+  return { ...result, verification: await verifyAttestation(decoded, auth, options, clientData, at) };
+}
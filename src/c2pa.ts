@@ -0,0 +1,338 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * C2PA manifest verification
+ *
+ * Newer ProofMode builds embed a C2PA manifest store (JUMBF) in the media.
+ * The active manifest's claim is signed with COSE and lists hashed
+ * assertions, one of which (`c2pa.hash.data`) hard-binds the claim to the
+ * media bytes. This module checks the signature, the assertion hashes and
+ * the hard binding, and compares the manifest's `stds.exif` location and
+ * capture time with the ProofMode metadata, so both evidence systems are
+ * reconciled for one stamp.
+ */
+
+import { sha256, sha384, sha512 } from '@noble/hashes/sha2';
+import type {
+  C2PAAssertion,
+  C2PAManifest,
+  C2PAVerificationResult,
+  MediaMetadata,
+  ParsedBundle,
+  VerificationOptions,
+  VerificationPolicy,
+} from './types';
+import { decodeCBOR } from './crypto/cbor';
+import { parseCOSESign1, verifyCOSESign1 } from './crypto/cose';
+import { extractJUMBF } from './parse/media';
+import { parseJUMBF, type JUMBFSuperbox } from './parse/jumbf';
+import { readExifProperties } from './parse/xmp';
+import { compareCaptureMetadata } from './media-metadata';
+import { resolvedSignals } from './temporal';
+
+/** Labels of the JUMBF superboxes that make up a manifest store. */
+const MANIFEST_STORE_LABEL = 'c2pa';
+const CLAIM_LABELS = ['c2pa.claim.v2', 'c2pa.claim'];
+const SIGNATURE_LABEL = 'c2pa.signature';
+const ASSERTION_STORE_LABEL = 'c2pa.assertions';
+
+/** Assertion labels this module reads. */
+const HASH_DATA_LABEL = 'c2pa.hash.data';
+const EXIF_LABEL = 'stds.exif';
+
+const HASHES: Record<string, (data: Uint8Array) => Uint8Array> = { sha256, sha384, sha512 };
+
+const utf8 = new TextDecoder();
+
+/** A manifest with the raw parts its verification needs. */
+interface ParsedManifest {
+  manifest: C2PAManifest;
+  claim: Record<string, unknown>;
+  claimBytes: Uint8Array;
+  signature: unknown;
+  assertionBoxes: Map<string, JUMBFSuperbox>;
+}
+
+/** Decode an assertion's first content box: CBOR and JSON are decoded, anything else is raw. */
+function assertionData(superbox: JUMBFSuperbox): unknown {
+  const box = superbox.boxes[0];
+  if (!box) return undefined;
+  try {
+    if (box.type === 'cbor') return decodeCBOR(box.payload);
+    if (box.type === 'json') return JSON.parse(utf8.decode(box.payload));
+  } catch {
+    // Undecodable content stays raw; its hash is still checked
+  }
+  return box.payload;
+}
+
+function claimGenerator(claim: Record<string, unknown>): string | undefined {
+  if (typeof claim.claim_generator === 'string') return claim.claim_generator;
+  const info = claim.claim_generator_info;
+  const first = (Array.isArray(info) ? info[0] : info) as Record<string, unknown> | undefined;
+  if (typeof first?.name !== 'string') return undefined;
+  return typeof first.version === 'string' ? `${first.name}/${first.version}` : first.name;
+}
+
+/** Capture metadata from a `stds.exif` assertion, which uses XMP property names. */
+function exifMetadata(data: unknown): Partial<MediaMetadata> | undefined {
+  if (!data || typeof data !== 'object') return undefined;
+  const record = data as Record<string, unknown>;
+  const metadata = readExifProperties(name => {
+    const value = record[name];
+    return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : undefined;
+  });
+  const present = Object.entries(metadata).filter(([, v]) => v !== undefined);
+  return present.length > 0 ? Object.fromEntries(present) : undefined;
+}
+
+/**
+ * Find the C2PA manifest store among the media's JUMBF boxes.
+ */
+function findManifestStore(media: Uint8Array): JUMBFSuperbox | undefined {
+  for (const jumbf of extractJUMBF(media)) {
+    try {
+      const store = parseJUMBF(jumbf);
+      if (store.label === MANIFEST_STORE_LABEL) return store;
+    } catch {
+      // Not a well-formed JUMBF box; keep looking
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the active (last) manifest of a manifest store.
+ * @throws Error if the claim or signature is missing or malformed
+ */
+function parseActiveManifest(store: JUMBFSuperbox): ParsedManifest {
+  const active = store.children[store.children.length - 1];
+  if (!active) throw new Error('C2PA manifest store has no manifests');
+  const child = (label: string) => active.children.find(c => c.label === label);
+
+  const claimBox = CLAIM_LABELS.map(child).find(Boolean);
+  const claimBytes = claimBox?.boxes.find(b => b.type === 'cbor')?.payload;
+  if (!claimBytes) throw new Error('C2PA manifest has no claim');
+  const claim = decodeCBOR(claimBytes);
+  if (!claim || typeof claim !== 'object') throw new Error('C2PA claim is not a CBOR map');
+
+  const signatureBytes = child(SIGNATURE_LABEL)?.boxes.find(b => b.type === 'cbor')?.payload;
+  if (!signatureBytes) throw new Error('C2PA manifest has no claim signature');
+  const signature = decodeCBOR(signatureBytes);
+
+  const assertionBoxes = new Map<string, JUMBFSuperbox>();
+  for (const box of child(ASSERTION_STORE_LABEL)?.children ?? []) {
+    if (box.label) assertionBoxes.set(box.label, box);
+  }
+  const assertions: C2PAAssertion[] = [...assertionBoxes].map(([label, box]) => ({
+    label,
+    data: assertionData(box),
+  }));
+
+  const manifest: C2PAManifest = {
+    label: active.label ?? '',
+    claimGenerator: claimGenerator(claim as Record<string, unknown>),
+    assertions,
+    metadata: exifMetadata(assertions.find(a => a.label === EXIF_LABEL)?.data),
+  };
+  try {
+    const cose = parseCOSESign1(signature);
+    manifest.signatureAlgorithm = cose.algorithm;
+    manifest.signer = cose.chain[0].subjectCommonName;
+  } catch {
+    // Reported when the signature is verified
+  }
+
+  return { manifest, claim: claim as Record<string, unknown>, claimBytes, signature, assertionBoxes };
+}
+
+/**
+ * Read the active C2PA manifest embedded in a JPEG, PNG or HEIC file,
+ * without verifying it. Returns undefined if the media has none or it is
+ * malformed.
+ */
+export function readC2PAManifest(media: Uint8Array): C2PAManifest | undefined {
+  const store = findManifestStore(media);
+  if (!store) return undefined;
+  try {
+    return parseActiveManifest(store).manifest;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Build the `C2PA.*` stamp signals for a manifest: its label, claim
+ * generator and signer, and the location and capture time it asserts.
+ * A capture time recorded without a UTC offset is left out.
+ */
+export function c2paSignals(manifest: C2PAManifest): Record<string, unknown> {
+  const signals: Record<string, unknown> = { 'C2PA.Manifest': manifest.label };
+  if (manifest.claimGenerator) signals['C2PA.ClaimGenerator'] = manifest.claimGenerator;
+  if (manifest.signer) signals['C2PA.Signer'] = manifest.signer;
+
+  const metadata = manifest.metadata ?? {};
+  if (metadata.latitude !== undefined && metadata.longitude !== undefined) {
+    signals['C2PA.Latitude'] = metadata.latitude;
+    signals['C2PA.Longitude'] = metadata.longitude;
+    if (metadata.gpsAccuracy !== undefined) signals['C2PA.Accuracy'] = metadata.gpsAccuracy;
+  }
+  const time = metadata.timeZoneKnown ? metadata.captureTime : metadata.gpsTime;
+  if (time !== undefined) signals['C2PA.Time'] = time;
+  return signals;
+}
+
+/** Label named by a JUMBF URI such as `self#jumbf=c2pa.assertions/c2pa.hash.data`. */
+function uriLabel(url: unknown): string | undefined {
+  if (typeof url !== 'string') return undefined;
+  const path = url.replace(/^self#jumbf=/, '');
+  return path.slice(path.lastIndexOf('/') + 1) || undefined;
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Check each hashed assertion reference in the claim against the
+ * assertion superbox it names.
+ */
+function checkAssertionHashes(parsed: ParsedManifest, errors: string[]): boolean {
+  const { claim, assertionBoxes } = parsed;
+  const references = (claim.created_assertions ?? claim.assertions ?? []) as Array<Record<string, unknown>>;
+  const defaultAlg = typeof claim.alg === 'string' ? claim.alg : 'sha256';
+  let valid = Array.isArray(references);
+
+  for (const reference of Array.isArray(references) ? references : []) {
+    const label = uriLabel(reference?.url);
+    const box = label ? assertionBoxes.get(label) : undefined;
+    const hash = HASHES[typeof reference?.alg === 'string' ? reference.alg : defaultAlg];
+    if (!box) {
+      errors.push(`Claim references missing assertion ${String(reference?.url)}`);
+      valid = false;
+    } else if (!hash || !(reference.hash instanceof Uint8Array)) {
+      errors.push(`Assertion ${label} has no usable hash`);
+      valid = false;
+    } else if (!equalBytes(hash(box.contents), reference.hash)) {
+      errors.push(`Assertion ${label} does not match its hash in the claim`);
+      valid = false;
+    }
+  }
+  return valid;
+}
+
+/**
+ * Hash the media with the `c2pa.hash.data` exclusions (the manifest
+ * itself) removed, and compare with the assertion.
+ */
+function checkHardBinding(parsed: ParsedManifest, media: Uint8Array, errors: string[]): boolean | undefined {
+  const assertion = parsed.manifest.assertions.find(a => a.label === HASH_DATA_LABEL);
+  if (!assertion) {
+    if (parsed.manifest.assertions.some(a => a.label.startsWith('c2pa.hash.'))) {
+      errors.push('Manifest hard binding is not a c2pa.hash.data assertion and was not checked');
+      return undefined;
+    }
+    errors.push('Manifest has no hard binding to the media');
+    return false;
+  }
+
+  const data = assertion.data as Record<string, unknown>;
+  const alg = typeof data?.alg === 'string' ? data.alg : typeof parsed.claim.alg === 'string' ? parsed.claim.alg : 'sha256';
+  const hash = HASHES[alg];
+  if (!hash || !(data.hash instanceof Uint8Array)) {
+    errors.push(`${HASH_DATA_LABEL} has no usable hash`);
+    return false;
+  }
+
+  const exclusions = (Array.isArray(data.exclusions) ? data.exclusions : []) as Array<Record<string, unknown>>;
+  const ranges = exclusions
+    .map(e => [Number(e.start), Number(e.length)] as const)
+    .sort((a, b) => a[0] - b[0]);
+  const parts: Uint8Array[] = [];
+  let pos = 0;
+  for (const [start, length] of ranges) {
+    if (!Number.isInteger(start) || !Number.isInteger(length) || start < pos || start + length > media.length) {
+      errors.push(`${HASH_DATA_LABEL} has an invalid exclusion range`);
+      return false;
+    }
+    parts.push(media.subarray(pos, start));
+    pos = start + length;
+  }
+  parts.push(media.subarray(pos));
+
+  const hashed = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  for (const part of parts) {
+    hashed.set(part, at);
+    at += part.length;
+  }
+  if (!equalBytes(hash(hashed), data.hash)) {
+    errors.push('Media bytes do not match the manifest hard binding');
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Verify the C2PA manifest embedded in the bundle's media and compare its
+ * location and capture time with the ProofMode metadata. The certificate
+ * chain is only validated when `options.c2pa` supplies trusted roots, and
+ * the manifest is only `valid` once it is.
+ *
+ * Returns undefined without media bytes or when the media has no manifest
+ * store. Never throws.
+ */
+export async function verifyC2PA(
+  bundle: ParsedBundle,
+  policy: Pick<VerificationPolicy, 'maxTimestampDriftSeconds' | 'mediaLocationMarginMeters'>,
+  options: Pick<VerificationOptions, 'c2pa'> = {}
+): Promise<C2PAVerificationResult | undefined> {
+  if (!bundle.mediaFile) return undefined;
+  const store = findManifestStore(bundle.mediaFile);
+  if (!store) return undefined;
+
+  let parsed: ParsedManifest;
+  try {
+    parsed = parseActiveManifest(store);
+  } catch (err) {
+    return {
+      valid: false,
+      manifest: { label: store.children[store.children.length - 1]?.label ?? '', assertions: [] },
+      signatureValid: false,
+      assertionsValid: false,
+      checks: [],
+      consistent: true,
+      errors: [err instanceof Error ? err.message : String(err)],
+    };
+  }
+
+  const errors: string[] = [];
+  const cose = await verifyCOSESign1(
+    parsed.signature, parsed.claimBytes, options.c2pa?.trustedRoots, options.c2pa?.at
+  );
+  if (cose.error) errors.push(cose.error);
+  if (!options.c2pa) {
+    errors.push('Signing certificate chain was not checked; no C2PA trusted roots configured');
+  }
+  const assertionsValid = checkAssertionHashes(parsed, errors);
+  const hardBindingValid = checkHardBinding(parsed, bundle.mediaFile, errors);
+
+  const checks = parsed.manifest.metadata
+    ? compareCaptureMetadata(parsed.manifest.metadata, resolvedSignals(bundle), policy)
+        .filter(c => c.field === 'location' || c.field === 'time')
+    : [];
+
+  return {
+    // An unchecked chain or hard binding proves nothing, so is not valid
+    valid: cose.signatureValid && cose.chainValid === true && assertionsValid && hardBindingValid === true,
+    manifest: parsed.manifest,
+    signatureValid: cose.signatureValid,
+    chainValid: cose.chainValid,
+    trustedRoot: cose.trustedRoot,
+    assertionsValid,
+    hardBindingValid,
+    checks,
+    consistent: checks.every(c => c.matches),
+    errors,
+  };
+}
@@ -0,0 +1,133 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Offline cell tower cross-check
+ *
+ * Compares the GPS fix with the estimated position of the serving cell
+ * tower. Towers come from a caller-supplied CellTowerSource — typically an
+ * OpenCellID-style CSV extract for the region of interest, loaded with
+ * MemoryCellTowerDatabase.fromCSV(). Nothing is fetched.
+ */
+
+import type {
+  CellObservation,
+  CellTower,
+  CellTowerCheck,
+  CellTowerSource,
+  ProofModeSignals,
+} from './types';
+import { readCSVRecords } from './parse/csv';
+import { parseCellInfo } from './parse/cellinfo';
+import { haversineDistance } from './geo';
+
+/** Assumed coverage radius for towers exported without a range. */
+const DEFAULT_TOWER_RANGE = 5000;
+
+/** OpenCellID column order, used when the file has no header row. */
+const OPENCELLID_COLUMNS = [
+  'radio', 'mcc', 'net', 'area', 'cell', 'unit', 'lon', 'lat',
+  'range', 'samples', 'changeable', 'created', 'updated', 'averageSignal',
+];
+
+/** OpenCellID names WCDMA cells UMTS. */
+const RADIO_NAMES: Record<string, string> = { wcdma: 'UMTS' };
+
+const towerKey = (mcc: number, mnc: number, lac: number, cid: number) =>
+  `${mcc}:${mnc}:${lac}:${cid}`;
+
+/**
+ * In-memory CellTowerSource keyed by MCC, MNC, LAC/TAC and cell ID.
+ */
+export class MemoryCellTowerDatabase implements CellTowerSource {
+  private readonly towers = new Map<string, CellTower[]>();
+
+  constructor(towers: CellTower[] = []) {
+    towers.forEach(t => this.add(t));
+  }
+
+  /**
+   * Load an OpenCellID-style CSV (`radio,mcc,net,area,cell,unit,lon,lat,range,...`),
+   * with or without its header row. Rows that do not parse are skipped.
+   */
+  static fromCSV(text: string): MemoryCellTowerDatabase {
+    const db = new MemoryCellTowerDatabase();
+    const records = readCSVRecords(text);
+
+    let columns = OPENCELLID_COLUMNS;
+    if (records[0]?.[0]?.trim().toLowerCase() === 'radio') {
+      columns = records.shift()!.map(c => c.trim());
+    }
+
+    for (const record of records) {
+      const row = Object.fromEntries(columns.map((c, i) => [c, record[i]?.trim()]));
+      const tower: CellTower = {
+        radio: row.radio || undefined,
+        mcc: Number(row.mcc),
+        mnc: Number(row.net),
+        lac: Number(row.area),
+        cid: Number(row.cell),
+        latitude: Number(row.lat),
+        longitude: Number(row.lon),
+        range: row.range ? Number(row.range) : undefined,
+        samples: row.samples ? Number(row.samples) : undefined,
+      };
+      const required = [tower.mcc, tower.mnc, tower.lac, tower.cid, tower.latitude, tower.longitude];
+      if (required.every(n => Number.isFinite(n)) && row.mcc && row.lat && row.lon) {
+        db.add(tower);
+      }
+    }
+    return db;
+  }
+
+  add(tower: CellTower): void {
+    const key = towerKey(tower.mcc, tower.mnc, tower.lac, tower.cid);
+    this.towers.set(key, [...(this.towers.get(key) ?? []), tower]);
+  }
+
+  async getCellTower(cell: CellObservation): Promise<CellTower | undefined> {
+    const lac = cell.lac ?? cell.tac;
+    if (cell.mcc === undefined || cell.mnc === undefined || lac === undefined || cell.cid === undefined) {
+      return undefined;
+    }
+    const candidates = this.towers.get(towerKey(cell.mcc, cell.mnc, lac, cell.cid)) ?? [];
+    const radio = cell.type ? (RADIO_NAMES[cell.type] ?? cell.type.toUpperCase()) : undefined;
+    return candidates.find(t => t.radio?.toUpperCase() === radio) ?? candidates[0];
+  }
+}
+
+/**
+ * The cell the device was registered to, or the first cell if none is marked.
+ */
+export function servingCell(signals: ProofModeSignals): CellObservation | undefined {
+  const cells = Array.isArray(signals.Cells)
+    ? signals.Cells
+    : typeof signals.CellInfo === 'string'
+      ? parseCellInfo(signals.CellInfo)
+      : [];
+  return cells.find(c => c.registered) ?? cells[0];
+}
+
+/**
+ * Check whether the GPS fix lies within range of the serving cell tower.
+ *
+ * @param marginMeters - Slack added to the tower range and the GPS accuracy
+ * @returns undefined when the signals have no cell or no GPS fix
+ */
+export async function checkServingCell(
+  signals: ProofModeSignals,
+  towers: CellTowerSource,
+  marginMeters: number
+): Promise<CellTowerCheck | undefined> {
+  const lat = signals['Location.Latitude'];
+  const lon = signals['Location.Longitude'];
+  const cell = servingCell(signals);
+  if (!cell || typeof lat !== 'number' || typeof lon !== 'number') return undefined;
+
+  const tower = await towers.getCellTower(cell);
+  if (!tower) return { cell };
+
+  const distance = haversineDistance(lat, lon, tower.latitude, tower.longitude);
+  const accuracy = signals['Location.Accuracy'] ?? 0;
+  const allowedDistance = (tower.range || DEFAULT_TOWER_RANGE) + accuracy + marginMeters;
+  return { cell, tower, distance, allowedDistance, consistent: distance <= allowedDistance };
+}
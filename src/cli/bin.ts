@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Entry point of the `proofmode` executable; see ./index.ts.
+ */
+
+import { run } from './index';
+
+run(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,90 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Glob expansion for CLI arguments
+ *
+ * Shells expand globs, but CI configs and Windows do not, so quoted
+ * patterns are expanded here: `*` and `?` within a path segment and `**`
+ * across any number of directories. Arguments without glob characters are
+ * passed through untouched.
+ */
+
+import { readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+
+const GLOB_CHARS = /[*?]/;
+
+function segmentPattern(segment: string): RegExp {
+  const source = segment
+    .split('')
+    .map(c => (c === '*' ? '[^/]*' : c === '?' ? '[^/]' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+async function entries(dir: string): Promise<Array<{ name: string; directory: boolean }>> {
+  try {
+    const dirents = await readdir(dir, { withFileTypes: true });
+    return dirents.map(d => ({ name: d.name, directory: d.isDirectory() }));
+  } catch {
+    return [];
+  }
+}
+
+async function walk(dir: string, segments: string[], matches: string[]): Promise<void> {
+  const [segment, ...rest] = segments;
+  if (segment === undefined) {
+    matches.push(dir);
+    return;
+  }
+  if (!GLOB_CHARS.test(segment)) {
+    if (rest.length === 0) {
+      if ((await entries(dir)).some(e => e.name === segment && !e.directory)) matches.push(join(dir, segment));
+      return;
+    }
+    await walk(join(dir, segment), rest, matches);
+    return;
+  }
+
+  const children = await entries(dir);
+  if (segment === '**') {
+    // Zero directories, then one more level at a time
+    await walk(dir, rest, matches);
+    for (const child of children.filter(c => c.directory && !c.name.startsWith('.'))) {
+      await walk(join(dir, child.name), segments, matches);
+    }
+    return;
+  }
+
+  const pattern = segmentPattern(segment);
+  for (const child of children.filter(c => pattern.test(c.name) && !c.name.startsWith('.'))) {
+    if (rest.length === 0) {
+      if (!child.directory) matches.push(join(dir, child.name));
+    } else if (child.directory) {
+      await walk(join(dir, child.name), rest, matches);
+    }
+  }
+}
+
+/**
+ * Expand glob patterns to the files they match, sorted and without
+ * duplicates. Hidden files and directories are only matched by name.
+ *
+ * @throws Error if a pattern matches no file
+ */
+export async function expandPaths(patterns: string[]): Promise<string[]> {
+  const paths: string[] = [];
+  for (const pattern of patterns) {
+    if (!GLOB_CHARS.test(pattern)) {
+      paths.push(pattern);
+      continue;
+    }
+    const absolute = pattern.startsWith('/');
+    const segments = pattern.split(/[\\/]+/).filter(s => s !== '' && s !== '.');
+    const matches: string[] = [];
+    await walk(absolute ? '/' : '.', segments, matches);
+    if (matches.length === 0) throw new Error(`No files match ${pattern}`);
+    paths.push(...matches.sort());
+  }
+  return [...new Set(paths)];
+}
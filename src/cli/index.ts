@@ -0,0 +1,420 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * `proofmode` command-line tool
+ *
+ * Inspects, converts and verifies ProofMode bundles for analysts and CI
+ * jobs, on top of the library's parser, stamp builder and verifiers:
+ *
+ *   proofmode inspect <zip...>           classified files and signals
+ *   proofmode create <zip...>            LocationStamp JSON
+ *   proofmode verify <zip|stamp.json...> verification report
+ *
+ * Arguments may be quoted globs. Every command takes --json for machine
+ * output. The exit code is 0 when everything verified, 1 when a bundle or
+ * stamp failed verification, and 2 for usage errors and unreadable input.
+ * An unreadable file is reported and the other files are still processed.
+ * run() takes its output streams as arguments so it can be driven in-process.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { unzipSync } from 'fflate';
+import type { LocationStamp } from '@decentralized-geo/astral-sdk/plugins';
+import type {
+  BundleVerificationResult,
+  CreateStampOptions,
+  LocationShape,
+  ParsedBundle,
+  PolicyPreset,
+  StampMode,
+  VerificationCheck,
+  VerificationOptions,
+} from '../types';
+import { ProofModePlugin } from '../index';
+import { parseBundleItems } from '../parse';
+import { classifyEntry } from '../parse/bundle';
+import type { EntryKind } from '../parse/bundle';
+import { createLocationStampFromBundle } from '../create';
+import { verifyProofModeStamp } from '../verify';
+import { verifyBundle } from '../verify-bundle';
+import { resolvePolicy } from '../policy';
+import { JSONFileKeyRegistry } from '../keys';
+import { expandPaths } from './glob';
+
+/** Every bundle and stamp verified. */
+export const EXIT_OK = 0;
+/** At least one bundle or stamp failed verification. */
+export const EXIT_INVALID = 1;
+/** Bad arguments, or an input that could not be read or parsed. */
+export const EXIT_ERROR = 2;
+
+/** Where run() writes; each call is one chunk of text. */
+export interface CLIOutput {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const PROCESS_OUTPUT: CLIOutput = {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+};
+
+const USAGE = `Usage: proofmode <command> [options] <file|glob...>
+
+Commands:
+  inspect <zip...>              List classified files and signals per item
+  create <zip...>               Print the LocationStamp JSON for each item
+  verify <zip|stamp.json...>    Verify bundles or stamps and print a report
+
+Options:
+  --json                        Machine-readable output
+  --policy <preset>             lenient, standard (default) or forensic
+  --key-registry <file>         Check and record device keys in a JSON registry (verify)
+  --mode <mode>                 destructured or undestructured (create)
+  --shape <shape>               point, point-uncertainty or circle (create, verify)
+  --time-fallback <fallback>    error (default) or now (create, verify)
+  --verbose                     Also list informational findings (verify)
+  -h, --help                    Show this help
+  -v, --version                 Show the plugin version
+
+Exit codes: 0 verified, 1 verification failed, 2 usage or input error.
+`;
+
+const OPTIONS = {
+  json: { type: 'boolean' },
+  policy: { type: 'string' },
+  'key-registry': { type: 'string' },
+  mode: { type: 'string' },
+  shape: { type: 'string' },
+  'time-fallback': { type: 'string' },
+  verbose: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+  version: { type: 'boolean', short: 'v' },
+} as const;
+
+interface CLIFlags {
+  json?: boolean;
+  policy?: string;
+  'key-registry'?: string;
+  mode?: string;
+  shape?: string;
+  'time-fallback'?: string;
+  verbose?: boolean;
+}
+
+/** A bad command line; reported with the usage text. */
+class UsageError extends Error {}
+
+/** Binary data as base64, so stamps and results survive JSON.stringify. */
+function jsonReplacer(_key: string, value: unknown): unknown {
+  if (value instanceof Uint8Array) return Buffer.from(value).toString('base64');
+  if (typeof value === 'bigint') return value.toString();
+  return value;
+}
+
+const toJSON = (value: unknown) => JSON.stringify(value, jsonReplacer, 2) + '\n';
+
+function choice<T extends string>(flag: string, value: string | undefined, allowed: readonly T[]): T | undefined {
+  if (value === undefined) return undefined;
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new UsageError(`--${flag} must be one of ${allowed.join(', ')}, got '${value}'`);
+  }
+  return value as T;
+}
+
+/** Stamp options shared by create and verify; each bundle adds its archive. */
+function stampOptions(flags: CLIFlags): CreateStampOptions {
+  const shape = choice<LocationShape>('shape', flags.shape, ['point', 'point-uncertainty', 'circle']);
+  return {
+    mode: choice<StampMode>('mode', flags.mode, ['destructured', 'undestructured']),
+    geometry: shape ? { shape } : undefined,
+    timeFallback: choice('time-fallback', flags['time-fallback'], ['error', 'now'] as const),
+  };
+}
+
+/** Entry name, size and kind for every archive entry, without decompressing. */
+function listEntries(zipData: Uint8Array): Array<{ name: string; size: number } & EntryKind> {
+  const entries: Array<{ name: string; size: number } & EntryKind> = [];
+  unzipSync(zipData, {
+    filter: file => {
+      entries.push({ name: file.name, size: file.originalSize, ...classifyEntry(file.name) });
+      return false;
+    },
+  });
+  return entries;
+}
+
+function describeEntry(entry: EntryKind): string {
+  switch (entry.kind) {
+    case 'proof':
+      return `proof ${entry.field}`;
+    case 'mediaSignature':
+      return 'media signature';
+    case 'publicKey':
+      return 'public key';
+    default:
+      return entry.kind;
+  }
+}
+
+function formatValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value, jsonReplacer);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function itemLabel(file: string, index: number, count: number): string {
+  return count > 1 ? `${file} [item ${index + 1}/${count}]` : file;
+}
+
+/** A file that could not be read or parsed; the rest of the batch goes on. */
+interface FileError {
+  file: string;
+  valid: false;
+  error: string;
+}
+
+function fileError(file: string, err: unknown): FileError {
+  return { file, valid: false, error: err instanceof Error ? err.message : String(err) };
+}
+
+function reportFileErrors(command: string, errors: FileError[], io: CLIOutput): void {
+  for (const { file, error } of errors) io.stderr(`proofmode ${command}: ${file}: ${error}\n`);
+}
+
+async function inspect(files: string[], flags: CLIFlags, io: CLIOutput): Promise<number> {
+  const reports = [];
+  const errors: FileError[] = [];
+  for (const file of files) {
+    try {
+      const zipData = new Uint8Array(await readFile(file));
+      const items = parseBundleItems(zipData);
+      reports.push({
+        file,
+        entries: listEntries(zipData),
+        unmatchedMedia: items[0].unmatchedMedia ?? [],
+        items: items.map(item => ({
+          platform: item.platform,
+          mediaFileName: item.mediaFileName,
+          expectedHash: item.expectedHash,
+          signals: item.metadata.signals,
+        })),
+      });
+    } catch (err) {
+      errors.push(fileError(file, err));
+    }
+  }
+  const code = errors.length > 0 ? EXIT_ERROR : EXIT_OK;
+
+  if (flags.json) {
+    io.stdout(toJSON([...reports, ...errors]));
+    return code;
+  }
+  reportFileErrors('inspect', errors, io);
+  for (const report of reports) {
+    const lines = [report.file, '  files:'];
+    const width = Math.max(0, ...report.entries.map(e => e.name.length));
+    for (const entry of report.entries) {
+      lines.push(`    ${entry.name.padEnd(width)}  ${String(entry.size).padStart(9)} B  ${describeEntry(entry)}`);
+    }
+    if (report.unmatchedMedia.length > 0) {
+      lines.push(`  unmatched media (no proof item): ${report.unmatchedMedia.join(', ')}`);
+    }
+    report.items.forEach((item, i) => {
+      lines.push(`  item ${i + 1} of ${report.items.length}: ${item.platform}, ${item.mediaFileName ?? 'no media'}`);
+      if (item.expectedHash) lines.push(`    sha256 ${item.expectedHash}`);
+      const signals = Object.entries(item.signals).filter(([, v]) => v !== undefined);
+      const keyWidth = Math.max(0, ...signals.map(([k]) => k.length));
+      for (const [key, value] of signals) lines.push(`    ${key.padEnd(keyWidth)}  ${formatValue(value)}`);
+    });
+    io.stdout(lines.join('\n') + '\n');
+  }
+  return code;
+}
+
+async function create(files: string[], flags: CLIFlags, io: CLIOutput): Promise<number> {
+  const version = new ProofModePlugin().version;
+  const options = stampOptions(flags);
+  const stamps: LocationStamp[] = [];
+  const errors: FileError[] = [];
+  for (const file of files) {
+    try {
+      const zipData = new Uint8Array(await readFile(file));
+      const created = [];
+      for (const item of parseBundleItems(zipData)) {
+        created.push(await createLocationStampFromBundle(item, version, { ...options, archive: zipData }));
+      }
+      stamps.push(...created);
+    } catch (err) {
+      errors.push(fileError(file, err));
+    }
+  }
+  // stdout stays stamp JSON; the files left out are named on stderr
+  reportFileErrors('create', errors, io);
+  io.stdout(toJSON(stamps.length === 1 ? stamps[0] : stamps));
+  return errors.length > 0 ? EXIT_ERROR : EXIT_OK;
+}
+
+/** Verification of one bundle item or stamp. */
+interface VerifyOutcome {
+  file: string;
+  item?: number;
+  valid: boolean;
+  bundle?: BundleVerificationResult;
+  stamp?: Awaited<ReturnType<typeof verifyProofModeStamp>>;
+  /** Why no stamp could be built or checked */
+  error?: string;
+}
+
+/** Stamp JSON holds a stamp or an array of them; anything else is a ZIP. */
+function readStamps(data: Uint8Array): LocationStamp[] | undefined {
+  if (data[0] === 0x50 && data[1] === 0x4b) return undefined;
+  const parsed = JSON.parse(new TextDecoder().decode(data)) as unknown;
+  const stamps = Array.isArray(parsed) ? parsed : [parsed];
+  if (stamps.length === 0 || stamps.some(s => typeof s !== 'object' || s === null)) {
+    throw new Error('Expected a LocationStamp or an array of them');
+  }
+  return stamps as LocationStamp[];
+}
+
+async function verifyItem(
+  file: string,
+  index: number,
+  bundle: ParsedBundle,
+  zipData: Uint8Array,
+  createOptions: CreateStampOptions,
+  options: VerificationOptions
+): Promise<VerifyOutcome> {
+  const version = new ProofModePlugin().version;
+  const bundleResult = await verifyBundle(bundle, options);
+  const outcome: VerifyOutcome = { file, item: index, valid: bundleResult.valid, bundle: bundleResult };
+  try {
+    const stamp = await createLocationStampFromBundle(bundle, version, {
+      ...createOptions,
+      archive: zipData,
+      verification: bundleResult,
+    });
+    // The stamp carries only signatures verifyBundle just verified, and
+    // verifyBundle has already checked and recorded the key
+    const policy = resolvePolicy(options.policy);
+    outcome.stamp = await verifyProofModeStamp(stamp, {
+      ...options,
+      keyRegistry: undefined,
+      policy: { ...policy, severities: { ...policy.severities, SIGNATURES_UNVERIFIED: 'info' } },
+    });
+    outcome.valid = outcome.valid && outcome.stamp.valid;
+  } catch (err) {
+    outcome.error = (err as Error).message;
+    outcome.valid = false;
+  }
+  return outcome;
+}
+
+function formatVerifyOutcome(outcome: VerifyOutcome, count: number, verbose: boolean): string {
+  const label = outcome.item === undefined ? outcome.file : itemLabel(outcome.file, outcome.item, count);
+  const lines = [`${label}  ${outcome.valid ? 'VALID' : 'INVALID'}`];
+  const ok = (value: boolean) => (value ? 'ok' : 'FAIL');
+  if (outcome.bundle) {
+    const { bundle } = outcome;
+    const signed = bundle.signatures.filter(s => s.valid).length;
+    const parts = [`signatures ${signed}/${bundle.signatures.length}`];
+    if (bundle.integrity) parts.push(`media ${ok(bundle.integrity.valid)}`);
+    if (bundle.keyFingerprint) parts.push(`key ${bundle.keyFingerprint}`);
+    if (bundle.keyContinuity) parts.push(`key ${bundle.keyContinuity.status}`);
+    lines.push(`  bundle  ${ok(bundle.valid)} (${parts.join(', ')})`);
+  }
+  if (outcome.stamp) {
+    const { stamp } = outcome;
+    lines.push(`  stamp   structure ${ok(stamp.structureValid)}, signatures ${ok(stamp.signaturesValid)}, ` +
+      `signals ${ok(stamp.signalsConsistent)}`);
+    for (const check of stamp.details.checks as VerificationCheck[]) {
+      if (check.severity === 'info' && !verbose) continue;
+      lines.push(`  ${check.severity.padEnd(4)}  ${check.code}  ${check.message}`);
+    }
+  }
+  if (outcome.error) lines.push(`  error   ${outcome.error}`);
+  return lines.join('\n') + '\n';
+}
+
+async function verify(files: string[], flags: CLIFlags, io: CLIOutput): Promise<number> {
+  const createOptions = stampOptions(flags);
+  const options: VerificationOptions = { policy: resolvePolicy(flags.policy as PolicyPreset | undefined) };
+  if (flags['key-registry']) options.keyRegistry = await JSONFileKeyRegistry.open(flags['key-registry']);
+
+  const outcomes: VerifyOutcome[] = [];
+  const counts = new Map<string, number>();
+  let unreadable = false;
+  for (const file of files) {
+    // Verification never throws; reading or parsing the file may
+    try {
+      const data = new Uint8Array(await readFile(file));
+      const stamps = readStamps(data);
+      if (stamps) {
+        for (const [i, stamp] of stamps.entries()) {
+          const result = await verifyProofModeStamp(stamp, options);
+          outcomes.push({ file, item: stamps.length > 1 ? i : undefined, valid: result.valid, stamp: result });
+        }
+        counts.set(file, stamps.length);
+        continue;
+      }
+      const items = parseBundleItems(data);
+      for (const [i, item] of items.entries()) outcomes.push(await verifyItem(file, i, item, data, createOptions, options));
+      counts.set(file, items.length);
+    } catch (err) {
+      outcomes.push(fileError(file, err));
+      unreadable = true;
+    }
+  }
+
+  const valid = outcomes.every(o => o.valid);
+  if (flags.json) {
+    io.stdout(toJSON({ valid, results: outcomes }));
+  } else {
+    for (const outcome of outcomes) {
+      io.stdout(formatVerifyOutcome(outcome, counts.get(outcome.file) ?? 1, flags.verbose ?? false));
+    }
+    const failed = outcomes.filter(o => !o.valid).length;
+    io.stdout(`${outcomes.length - failed} of ${outcomes.length} verified\n`);
+  }
+  if (unreadable) return EXIT_ERROR;
+  return valid ? EXIT_OK : EXIT_INVALID;
+}
+
+const COMMANDS: Record<string, (files: string[], flags: CLIFlags, io: CLIOutput) => Promise<number>> = {
+  inspect,
+  create,
+  verify,
+};
+
+/**
+ * Run the CLI with `argv` (without the node and script paths) and return
+ * the exit code. Never throws: errors are written to `io.stderr`.
+ */
+export async function run(argv: string[], io: CLIOutput = PROCESS_OUTPUT): Promise<number> {
+  let command: string | undefined;
+  try {
+    const { values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+    if (values.version) {
+      io.stdout(`${new ProofModePlugin().version}\n`);
+      return EXIT_OK;
+    }
+    if (values.help) {
+      io.stdout(USAGE);
+      return EXIT_OK;
+    }
+    const [name, ...patterns] = positionals;
+    command = name;
+    if (!name) throw new UsageError('Missing command');
+    if (!Object.prototype.hasOwnProperty.call(COMMANDS, name)) throw new UsageError(`Unknown command '${name}'`);
+    if (patterns.length === 0) throw new UsageError(`${name} needs at least one file`);
+    return await COMMANDS[name](await expandPaths(patterns), values, io);
+  } catch (err) {
+    const message = (err as Error).message;
+    if (err instanceof UsageError || (err as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      io.stderr(`proofmode: ${message}\n\n${USAGE}`);
+    } else {
+      io.stderr(`proofmode${command ? ` ${command}` : ''}: ${message}\n`);
+    }
+    return EXIT_ERROR;
+  }
+}
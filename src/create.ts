@@ -4,15 +4,38 @@
  * ProofMode stamp creation
  *
  * Transforms a parsed ProofMode proof bundle into an UnsignedLocationStamp.
+ * The location is a bare point unless accuracy-aware geometry is requested
+ * (see geometry.ts). The device's detached PGP signatures become the
+ * stamp's `signatures`, making it a LocationStamp.
  */
 
-import type { UnsignedLocationStamp } from '@decentralized-geo/astral-sdk/plugins';
-import type { ParsedBundle } from './types';
+import type { LocationStamp, UnsignedLocationStamp } from '@decentralized-geo/astral-sdk/plugins';
+import type { BundleVerificationResult, CreateStampOptions, ParsedBundle } from './types';
+import { readDetachedSignatureInfo, readPublicKeyInfo, readSignatureCreationTime } from './crypto';
+import { evidenceSignals } from './evidence';
+import { c2paSignals, readC2PAManifest } from './c2pa';
+import { stampLocation } from './geometry';
+import { temporalFootprint } from './temporal';
+import { verifyBundle } from './verify-bundle';
 
 /**
  * Create an UnsignedLocationStamp from a parsed ProofMode bundle.
+ *
+ * With `options.mode`, the stamp also carries what its verification path
+ * needs: the signed evidence itself ('destructured') or a hash of the
+ * original archive ('undestructured'). See evidence.ts. `options.geometry`
+ * emits the accuracy circle as a polygon or a `Location.Uncertainty` signal.
+ * The temporal footprint spans the bundle's agreeing time sources, which
+ * are recorded in `TemporalFootprint.Sources`.
+ *
+ * @throws Error for missing coordinates, invalid geometry options, or a
+ *   bundle with no usable time unless `options.timeFallback` is 'now'
  */
-export function createStampFromBundle(bundle: ParsedBundle, pluginVersion: string): UnsignedLocationStamp {
+export function createStampFromBundle(
+  bundle: ParsedBundle,
+  pluginVersion: string,
+  options: CreateStampOptions = {}
+): UnsignedLocationStamp {
   const signals = bundle.metadata.signals;
 
   const lat = signals['Location.Latitude'];
@@ -23,33 +46,44 @@ export function createStampFromBundle(bundle: ParsedBundle, pluginVersion: strin
     throw new Error('ProofMode bundle missing or invalid Location.Latitude/Location.Longitude');
   }
 
-  // Build temporal footprint from available timestamps
-  const locationTimeMs = signals['Location.Time'] as number | undefined;
-  const timestamp = signals['Timestamp'] as number | undefined;
-  const dateCreated = signals['DateCreated'] as string | undefined;
-
-  let startTime: number;
-  if (locationTimeMs) {
-    startTime = locationTimeMs > 1e12 ? Math.floor(locationTimeMs / 1000) : locationTimeMs;
-  } else if (timestamp) {
-    startTime = timestamp;
-  } else if (dateCreated) {
-    startTime = Math.floor(new Date(dateCreated).getTime() / 1000);
-  } else {
-    startTime = Math.floor(Date.now() / 1000);
-  }
+  // Temporal footprint from every time in the bundle (see temporal.ts)
+  const footprint = temporalFootprint(bundle, options);
 
-  // ProofMode is a snapshot — temporal footprint is brief
-  const endTime = startTime + 1;
+  const { locationType, location, uncertainty } = stampLocation(signals, lon, lat, options.geometry);
 
   // Copy all signals and add bundle metadata
   const allSignals: Record<string, unknown> = { ...signals };
 
+  if (uncertainty) {
+    allSignals['Location.Uncertainty'] = uncertainty;
+  }
+
+  // A zoneless fix time is carried as the footprint resolved it
+  const gps = footprint.evidence.find(e => e.source === 'gps');
+  if (signals['Location.TimeZoneKnown'] === false && gps) {
+    allSignals['Location.Time'] = gps.time * 1000;
+  }
+
+  allSignals['TemporalFootprint.Sources'] = footprint.evidence;
+  if (footprint.estimated) {
+    allSignals['TemporalFootprint.Estimated'] = true;
+  }
+
+  allSignals['Platform'] = bundle.platform;
+
   // Add SafetyNet info if present
   if (bundle.safetyNetToken) {
     allSignals['SafetyNet.JWT'] = bundle.safetyNetToken;
   }
 
+  // iOS device attestation
+  if (bundle.appAttestation) {
+    allSignals['AppAttest.Attestation'] = Buffer.from(bundle.appAttestation).toString('base64');
+  }
+  if (bundle.deviceCheckToken) {
+    allSignals['DeviceCheck.Token'] = bundle.deviceCheckToken;
+  }
+
   // Note presence of OTS proof
   if (bundle.otsProof) {
     allSignals['HasOTS'] = true;
@@ -65,20 +99,108 @@ export function createStampFromBundle(bundle: ParsedBundle, pluginVersion: strin
     allSignals['FileHash'] = bundle.expectedHash;
   }
 
+  // C2PA manifest embedded in the media (verified by verifyBundle)
+  const manifest = bundle.mediaFile ? readC2PAManifest(bundle.mediaFile) : undefined;
+  if (manifest) {
+    Object.assign(allSignals, c2paSignals(manifest));
+  }
+
+  Object.assign(allSignals, evidenceSignals(bundle, options));
+
   return {
     lpVersion: '0.2',
-    locationType: 'geojson-point',
-    location: {
-      type: 'Point',
-      coordinates: [lon, lat], // GeoJSON: [lon, lat]
-    },
+    locationType,
+    location,
     srs: 'EPSG:4326',
     temporalFootprint: {
-      start: startTime,
-      end: endTime,
+      start: footprint.start,
+      end: footprint.end,
     },
     plugin: 'proofmode',
     pluginVersion,
     signals: allSignals,
   };
 }
+
+/**
+ * Map the bundle's detached PGP signatures (metadata first, then media) to
+ * LocationStamp signatures, with the signing key's fingerprint as signer.
+ * Only signatures that `verification` found valid are mapped, so a stamp
+ * never carries a signature over data that was changed after signing.
+ */
+export async function stampSignatures(
+  bundle: ParsedBundle,
+  verification: BundleVerificationResult
+): Promise<LocationStamp['signatures']> {
+  const detached = [
+    ['metadata', bundle.metadataSignature],
+    ['media', bundle.mediaSignature],
+  ] as const;
+
+  const signatures: LocationStamp['signatures'] = [];
+  for (const [target, signature] of detached) {
+    if (!signature) continue;
+    if (!verification.signatures.find(s => s.target === target)?.valid) continue;
+    const info = await readDetachedSignatureInfo(target, signature, bundle.publicKey);
+    if (!info) continue;
+    signatures.push({
+      signer: { scheme: 'pgp-fingerprint', value: info.signerFingerprint },
+      algorithm: 'pgp',
+      value: info.armored,
+      timestamp: info.signatureCreated,
+    });
+  }
+  return signatures;
+}
+
+/**
+ * The bundle public key's identity and validity as `PGP.*` signals, for
+ * key checks once the key itself is discarded.
+ */
+async function keySignals(bundle: ParsedBundle): Promise<Record<string, unknown>> {
+  const key = bundle.publicKey ? await readPublicKeyInfo(bundle.publicKey) : undefined;
+  if (!key) return {};
+  const signals: Record<string, unknown> = {
+    'PGP.Fingerprint': key.fingerprint,
+    'PGP.UserIDs': key.userIds,
+    'PGP.KeyCreated': key.created,
+    'PGP.KeyRevoked': key.revoked,
+  };
+  if (key.expires !== undefined) signals['PGP.KeyExpires'] = key.expires;
+  return signals;
+}
+
+/** Creation times the bundle's detached signatures claim, unverified. */
+async function claimedSignatureTimes(bundle: ParsedBundle): Promise<number[]> {
+  const times: number[] = [];
+  for (const signature of [bundle.metadataSignature, bundle.mediaSignature]) {
+    const time = signature ? await readSignatureCreationTime(signature) : undefined;
+    if (time !== undefined) times.push(time);
+  }
+  return times;
+}
+
+/**
+ * Create a LocationStamp from a parsed ProofMode bundle: the stamp from
+ * createStampFromBundle with the device's verified signatures and the
+ * `PGP.*` key signals attached. The bundle is verified here unless
+ * `options.verification` is given. The signatures' claimed creation times
+ * join the temporal footprint unless `options.signatureTimes` is given.
+ *
+ * @throws Error as createStampFromBundle does
+ */
+export async function createLocationStampFromBundle(
+  bundle: ParsedBundle,
+  pluginVersion: string,
+  options: CreateStampOptions = {}
+): Promise<LocationStamp> {
+  const stamp = createStampFromBundle(bundle, pluginVersion, {
+    ...options,
+    signatureTimes: options.signatureTimes ?? await claimedSignatureTimes(bundle),
+  });
+  return {
+    ...stamp,
+    signals: { ...stamp.signals, ...(await keySignals(bundle)) },
+    signatures: await stampSignatures(bundle, options.verification ?? await verifyBundle(bundle)),
+  };
+}
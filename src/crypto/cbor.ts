@@ -0,0 +1,257 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Minimal CBOR (RFC 8949) codec
+ *
+ * Decodes everything C2PA manifests and COSE structures use: integers,
+ * byte and text strings (definite or indefinite), arrays, maps, tags,
+ * simple values and floats. Map keys become string object keys, so COSE
+ * header label 1 is read as `header['1']`. Byte strings decode to
+ * Uint8Array and tagged items to CBORTag.
+ *
+ * The encoder covers only what verification has to re-serialize, such as
+ * a COSE Sig_structure.
+ */
+
+/** A tagged data item, e.g. tag 18 for COSE_Sign1. */
+export class CBORTag {
+  constructor(
+    readonly tag: number,
+    readonly value: unknown
+  ) {}
+}
+
+/** Nesting depth beyond which input is rejected as hostile. */
+const MAX_DEPTH = 64;
+
+const utf8 = new TextDecoder('utf-8', { fatal: true });
+
+class Decoder {
+  private pos = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  get offset(): number {
+    return this.pos;
+  }
+
+  private need(n: number): void {
+    if (this.pos + n > this.data.length) throw new Error('CBOR: unexpected end of input');
+  }
+
+  private byte(): number {
+    this.need(1);
+    return this.data[this.pos++];
+  }
+
+  /** Read the argument for additional info `info`; undefined means indefinite. */
+  private argument(info: number): number | bigint | undefined {
+    if (info < 24) return info;
+    if (info === 31) return undefined;
+    const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : info === 27 ? 8 : 0;
+    if (!size) throw new Error(`CBOR: invalid additional information ${info}`);
+    this.need(size);
+    const at = this.pos;
+    this.pos += size;
+    if (size === 1) return this.data[at];
+    if (size === 2) return this.view.getUint16(at);
+    if (size === 4) return this.view.getUint32(at);
+    const big = this.view.getBigUint64(at);
+    return big <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(big) : big;
+  }
+
+  private length(info: number): number | undefined {
+    const value = this.argument(info);
+    if (typeof value === 'bigint') throw new Error('CBOR: length too large');
+    return value;
+  }
+
+  private bytes(length: number): Uint8Array {
+    this.need(length);
+    const out = this.data.slice(this.pos, this.pos + length);
+    this.pos += length;
+    return out;
+  }
+
+  /** Concatenate the chunks of an indefinite-length string. */
+  private chunks(major: number): Uint8Array {
+    const parts: Uint8Array[] = [];
+    for (;;) {
+      const initial = this.byte();
+      if (initial === 0xff) break;
+      const length = initial >> 5 === major ? this.length(initial & 0x1f) : undefined;
+      if (length === undefined) throw new Error('CBOR: invalid indefinite-length string chunk');
+      parts.push(this.bytes(length));
+    }
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let at = 0;
+    for (const part of parts) {
+      out.set(part, at);
+      at += part.length;
+    }
+    return out;
+  }
+
+  private isBreak(): boolean {
+    this.need(1);
+    if (this.data[this.pos] !== 0xff) return false;
+    this.pos++;
+    return true;
+  }
+
+  decode(depth = 0): unknown {
+    if (depth > MAX_DEPTH) throw new Error('CBOR: nesting too deep');
+    const initial = this.byte();
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0: {
+        const value = this.argument(info);
+        if (value === undefined) throw new Error('CBOR: indefinite integer');
+        return value;
+      }
+      case 1: {
+        const value = this.argument(info);
+        if (value === undefined) throw new Error('CBOR: indefinite integer');
+        return typeof value === 'bigint' ? -1n - value : -1 - value;
+      }
+      case 2:
+      case 3: {
+        const length = this.length(info);
+        const raw = length === undefined ? this.chunks(major) : this.bytes(length);
+        return major === 2 ? raw : utf8.decode(raw);
+      }
+      case 4: {
+        const length = this.length(info);
+        const items: unknown[] = [];
+        for (let i = 0; length === undefined ? !this.isBreak() : i < length; i++) {
+          items.push(this.decode(depth + 1));
+        }
+        return items;
+      }
+      case 5: {
+        const length = this.length(info);
+        const map: Record<string, unknown> = {};
+        for (let i = 0; length === undefined ? !this.isBreak() : i < length; i++) {
+          const key = this.decode(depth + 1);
+          map[String(key)] = this.decode(depth + 1);
+        }
+        return map;
+      }
+      case 6: {
+        const tag = this.argument(info);
+        if (typeof tag !== 'number') throw new Error('CBOR: invalid tag');
+        return new CBORTag(tag, this.decode(depth + 1));
+      }
+      default:
+        return this.simple(info);
+    }
+  }
+
+  private simple(info: number): unknown {
+    if (info === 20) return false;
+    if (info === 21) return true;
+    if (info === 22) return null;
+    if (info === 23) return undefined;
+    if (info === 24) return this.byte();
+    const size = info === 25 ? 2 : info === 26 ? 4 : info === 27 ? 8 : 0;
+    if (!size) {
+      if (info < 20) return info;
+      throw new Error(`CBOR: unexpected simple value ${info}`);
+    }
+    this.need(size);
+    const at = this.pos;
+    this.pos += size;
+    if (size === 2) return halfFloat(this.view.getUint16(at));
+    return size === 4 ? this.view.getFloat32(at) : this.view.getFloat64(at);
+  }
+}
+
+function halfFloat(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 31) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+/**
+ * Decode one CBOR data item from the start of `data`.
+ * @returns The item and the number of bytes it occupied
+ * @throws Error on malformed input
+ */
+export function decodeCBORItem(data: Uint8Array): [unknown, number] {
+  const decoder = new Decoder(data);
+  const value = decoder.decode();
+  return [value, decoder.offset];
+}
+
+/**
+ * Decode a buffer holding exactly one CBOR data item.
+ * @throws Error on malformed input or trailing bytes
+ */
+export function decodeCBOR(data: Uint8Array): unknown {
+  const [value, length] = decodeCBORItem(data);
+  if (length !== data.length) throw new Error('CBOR: trailing bytes after data item');
+  return value;
+}
+
+function head(major: number, value: number): number[] {
+  if (value < 24) return [(major << 5) | value];
+  if (value < 0x100) return [(major << 5) | 24, value];
+  if (value < 0x10000) return [(major << 5) | 25, value >> 8, value & 0xff];
+  if (value < 0x100000000) {
+    return [(major << 5) | 26, value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+  }
+  throw new Error('CBOR: value too large to encode');
+}
+
+/**
+ * Encode integers, strings, byte strings, arrays, maps (a Map for
+ * non-string keys), tags, booleans and null, using definite lengths.
+ */
+export function encodeCBOR(value: unknown): Uint8Array {
+  const out: number[] = [];
+  const write = (v: unknown): void => {
+    if (v === null) out.push(0xf6);
+    else if (v === false) out.push(0xf4);
+    else if (v === true) out.push(0xf5);
+    else if (typeof v === 'number' && Number.isInteger(v)) {
+      out.push(...(v >= 0 ? head(0, v) : head(1, -1 - v)));
+    } else if (typeof v === 'string') {
+      const bytes = new TextEncoder().encode(v);
+      out.push(...head(3, bytes.length), ...bytes);
+    } else if (v instanceof Uint8Array) {
+      out.push(...head(2, v.length));
+      for (const b of v) out.push(b);
+    } else if (Array.isArray(v)) {
+      out.push(...head(4, v.length));
+      v.forEach(write);
+    } else if (v instanceof Map) {
+      out.push(...head(5, v.size));
+      for (const [key, item] of v) {
+        write(key);
+        write(item);
+      }
+    } else if (v instanceof CBORTag) {
+      out.push(...head(6, v.tag));
+      write(v.value);
+    } else if (typeof v === 'object') {
+      const entries = Object.entries(v as Record<string, unknown>);
+      out.push(...head(5, entries.length));
+      for (const [key, item] of entries) {
+        write(key);
+        write(item);
+      }
+    } else {
+      throw new Error(`CBOR: cannot encode ${typeof v}`);
+    }
+  };
+  write(value);
+  return new Uint8Array(out);
+}
@@ -0,0 +1,149 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * COSE_Sign1 (RFC 9052) verification
+ *
+ * Verifies a COSE_Sign1 signature over a detached payload with the key of
+ * the first certificate in its `x5chain` header, and optionally validates
+ * that chain against trusted roots. Used for C2PA claim signatures.
+ */
+
+import { CBORTag, decodeCBOR, encodeCBOR } from './cbor';
+import {
+  JWS_ALGORITHMS,
+  parseCertificate,
+  verifyCertificateChain,
+  verifySignature,
+  type Certificate,
+} from './x509';
+
+/** COSE_Sign1 CBOR tag. */
+const COSE_SIGN1_TAG = 18;
+
+/** COSE header labels. */
+const HEADER_ALG = '1';
+const HEADER_X5CHAIN = '33';
+
+/** COSE algorithm identifiers mapped to their JWS names (see JWS_ALGORITHMS). */
+const COSE_ALGORITHMS: Record<string, string> = {
+  '-7': 'ES256',
+  '-35': 'ES384',
+  '-257': 'RS256',
+  '-258': 'RS384',
+  '-259': 'RS512',
+};
+
+/**
+ * Outcome of verifying a COSE_Sign1 structure.
+ */
+export interface COSEVerification {
+  signatureValid: boolean;
+  /** Algorithm name, or the numeric identifier if unsupported */
+  algorithm?: string;
+  /** Subject CN of the signing certificate */
+  signer?: string;
+  /** Only set when trusted roots were supplied */
+  chainValid?: boolean;
+  trustedRoot?: string;
+  error?: string;
+}
+
+function certificates(value: unknown): Uint8Array[] {
+  if (value instanceof Uint8Array) return [value];
+  if (Array.isArray(value) && value.every(c => c instanceof Uint8Array)) return value;
+  return [];
+}
+
+/**
+ * A decoded COSE_Sign1 structure.
+ */
+export interface COSESign1 {
+  protectedHeader: Uint8Array;
+  /** Algorithm name, or the numeric identifier if unsupported */
+  algorithm: string;
+  /** x5chain certificates, leaf first */
+  chain: Certificate[];
+  signature: Uint8Array;
+}
+
+/**
+ * Decode a COSE_Sign1 (tagged or untagged) from its CBOR data item.
+ * @throws Error if the structure, headers or certificates are malformed
+ */
+export function parseCOSESign1(cose: unknown): COSESign1 {
+  const structure = cose instanceof CBORTag && cose.tag === COSE_SIGN1_TAG ? cose.value : cose;
+  if (!Array.isArray(structure) || structure.length !== 4) {
+    throw new Error('COSE: not a COSE_Sign1 structure');
+  }
+  const [protectedHeader, unprotected, , signature] = structure as [unknown, unknown, unknown, unknown];
+  if (!(protectedHeader instanceof Uint8Array) || !(signature instanceof Uint8Array)) {
+    throw new Error('COSE: malformed COSE_Sign1 structure');
+  }
+
+  const headers = (protectedHeader.length > 0 ? decodeCBOR(protectedHeader) : {}) as Record<string, unknown>;
+  const unprotectedHeaders = (unprotected && typeof unprotected === 'object' ? unprotected : {}) as Record<string, unknown>;
+
+  const algorithmId = String(headers[HEADER_ALG]);
+  const chain = certificates(headers[HEADER_X5CHAIN] ?? unprotectedHeaders[HEADER_X5CHAIN]);
+  if (chain.length === 0) throw new Error('COSE: no x5chain certificate');
+
+  return {
+    protectedHeader,
+    algorithm: COSE_ALGORITHMS[algorithmId] ?? algorithmId,
+    chain: chain.map(c => parseCertificate(c)),
+    signature,
+  };
+}
+
+/**
+ * Verify a decoded COSE_Sign1 (tagged or untagged) over `payload`.
+ * Never throws; failures are reported in the result.
+ *
+ * @param trustedRoots - Roots for x5chain validation; omit to check the signature only
+ * @param at - Time to validate certificates at (Unix seconds)
+ */
+export async function verifyCOSESign1(
+  cose: unknown,
+  payload: Uint8Array,
+  trustedRoots?: Array<string | Uint8Array>,
+  at = Math.floor(Date.now() / 1000)
+): Promise<COSEVerification> {
+  let parsed: COSESign1;
+  try {
+    parsed = parseCOSESign1(cose);
+  } catch (err) {
+    return { signatureValid: false, error: err instanceof Error ? err.message : String(err) };
+  }
+
+  const leaf = parsed.chain[0];
+  const result: COSEVerification = {
+    signatureValid: false,
+    algorithm: parsed.algorithm,
+    signer: leaf.subjectCommonName,
+  };
+  const oid = JWS_ALGORITHMS[parsed.algorithm];
+  if (!oid) return { ...result, error: `Unsupported COSE algorithm ${parsed.algorithm}` };
+
+  // Sig_structure for COSE_Sign1 with no external AAD
+  const toBeSigned = encodeCBOR(['Signature1', parsed.protectedHeader, new Uint8Array(0), payload]);
+  try {
+    result.signatureValid = await verifySignature(leaf, oid, toBeSigned, parsed.signature, true);
+    if (!result.signatureValid) result.error = 'COSE signature does not verify';
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : String(err);
+  }
+
+  if (trustedRoots) {
+    let roots: Certificate[];
+    try {
+      roots = trustedRoots.map(r => parseCertificate(r));
+    } catch (err) {
+      return { ...result, chainValid: false, error: `Malformed trusted root: ${err instanceof Error ? err.message : String(err)}` };
+    }
+    const chainResult = await verifyCertificateChain(parsed.chain, roots, at);
+    result.chainValid = chainResult.valid;
+    result.trustedRoot = chainResult.trustedRoot;
+    if (!chainResult.valid) result.error ??= chainResult.error;
+  }
+  return result;
+}
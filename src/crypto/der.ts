@@ -0,0 +1,167 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Minimal DER (ASN.1) reader
+ *
+ * Just enough ASN.1 to walk X.509 certificates: read a TLV, iterate the
+ * children of a constructed value, and decode OIDs, integers, strings and times.
+ */
+
+/** ASN.1 universal tag numbers used by this package. */
+export const TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+  PRINTABLE_STRING: 0x13,
+  IA5_STRING: 0x16,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+} as const;
+
+/**
+ * One decoded TLV element. `bytes` spans the whole element (tag through
+ * contents); `contents` spans only the value.
+ */
+export interface DerElement {
+  tag: number;
+  bytes: Uint8Array;
+  contents: Uint8Array;
+}
+
+/**
+ * Read a single DER element starting at `offset`.
+ */
+export function readElement(data: Uint8Array, offset = 0): DerElement {
+  if (offset + 2 > data.length) {
+    throw new Error('DER: unexpected end of data');
+  }
+  const tag = data[offset];
+  let length = data[offset + 1];
+  let header = 2;
+
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count === 0 || count > 4) {
+      throw new Error('DER: unsupported length encoding');
+    }
+    length = 0;
+    for (let i = 0; i < count; i++) {
+      length = length * 256 + data[offset + 2 + i];
+    }
+    header += count;
+  }
+
+  const end = offset + header + length;
+  if (end > data.length) {
+    throw new Error('DER: element length exceeds data');
+  }
+
+  return {
+    tag,
+    bytes: data.subarray(offset, end),
+    contents: data.subarray(offset + header, end),
+  };
+}
+
+/**
+ * Read all child elements of a constructed element (SEQUENCE, SET, context tag).
+ */
+export function readChildren(element: DerElement): DerElement[] {
+  const children: DerElement[] = [];
+  let offset = 0;
+  while (offset < element.contents.length) {
+    const child = readElement(element.contents, offset);
+    children.push(child);
+    offset += child.bytes.length;
+  }
+  return children;
+}
+
+/**
+ * Decode an OBJECT IDENTIFIER to dotted notation.
+ */
+export function decodeOID(element: DerElement): string {
+  const bytes = element.contents;
+  if (bytes.length === 0) throw new Error('DER: empty OID');
+
+  const parts: number[] = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let value = 0;
+  for (let i = 1; i < bytes.length; i++) {
+    value = value * 128 + (bytes[i] & 0x7f);
+    if (!(bytes[i] & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join('.');
+}
+
+/**
+ * Decode a string-valued element (UTF8String, PrintableString, IA5String, ...).
+ */
+export function decodeString(element: DerElement): string {
+  return new TextDecoder().decode(element.contents);
+}
+
+/**
+ * Decode a UTCTime or GeneralizedTime to Unix seconds.
+ */
+export function decodeTime(element: DerElement): number {
+  const text = decodeString(element);
+  let year: number;
+  let rest: string;
+
+  if (element.tag === TAG.UTC_TIME) {
+    const yy = parseInt(text.slice(0, 2), 10);
+    year = yy >= 50 ? 1900 + yy : 2000 + yy;
+    rest = text.slice(2);
+  } else if (element.tag === TAG.GENERALIZED_TIME) {
+    year = parseInt(text.slice(0, 4), 10);
+    rest = text.slice(4);
+  } else {
+    throw new Error(`DER: expected a time, got tag 0x${element.tag.toString(16)}`);
+  }
+
+  const field = (i: number) => parseInt(rest.slice(i, i + 2), 10) || 0;
+  return Math.floor(
+    Date.UTC(year, field(0) - 1, field(2), field(4), field(6), field(8)) / 1000
+  );
+}
+
+/**
+ * Return the payload of a BIT STRING, rejecting partial trailing bytes.
+ */
+export function decodeBitString(element: DerElement): Uint8Array {
+  if (element.contents[0] !== 0) {
+    throw new Error('DER: BIT STRING with unused bits is not supported');
+  }
+  return element.contents.subarray(1);
+}
+
+/**
+ * Return the unsigned big-endian magnitude of an INTEGER (leading zero stripped).
+ */
+export function decodeUnsignedInteger(element: DerElement): Uint8Array {
+  let bytes = element.contents;
+  while (bytes.length > 1 && bytes[0] === 0) {
+    bytes = bytes.subarray(1);
+  }
+  return bytes;
+}
+
+/**
+ * Compare two byte arrays for equality.
+ */
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
@@ -0,0 +1,8 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+export {
+  verifyDetachedSignature,
+  readDetachedSignatureInfo,
+  readPublicKeyInfo,
+  readSignatureCreationTime,
+} from './pgp';
@@ -0,0 +1,162 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * PGP detached signature verification
+ *
+ * ProofMode signs the metadata file and the media file with a device-local
+ * PGP key and ships the detached signatures alongside them in the bundle.
+ */
+
+import { createMessage, readKey, readSignature, verify } from 'openpgp';
+import type { PGPKeyInfo, PGPSignatureInfo, PGPSignatureResult } from '../types';
+
+const decoder = new TextDecoder();
+
+/**
+ * Read a detached signature that may be ASCII-armored or binary.
+ */
+async function readDetachedSignature(signature: Uint8Array) {
+  const text = decoder.decode(signature.subarray(0, 64));
+  if (text.trimStart().startsWith('-----BEGIN PGP SIGNATURE-----')) {
+    return readSignature({ armoredSignature: decoder.decode(signature) });
+  }
+  return readSignature({ binarySignature: signature });
+}
+
+/**
+ * Verify a PGP detached signature over `data` against an ASCII-armored public key.
+ *
+ * Never throws — malformed keys or signatures are reported via `error`.
+ */
+export async function verifyDetachedSignature(
+  target: PGPSignatureResult['target'],
+  data: Uint8Array,
+  signature: Uint8Array,
+  armoredKey: string
+): Promise<PGPSignatureResult> {
+  let keyFingerprint: string | undefined;
+  try {
+    const key = await readKey({ armoredKey });
+    keyFingerprint = key.getFingerprint().toUpperCase();
+
+    const sig = await readDetachedSignature(signature);
+    const message = await createMessage({ binary: data });
+    const { signatures } = await verify({
+      message,
+      signature: sig,
+      verificationKeys: key,
+      format: 'binary',
+    });
+
+    if (signatures.length === 0) {
+      return { target, valid: false, keyFingerprint, error: 'Signature contains no signature packets' };
+    }
+
+    const [result] = signatures;
+    const keyId = result.keyID.toHex().toUpperCase();
+    const created = (await result.signature).packets[0]?.created;
+    const signatureCreated = created ? Math.floor(created.getTime() / 1000) : undefined;
+
+    try {
+      await result.verified;
+      return { target, valid: true, keyFingerprint, keyId, signatureCreated };
+    } catch (err) {
+      return {
+        target,
+        valid: false,
+        keyFingerprint,
+        keyId,
+        signatureCreated,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  } catch (err) {
+    return {
+      target,
+      valid: false,
+      keyFingerprint,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Read a PGP detached signature for a stamp's `signatures`: its armored
+ * form, creation time and signer. The signer is the bundle key if it holds
+ * the issuing (sub)key, else the issuer fingerprint the signature records.
+ * Does not verify the signature.
+ *
+ * Returns undefined if the signature cannot be read or names no signer.
+ */
+export async function readDetachedSignatureInfo(
+  target: PGPSignatureInfo['target'],
+  signature: Uint8Array,
+  armoredKey?: string
+): Promise<PGPSignatureInfo | undefined> {
+  try {
+    const sig = await readDetachedSignature(signature);
+    const packet = sig.packets[0];
+    if (!packet?.created) return undefined;
+
+    let signerFingerprint: string | undefined;
+    if (armoredKey) {
+      try {
+        const key = await readKey({ armoredKey });
+        if (key.getKeys(packet.issuerKeyID).length > 0) {
+          signerFingerprint = key.getFingerprint().toUpperCase();
+        }
+      } catch {
+        // An unreadable key leaves the issuer fingerprint
+      }
+    }
+    if (!signerFingerprint && packet.issuerFingerprint) {
+      signerFingerprint = Buffer.from(packet.issuerFingerprint).toString('hex').toUpperCase();
+    }
+    if (!signerFingerprint) return undefined;
+
+    return {
+      target,
+      armored: sig.armor(),
+      signerFingerprint,
+      signatureCreated: Math.floor(packet.created.getTime() / 1000),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read an ASCII-armored public key's fingerprint, user IDs, creation and
+ * expiry times and revocation status. Returns undefined if it cannot be read.
+ */
+export async function readPublicKeyInfo(armoredKey: string): Promise<PGPKeyInfo | undefined> {
+  try {
+    const key = await readKey({ armoredKey });
+    const expiration = await key.getExpirationTime();
+    return {
+      fingerprint: key.getFingerprint().toUpperCase(),
+      keyId: key.getKeyID().toHex().toUpperCase(),
+      algorithm: key.getAlgorithmInfo().algorithm,
+      userIds: key.getUserIDs(),
+      created: Math.floor(key.getCreationTime().getTime() / 1000),
+      expires: expiration instanceof Date ? Math.floor(expiration.getTime() / 1000) : undefined,
+      revoked: await key.isRevoked(),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the creation time (Unix seconds) of a detached signature without
+ * verifying it — it is in the hashed area, so a verified signature vouches
+ * for it. Returns undefined if the signature cannot be read.
+ */
+export async function readSignatureCreationTime(signature: Uint8Array): Promise<number | undefined> {
+  try {
+    const created = (await readDetachedSignature(signature)).packets[0]?.created;
+    return created ? Math.floor(created.getTime() / 1000) : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,303 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * X.509 certificate parsing and chain verification
+ *
+ * Parses the fields needed to validate an attestation certificate chain and
+ * verifies signatures with WebCrypto, so it runs in Node and the browser.
+ */
+
+import {
+  TAG,
+  bytesEqual,
+  decodeBitString,
+  decodeOID,
+  decodeString,
+  decodeTime,
+  decodeUnsignedInteger,
+  readChildren,
+  readElement,
+  type DerElement,
+} from './der';
+
+const OID_COMMON_NAME = '2.5.4.3';
+const OID_SUBJECT_ALT_NAME = '2.5.29.17';
+const OID_BASIC_CONSTRAINTS = '2.5.29.19';
+const OID_RSA_ENCRYPTION = '1.2.840.113549.1.1.1';
+const OID_EC_PUBLIC_KEY = '1.2.840.10045.2.1';
+
+/** Signature algorithm OIDs mapped to WebCrypto parameters. */
+const SIGNATURE_ALGORITHMS: Record<string, { name: 'RSASSA-PKCS1-v1_5' | 'ECDSA'; hash: string }> = {
+  '1.2.840.113549.1.1.11': { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+  '1.2.840.113549.1.1.12': { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' },
+  '1.2.840.113549.1.1.13': { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' },
+  '1.2.840.10045.4.3.2': { name: 'ECDSA', hash: 'SHA-256' },
+  '1.2.840.10045.4.3.3': { name: 'ECDSA', hash: 'SHA-384' },
+};
+
+/** Named curve OIDs mapped to WebCrypto curve names and coordinate sizes. */
+const CURVES: Record<string, { name: string; size: number }> = {
+  '1.2.840.10045.3.1.7': { name: 'P-256', size: 32 },
+  '1.3.132.0.34': { name: 'P-384', size: 48 },
+};
+
+/** JWS `alg` values mapped to the equivalent X.509 signature algorithm OID. */
+export const JWS_ALGORITHMS: Record<string, string> = {
+  RS256: '1.2.840.113549.1.1.11',
+  RS384: '1.2.840.113549.1.1.12',
+  RS512: '1.2.840.113549.1.1.13',
+  ES256: '1.2.840.10045.4.3.2',
+  ES384: '1.2.840.10045.4.3.3',
+};
+
+/**
+ * The parts of an X.509 certificate needed for chain validation.
+ */
+export interface Certificate {
+  /** Full DER encoding */
+  der: Uint8Array;
+  /** DER encoding of the TBSCertificate (the signed portion) */
+  tbs: Uint8Array;
+  /** OID of the algorithm the issuer signed with */
+  signatureAlgorithm: string;
+  signature: Uint8Array;
+  /** DER encoding of the issuer Name */
+  issuer: Uint8Array;
+  /** DER encoding of the subject Name */
+  subject: Uint8Array;
+  subjectCommonName?: string;
+  /** Validity window (Unix seconds) */
+  notBefore: number;
+  notAfter: number;
+  /** DER encoding of the SubjectPublicKeyInfo */
+  spki: Uint8Array;
+  publicKeyAlgorithm: string;
+  /** Named curve OID for EC keys */
+  publicKeyCurve?: string;
+  /** dNSName entries from the subjectAltName extension */
+  dnsNames: string[];
+  /** basicConstraints cA flag */
+  isCA: boolean;
+  /** DER extension values (the OCTET STRING contents) by OID */
+  extensions: Record<string, Uint8Array>;
+}
+
+function subtle() {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('WebCrypto (globalThis.crypto.subtle) is not available in this runtime');
+  }
+  return globalThis.crypto.subtle;
+}
+
+/**
+ * Accept PEM text, bare base64 (as in a JWS `x5c` entry) or raw DER.
+ */
+function toDer(input: string | Uint8Array): Uint8Array {
+  if (input instanceof Uint8Array) return input;
+  const base64 = input
+    .replace(/-----(BEGIN|END) CERTIFICATE-----/g, '')
+    .replace(/\s+/g, '');
+  return new Uint8Array(Buffer.from(base64, 'base64'));
+}
+
+function findCommonName(name: DerElement): string | undefined {
+  for (const rdn of readChildren(name)) {
+    for (const attribute of readChildren(rdn)) {
+      const [type, value] = readChildren(attribute);
+      if (decodeOID(type) === OID_COMMON_NAME) {
+        return decodeString(value);
+      }
+    }
+  }
+  return undefined;
+}
+
+function parseExtensions(
+  container: DerElement,
+  cert: Pick<Certificate, 'dnsNames' | 'isCA' | 'extensions'>
+): void {
+  const [extensions] = readChildren(container);
+  for (const extension of readChildren(extensions)) {
+    const fields = readChildren(extension);
+    const id = decodeOID(fields[0]);
+    cert.extensions[id] = fields[fields.length - 1].contents;
+    const value = readElement(cert.extensions[id]);
+
+    if (id === OID_SUBJECT_ALT_NAME) {
+      for (const generalName of readChildren(value)) {
+        // dNSName is [2] IMPLICIT IA5String
+        if (generalName.tag === 0x82) {
+          cert.dnsNames.push(decodeString(generalName));
+        }
+      }
+    } else if (id === OID_BASIC_CONSTRAINTS) {
+      const [first] = readChildren(value);
+      cert.isCA = first?.tag === TAG.BOOLEAN && first.contents[0] !== 0;
+    }
+  }
+}
+
+/**
+ * Parse an X.509 certificate from PEM, base64 or DER.
+ */
+export function parseCertificate(input: string | Uint8Array): Certificate {
+  const der = toDer(input);
+  const root = readElement(der);
+  if (root.tag !== TAG.SEQUENCE) throw new Error('X.509: certificate is not a SEQUENCE');
+
+  const [tbsElement, algorithm, signatureValue] = readChildren(root);
+  const tbsFields = readChildren(tbsElement);
+
+  // Skip the optional [0] version field
+  let i = tbsFields[0].tag === 0xa0 ? 1 : 0;
+  i++; // serialNumber
+  i++; // signature (repeated in the outer algorithm)
+  const issuer = tbsFields[i++];
+  const [notBefore, notAfter] = readChildren(tbsFields[i++]);
+  const subject = tbsFields[i++];
+  const spki = tbsFields[i++];
+
+  const [keyAlgorithm] = readChildren(spki);
+  const [keyAlgorithmId, keyParams] = readChildren(keyAlgorithm);
+
+  const cert: Certificate = {
+    der: root.bytes,
+    tbs: tbsElement.bytes,
+    signatureAlgorithm: decodeOID(readChildren(algorithm)[0]),
+    signature: decodeBitString(signatureValue),
+    issuer: issuer.bytes,
+    subject: subject.bytes,
+    subjectCommonName: findCommonName(subject),
+    notBefore: decodeTime(notBefore),
+    notAfter: decodeTime(notAfter),
+    spki: spki.bytes,
+    publicKeyAlgorithm: decodeOID(keyAlgorithmId),
+    publicKeyCurve: keyParams?.tag === TAG.OID ? decodeOID(keyParams) : undefined,
+    dnsNames: [],
+    isCA: false,
+    extensions: {},
+  };
+
+  for (; i < tbsFields.length; i++) {
+    if (tbsFields[i].tag === 0xa3) {
+      parseExtensions(tbsFields[i], cert);
+    }
+  }
+
+  return cert;
+}
+
+/**
+ * Convert a DER ECDSA-Sig-Value into the raw r||s form WebCrypto expects.
+ */
+function ecdsaDerToRaw(signature: Uint8Array, size: number): Uint8Array {
+  const [r, s] = readChildren(readElement(signature)).map(decodeUnsignedInteger);
+  if (r.length > size || s.length > size) {
+    throw new Error('ECDSA signature component exceeds curve size');
+  }
+  const raw = new Uint8Array(size * 2);
+  raw.set(r, size - r.length);
+  raw.set(s, size * 2 - s.length);
+  return raw;
+}
+
+/**
+ * Verify a signature made by the key in `signer` using the given X.509
+ * signature algorithm OID. JWS callers pass raw r||s for ECDSA (`rawEcdsa`).
+ */
+export async function verifySignature(
+  signer: Certificate,
+  algorithmOid: string,
+  data: Uint8Array,
+  signature: Uint8Array,
+  rawEcdsa = false
+): Promise<boolean> {
+  const algorithm = SIGNATURE_ALGORITHMS[algorithmOid];
+  if (!algorithm) {
+    throw new Error(`Unsupported signature algorithm ${algorithmOid}`);
+  }
+
+  if (algorithm.name === 'RSASSA-PKCS1-v1_5') {
+    if (signer.publicKeyAlgorithm !== OID_RSA_ENCRYPTION) {
+      throw new Error('Signature algorithm does not match the signer key type');
+    }
+    const key = await subtle().importKey(
+      'spki', signer.spki, { name: algorithm.name, hash: algorithm.hash }, false, ['verify']
+    );
+    return subtle().verify(algorithm.name, key, signature, data);
+  }
+
+  const curve = signer.publicKeyCurve ? CURVES[signer.publicKeyCurve] : undefined;
+  if (signer.publicKeyAlgorithm !== OID_EC_PUBLIC_KEY || !curve) {
+    throw new Error('Signature algorithm does not match the signer key type');
+  }
+  const key = await subtle().importKey(
+    'spki', signer.spki, { name: 'ECDSA', namedCurve: curve.name }, false, ['verify']
+  );
+  const raw = rawEcdsa ? signature : ecdsaDerToRaw(signature, curve.size);
+  return subtle().verify({ name: 'ECDSA', hash: algorithm.hash }, key, raw, data);
+}
+
+/**
+ * Outcome of validating a certificate chain against trusted roots.
+ */
+export interface ChainValidationResult {
+  valid: boolean;
+  /** Subject CN of the trusted root the chain terminated at */
+  trustedRoot?: string;
+  error?: string;
+}
+
+/**
+ * Validate `chain` (leaf first) up to one of `roots` at time `at` (Unix seconds).
+ *
+ * Each certificate must be within its validity window and signed by the next;
+ * the last must either be a trusted root or be signed by one. Never throws.
+ */
+export async function verifyCertificateChain(
+  chain: Certificate[],
+  roots: Certificate[],
+  at: number
+): Promise<ChainValidationResult> {
+  try {
+    if (chain.length === 0) return { valid: false, error: 'Certificate chain is empty' };
+    if (roots.length === 0) return { valid: false, error: 'No trusted root certificates configured' };
+
+    for (let i = 0; i < chain.length; i++) {
+      const cert = chain[i];
+      if (at < cert.notBefore || at > cert.notAfter) {
+        const name = cert.subjectCommonName ?? 'unnamed';
+        return { valid: false, error: `Certificate ${i} (${name}) is not valid at ${at}` };
+      }
+      const issuer = chain[i + 1];
+      if (!issuer) break;
+      if (!bytesEqual(cert.issuer, issuer.subject)) {
+        return { valid: false, error: `Certificate ${i} is not issued by certificate ${i + 1}` };
+      }
+      if (!issuer.isCA) {
+        return { valid: false, error: `Certificate ${i + 1} is not a CA certificate` };
+      }
+      if (!(await verifySignature(issuer, cert.signatureAlgorithm, cert.tbs, cert.signature))) {
+        return { valid: false, error: `Certificate ${i} signature does not verify` };
+      }
+    }
+
+    const last = chain[chain.length - 1];
+    const pinned = roots.find(root => bytesEqual(root.der, last.der));
+    if (pinned) {
+      return { valid: true, trustedRoot: pinned.subjectCommonName };
+    }
+
+    for (const root of roots) {
+      if (!bytesEqual(last.issuer, root.subject)) continue;
+      if (at < root.notBefore || at > root.notAfter) continue;
+      if (await verifySignature(root, last.signatureAlgorithm, last.tbs, last.signature)) {
+        return { valid: true, trustedRoot: root.subjectCommonName };
+      }
+    }
+
+    return { valid: false, error: 'Certificate chain does not terminate at a trusted root' };
+  } catch (err) {
+    return { valid: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
@@ -0,0 +1,53 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Errors raised while reading untrusted ProofMode bundles
+ *
+ * All extend BundleError, so callers can tell a rejected upload apart from
+ * a bug with a single `instanceof` check.
+ */
+
+import type { BundleLimits } from './types';
+
+/**
+ * Base class for archives the parser refuses to read.
+ */
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The archive exceeds one of the configured BundleLimits.
+ */
+export class BundleTooLargeError extends BundleError {
+  constructor(
+    message: string,
+    /** The limit that was exceeded */
+    readonly limit: keyof BundleLimits,
+    /** The value that exceeded it */
+    readonly actual: number
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * An entry name that could escape an extraction directory, or that
+ * duplicates another entry.
+ */
+export class SuspiciousEntryError extends BundleError {
+  constructor(
+    message: string,
+    readonly entry: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * The archive is not a readable ZIP file.
+ */
+export class MalformedBundleError extends BundleError {}
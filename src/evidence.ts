@@ -0,0 +1,115 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Destructured and un-destructured stamp evidence
+ *
+ * A destructured stamp embeds the signed metadata bytes, detached signatures,
+ * public key, SafetyNet token and OTS proof as `Bundle.*` signals, so it can
+ * be re-verified after the ZIP is gone. An un-destructured stamp records the
+ * SHA-256 and size of the original archive, which is kept alongside it.
+ */
+
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import type { UnsignedLocationStamp } from '@decentralized-geo/astral-sdk/plugins';
+import type { CreateStampOptions, ParsedBundle } from './types';
+import { parseCSV, parseJSON, platformFromSignals } from './parse';
+
+const toBase64 = (data: Uint8Array) => Buffer.from(data).toString('base64');
+const fromBase64 = (data: string) => new Uint8Array(Buffer.from(data, 'base64'));
+
+/**
+ * Build the `Bundle.*` signals for the requested mode.
+ */
+export function evidenceSignals(
+  bundle: ParsedBundle,
+  options: CreateStampOptions
+): Record<string, unknown> {
+  if (options.mode === 'destructured') {
+    if (!bundle.signedMetadata || !bundle.metadataSignature) {
+      throw new Error('Destructured mode requires a signed metadata file in the bundle');
+    }
+    const signals: Record<string, unknown> = {
+      'Bundle.Mode': 'destructured',
+      'Bundle.Metadata': toBase64(bundle.signedMetadata),
+      'Bundle.MetadataFormat': bundle.metadata.format,
+      'Bundle.MetadataSignature': toBase64(bundle.metadataSignature),
+    };
+    if (bundle.mediaSignature) signals['Bundle.MediaSignature'] = toBase64(bundle.mediaSignature);
+    if (bundle.publicKey) signals['Bundle.PublicKey'] = bundle.publicKey;
+    if (bundle.otsProof) signals['Bundle.OTSProof'] = toBase64(bundle.otsProof);
+    return signals;
+  }
+
+  if (options.mode === 'undestructured') {
+    if (!options.archive) {
+      throw new Error('Un-destructured mode requires the original archive bytes');
+    }
+    return {
+      'Bundle.Mode': 'undestructured',
+      'Bundle.SHA256': bytesToHex(sha256(options.archive)),
+      'Bundle.Size': options.archive.length,
+    };
+  }
+
+  return {};
+}
+
+/**
+ * Rebuild a ParsedBundle from the evidence embedded in a destructured stamp,
+ * so verifyBundle can check it. The media file is not part of the evidence.
+ *
+ * @throws Error if the stamp is not destructured or its evidence is malformed.
+ */
+export function bundleFromStamp(stamp: UnsignedLocationStamp): ParsedBundle {
+  const s = stamp.signals ?? {};
+  if (s['Bundle.Mode'] !== 'destructured') {
+    throw new Error('Stamp does not carry destructured bundle evidence');
+  }
+
+  const metadataB64 = s['Bundle.Metadata'];
+  const signatureB64 = s['Bundle.MetadataSignature'];
+  if (typeof metadataB64 !== 'string' || typeof signatureB64 !== 'string') {
+    throw new Error('Stamp evidence is missing Bundle.Metadata or Bundle.MetadataSignature');
+  }
+
+  const signedMetadata = fromBase64(metadataB64);
+  const text = new TextDecoder().decode(signedMetadata);
+  const metadata = s['Bundle.MetadataFormat'] === 'json' ? parseJSON(text) : parseCSV(text);
+
+  const optionalBytes = (key: string) =>
+    typeof s[key] === 'string' ? fromBase64(s[key] as string) : undefined;
+
+  // Stamps made before the platform was recorded fall back to the metadata
+  const platform = s['Platform'] === 'ios' || s['Platform'] === 'android'
+    ? s['Platform']
+    : platformFromSignals(metadata.signals);
+
+  return {
+    metadata,
+    platform,
+    publicKey: typeof s['Bundle.PublicKey'] === 'string' ? s['Bundle.PublicKey'] : undefined,
+    metadataSignature: fromBase64(signatureB64),
+    signedMetadata,
+    mediaSignature: optionalBytes('Bundle.MediaSignature'),
+    safetyNetToken: typeof s['SafetyNet.JWT'] === 'string' ? s['SafetyNet.JWT'] : undefined,
+    appAttestation: optionalBytes('AppAttest.Attestation'),
+    deviceCheckToken: typeof s['DeviceCheck.Token'] === 'string' ? s['DeviceCheck.Token'] : undefined,
+    otsProof: optionalBytes('Bundle.OTSProof'),
+    expectedHash: typeof s['FileHash'] === 'string' ? s['FileHash'] : undefined,
+    mediaExcluded: true,
+    files: [],
+  };
+}
+
+/**
+ * Check that `archive` is the original bundle an un-destructured stamp was made from.
+ */
+export function archiveMatchesStamp(stamp: UnsignedLocationStamp, archive: Uint8Array): boolean {
+  const s = stamp.signals ?? {};
+  return (
+    s['Bundle.Mode'] === 'undestructured' &&
+    s['Bundle.Size'] === archive.length &&
+    s['Bundle.SHA256'] === bytesToHex(sha256(archive))
+  );
+}
@@ -0,0 +1,62 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Geodesic helpers
+ */
+
+/** Mean Earth radius in meters (IUGG). */
+export const EARTH_RADIUS_METERS = 6371008.8;
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two WGS84 points in meters (haversine).
+ */
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * The point `distance` meters from a WGS84 point along an initial
+ * `bearing` (degrees clockwise from north), on a spherical Earth.
+ * Returns [lat, lon].
+ */
+export function destinationPoint(
+  lat: number,
+  lon: number,
+  bearing: number,
+  distance: number
+): [number, number] {
+  const angular = distance / EARTH_RADIUS_METERS;
+  const theta = toRadians(bearing);
+  const phi1 = toRadians(lat);
+  const lambda1 = toRadians(lon);
+  const phi2 = Math.asin(
+    Math.sin(phi1) * Math.cos(angular) + Math.cos(phi1) * Math.sin(angular) * Math.cos(theta)
+  );
+  const lambda2 = lambda1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angular) * Math.cos(phi1),
+    Math.cos(angular) - Math.sin(phi1) * Math.sin(phi2)
+  );
+  const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+  // Normalize longitude to [-180, 180)
+  return [toDegrees(phi2), ((toDegrees(lambda2) + 540) % 360) - 180];
+}
+
+/**
+ * Initial great-circle bearing from the first WGS84 point to the second,
+ * in degrees clockwise from north, in [0, 360).
+ */
+export function initialBearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const dLon = toRadians(lon2 - lon1);
+  const y = Math.sin(dLon) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
@@ -0,0 +1,208 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Accuracy-aware stamp geometry
+ *
+ * A ProofMode fix is a position plus a horizontal accuracy, which Android
+ * and iOS both report as the radius of 68% confidence. A stamp can carry
+ * that circle as a GeoJSON polygon, or as an explicit `Location.Uncertainty`
+ * signal beside the point, so spatial scoring can tell a 3 m GPS fix from
+ * a 2 km network fix. Fixes without an accuracy get their provider's
+ * typical one. A circle that reaches the antimeridian is cut off there
+ * rather than wrapping around the globe.
+ */
+
+import type { LocationGeometryOptions, LocationUncertainty, ProofModeSignals } from './types';
+import { destinationPoint, haversineDistance } from './geo';
+
+const DEFAULT_VERTICES = 32;
+const DEFAULT_MIN_RADIUS_METERS = 5;
+
+/** Confidence of the platforms' reported horizontal accuracy. */
+const ACCURACY_CONFIDENCE = 0.68;
+
+/** Typical accuracy by Location.Provider, for fixes that report none (meters). */
+const PROVIDER_ACCURACY_METERS: Record<string, number> = {
+  gps: 50,
+  fused: 100,
+  network: 2000,
+  passive: 2000,
+};
+const UNKNOWN_PROVIDER_ACCURACY_METERS = 2000;
+
+/** Allowed difference between a polygon vertex's distance and the radius. */
+const VERTEX_TOLERANCE = 0.01;
+
+/**
+ * A stamp's `locationType` and `location`, and the uncertainty they encode.
+ */
+export interface StampLocation {
+  locationType: 'geojson-point' | 'geojson-polygon';
+  location: { type: 'Point'; coordinates: number[] } | { type: 'Polygon'; coordinates: number[][][] };
+  /** Absent for a bare point */
+  uncertainty?: LocationUncertainty;
+}
+
+/**
+ * The uncertainty circle of a fix: Location.Accuracy if reported, else the
+ * provider's typical accuracy, never below `minRadiusMeters`.
+ */
+export function locationUncertainty(
+  signals: ProofModeSignals,
+  lon: number,
+  lat: number,
+  minRadiusMeters = DEFAULT_MIN_RADIUS_METERS
+): LocationUncertainty {
+  const accuracy = signals['Location.Accuracy'];
+  const provider = typeof signals['Location.Provider'] === 'string'
+    ? signals['Location.Provider'].toLowerCase()
+    : undefined;
+  const reported = typeof accuracy === 'number' && Number.isFinite(accuracy) && accuracy > 0;
+  const radius = reported
+    ? accuracy
+    : PROVIDER_ACCURACY_METERS[provider ?? ''] ?? UNKNOWN_PROVIDER_ACCURACY_METERS;
+
+  return {
+    center: [lon, lat],
+    radiusMeters: Math.max(radius, minRadiusMeters),
+    confidence: ACCURACY_CONFIDENCE,
+    basis: reported ? 'accuracy' : 'provider',
+    provider,
+  };
+}
+
+/**
+ * A closed, counter-clockwise GeoJSON ring of `vertices` points at
+ * `radiusMeters` from `center` ([lon, lat]). Vertices beyond the
+ * antimeridian are clamped onto it, on the center's side, so the ring
+ * never spans the globe; the circle itself stays in the uncertainty.
+ */
+export function circlePolygon(
+  center: [number, number],
+  radiusMeters: number,
+  vertices = DEFAULT_VERTICES
+): number[][] {
+  const [lon, lat] = center;
+  const ring: number[][] = [];
+  for (let i = 0; i < vertices; i++) {
+    // Decreasing compass bearings run counter-clockwise, as RFC 7946 asks
+    const [vLat, vLon] = destinationPoint(lat, lon, 360 - (i * 360) / vertices, radiusMeters);
+    const unwrapped = vLon - lon > 180 ? vLon - 360 : vLon - lon < -180 ? vLon + 360 : vLon;
+    ring.push([Math.min(180, Math.max(-180, unwrapped)), vLat]);
+  }
+  ring.push(ring[0]);
+  return ring;
+}
+
+/** A GeoJSON position: finite [lon, lat] within range. */
+function isPosition(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length >= 2 &&
+    value.every(n => typeof n === 'number' && Number.isFinite(n)) &&
+    Math.abs(value[0]) <= 180 && Math.abs(value[1]) <= 90;
+}
+
+/** A GeoJSON Point, or a Polygon whose rings are all positions. */
+function isStampGeometry(location: { type?: string; coordinates?: unknown }): boolean {
+  const { type, coordinates } = location;
+  if (type === 'Point') return isPosition(coordinates);
+  if (type !== 'Polygon' || !Array.isArray(coordinates) || coordinates.length === 0) return false;
+  return coordinates.every(ring => Array.isArray(ring) && ring.every(isPosition));
+}
+
+/**
+ * Build a stamp's location from the fix and the geometry options.
+ * @throws Error for an unknown shape or a vertex count below 3
+ */
+export function stampLocation(
+  signals: ProofModeSignals,
+  lon: number,
+  lat: number,
+  options: LocationGeometryOptions = {}
+): StampLocation {
+  const shape = options.shape ?? 'point';
+  const point: StampLocation = {
+    locationType: 'geojson-point',
+    location: { type: 'Point', coordinates: [lon, lat] }, // GeoJSON: [lon, lat]
+  };
+  if (shape === 'point') return point;
+
+  const uncertainty = locationUncertainty(signals, lon, lat, options.minRadiusMeters);
+  if (shape === 'point-uncertainty') return { ...point, uncertainty };
+
+  if (shape === 'circle') {
+    const vertices = options.vertices ?? DEFAULT_VERTICES;
+    if (!Number.isInteger(vertices) || vertices < 3) {
+      throw new Error(`Circle geometry needs an integer vertex count of at least 3, got ${vertices}`);
+    }
+    return {
+      locationType: 'geojson-polygon',
+      location: {
+        type: 'Polygon',
+        coordinates: [circlePolygon(uncertainty.center, uncertainty.radiusMeters, vertices)],
+      },
+      uncertainty,
+    };
+  }
+  throw new Error(`Unknown location shape '${String(shape)}'`);
+}
+
+/**
+ * Recover the fix ([lon, lat]) a stamp's location represents, checking that
+ * a circle polygon is the one its `Location.Uncertainty` describes and that
+ * no radius is narrower than the reported accuracy. `malformed` is set when
+ * the location is not a GeoJSON Point or Polygon with valid positions.
+ * Never throws.
+ */
+export function checkStampLocation(
+  location: { type?: string; coordinates?: unknown } | null | undefined,
+  signals: Record<string, unknown>
+): { center?: [number, number]; error?: string; malformed?: boolean } {
+  const uncertainty = signals['Location.Uncertainty'] as Partial<LocationUncertainty> | undefined;
+  const accuracy = signals['Location.Accuracy'];
+
+  if (location != null && !isStampGeometry(location)) {
+    return {
+      error: `Stamp location is not a valid GeoJSON Point or Polygon (type ${String(location.type)})`,
+      malformed: true,
+    };
+  }
+
+  if (uncertainty !== undefined) {
+    const { center, radiusMeters } = uncertainty;
+    if (!isPosition(center) || typeof radiusMeters !== 'number' || !(radiusMeters > 0)) {
+      return { error: 'Location.Uncertainty has no center or radius' };
+    }
+    if (typeof accuracy === 'number' && radiusMeters < accuracy) {
+      return { error: `Uncertainty radius ${radiusMeters}m is narrower than the reported ${accuracy}m accuracy` };
+    }
+  }
+
+  if (location?.type === 'Point') {
+    const [lon, lat] = location.coordinates as number[];
+    if (uncertainty?.center && (uncertainty.center[0] !== lon || uncertainty.center[1] !== lat)) {
+      return { error: 'Location.Uncertainty is not centered on the stamp location' };
+    }
+    return { center: [lon, lat] };
+  }
+
+  if (location?.type === 'Polygon') {
+    if (!uncertainty) return { error: 'Polygon location has no Location.Uncertainty' };
+    const [lon, lat] = uncertainty.center!;
+    const ring = (location.coordinates as number[][][])[0] ?? [];
+    const radius = uncertainty.radiusMeters!;
+    const tolerance = Math.max(1, radius * VERTEX_TOLERANCE);
+    // Vertices clamped onto the antimeridian lie inside the circle
+    const off = ring.find(([vLon, vLat]) => {
+      const distance = haversineDistance(lat, lon, vLat, vLon);
+      return Math.abs(vLon) === 180
+        ? distance > radius + tolerance
+        : Math.abs(distance - radius) > tolerance;
+    });
+    if (ring.length < 4 || off) {
+      return { error: 'Polygon location is not the circle its Location.Uncertainty describes' };
+    }
+    return { center: [lon, lat] };
+  }
+
+  return {};
+}
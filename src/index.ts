@@ -9,7 +9,8 @@
  * - Un-destructured: Preserve full original bundle for forensic integrity
  *
  * The plugin implements verify and create. It does NOT implement
- * collect or sign because ProofMode handles those internally on the device.
+ * collect or sign because ProofMode handles those internally on the device;
+ * create() carries the device's PGP signatures into the stamp instead.
  *
  * Evaluation (spatial/temporal scoring) is handled by the SDK's ProofsModule.verify().
  */
@@ -18,15 +19,32 @@ import type {
   LocationProofPlugin,
   Runtime,
   RawSignals,
-  UnsignedLocationStamp,
   LocationStamp,
   StampVerificationResult,
 } from '@decentralized-geo/astral-sdk/plugins';
 
-import { parseBundle } from './parse';
-import { createStampFromBundle } from './create';
+import { parseBundle, parseBundleItems, parseBundleStream } from './parse';
+import type { BundleSource, StreamParseOptions } from './parse';
+import { createLocationStampFromBundle, createStampFromBundle } from './create';
 import { verifyProofModeStamp } from './verify';
-import type { ParsedBundle } from './types';
+import { verifyBundle } from './verify-bundle';
+import { resolvePolicy } from './policy';
+import { checkTrajectory } from './trajectory';
+import type { TrajectoryItem } from './trajectory';
+import type {
+  BundleVerificationResult,
+  CreateStampOptions,
+  ParsedBundle,
+  ProofModePluginOptions,
+  StampMode,
+  TrajectoryResult,
+} from './types';
+
+function stampMode(signals: RawSignals): StampMode | undefined {
+  const mode = signals.data?.mode;
+  if (mode === undefined || mode === 'destructured' || mode === 'undestructured') return mode;
+  throw new Error(`Unknown ProofMode stamp mode '${String(mode)}'`);
+}
 
 export class ProofModePlugin implements LocationProofPlugin {
   readonly name = 'proofmode';
@@ -36,13 +54,38 @@ export class ProofModePlugin implements LocationProofPlugin {
   readonly description =
     'ProofMode device-based location proofs with PGP signatures and hardware attestation';
 
+  private readonly options: ProofModePluginOptions;
+
   /**
-   * Create an UnsignedLocationStamp from raw signals.
+   * @param options - Verification trust settings: SafetyNet trusted roots, Play
+   *   Integrity keys, Apple's App Attest root and a Bitcoin block header source. Without them, device
+   *   attestations are decoded (where not encrypted) but not verified and
+   *   OTS proofs are not checked. `limits` overrides the archive limits
+   *   applied to every parsed bundle, `geometry` the location shape of
+   *   stamps from create(), `keyRegistry` the pinned and previously seen
+   *   device keys, and `policy` sets the strictness of verify() (a preset
+   *   name or overrides).
+   * @throws Error for an unknown policy preset
+   */
+  constructor(options: ProofModePluginOptions = {}) {
+    this.options = { ...options, policy: resolvePolicy(options.policy) };
+  }
+
+  /**
+   * Create a LocationStamp from raw signals, signed with the device's
+   * detached PGP signatures from the bundle.
    *
    * Expects signals.data.zipData to be a Uint8Array containing
    * a ProofMode proof bundle ZIP exported from the mobile app.
+   * Set signals.data.mode to 'destructured' or 'undestructured' to
+   * choose the verification path the stamp is prepared for. The bundle is
+   * verified first, so verified signature times and, with a block header
+   * source, the OTS block time join the temporal footprint. Only verified
+   * signatures are attached.
+   *
+   * @throws Error if the bundle's metadata signature does not verify
    */
-  async create(signals: RawSignals): Promise<UnsignedLocationStamp> {
+  async create(signals: RawSignals): Promise<LocationStamp> {
     const zipData = signals.data?.zipData;
     if (!(zipData instanceof Uint8Array)) {
       throw new Error(
@@ -50,7 +93,59 @@ export class ProofModePlugin implements LocationProofPlugin {
       );
     }
     const bundle = this.parseBundle(zipData);
-    return this.createStampFromBundle(bundle);
+    const verification = await this.verifyForStamp(bundle);
+    const [metadataSignature] = verification.signatures;
+    if (!metadataSignature.valid) {
+      throw new Error(
+        `ProofModePlugin.create() requires a bundle whose metadata signature verifies: ${metadataSignature.error}`
+      );
+    }
+    return createLocationStampFromBundle(bundle, this.version, {
+      mode: stampMode(signals),
+      archive: zipData,
+      geometry: this.options.geometry,
+      timeFallback: this.options.timeFallback,
+      verification,
+    });
+  }
+
+  /**
+   * Create one LocationStamp per media item in a ProofMode bundle.
+   *
+   * Takes the same signals as create(), but accepts batch exports that
+   * hold several photos/videos, each with its own proof files. An item
+   * whose signatures do not verify gets a stamp without them, which
+   * verifyProofModeStamp fails.
+   */
+  async createAll(signals: RawSignals): Promise<LocationStamp[]> {
+    const zipData = signals.data?.zipData;
+    if (!(zipData instanceof Uint8Array)) {
+      throw new Error(
+        'ProofModePlugin.createAll() requires signals.data.zipData as Uint8Array'
+      );
+    }
+    const options: CreateStampOptions = {
+      mode: stampMode(signals),
+      archive: zipData,
+      geometry: this.options.geometry,
+      timeFallback: this.options.timeFallback,
+    };
+    return Promise.all(
+      this.parseBundleItems(zipData).map(async bundle =>
+        createLocationStampFromBundle(bundle, this.version, {
+          ...options,
+          verification: await this.verifyForStamp(bundle),
+        })
+      )
+    );
+  }
+
+  /**
+   * Verify a bundle for the times its stamp may rely on. Keys are not
+   * recorded in the registry: creating a stamp is not a sighting.
+   */
+  private verifyForStamp(bundle: ParsedBundle): Promise<BundleVerificationResult> {
+    return verifyBundle(bundle, { ...this.options, keyRegistry: undefined });
   }
 
   /**
@@ -60,28 +155,183 @@ export class ProofModePlugin implements LocationProofPlugin {
    * Use it when you have a raw proof bundle ZIP to process.
    */
   parseBundle(zipData: Uint8Array): ParsedBundle {
-    return parseBundle(zipData);
+    return parseBundle(zipData, this.options.limits);
+  }
+
+  /**
+   * Parse every media item in a ProofMode proof bundle ZIP.
+   *
+   * This is a convenience method — not part of the standard plugin interface.
+   */
+  parseBundleItems(zipData: Uint8Array): ParsedBundle[] {
+    return parseBundleItems(zipData, this.options.limits);
+  }
+
+  /**
+   * Parse a ProofMode proof bundle ZIP from a stream with bounded memory.
+   *
+   * This is a convenience method — not part of the standard plugin interface.
+   * Use it for large video bundles: media is hashed while streaming and,
+   * unless `options.keepMedia` is set, its bytes are dropped.
+   */
+  parseBundleStream(source: BundleSource, options?: StreamParseOptions): Promise<ParsedBundle[]> {
+    return parseBundleStream(source, { limits: this.options.limits, ...options });
   }
 
   /**
    * Create an UnsignedLocationStamp from a parsed ProofMode bundle.
    *
    * This is a convenience method for working with parsed bundles directly.
+   * Un-destructured mode needs the original ZIP in `options.archive`.
    */
-  createStampFromBundle(bundle: ParsedBundle) {
-    return createStampFromBundle(bundle, this.version);
+  createStampFromBundle(bundle: ParsedBundle, options?: CreateStampOptions) {
+    return createStampFromBundle(bundle, this.version, options);
   }
 
   /**
    * Verify a ProofMode stamp's internal validity.
    */
   async verify(stamp: LocationStamp): Promise<StampVerificationResult> {
-    return verifyProofModeStamp(stamp);
+    return verifyProofModeStamp(stamp, this.options);
+  }
+
+  /**
+   * Verify media integrity, PGP signatures, SafetyNet or App Attest
+   * attestation, OpenTimestamps proof and any C2PA manifest in a parsed ProofMode bundle.
+   *
+   * This is a convenience method — not part of the standard plugin interface.
+   * It needs the original bundle, so use it before discarding the ZIP.
+   */
+  async verifyBundle(bundle: ParsedBundle): Promise<BundleVerificationResult> {
+    return verifyBundle(bundle, this.options);
+  }
+
+  /**
+   * Check one device's stamps or parsed bundles, in capture order, as a
+   * trajectory: implied speed, reported speed and bearing, time order and
+   * replayed fixes between consecutive items, under the plugin's policy.
+   *
+   * This is a convenience method — not part of the standard plugin interface.
+   */
+  checkTrajectory(items: TrajectoryItem[]): TrajectoryResult {
+    return checkTrajectory(items, this.options);
   }
 }
 
 // Re-export types and utilities for direct use
-export type { ParsedBundle, ProofModeSignals, ProofModeMetadata, SafetyNetResult } from './types';
-export { parseBundle } from './parse';
-export { createStampFromBundle } from './create';
-export { verifyProofModeStamp, parseSafetyNetJWT } from './verify';
+export type {
+  ParsedBundle,
+  ProofModeSignals,
+  ProofModeMetadata,
+  CSVLayout,
+  CellObservation,
+  WiFiAccessPoint,
+  LocationSample,
+  CellTower,
+  CellTowerSource,
+  CellTowerCheck,
+  AccessPointLocation,
+  AccessPointSource,
+  WiFiCheck,
+  IPAddressClass,
+  IPGeoRecord,
+  IPGeoSource,
+  IPGeoCheck,
+  GeoRegion,
+  ReverseGeocoder,
+  SafetyNetResult,
+  SafetyNetVerification,
+  SafetyNetVerificationOptions,
+  AttestationFormat,
+  PlayIntegrityKeys,
+  DevicePlatform,
+  AppAttestResult,
+  AppAttestVerification,
+  AppAttestVerificationOptions,
+  VerificationOptions,
+  ProofModePluginOptions,
+  BundleLimits,
+  CheckCode,
+  CheckCategory,
+  CheckSeverity,
+  VerificationCheck,
+  VerificationPolicy,
+  PolicyPreset,
+  PolicyOverrides,
+  LocationShape,
+  LocationGeometryOptions,
+  LocationUncertainty,
+  PGPSignatureResult,
+  PGPSignatureInfo,
+  PGPKeyInfo,
+  KeyRecord,
+  KeyRegistry,
+  KeyContinuityStatus,
+  KeyContinuityCheck,
+  TrajectoryFix,
+  TrajectoryPair,
+  TrajectoryResult,
+  BundleVerificationResult,
+  MediaIntegrityCheck,
+  MediaIntegrityResult,
+  MediaFormat,
+  MediaMetadata,
+  MediaMetadataCheck,
+  MediaMetadataResult,
+  C2PAVerificationOptions,
+  C2PAAssertion,
+  C2PAManifest,
+  C2PAVerificationResult,
+  BlockHeaderSource,
+  OTSProof,
+  OTSAttestation,
+  OTSAttestationResult,
+  OTSVerificationResult,
+  OTSStatus,
+  StampMode,
+  CreateStampOptions,
+  TimeSource,
+  TimeEvidence,
+} from './types';
+export {
+  parseBundle,
+  parseBundleItems,
+  parseBundleStream,
+  parseCellInfo,
+  extractMediaMetadata,
+  DEFAULT_BUNDLE_LIMITS,
+} from './parse';
+export type { BundleSource, StreamParseOptions } from './parse';
+export {
+  BundleError,
+  BundleTooLargeError,
+  SuspiciousEntryError,
+  MalformedBundleError,
+} from './errors';
+export { createStampFromBundle, createLocationStampFromBundle, stampSignatures } from './create';
+export { stampLocation, locationUncertainty, circlePolygon } from './geometry';
+export { temporalFootprint, epochSeconds, parseDateTime, fixTime } from './temporal';
+export { bundleFromStamp, archiveMatchesStamp } from './evidence';
+export { verifyProofModeStamp } from './verify';
+export { parseSafetyNetJWT, verifySafetyNetJWT, verifyAttestationToken } from './safetynet';
+export { verifyPlayIntegrityToken } from './playintegrity';
+export { parseAppAttestation, verifyAppAttestation } from './appattest';
+export { verifyBundle } from './verify-bundle';
+export { POLICY_PRESETS, resolvePolicy } from './policy';
+export { MemoryCellTowerDatabase, checkServingCell } from './celltowers';
+export {
+  MemoryAccessPointDatabase,
+  checkAccessPoints,
+  normalizeMac,
+  isLocallyAdministered,
+} from './wifi';
+export { MemoryIPGeoDatabase, checkIPGeolocation, classifyIP } from './ip';
+export { MemoryKeyRegistry, JSONFileKeyRegistry, checkKeyContinuity, normalizeFingerprint } from './keys';
+export { checkTrajectory } from './trajectory';
+export type { TrajectoryItem } from './trajectory';
+export { MMDBReader } from './mmdb';
+export type { MMDBMetadata } from './mmdb';
+export { checkMediaIntegrity } from './integrity';
+export { checkMediaMetadata } from './media-metadata';
+export { readC2PAManifest, verifyC2PA } from './c2pa';
+export { parseOTSProof, verifyOTSProof, MemoryBlockHeaderSource } from './ots';
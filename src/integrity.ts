@@ -0,0 +1,65 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Media file integrity
+ *
+ * ProofMode names its sidecar files after the media SHA-256 and records
+ * FileHash and File.Size in the metadata. Recomputing them is the cheapest
+ * tamper check a bundle offers.
+ */
+
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import type { MediaIntegrityCheck, MediaIntegrityResult, ParsedBundle } from './types';
+
+/**
+ * Hash the bundle's media file and compare it with the filename hash,
+ * the metadata FileHash and File.Size. Uses the hash recorded at parse time
+ * when the media bytes were discarded (parseBundleStream). A bundle that
+ * declares a hash or size but carries no media fails with `MEDIA_MISSING`;
+ * returns undefined if it declares nothing to check or the media was
+ * excluded from a destructured stamp's evidence.
+ */
+export function checkMediaIntegrity(bundle: ParsedBundle): MediaIntegrityResult | undefined {
+  if (bundle.mediaExcluded) return undefined;
+  const actualHash = bundle.mediaFile
+    ? bytesToHex(sha256(bundle.mediaFile))
+    : bundle.mediaSha256;
+  const size = bundle.mediaFile?.length ?? bundle.mediaSize;
+  const checks: MediaIntegrityCheck[] = [];
+
+  const compareHash = (source: MediaIntegrityCheck['source'], expected: unknown) => {
+    if (typeof expected !== 'string' || !expected) return;
+    checks.push({
+      source,
+      expected,
+      actual: actualHash,
+      matches: expected.toLowerCase() === actualHash,
+    });
+  };
+
+  compareHash('filename', bundle.expectedHash);
+  compareHash('FileHash', bundle.metadata.fileHash ?? bundle.metadata.signals['FileHash']);
+
+  const declaredSize = bundle.metadata.signals['File.Size'];
+  if (typeof declaredSize === 'number') {
+    checks.push({
+      source: 'File.Size',
+      expected: declaredSize,
+      actual: size,
+      matches: declaredSize === size,
+    });
+  }
+
+  if (actualHash === undefined || size === undefined) {
+    if (checks.length === 0) return undefined;
+    return { valid: false, error: 'MEDIA_MISSING', checks };
+  }
+
+  return {
+    valid: checks.every(c => c.matches),
+    sha256: actualHash,
+    size,
+    checks,
+  };
+}
@@ -0,0 +1,376 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Offline IP geolocation cross-check
+ *
+ * Resolves the public `IPv4` / `IPv6` addresses in the signals against a
+ * caller-supplied IPGeoSource — an MMDB file read with MMDBReader, or a CSV
+ * of address ranges loaded with MemoryIPGeoDatabase.fromCSV() — and compares
+ * the result with the GPS fix. Nothing is fetched.
+ *
+ * Private, loopback, link-local, shared (CGNAT) and reserved addresses say
+ * nothing about where the device is, so they are classified and skipped.
+ * Country and region are compared when a ReverseGeocoder places the fix;
+ * distance is compared when the database has coordinates, except on mobile
+ * networks, whose carrier gateways are often far from the device.
+ */
+
+import type {
+  GeoRegion,
+  IPAddressClass,
+  IPGeoCheck,
+  IPGeoRecord,
+  IPGeoSource,
+  ProofModeSignals,
+  ReverseGeocoder,
+} from './types';
+import { readCSVRecords } from './parse/csv';
+import { haversineDistance } from './geo';
+
+/** Assumed accuracy radius for GeoIP records without one, in meters. */
+const DEFAULT_IP_RADIUS = 100_000;
+
+/** IPv4 addresses are held as IPv4-mapped IPv6 (`::ffff:a.b.c.d`). */
+const IPV4_MAPPED = 0xffff00000000n;
+
+/**
+ * A parsed IP address.
+ */
+export interface IPAddress {
+  version: 4 | 6;
+  /** 128-bit value; IPv4 is IPv4-mapped */
+  value: bigint;
+}
+
+/** Special-purpose IPv4 blocks (RFC 6890), most specific first where they overlap. */
+const IPV4_BLOCKS: Array<[string, number, IPAddressClass]> = [
+  ['0.0.0.0', 8, 'reserved'],
+  ['10.0.0.0', 8, 'private'],
+  ['100.64.0.0', 10, 'shared'],
+  ['127.0.0.0', 8, 'loopback'],
+  ['169.254.0.0', 16, 'link-local'],
+  ['172.16.0.0', 12, 'private'],
+  ['192.0.0.0', 24, 'reserved'],
+  ['192.0.2.0', 24, 'reserved'],
+  ['192.168.0.0', 16, 'private'],
+  ['198.18.0.0', 15, 'reserved'],
+  ['198.51.100.0', 24, 'reserved'],
+  ['203.0.113.0', 24, 'reserved'],
+  ['224.0.0.0', 4, 'multicast'],
+  ['240.0.0.0', 4, 'reserved'],
+];
+
+/** Special-purpose IPv6 blocks; IPv4-mapped addresses use the IPv4 table. */
+const IPV6_BLOCKS: Array<[string, number, IPAddressClass]> = [
+  ['::', 128, 'reserved'],
+  ['::1', 128, 'loopback'],
+  ['2001:db8::', 32, 'reserved'],
+  ['fc00::', 7, 'private'],
+  ['fe80::', 10, 'link-local'],
+  ['ff00::', 8, 'multicast'],
+];
+
+/** Accepted column names, lowercase, for each column of a range CSV. */
+const COLUMNS = {
+  start: ['start', 'start_ip', 'ip_start', 'ip_from', 'range_start', 'first'],
+  end: ['end', 'end_ip', 'ip_end', 'ip_to', 'range_end', 'last'],
+  network: ['network', 'cidr', 'prefix'],
+  country: ['country', 'country_code', 'country_iso_code', 'cc'],
+  region: ['region', 'region_code', 'subdivision', 'subdivision_1_iso_code', 'stateprov'],
+  latitude: ['lat', 'latitude'],
+  longitude: ['lon', 'lng', 'longitude'],
+  radius: ['accuracy_radius', 'radius'],
+};
+
+function parseIPv4(text: string): bigint | undefined {
+  const parts = text.split('.');
+  if (parts.length !== 4 || !parts.every(p => /^\d{1,3}$/.test(p) && Number(p) <= 255)) {
+    return undefined;
+  }
+  return parts.reduce((acc, p) => (acc << 8n) | BigInt(p), 0n);
+}
+
+function parseIPv6(text: string): bigint | undefined {
+  const halves = text.split('::');
+  if (halves.length > 2) return undefined;
+
+  const groups = (half: string): number[] | undefined => {
+    if (half === '') return [];
+    const out: number[] = [];
+    for (const [i, part] of half.split(':').entries()) {
+      // A dotted IPv4 tail stands for the last two groups
+      if (part.includes('.') && i === half.split(':').length - 1) {
+        const v4 = parseIPv4(part);
+        if (v4 === undefined) return undefined;
+        out.push(Number(v4 >> 16n), Number(v4 & 0xffffn));
+      } else if (/^[0-9a-f]{1,4}$/i.test(part)) {
+        out.push(parseInt(part, 16));
+      } else {
+        return undefined;
+      }
+    }
+    return out;
+  };
+
+  const head = groups(halves[0]);
+  const tail = halves.length === 2 ? groups(halves[1]) : [];
+  if (!head || !tail) return undefined;
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return undefined;
+
+  return [...head, ...new Array<number>(missing).fill(0), ...tail]
+    .reduce((acc, g) => (acc << 16n) | BigInt(g), 0n);
+}
+
+/**
+ * Parse an IPv4 or IPv6 address. Brackets and an IPv6 zone (`%wlan0`) are
+ * ignored; IPv4-mapped IPv6 addresses are treated as IPv4.
+ */
+export function parseIP(text: string): IPAddress | undefined {
+  const ip = text.trim().replace(/^\[(.*)\]$/, '$1').replace(/%.*$/, '');
+  const v4 = parseIPv4(ip);
+  if (v4 !== undefined) return { version: 4, value: IPV4_MAPPED | v4 };
+
+  const v6 = parseIPv6(ip);
+  if (v6 === undefined) return undefined;
+  return { version: v6 >> 32n === 0xffffn ? 4 : 6, value: v6 };
+}
+
+/** First and last address of a block, as 128-bit values. */
+function blockRange(address: IPAddress, prefix: number): [bigint, bigint] {
+  const bits = BigInt((address.version === 4 ? 32 : 128) - prefix);
+  const hostMask = (1n << bits) - 1n;
+  return [address.value & ~hostMask, address.value | hostMask];
+}
+
+/** Parse `a.b.c.d/n` or `x::/n` into its first and last address. */
+function parseCIDR(text: string): [bigint, bigint] | undefined {
+  const [ip, prefixText] = text.trim().split('/');
+  const address = parseIP(ip);
+  const prefix = Number(prefixText ?? (address?.version === 4 ? 32 : 128));
+  if (!address || !Number.isInteger(prefix) || prefix < 0) return undefined;
+  // Mapped IPv4 written in IPv6 notation counts its prefix over 128 bits
+  const width = address.version === 4 && !ip.includes(':') ? 32 : 128;
+  if (prefix > width) return undefined;
+  return blockRange({ version: width === 32 ? 4 : 6, value: address.value }, prefix);
+}
+
+/**
+ * Parse a range bound: an address, or an integer as used by IP2Location
+ * (below 2^32 it is an IPv4 address).
+ */
+function parseBound(text: string): bigint | undefined {
+  const trimmed = text.trim();
+  if (/^\d+$/.test(trimmed)) {
+    const value = BigInt(trimmed);
+    return value <= 0xffffffffn ? IPV4_MAPPED | value : value;
+  }
+  return parseIP(trimmed)?.value;
+}
+
+function inBlocks(address: IPAddress, blocks: Array<[string, number, IPAddressClass]>): IPAddressClass | undefined {
+  for (const [network, prefix, addressClass] of blocks) {
+    const [first, last] = blockRange(parseIP(network)!, prefix);
+    if (address.value >= first && address.value <= last) return addressClass;
+  }
+  return undefined;
+}
+
+/**
+ * Classify an IP address. Only 'public' addresses carry location evidence.
+ */
+export function classifyIP(ip: string): IPAddressClass {
+  const address = parseIP(ip);
+  if (!address) return 'invalid';
+  const blocks = address.version === 4 ? IPV4_BLOCKS : IPV6_BLOCKS;
+  return inBlocks(address, blocks) ?? 'public';
+}
+
+/**
+ * Normalize a region code to its ISO 3166-2 suffix: `US-NY` → `NY`.
+ */
+function normalizeRegion(region: string | undefined, country: string | undefined): string | undefined {
+  const code = region?.trim().toUpperCase();
+  if (!code) return undefined;
+  return country && code.startsWith(`${country}-`) ? code.slice(country.length + 1) : code;
+}
+
+interface IPRange {
+  start: bigint;
+  end: bigint;
+  record: IPGeoRecord;
+}
+
+/**
+ * In-memory IPGeoSource over address ranges.
+ */
+export class MemoryIPGeoDatabase implements IPGeoSource {
+  private ranges: IPRange[] = [];
+  private sorted = true;
+
+  /**
+   * Load a CSV with a header row naming either a `network` (CIDR) column
+   * or `start` and `end` columns, plus a `country` column or `latitude`
+   * and `longitude` columns. `region` and `accuracy_radius` (kilometers,
+   * as in MaxMind's CSV) are optional. DB-IP and IP2Location column names
+   * also work. Rows that do not parse are skipped.
+   */
+  static fromCSV(text: string): MemoryIPGeoDatabase {
+    const db = new MemoryIPGeoDatabase();
+    const [header, ...records] = readCSVRecords(text);
+    if (!header) return db;
+
+    const names = header.map(h => h.trim().toLowerCase());
+    const col = Object.fromEntries(
+      Object.entries(COLUMNS).map(([field, aliases]) => [field, names.findIndex(n => aliases.includes(n))])
+    ) as Record<keyof typeof COLUMNS, number>;
+    const hasRange = col.network >= 0 || (col.start >= 0 && col.end >= 0);
+    const hasPlace = col.country >= 0 || (col.latitude >= 0 && col.longitude >= 0);
+    if (!hasRange || !hasPlace) {
+      throw new Error('IP geolocation CSV needs network or start and end columns, and country or coordinates');
+    }
+
+    const cell = (record: string[], index: number) => (index >= 0 ? record[index]?.trim() : undefined);
+    const number = (record: string[], index: number) => {
+      const value = parseFloat(cell(record, index) ?? '');
+      return Number.isFinite(value) ? value : undefined;
+    };
+
+    for (const record of records) {
+      const network = cell(record, col.network);
+      const range = network
+        ? parseCIDR(network)
+        : [parseBound(cell(record, col.start) ?? ''), parseBound(cell(record, col.end) ?? '')];
+      if (!range || range[0] === undefined || range[1] === undefined) continue;
+
+      const radius = number(record, col.radius);
+      db.addRange(range[0], range[1], {
+        country: cell(record, col.country) || undefined,
+        region: cell(record, col.region) || undefined,
+        latitude: number(record, col.latitude),
+        longitude: number(record, col.longitude),
+        accuracyRadius: radius !== undefined ? radius * 1000 : undefined,
+      });
+    }
+    return db;
+  }
+
+  /**
+   * Add the addresses from `start` to `end` inclusive, or a CIDR block
+   * when `end` is omitted.
+   */
+  add(start: string, end: string | undefined, record: IPGeoRecord): void {
+    const range = end === undefined
+      ? parseCIDR(start)
+      : [parseBound(start), parseBound(end)];
+    if (!range || range[0] === undefined || range[1] === undefined) {
+      throw new Error(`Invalid IP range '${end === undefined ? start : `${start}-${end}`}'`);
+    }
+    this.addRange(range[0], range[1], record);
+  }
+
+  private addRange(start: bigint, end: bigint, record: IPGeoRecord): void {
+    if (end < start) return;
+    const country = record.country?.trim().toUpperCase() || undefined;
+    this.ranges.push({
+      start,
+      end,
+      record: { ...record, country, region: normalizeRegion(record.region, country) },
+    });
+    this.sorted = false;
+  }
+
+  async lookup(ip: string): Promise<IPGeoRecord | undefined> {
+    const address = parseIP(ip);
+    if (!address) return undefined;
+    if (!this.sorted) {
+      this.ranges.sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+      this.sorted = true;
+    }
+
+    // Last range starting at or before the address
+    let lo = 0;
+    let hi = this.ranges.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.ranges[mid].start <= address.value) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    const range = this.ranges[found];
+    return range && address.value <= range.end ? range.record : undefined;
+  }
+}
+
+/** Whether the `Network` signal names a cellular connection. */
+function isMobileNetwork(network: unknown): boolean {
+  return typeof network === 'string' && /mobile|cell|lte|5g|4g|3g|2g/i.test(network);
+}
+
+/**
+ * Geolocate the `IPv4` and `IPv6` signals and compare them with the GPS fix.
+ * Non-public addresses are classified and not looked up.
+ *
+ * @param geocoder - Places the fix for country and region comparison
+ * @param marginMeters - Slack added to the GeoIP accuracy radius
+ */
+export async function checkIPGeolocation(
+  signals: ProofModeSignals,
+  database: IPGeoSource,
+  geocoder: ReverseGeocoder | undefined,
+  marginMeters: number
+): Promise<IPGeoCheck[]> {
+  const lat = signals['Location.Latitude'];
+  const lon = signals['Location.Longitude'];
+  const hasFix = typeof lat === 'number' && typeof lon === 'number';
+  const mobile = isMobileNetwork(signals.Network);
+
+  let fixRegion: GeoRegion | undefined;
+  let geocoded = false;
+
+  const checks: IPGeoCheck[] = [];
+  for (const signal of ['IPv4', 'IPv6'] as const) {
+    const ip = signals[signal];
+    if (typeof ip !== 'string' || ip.trim() === '') continue;
+
+    const check: IPGeoCheck = { ip, signal, addressClass: classifyIP(ip) };
+    checks.push(check);
+    if (check.addressClass !== 'public') continue;
+
+    const record = await database.lookup(ip);
+    if (!record) continue;
+    check.record = record;
+    if (!hasFix) continue;
+
+    if (geocoder && !geocoded) {
+      fixRegion = await geocoder.regionAt(lat, lon);
+      geocoded = true;
+    }
+    if (fixRegion && record.country) {
+      check.fixRegion = fixRegion;
+      const country = fixRegion.country.toUpperCase();
+      check.countryMatches = record.country.toUpperCase() === country;
+      const fixRegionCode = normalizeRegion(fixRegion.region, country);
+      const ipRegionCode = normalizeRegion(record.region, record.country.toUpperCase());
+      if (check.countryMatches && fixRegionCode && ipRegionCode) {
+        check.regionMatches = fixRegionCode === ipRegionCode;
+      }
+    }
+
+    if (!mobile && record.latitude !== undefined && record.longitude !== undefined) {
+      check.distance = haversineDistance(lat, lon, record.latitude, record.longitude);
+      check.allowedDistance = (record.accuracyRadius || DEFAULT_IP_RADIUS) + marginMeters;
+    }
+
+    if (check.countryMatches !== undefined || check.distance !== undefined) {
+      check.consistent =
+        check.countryMatches !== false &&
+        (check.distance === undefined || check.distance <= check.allowedDistance!);
+    }
+  }
+  return checks;
+}
@@ -0,0 +1,173 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Device key registry
+ *
+ * ProofMode devices sign with a key generated on the device, so anyone can
+ * sign a forged bundle with a fresh key. A KeyRegistry remembers which keys
+ * each DeviceID has presented: keys can be pinned as the expected key for a
+ * device, never-seen keys are flagged, and a device that suddenly presents
+ * a different key is reported. MemoryKeyRegistry holds records in memory
+ * and serializes to JSON; JSONFileKeyRegistry keeps them in a file (Node).
+ */
+
+import type { KeyContinuityCheck, KeyRecord, KeyRegistry } from './types';
+
+/** Uppercase hex without spaces, as openpgp prints fingerprints. */
+export function normalizeFingerprint(fingerprint: string): string {
+  return fingerprint.replace(/\s+/g, '').toUpperCase();
+}
+
+const recordId = (fingerprint: string, deviceId: string | undefined) =>
+  `${deviceId ?? ''}\n${fingerprint}`;
+
+/**
+ * In-memory KeyRegistry. Load and save its records with fromJSON() and
+ * toJSON() to keep them between runs.
+ */
+export class MemoryKeyRegistry implements KeyRegistry {
+  private readonly records = new Map<string, KeyRecord>();
+
+  constructor(records: KeyRecord[] = []) {
+    records.forEach(r => this.add(r));
+  }
+
+  /**
+   * Load records saved by toJSON(): `{ "keys": [KeyRecord, ...] }`.
+   * @throws Error if the JSON is not a key registry
+   */
+  static fromJSON(json: string): MemoryKeyRegistry {
+    const registry = new MemoryKeyRegistry();
+    registry.load(json);
+    return registry;
+  }
+
+  toJSON(): { keys: KeyRecord[] } {
+    return { keys: [...this.records.values()] };
+  }
+
+  /**
+   * Pin `fingerprint` as the expected key for a device, or for any device
+   * if `deviceId` is omitted. A device may have several pinned keys.
+   */
+  pin(fingerprint: string, deviceId?: string): void {
+    const normalized = normalizeFingerprint(fingerprint);
+    const existing = this.records.get(recordId(normalized, deviceId));
+    this.add({ ...existing, fingerprint: normalized, deviceId, pinned: true });
+  }
+
+  add(record: KeyRecord): void {
+    const fingerprint = normalizeFingerprint(record.fingerprint);
+    this.records.set(recordId(fingerprint, record.deviceId), { ...record, fingerprint });
+  }
+
+  async getKey(fingerprint: string): Promise<KeyRecord[]> {
+    const normalized = normalizeFingerprint(fingerprint);
+    return [...this.records.values()].filter(r => r.fingerprint === normalized);
+  }
+
+  async getDeviceKeys(deviceId: string): Promise<KeyRecord[]> {
+    return [...this.records.values()].filter(r => r.deviceId === deviceId);
+  }
+
+  async recordKey(fingerprint: string, deviceId: string | undefined, seenAt: number): Promise<void> {
+    const normalized = normalizeFingerprint(fingerprint);
+    const existing = this.records.get(recordId(normalized, deviceId));
+    this.add({
+      ...existing,
+      fingerprint: normalized,
+      deviceId,
+      firstSeen: Math.min(existing?.firstSeen ?? seenAt, seenAt),
+      lastSeen: Math.max(existing?.lastSeen ?? seenAt, seenAt),
+    });
+  }
+
+  /**
+   * Replace the records with those in `json`.
+   * @throws Error if the JSON is not a key registry
+   */
+  protected load(json: string): void {
+    const parsed = JSON.parse(json) as { keys?: unknown };
+    if (!Array.isArray(parsed?.keys)) {
+      throw new Error('Key registry JSON has no keys array');
+    }
+    this.records.clear();
+    for (const record of parsed.keys as KeyRecord[]) {
+      if (typeof record?.fingerprint === 'string') this.add(record);
+    }
+  }
+}
+
+/**
+ * KeyRegistry kept in a JSON file in toJSON() format. Sightings are written
+ * back as they are recorded; call save() after pinning keys. Node only.
+ */
+export class JSONFileKeyRegistry extends MemoryKeyRegistry {
+  private constructor(readonly path: string) {
+    super();
+  }
+
+  /**
+   * Open the registry at `path`, starting empty if the file does not exist.
+   * @throws Error if the file exists but is not a key registry
+   */
+  static async open(path: string): Promise<JSONFileKeyRegistry> {
+    const { readFile } = await import('node:fs/promises');
+    const registry = new JSONFileKeyRegistry(path);
+    try {
+      registry.load(await readFile(path, 'utf8'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    }
+    return registry;
+  }
+
+  async recordKey(fingerprint: string, deviceId: string | undefined, seenAt: number): Promise<void> {
+    await super.recordKey(fingerprint, deviceId, seenAt);
+    await this.save();
+  }
+
+  async save(): Promise<void> {
+    const { writeFile } = await import('node:fs/promises');
+    await writeFile(this.path, JSON.stringify(this.toJSON(), null, 2) + '\n');
+  }
+}
+
+/**
+ * Check a key against the registry: pinned for the device (or any
+ * device), seen before, or new — and, if new to a device that has
+ * presented other keys, changed. Does not record the key.
+ */
+export async function checkKeyContinuity(
+  fingerprint: string,
+  deviceId: string | undefined,
+  registry: KeyRegistry
+): Promise<KeyContinuityCheck> {
+  const normalized = normalizeFingerprint(fingerprint);
+  const records = await registry.getKey(normalized);
+  const deviceKeys = deviceId ? await registry.getDeviceKeys(deviceId) : [];
+  const others = deviceKeys.filter(r => r.fingerprint !== normalized);
+  const seen = records.filter(r => r.firstSeen !== undefined);
+  const firstSeen = seen.length > 0 ? Math.min(...seen.map(r => r.firstSeen!)) : undefined;
+  const check = (status: KeyContinuityCheck['status'], otherKeys: KeyRecord[] = []): KeyContinuityCheck => ({
+    fingerprint: normalized,
+    deviceId,
+    status,
+    otherKeys: otherKeys.map(r => r.fingerprint),
+    firstSeen,
+  });
+
+  const devicePins = deviceKeys.filter(r => r.pinned);
+  if (devicePins.length > 0) {
+    return devicePins.some(r => r.fingerprint === normalized)
+      ? check('pinned')
+      : check('pin-mismatch', devicePins);
+  }
+  if (records.some(r => r.pinned && r.deviceId === undefined)) return check('pinned');
+
+  if (deviceId) {
+    if (deviceKeys.some(r => r.fingerprint === normalized)) return check('known');
+    if (others.length > 0) return check('changed', others);
+  }
+  return seen.length > 0 ? check('known') : check('new');
+}
@@ -0,0 +1,129 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Media metadata cross-check
+ *
+ * A photo's own EXIF/XMP is written by the camera, independently of the
+ * ProofMode sidecar. Where both record a location, capture time or device,
+ * they should agree; a photo whose EXIF places it elsewhere, or at another
+ * time, than its signed metadata was not taken when and where claimed.
+ */
+
+import type {
+  MediaMetadata,
+  MediaMetadataCheck,
+  MediaMetadataResult,
+  ParsedBundle,
+  ProofModeSignals,
+  VerificationPolicy,
+} from './types';
+import { extractMediaMetadata } from './parse/media';
+import { haversineDistance } from './geo';
+import { epochSeconds, resolvedSignals } from './temporal';
+
+/** Largest UTC offset in use, for capture times recorded without a zone. */
+const MAX_UTC_OFFSET_SECONDS = 14 * 3600;
+
+/** UTC offsets are whole quarter hours. */
+const UTC_OFFSET_STEP_SECONDS = 15 * 60;
+
+/** Lowercase, collapse whitespace; a manufacturer may be a prefix of the other. */
+function sameDevice(a: string, b: string): boolean {
+  const norm = (s: string) => s.trim().toLowerCase().replace(/\s+/g, ' ');
+  const [x, y] = [norm(a), norm(b)];
+  return x !== '' && y !== '' && (x.startsWith(y) || y.startsWith(x));
+}
+
+/**
+ * Seconds between the capture time and the fix time. Without a recorded
+ * zone the nearest whole UTC offset (up to ±14h) is allowed for.
+ */
+function timeDifference(media: Partial<MediaMetadata>, fixTime: number): number | undefined {
+  if (media.captureTime === undefined) {
+    return media.gpsTime !== undefined ? Math.abs(media.gpsTime - fixTime) : undefined;
+  }
+  const diff = media.captureTime - fixTime;
+  if (media.timeZoneKnown) return Math.abs(diff);
+
+  const offset = Math.round(diff / UTC_OFFSET_STEP_SECONDS) * UTC_OFFSET_STEP_SECONDS;
+  const clamped = Math.max(-MAX_UTC_OFFSET_SECONDS, Math.min(MAX_UTC_OFFSET_SECONDS, offset));
+  return Math.abs(diff - clamped);
+}
+
+/**
+ * Compare capture metadata recorded in the media (EXIF/XMP, or a C2PA
+ * manifest) with the ProofMode signals. Only values present on both
+ * sides are compared.
+ */
+export function compareCaptureMetadata(
+  metadata: Partial<MediaMetadata>,
+  signals: ProofModeSignals,
+  policy: Pick<VerificationPolicy, 'maxTimestampDriftSeconds' | 'mediaLocationMarginMeters'>
+): MediaMetadataCheck[] {
+  const checks: MediaMetadataCheck[] = [];
+
+  const lat = signals['Location.Latitude'];
+  const lon = signals['Location.Longitude'];
+  if (typeof lat === 'number' && typeof lon === 'number' &&
+      metadata.latitude !== undefined && metadata.longitude !== undefined) {
+    const distance = haversineDistance(lat, lon, metadata.latitude, metadata.longitude);
+    const allowed = (signals['Location.Accuracy'] ?? 0) + (metadata.gpsAccuracy ?? 0) +
+      policy.mediaLocationMarginMeters;
+    checks.push({
+      field: 'location',
+      expected: `${lat},${lon}`,
+      actual: `${metadata.latitude},${metadata.longitude}`,
+      matches: distance <= allowed,
+      difference: distance,
+    });
+  }
+
+  const locationTime = signals['Location.Time'];
+  const fixTime = typeof locationTime === 'number' ? epochSeconds(locationTime) : undefined;
+  if (fixTime !== undefined) {
+    const difference = timeDifference(metadata, fixTime);
+    if (difference !== undefined) {
+      checks.push({
+        field: 'time',
+        expected: fixTime,
+        actual: (metadata.captureTime ?? metadata.gpsTime)!,
+        matches: difference <= policy.maxTimestampDriftSeconds,
+        difference,
+      });
+    }
+  }
+
+  const devices: Array<[MediaMetadataCheck['field'], unknown, string | undefined]> = [
+    ['make', signals.Manufacturer, metadata.make],
+    ['model', signals.Model, metadata.model],
+  ];
+  for (const [field, expected, actual] of devices) {
+    if (typeof expected === 'string' && expected && actual) {
+      checks.push({ field, expected, actual, matches: sameDevice(expected, actual) });
+    }
+  }
+  return checks;
+}
+
+/**
+ * Extract EXIF/XMP from the bundle's media file and compare GPS position,
+ * capture time, make and model with the ProofMode metadata.
+ *
+ * Returns undefined without media bytes (e.g. parseBundleStream without
+ * `keepMedia`) or when the media records none of these.
+ */
+export function checkMediaMetadata(
+  bundle: ParsedBundle,
+  policy: Pick<VerificationPolicy, 'maxTimestampDriftSeconds' | 'mediaLocationMarginMeters'>
+): MediaMetadataResult | undefined {
+  if (!bundle.mediaFile) return undefined;
+  const metadata = extractMediaMetadata(bundle.mediaFile);
+  if (!metadata) return undefined;
+
+  const checks = compareCaptureMetadata(metadata, resolvedSignals(bundle), policy);
+  return {
+    consistent: checks.every(c => c.matches),
+    metadata,
+    checks,
+  };
+}
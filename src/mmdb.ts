@@ -0,0 +1,267 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * MaxMind DB (MMDB) reader
+ *
+ * Minimal reader for the MaxMind DB binary format used by GeoLite2, GeoIP2
+ * and DB-IP downloads: a binary search tree over address bits pointing into
+ * a typed data section. The whole file is held in memory; nothing is
+ * fetched. See https://maxmind.github.io/MaxMind-DB/.
+ */
+
+import type { IPGeoRecord, IPGeoSource } from './types';
+import { parseIP } from './ip';
+
+const METADATA_MARKER = new Uint8Array([
+  0xab, 0xcd, 0xef, ...new TextEncoder().encode('MaxMind.com'),
+]);
+
+/** The metadata section is within the last 128 KiB of the file. */
+const METADATA_MAX_SIZE = 128 * 1024;
+
+/** Size of the zero-filled separator between tree and data section. */
+const DATA_SEPARATOR_SIZE = 16;
+
+/**
+ * Fields of the metadata map this reader relies on.
+ */
+export interface MMDBMetadata {
+  node_count: number;
+  record_size: number;
+  ip_version: number;
+  database_type: string;
+  [field: string]: unknown;
+}
+
+const decoder = new TextDecoder();
+
+function findMetadataStart(data: Uint8Array): number {
+  const floor = Math.max(0, data.length - METADATA_MAX_SIZE);
+  outer: for (let i = data.length - METADATA_MARKER.length; i >= floor; i--) {
+    for (let j = 0; j < METADATA_MARKER.length; j++) {
+      if (data[i + j] !== METADATA_MARKER[j]) continue outer;
+    }
+    return i + METADATA_MARKER.length;
+  }
+  throw new Error('Not a MaxMind DB file: metadata marker not found');
+}
+
+/**
+ * Decoder for the MMDB data section format. Pointers are relative to
+ * `base`, the start of the section being decoded.
+ */
+class DataDecoder {
+  constructor(
+    private readonly data: Uint8Array,
+    private readonly base: number
+  ) {}
+
+  private uint(offset: number, size: number): number {
+    let value = 0;
+    for (let i = 0; i < size; i++) value = value * 256 + this.data[offset + i];
+    return value;
+  }
+
+  private bigUint(offset: number, size: number): bigint {
+    let value = 0n;
+    for (let i = 0; i < size; i++) value = (value << 8n) | BigInt(this.data[offset + i]);
+    return value;
+  }
+
+  /**
+   * Decode the value at `offset` (relative to the section base).
+   * @returns The value and the offset just past it
+   */
+  decode(offset: number): [unknown, number] {
+    let pos = this.base + offset;
+    const control = this.data[pos++];
+    let type = control >> 5;
+
+    if (type === 1) {
+      // Pointer: the size bits select the pointer width
+      const sizeBits = (control >> 3) & 0x3;
+      const high = control & 0x7;
+      let target: number;
+      if (sizeBits === 0) target = high * 0x100 + this.uint(pos, 1);
+      else if (sizeBits === 1) target = high * 0x10000 + this.uint(pos, 2) + 2048;
+      else if (sizeBits === 2) target = high * 0x1000000 + this.uint(pos, 3) + 526336;
+      else target = this.uint(pos, 4);
+      const [value] = this.decode(target);
+      return [value, pos + sizeBits + 1 - this.base];
+    }
+
+    if (type === 0) type = 7 + this.data[pos++];
+
+    let size = control & 0x1f;
+    if (size === 29) size = 29 + this.uint(pos++, 1);
+    else if (size === 30) { size = 285 + this.uint(pos, 2); pos += 2; }
+    else if (size === 31) { size = 65821 + this.uint(pos, 3); pos += 3; }
+
+    const next = (value: unknown, length: number): [unknown, number] =>
+      [value, pos + length - this.base];
+
+    switch (type) {
+      case 2:
+        return next(decoder.decode(this.data.subarray(pos, pos + size)), size);
+      case 3:
+        return next(new DataView(this.data.buffer, this.data.byteOffset + pos, 8).getFloat64(0), 8);
+      case 4:
+        return next(this.data.slice(pos, pos + size), size);
+      case 5:
+      case 6:
+        return next(this.uint(pos, size), size);
+      case 7: {
+        const map: Record<string, unknown> = {};
+        let cursor = pos - this.base;
+        for (let i = 0; i < size; i++) {
+          const [key, afterKey] = this.decode(cursor);
+          const [value, afterValue] = this.decode(afterKey);
+          map[key as string] = value;
+          cursor = afterValue;
+        }
+        return [map, cursor];
+      }
+      case 8: {
+        const value = this.uint(pos, size);
+        // Sign-extend only a full 4-byte value
+        return next(size === 4 ? value | 0 : value, size);
+      }
+      case 9:
+      case 10: {
+        const value = this.bigUint(pos, size);
+        return next(value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value, size);
+      }
+      case 11: {
+        const array: unknown[] = [];
+        let cursor = pos - this.base;
+        for (let i = 0; i < size; i++) {
+          const [value, after] = this.decode(cursor);
+          array.push(value);
+          cursor = after;
+        }
+        return [array, cursor];
+      }
+      case 14:
+        return next(size !== 0, 0);
+      case 15:
+        return next(new DataView(this.data.buffer, this.data.byteOffset + pos, 4).getFloat32(0), 4);
+      default:
+        throw new Error(`Unsupported MaxMind DB data type ${type}`);
+    }
+  }
+}
+
+/** Address bits, most significant first: 32 for IPv4, 128 for IPv6. */
+function addressBits(ip: string): number[] | undefined {
+  const address = parseIP(ip);
+  if (!address) return undefined;
+  const width = address.version === 4 ? 32 : 128;
+  return Array.from({ length: width }, (_, i) => Number((address.value >> BigInt(width - 1 - i)) & 1n));
+}
+
+/**
+ * In-memory MaxMind DB reader. `lookup` maps GeoIP2/GeoLite2 City and
+ * Country records (and DB-IP's compatible layout) to an IPGeoRecord; `get`
+ * returns the raw record for other database types.
+ */
+export class MMDBReader implements IPGeoSource {
+  readonly metadata: MMDBMetadata;
+  private readonly data: Uint8Array;
+  private readonly records: DataDecoder;
+  private ipv4Start?: number;
+
+  /**
+   * @throws Error if the file is not a MaxMind DB
+   */
+  constructor(data: Uint8Array) {
+    this.data = data;
+    const metadataStart = findMetadataStart(data);
+    const [metadata] = new DataDecoder(data, metadataStart).decode(0);
+    this.metadata = metadata as MMDBMetadata;
+
+    const { node_count: nodeCount, record_size: recordSize } = this.metadata;
+    if (![24, 28, 32].includes(recordSize) || !Number.isInteger(nodeCount)) {
+      throw new Error(`Unsupported MaxMind DB record size ${recordSize}`);
+    }
+    const treeSize = (recordSize * 2 / 8) * nodeCount;
+    this.records = new DataDecoder(data, treeSize + DATA_SEPARATOR_SIZE);
+  }
+
+  private readRecord(node: number, bit: number): number {
+    const recordSize = this.metadata.record_size;
+    const offset = node * (recordSize * 2 / 8);
+    const d = this.data;
+    if (recordSize === 24) {
+      const o = offset + bit * 3;
+      return (d[o] << 16) | (d[o + 1] << 8) | d[o + 2];
+    }
+    if (recordSize === 28) {
+      const middle = d[offset + 3];
+      return bit === 0
+        ? ((middle & 0xf0) << 20) | (d[offset] << 16) | (d[offset + 1] << 8) | d[offset + 2]
+        : ((middle & 0x0f) << 24) | (d[offset + 4] << 16) | (d[offset + 5] << 8) | d[offset + 6];
+    }
+    const o = offset + bit * 4;
+    return ((d[o] << 24) | (d[o + 1] << 16) | (d[o + 2] << 8) | d[o + 3]) >>> 0;
+  }
+
+  /** IPv4 lives under 96 zero bits in an IPv6 tree. */
+  private ipv4StartNode(): number {
+    if (this.ipv4Start === undefined) {
+      let node = 0;
+      if (this.metadata.ip_version === 6) {
+        for (let i = 0; i < 96 && node < this.metadata.node_count; i++) {
+          node = this.readRecord(node, 0);
+        }
+      }
+      this.ipv4Start = node;
+    }
+    return this.ipv4Start;
+  }
+
+  /**
+   * The raw data record for `ip`, or undefined if the database has none.
+   */
+  get(ip: string): unknown {
+    const bits = addressBits(ip);
+    if (!bits) return undefined;
+    if (bits.length === 128 && this.metadata.ip_version === 4) return undefined;
+
+    const nodeCount = this.metadata.node_count;
+    let node = bits.length === 32 ? this.ipv4StartNode() : 0;
+    for (const bit of bits) {
+      if (node >= nodeCount) break;
+      node = this.readRecord(node, bit);
+    }
+    if (node <= nodeCount) return undefined;
+
+    const offset = node - nodeCount - DATA_SEPARATOR_SIZE;
+    return this.records.decode(offset)[0];
+  }
+
+  async lookup(ip: string): Promise<IPGeoRecord | undefined> {
+    const record = this.get(ip) as GeoIP2Record | undefined;
+    if (!record || typeof record !== 'object') return undefined;
+
+    const country = record.country?.iso_code ?? record.registered_country?.iso_code;
+    const location = record.location;
+    const result: IPGeoRecord = {
+      country: country?.toUpperCase(),
+      region: record.subdivisions?.[0]?.iso_code?.toUpperCase(),
+      latitude: location?.latitude,
+      longitude: location?.longitude,
+      // MaxMind radii are in kilometers
+      accuracyRadius: location?.accuracy_radius !== undefined ? location.accuracy_radius * 1000 : undefined,
+    };
+    if (!result.country && result.latitude === undefined) return undefined;
+    return result;
+  }
+}
+
+/** The parts of a GeoIP2 City/Country record used by lookup(). */
+interface GeoIP2Record {
+  country?: { iso_code?: string };
+  registered_country?: { iso_code?: string };
+  subdivisions?: Array<{ iso_code?: string }>;
+  location?: { latitude?: number; longitude?: number; accuracy_radius?: number };
+}
@@ -0,0 +1,310 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * OpenTimestamps proof parsing and verification
+ *
+ * An .ots file commits a digest to one or more attestations through a tree
+ * of hash/append/prepend operations. Walking the tree yields, at each Bitcoin
+ * attestation, the merkle root the block at that height must have. Block
+ * headers come from a caller-supplied BlockHeaderSource — nothing is fetched.
+ */
+
+import { sha1, ripemd160 } from '@noble/hashes/legacy';
+import { sha256 } from '@noble/hashes/sha2';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import type {
+  BlockHeaderSource,
+  OTSAttestation,
+  OTSAttestationResult,
+  OTSProof,
+  OTSStatus,
+  OTSVerificationResult,
+} from './types';
+
+/** Magic bytes at the start of every detached timestamp file. */
+const HEADER_MAGIC = hexToBytes(
+  '004f70656e54696d657374616d7073000050726f6f6600bf89e2e884e89294'
+);
+
+const ATTESTATION_TAGS: Record<string, OTSAttestation['type']> = {
+  '0588960d73d71901': 'bitcoin',
+  '06869a0d73d71b45': 'litecoin',
+  '83dfe30d2ef90c8e': 'pending',
+};
+
+interface HashOp {
+  name: OTSProof['hashAlgorithm'];
+  size: number;
+  fn: (data: Uint8Array) => Uint8Array;
+}
+
+const HASH_OPS: Record<number, HashOp> = {
+  0x02: { name: 'sha1', size: 20, fn: sha1 },
+  0x03: { name: 'ripemd160', size: 20, fn: ripemd160 },
+  0x08: { name: 'sha256', size: 32, fn: sha256 },
+  0x67: { name: 'keccak256', size: 32, fn: keccak_256 },
+};
+
+const OP_APPEND = 0xf0;
+const OP_PREPEND = 0xf1;
+const OP_REVERSE = 0xf2;
+const OP_HEXLIFY = 0xf3;
+
+/** Guards against maliciously deep or long operation chains. */
+const MAX_DEPTH = 256;
+const MAX_MESSAGE_LENGTH = 4096;
+
+class Reader {
+  private offset = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  byte(): number {
+    if (this.offset >= this.data.length) {
+      throw new Error('OTS: unexpected end of proof');
+    }
+    return this.data[this.offset++];
+  }
+
+  bytes(n: number): Uint8Array {
+    if (this.offset + n > this.data.length) {
+      throw new Error('OTS: unexpected end of proof');
+    }
+    const out = this.data.subarray(this.offset, this.offset + n);
+    this.offset += n;
+    return out;
+  }
+
+  /** Unsigned LEB128 */
+  varuint(): number {
+    let value = 0;
+    let shift = 0;
+    for (;;) {
+      const b = this.byte();
+      value += (b & 0x7f) * 2 ** shift;
+      if (!(b & 0x80)) return value;
+      shift += 7;
+      if (shift > 49) throw new Error('OTS: varuint too large');
+    }
+  }
+
+  varbytes(max = MAX_MESSAGE_LENGTH): Uint8Array {
+    const length = this.varuint();
+    if (length > max) throw new Error(`OTS: field length ${length} exceeds ${max}`);
+    return this.bytes(length);
+  }
+
+  get done(): boolean {
+    return this.offset >= this.data.length;
+  }
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+}
+
+function readAttestation(reader: Reader, commitment: Uint8Array): OTSAttestation {
+  const tag = bytesToHex(reader.bytes(8));
+  const payload = new Reader(reader.varbytes(8192));
+  const type = ATTESTATION_TAGS[tag] ?? 'unknown';
+  const attestation: OTSAttestation = { type, commitment: bytesToHex(commitment) };
+
+  if (type === 'bitcoin' || type === 'litecoin') {
+    attestation.height = payload.varuint();
+  } else if (type === 'pending') {
+    attestation.uri = new TextDecoder().decode(payload.varbytes(1000));
+  } else {
+    attestation.tag = tag;
+  }
+  return attestation;
+}
+
+function applyOp(reader: Reader, tag: number, message: Uint8Array): Uint8Array {
+  const hash = HASH_OPS[tag];
+  if (hash) return hash.fn(message);
+
+  switch (tag) {
+    case OP_APPEND:
+      return concat(message, reader.varbytes());
+    case OP_PREPEND:
+      return concat(reader.varbytes(), message);
+    case OP_REVERSE:
+      return message.slice().reverse();
+    case OP_HEXLIFY:
+      return new TextEncoder().encode(bytesToHex(message));
+    default:
+      throw new Error(`OTS: unknown operation 0x${tag.toString(16)}`);
+  }
+}
+
+function readTimestamp(
+  reader: Reader,
+  message: Uint8Array,
+  attestations: OTSAttestation[],
+  depth: number
+): void {
+  if (depth > MAX_DEPTH) throw new Error('OTS: operation tree too deep');
+
+  const visit = (tag: number) => {
+    if (tag === 0x00) {
+      attestations.push(readAttestation(reader, message));
+    } else {
+      const result = applyOp(reader, tag, message);
+      if (result.length > MAX_MESSAGE_LENGTH) throw new Error('OTS: message too long');
+      readTimestamp(reader, result, attestations, depth + 1);
+    }
+  };
+
+  // 0xff marks a fork: the next tag is one branch, and more follow
+  let tag = reader.byte();
+  while (tag === 0xff) {
+    visit(reader.byte());
+    tag = reader.byte();
+  }
+  visit(tag);
+}
+
+/**
+ * Parse an OpenTimestamps detached timestamp (.ots) file.
+ *
+ * @throws Error if the data is not a well-formed OTS proof.
+ */
+export function parseOTSProof(data: Uint8Array): OTSProof {
+  const magic = data.subarray(0, HEADER_MAGIC.length);
+  if (bytesToHex(magic) !== bytesToHex(HEADER_MAGIC)) {
+    throw new Error('OTS: missing OpenTimestamps header');
+  }
+
+  const reader = new Reader(data);
+  reader.bytes(HEADER_MAGIC.length);
+
+  const version = reader.varuint();
+  if (version !== 1) throw new Error(`OTS: unsupported version ${version}`);
+
+  const hash = HASH_OPS[reader.byte()];
+  if (!hash) throw new Error('OTS: unsupported file hash algorithm');
+  const digest = reader.bytes(hash.size);
+
+  const attestations: OTSAttestation[] = [];
+  readTimestamp(reader, digest, attestations, 0);
+  if (!reader.done) throw new Error('OTS: trailing data after proof');
+
+  return {
+    version,
+    hashAlgorithm: hash.name,
+    digest: bytesToHex(digest),
+    attestations,
+  };
+}
+
+/**
+ * Verify an OTS proof's Bitcoin attestations against block headers.
+ *
+ * A header whose merkle root does not match the commitment invalidates the
+ * proof. Attestations whose header is unavailable, pending attestations and
+ * other chains are reported but neither verify nor invalidate it. The proof
+ * is only `valid` once a Bitcoin attestation verified and its digest matched
+ * `expectedDigest`; see OTSStatus for the other outcomes.
+ *
+ * @param expectedDigest - Hex digest the proof should timestamp (e.g. the media SHA-256)
+ */
+export async function verifyOTSProof(
+  proof: OTSProof,
+  headers: BlockHeaderSource,
+  expectedDigest?: string
+): Promise<OTSVerificationResult> {
+  const digestMatches =
+    expectedDigest === undefined ? undefined : expectedDigest.toLowerCase() === proof.digest;
+
+  let contradicted = false;
+  const attestations: OTSAttestationResult[] = [];
+
+  for (const attestation of proof.attestations) {
+    const unverified = (error: string) =>
+      attestations.push({ ...attestation, verified: false, error });
+
+    if (attestation.type !== 'bitcoin' || attestation.height === undefined) {
+      unverified(`Cannot verify ${attestation.type} attestation`);
+      continue;
+    }
+
+    const header = await headers.getBlockHeader(attestation.height);
+    if (!header) {
+      unverified('Block header not available');
+      continue;
+    }
+    if (header.length !== 80) {
+      unverified('Block header is not 80 bytes');
+      continue;
+    }
+
+    // The header stores the merkle root in the same byte order OTS commits to
+    const merkleRoot = bytesToHex(header.subarray(36, 68));
+    if (merkleRoot !== attestation.commitment) {
+      contradicted = true;
+      unverified('Commitment does not match block merkle root');
+      continue;
+    }
+
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+    attestations.push({ ...attestation, verified: true, blockTime: view.getUint32(68, true) });
+  }
+
+  const earliest = attestations
+    .filter(a => a.verified)
+    .sort((a, b) => a.blockTime! - b.blockTime!)[0];
+
+  const status: OTSStatus = digestMatches === false || contradicted
+    ? 'invalid'
+    : !earliest
+      ? 'pending'
+      : digestMatches ? 'verified' : 'unbound';
+
+  return {
+    valid: status === 'verified',
+    status,
+    digestMatches,
+    attestedTime: earliest?.blockTime,
+    attestedHeight: earliest?.height,
+    attestations,
+  };
+}
+
+/**
+ * In-memory BlockHeaderSource keyed by height.
+ *
+ * Use fromText() to load a local headers file with one `<height> <hex header>`
+ * pair per line (blank lines and `#` comments are ignored).
+ */
+export class MemoryBlockHeaderSource implements BlockHeaderSource {
+  private readonly headers = new Map<number, Uint8Array>();
+
+  constructor(headers: Record<number, Uint8Array | string> = {}) {
+    for (const [height, header] of Object.entries(headers)) {
+      this.set(Number(height), header);
+    }
+  }
+
+  static fromText(text: string): MemoryBlockHeaderSource {
+    const source = new MemoryBlockHeaderSource();
+    for (const line of text.split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) continue;
+      const [height, header] = trimmed.split(/\s+/);
+      source.set(parseInt(height, 10), header);
+    }
+    return source;
+  }
+
+  set(height: number, header: Uint8Array | string): void {
+    this.headers.set(height, typeof header === 'string' ? hexToBytes(header) : header);
+  }
+
+  async getBlockHeader(height: number): Promise<Uint8Array | undefined> {
+    return this.headers.get(height);
+  }
+}
@@ -4,109 +4,312 @@
  * ProofMode proof bundle parser
  *
  * Extracts and categorizes files from a ProofMode proof bundle ZIP.
+ * A bundle may hold several media items, each with its own proof files.
+ * Both the Android layout (SafetyNet/Play Integrity `.gst` token) and the
+ * iOS layout (App Attest `.attest` object, DeviceCheck `.devicecheck`
+ * token, `publickey.asc`) are recognized.
  */
 
 import { unzipSync } from 'fflate';
-import type { ParsedBundle, BundleFile } from '../types';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import type { ParsedBundle, BundleFile, BundleLimits, DevicePlatform, ProofModeMetadata } from '../types';
 import { parseCSV } from './csv';
 import { parseJSON } from './json';
+import { platformFromSignals } from './signals';
+import { EntryGuard, asBundleError } from './limits';
 
 /**
- * Parse a ProofMode proof bundle from a ZIP file.
- *
- * Expected bundle structure:
- * ```
- * <sha256>.proof.csv          — sensor metadata (CSV)
- * <sha256>.proof.csv.asc      — PGP signature of CSV
- * <sha256>.proof.json         — sensor metadata (JSON)
- * <sha256>.proof.json.asc     — PGP signature of JSON
- * <original-filename>.asc     — PGP detached signature of media
- * <sha256>.gst                — Google SafetyNet/Play Integrity JWT
- * <sha256>.ots                — OpenTimestamps proof
- * pubkey.asc                  — PGP public key
- * ```
+ * A media file whose bytes may already have been hashed and discarded.
  */
-export function parseBundle(zipData: Uint8Array): ParsedBundle {
-  const entries = unzipSync(zipData);
-
-  const files: BundleFile[] = [];
-  let csvData: Uint8Array | undefined;
-  let jsonData: Uint8Array | undefined;
-  let publicKey: string | undefined;
-  let metadataSignature: Uint8Array | undefined;
-  let mediaSignature: Uint8Array | undefined;
-  let safetyNetToken: string | undefined;
-  let otsProof: Uint8Array | undefined;
-  let mediaFile: Uint8Array | undefined;
-  let mediaFileName: string | undefined;
-
-  const decoder = new TextDecoder();
-
-  for (const [name, data] of Object.entries(entries)) {
-    files.push({ name, data });
-
-    const lower = name.toLowerCase();
-
-    if (lower.endsWith('.proof.csv')) {
-      csvData = data;
-    } else if (lower.endsWith('.proof.json')) {
-      jsonData = data;
-    } else if (lower === 'pubkey.asc' || lower.endsWith('/pubkey.asc')) {
-      publicKey = decoder.decode(data);
-    } else if (lower.endsWith('.proof.csv.asc')) {
-      metadataSignature = data;
-    } else if (lower.endsWith('.proof.json.asc')) {
-      // Prefer CSV signature but fall back to JSON
-      if (!metadataSignature) {
-        metadataSignature = data;
-      }
-    } else if (lower.endsWith('.gst')) {
-      safetyNetToken = decoder.decode(data);
-    } else if (lower.endsWith('.ots')) {
-      otsProof = data;
-    } else if (lower.endsWith('.asc') && !lower.includes('proof') && lower !== 'pubkey.asc') {
-      mediaSignature = data;
-    } else if (!lower.endsWith('.asc') && !lower.endsWith('.gst') && !lower.endsWith('.ots')) {
-      // Assume any remaining file is the media file
-      mediaFile = data;
-      mediaFileName = name;
-    }
+export interface MediaEntry {
+  name: string;
+  data?: Uint8Array;
+  /** SHA-256 (lowercase hex), if already computed */
+  sha256?: string;
+  size: number;
+}
+
+type ProofField =
+  | 'csv' | 'json' | 'csvSignature' | 'jsonSignature'
+  | 'safetyNet' | 'appAttest' | 'deviceCheck' | 'ots';
+
+/**
+ * Proof files for one media item, grouped by their shared `<sha256>` prefix.
+ */
+interface ItemFiles extends Partial<Record<ProofField, BundleFile>> {
+  key: string;
+  media?: MediaEntry;
+}
+
+/** What an archive entry is, decided from its name alone. */
+export type EntryKind =
+  | { kind: 'directory' }
+  | { kind: 'publicKey' }
+  | { kind: 'proof'; key: string; field: ProofField }
+  | { kind: 'mediaSignature'; key: string }
+  | { kind: 'media' };
+
+/** Suffixes of per-item proof files, most specific first so `.proof.csv.asc` wins over `.asc`. */
+const ITEM_SUFFIXES: Array<[string, ProofField]> = [
+  ['.proof.csv.asc', 'csvSignature'],
+  ['.proof.json.asc', 'jsonSignature'],
+  ['.proof.csv', 'csv'],
+  ['.proof.json', 'json'],
+  ['.gst', 'safetyNet'],
+  ['.appattest', 'appAttest'],
+  ['.attest', 'appAttest'],
+  ['.devicecheck', 'deviceCheck'],
+  ['.ots', 'ots'],
+];
+
+/** Public key names: `pubkey.asc` on Android, `publickey.asc` on iOS. */
+const PUBLIC_KEY_NAMES = new Set(['pubkey.asc', 'publickey.asc', 'public_key.asc']);
+
+const decoder = new TextDecoder();
+
+function basename(name: string): string {
+  return name.split('/').pop() ?? name;
+}
+
+/**
+ * Classify an archive entry by name. Anything that is not a proof file,
+ * signature or public key is assumed to be a media file.
+ */
+export function classifyEntry(name: string): EntryKind {
+  if (name.endsWith('/')) return { kind: 'directory' };
+
+  const lower = basename(name).toLowerCase();
+
+  if (PUBLIC_KEY_NAMES.has(lower)) return { kind: 'publicKey' };
+
+  const match = ITEM_SUFFIXES.find(([suffix]) => lower.endsWith(suffix));
+  if (match) {
+    const [suffix, field] = match;
+    return { kind: 'proof', key: lower.slice(0, lower.length - suffix.length), field };
+  }
+  if (lower.endsWith('.asc')) {
+    return { kind: 'mediaSignature', key: lower.slice(0, -'.asc'.length) };
   }
+  return { kind: 'media' };
+}
 
-  // Parse metadata from CSV or JSON
-  let metadata;
-  if (csvData) {
-    const csvText = decoder.decode(csvData);
-    metadata = parseCSV(csvText);
-  } else if (jsonData) {
-    const jsonText = decoder.decode(jsonData);
-    metadata = parseJSON(jsonText);
-  } else {
-    throw new Error('ProofMode bundle missing metadata (no .proof.csv or .proof.json found)');
+function parseMetadata(item: ItemFiles): ProofModeMetadata | undefined {
+  if (item.csv) return parseCSV(decoder.decode(item.csv.data));
+  if (item.json) return parseJSON(decoder.decode(item.json.data));
+  return undefined;
+}
+
+/**
+ * Attestation files identify the platform; otherwise the device metadata does.
+ */
+function detectPlatform(item: ItemFiles, metadata: ProofModeMetadata): DevicePlatform {
+  if (item.appAttest || item.deviceCheck) return 'ios';
+  if (item.safetyNet) return 'android';
+  return platformFromSignals(metadata.signals);
+}
+
+function mediaHash(entry: MediaEntry): string | undefined {
+  if (!entry.sha256 && entry.data) {
+    entry.sha256 = bytesToHex(sha256(entry.data));
   }
+  return entry.sha256;
+}
 
-  // Extract hash from filename pattern: <sha256>.proof.csv
-  let expectedHash: string | undefined;
-  if (csvData) {
-    const csvFile = files.find(f => f.name.toLowerCase().endsWith('.proof.csv'));
-    if (csvFile) {
-      const hashPart = csvFile.name.split('/').pop()?.replace('.proof.csv', '');
-      if (hashPart && /^[a-f0-9]{64}$/i.test(hashPart)) {
-        expectedHash = hashPart;
-      }
-    }
+/**
+ * Attach each media file to the item it belongs to: by SHA-256 (items are
+ * named after the media hash), then by the File.Name recorded in metadata.
+ * A lone media file in a single-item bundle always belongs to that item.
+ *
+ * @returns The media files no item claimed
+ */
+function assignMedia(
+  items: Array<{ files: ItemFiles; metadata: ProofModeMetadata }>,
+  media: MediaEntry[]
+): MediaEntry[] {
+  if (items.length === 1 && media.length === 1) {
+    items[0].files.media = media[0];
+    return [];
+  }
+
+  const unmatched: MediaEntry[] = [];
+  for (const entry of media) {
+    const name = basename(entry.name);
+    const owner =
+      items.find(i => !i.files.media && i.files.key === mediaHash(entry)) ??
+      items.find(i => !i.files.media && i.metadata.signals['File.Name'] === name);
+    if (owner) owner.files.media = entry;
+    else unmatched.push(entry);
   }
+  return unmatched;
+}
+
+function buildBundle(
+  item: ItemFiles,
+  metadata: ProofModeMetadata,
+  publicKey: BundleFile | undefined,
+  mediaSignatures: Map<string, BundleFile>
+): ParsedBundle {
+  // Prefer CSV signature but fall back to JSON, keeping the bytes it covers
+  const metadataSignature = item.csvSignature ?? item.jsonSignature;
+  const signedMetadata = item.csvSignature ? item.csv : item.jsonSignature ? item.json : undefined;
+
+  const media = item.media;
+  const mediaSignature = media
+    ? mediaSignatures.get(basename(media.name).toLowerCase())
+    : undefined;
+  const mediaFile = media?.data ? { name: media.name, data: media.data } : undefined;
+
+  // Items are named after the media SHA-256: <sha256>.proof.csv
+  const expectedHash = /^[a-f0-9]{64}$/.test(item.key) ? item.key : undefined;
+
+  const files = [
+    item.csv, item.csvSignature, item.json, item.jsonSignature,
+    item.safetyNet, item.appAttest, item.deviceCheck, item.ots, mediaFile, mediaSignature, publicKey,
+  ].filter((f): f is BundleFile => f !== undefined);
 
   return {
     metadata,
-    publicKey,
-    metadataSignature,
-    mediaSignature,
-    safetyNetToken,
-    otsProof,
-    mediaFile,
-    mediaFileName,
+    publicKey: publicKey ? decoder.decode(publicKey.data) : undefined,
+    metadataSignature: metadataSignature?.data,
+    signedMetadata: signedMetadata?.data,
+    mediaSignature: mediaSignature?.data,
+    platform: detectPlatform(item, metadata),
+    safetyNetToken: item.safetyNet ? decoder.decode(item.safetyNet.data) : undefined,
+    appAttestation: item.appAttest?.data,
+    deviceCheckToken: item.deviceCheck ? decoder.decode(item.deviceCheck.data).trim() : undefined,
+    otsProof: item.ots?.data,
+    mediaFile: media?.data,
+    mediaFileName: media?.name,
+    mediaSha256: media?.sha256,
+    mediaSize: media?.size,
     expectedHash,
     files,
   };
 }
+
+/**
+ * Group proof files and media into one ParsedBundle per item that has
+ * metadata. Media files no item claims are listed in `unmatchedMedia` on
+ * every item.
+ *
+ * @param proofFiles - Every non-media entry (proof files, signatures, public key)
+ * @param media - Media entries, with or without their bytes
+ */
+export function assembleBundles(proofFiles: BundleFile[], media: MediaEntry[]): ParsedBundle[] {
+  const items = new Map<string, ItemFiles>();
+  const mediaSignatures = new Map<string, BundleFile>();
+  let publicKey: BundleFile | undefined;
+
+  for (const file of proofFiles) {
+    const entry = classifyEntry(file.name);
+    if (entry.kind === 'publicKey') {
+      publicKey = file;
+    } else if (entry.kind === 'proof') {
+      const item = items.get(entry.key) ?? { key: entry.key };
+      item[entry.field] = file;
+      items.set(entry.key, item);
+    } else if (entry.kind === 'mediaSignature') {
+      mediaSignatures.set(entry.key, file);
+    }
+  }
+
+  const withMetadata = [...items.values()].flatMap(item => {
+    const metadata = parseMetadata(item);
+    return metadata ? [{ files: item, metadata }] : [];
+  });
+
+  if (withMetadata.length === 0) {
+    throw new Error('ProofMode bundle missing metadata (no .proof.csv or .proof.json found)');
+  }
+
+  const unmatched = assignMedia(withMetadata, media);
+  return withMetadata.map(item => {
+    const bundle = buildBundle(item.files, item.metadata, publicKey, mediaSignatures);
+    if (unmatched.length > 0) bundle.unmatchedMedia = unmatched.map(m => m.name);
+    return bundle;
+  });
+}
+
+/**
+ * Unzip an untrusted archive, checking every entry header against `limits`
+ * before it is inflated.
+ *
+ * @throws BundleTooLargeError, SuspiciousEntryError or MalformedBundleError
+ */
+function unzipChecked(zipData: Uint8Array, limits?: Partial<BundleLimits>): Record<string, Uint8Array> {
+  const guard = new EntryGuard(limits);
+  try {
+    return unzipSync(zipData, {
+      filter: file => {
+        guard.enter(file.name);
+        guard.declared(file.name, file.size, file.originalSize);
+        return true;
+      },
+    });
+  } catch (err) {
+    throw asBundleError(err);
+  }
+}
+
+/**
+ * Parse every media item in a ProofMode proof bundle ZIP.
+ *
+ * Proof files are grouped by their `<sha256>` filename prefix and each
+ * media file is matched to its item by hash. Returns one ParsedBundle per
+ * item that has metadata, in archive order; the shared public key is
+ * attached to every item, as are the names of media files that matched no
+ * item (`unmatchedMedia`).
+ *
+ * @param limits - Overrides for DEFAULT_BUNDLE_LIMITS
+ * @throws BundleError subclasses for oversized, suspicious or unreadable archives
+ */
+export function parseBundleItems(zipData: Uint8Array, limits?: Partial<BundleLimits>): ParsedBundle[] {
+  const entries = unzipChecked(zipData, limits);
+  const files: BundleFile[] = Object.entries(entries).map(([name, data]) => ({ name, data }));
+
+  const proofFiles: BundleFile[] = [];
+  const media: MediaEntry[] = [];
+  for (const file of files) {
+    const { kind } = classifyEntry(file.name);
+    if (kind === 'media') {
+      media.push({ name: file.name, data: file.data, size: file.data.length });
+    } else if (kind !== 'directory') {
+      proofFiles.push(file);
+    }
+  }
+
+  const bundles = assembleBundles(proofFiles, media);
+
+  // A single-item bundle owns every file in the archive
+  if (bundles.length === 1) {
+    bundles[0].files = files;
+  }
+  return bundles;
+}
+
+/**
+ * Parse a ProofMode proof bundle from a ZIP file. A batch export yields
+ * its first item, in archive order; use parseBundleItems for all of them.
+ *
+ * Expected bundle structure:
+ * ```
+ * <sha256>.proof.csv          — sensor metadata (CSV)
+ * <sha256>.proof.csv.asc      — PGP signature of CSV
+ * <sha256>.proof.json         — sensor metadata (JSON)
+ * <sha256>.proof.json.asc     — PGP signature of JSON
+ * <original-filename>         — media file
+ * <original-filename>.asc     — PGP detached signature of media
+ * <sha256>.gst                — Google SafetyNet/Play Integrity JWT (Android)
+ * <sha256>.attest             — Apple App Attest attestation object (iOS)
+ * <sha256>.devicecheck        — Apple DeviceCheck token (iOS)
+ * <sha256>.ots                — OpenTimestamps proof
+ * pubkey.asc                  — PGP public key (publickey.asc on iOS)
+ * ```
+ *
+ * @param limits - Overrides for DEFAULT_BUNDLE_LIMITS
+ * @throws BundleError subclasses for oversized, suspicious or unreadable archives
+ */
+export function parseBundle(zipData: Uint8Array, limits?: Partial<BundleLimits>): ParsedBundle {
+  return parseBundleItems(zipData, limits)[0];
+}
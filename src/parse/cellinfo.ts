@@ -0,0 +1,83 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * CellInfo signal parser
+ *
+ * ProofMode records visible cell towers in one string field. Depending on
+ * app version it holds colon-separated identifiers (`310:260:12345:67890`,
+ * optionally prefixed by the radio type and followed by the signal
+ * strength), Android CellInfo toString() output, or a JSON array.
+ * Multiple cells are separated by `;`, `|` or line breaks.
+ */
+
+import type { CellObservation } from '../types';
+import { toCellObservation } from './collections';
+
+const RADIO_TYPES = new Set(['gsm', 'cdma', 'wcdma', 'umts', 'lte', 'nr', 'tdscdma']);
+
+function parseJSONCells(text: string): CellObservation[] {
+  try {
+    const parsed = JSON.parse(text);
+    const items = Array.isArray(parsed) ? parsed : [parsed];
+    return items
+      .filter(i => typeof i === 'object' && i !== null)
+      .map(i => toCellObservation(i as Record<string, unknown>));
+  } catch {
+    return [];
+  }
+}
+
+/** Android CellInfo toString(): `CellInfoLte:{mRegistered=YES ... mMcc=310 mMnc=260 mCi=... dbm=-95 ...}` */
+function parseAndroidCells(text: string): CellObservation[] {
+  return text
+    .split(/(?=CellInfo[A-Za-z]+)/)
+    .filter(part => part.startsWith('CellInfo'))
+    .map(part => {
+      const fields: Record<string, unknown> = { type: /^CellInfo([A-Za-z]+)/.exec(part)![1] };
+      for (const [, key, value] of part.matchAll(/\b(m?[A-Za-z]+)=([^\s,}]+)/g)) {
+        const name = key.replace(/^m(?=[A-Z])/, '');
+        if (!(name in fields)) fields[name] = value;
+      }
+      if (typeof fields.Registered === 'string') {
+        fields.Registered = fields.Registered === 'YES' || fields.Registered === 'true';
+      }
+      // Android reports unknown identifiers as Integer.MAX_VALUE
+      for (const [key, value] of Object.entries(fields)) {
+        if (value === '2147483647' || value === '9223372036854775807') delete fields[key];
+      }
+      return toCellObservation(fields);
+    });
+}
+
+/** `[radio:]mcc:mnc:lac:cid[:dbm]` */
+function parseColonCell(entry: string): CellObservation | undefined {
+  const parts = entry.split(':').map(p => p.trim());
+  const cell: CellObservation = {};
+  if (RADIO_TYPES.has(parts[0].toLowerCase())) {
+    cell.type = parts.shift()!.toLowerCase();
+  }
+  if (parts.length < 4 || !parts.slice(0, 4).every(p => /^\d+$/.test(p))) return undefined;
+
+  const [mcc, mnc, lac, cid] = parts.slice(0, 4).map(Number);
+  Object.assign(cell, { mcc, mnc, lac, cid });
+  if (parts[4] !== undefined && /^-\d+(\.\d+)?$/.test(parts[4])) {
+    cell.signalStrength = parseFloat(parts[4]);
+  }
+  return cell;
+}
+
+/**
+ * Parse a CellInfo signal value into cell observations.
+ * Returns an empty array if nothing recognisable is found.
+ */
+export function parseCellInfo(text: string): CellObservation[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) return parseJSONCells(trimmed);
+  if (trimmed.includes('CellInfo')) return parseAndroidCells(trimmed);
+
+  return trimmed
+    .split(/[;|\r\n]+/)
+    .map(parseColonCell)
+    .filter((c): c is CellObservation => c !== undefined);
+}
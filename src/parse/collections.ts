@@ -0,0 +1,150 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Typed collections from array-valued metadata
+ *
+ * Arrays of objects (cell towers, WiFi scans, location samples) are
+ * recognised by the fields their items carry, falling back to the key they
+ * appear under, and normalized into CellObservation, WiFiAccessPoint and
+ * LocationSample lists. Field names are matched case-insensitively against
+ * the variants Android and ProofMode use.
+ */
+
+import type { CellObservation, LocationSample, ProofModeSignals, WiFiAccessPoint } from '../types';
+
+type Item = Record<string, unknown>;
+
+/** Canonical item field → accepted source names (lowercase). */
+type FieldMap<T> = Record<keyof T & string, string[]>;
+
+const CELL_FIELDS: FieldMap<CellObservation> = {
+  type: ['type', 'celltype', 'networktype', 'radio', 'radiotype'],
+  mcc: ['mcc'],
+  mnc: ['mnc'],
+  lac: ['lac'],
+  tac: ['tac'],
+  cid: ['cid', 'ci', 'cellid', 'nci', 'cellidentity'],
+  pci: ['pci'],
+  // Cell `level` is signal bars (0-4), not dBm
+  signalStrength: ['signalstrength', 'dbm', 'rssi', 'signal'],
+  registered: ['registered', 'isregistered'],
+};
+
+const WIFI_FIELDS: FieldMap<WiFiAccessPoint> = {
+  bssid: ['bssid', 'mac', 'macaddress'],
+  ssid: ['ssid', 'name'],
+  signalStrength: ['signalstrength', 'level', 'rssi', 'dbm', 'signal'],
+  frequency: ['frequency', 'freq'],
+};
+
+const LOCATION_FIELDS: FieldMap<LocationSample> = {
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lon', 'lng'],
+  accuracy: ['accuracy', 'horizontalaccuracy'],
+  altitude: ['altitude', 'alt'],
+  provider: ['provider'],
+  time: ['time', 'timestamp'],
+  speed: ['speed'],
+  bearing: ['bearing'],
+};
+
+const STRING_FIELDS = new Set(['type', 'bssid', 'ssid', 'provider']);
+const BOOLEAN_FIELDS = new Set(['registered']);
+
+function isItem(value: unknown): value is Item {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function convert(field: string, value: unknown): unknown {
+  if (value === null || value === undefined || value === '') return undefined;
+  if (BOOLEAN_FIELDS.has(field)) {
+    return typeof value === 'boolean' ? value : String(value).toLowerCase() === 'true';
+  }
+  if (STRING_FIELDS.has(field)) return String(value);
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(num) ? num : undefined;
+}
+
+function normalize<T>(item: Item, fields: FieldMap<T>): T {
+  const lower = new Map(Object.entries(item).map(([k, v]) => [k.toLowerCase(), v]));
+  const out: Record<string, unknown> = {};
+  for (const [field, names] of Object.entries(fields) as Array<[string, string[]]>) {
+    const name = names.find(n => lower.has(n));
+    const value = name === undefined ? undefined : convert(field, lower.get(name));
+    if (value !== undefined) out[field] = value;
+  }
+  return out as T;
+}
+
+/** A key named like the collection itself holds its JSON text, not a list yet. */
+const existing = <T>(value: T[] | undefined): T[] => (Array.isArray(value) ? value : []);
+
+const hasAny = (item: Item, names: string[]) =>
+  Object.keys(item).some(k => names.includes(k.toLowerCase()));
+
+/**
+ * Normalize one cell tower object (any supported field naming).
+ */
+export function toCellObservation(item: Record<string, unknown>): CellObservation {
+  const cell = normalize(item, CELL_FIELDS);
+  // Android class names such as CellInfoLte name the radio too
+  if (cell.type) cell.type = cell.type.toLowerCase().replace(/^cellinfo/, '');
+  return cell;
+}
+
+type CollectionField = 'Cells' | 'WiFi.AccessPoints' | 'Location.Samples';
+
+/**
+ * Decide what an array holds from its first item's fields, then its key.
+ */
+function classify(key: string, first: Item): CollectionField | undefined {
+  if (hasAny(first, [...CELL_FIELDS.cid, ...CELL_FIELDS.lac, ...CELL_FIELDS.tac, ...CELL_FIELDS.pci])) {
+    return 'Cells';
+  }
+  if (hasAny(first, WIFI_FIELDS.bssid)) return 'WiFi.AccessPoints';
+  if (hasAny(first, LOCATION_FIELDS.latitude) && hasAny(first, LOCATION_FIELDS.longitude)) {
+    return 'Location.Samples';
+  }
+
+  const k = key.toLowerCase();
+  if (k.includes('cell')) return 'Cells';
+  if (k.includes('wifi') || k.includes('wlan')) return 'WiFi.AccessPoints';
+  if (k.includes('location')) return 'Location.Samples';
+  return undefined;
+}
+
+/**
+ * Add an array of objects to the matching typed collection on `signals`.
+ *
+ * @returns false if the array is not a recognised collection
+ */
+export function addCollection(signals: ProofModeSignals, key: string, values: unknown[]): boolean {
+  const items = values.filter(isItem);
+  if (items.length === 0) return false;
+
+  const field = classify(key, items[0]);
+  switch (field) {
+    case 'Cells':
+      signals.Cells = [...existing(signals.Cells), ...items.map(toCellObservation)];
+      break;
+    case 'WiFi.AccessPoints':
+      signals['WiFi.AccessPoints'] = [
+        ...existing(signals['WiFi.AccessPoints']),
+        ...items.map(i => {
+          const ap = normalize(i, WIFI_FIELDS);
+          if (ap.bssid) ap.bssid = ap.bssid.toLowerCase().replace(/-/g, ':');
+          return ap;
+        }),
+      ];
+      break;
+    case 'Location.Samples':
+      signals['Location.Samples'] = [
+        ...existing(signals['Location.Samples']),
+        ...items.map(i => normalize(i, LOCATION_FIELDS)),
+      ];
+      break;
+    default:
+      return false;
+  }
+  return true;
+}
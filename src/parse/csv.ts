@@ -3,58 +3,119 @@
 /**
  * ProofMode CSV metadata parser
  *
- * ProofMode v1 outputs metadata as CSV with key-value pairs.
+ * ProofMode outputs metadata as CSV in one of two layouts: key-value pairs
+ * (one per line), or a header row of field names followed by data rows.
+ * Fields follow RFC 4180 — quoted fields may contain commas, line breaks
+ * and `""` escaped quotes, and lines may end in CRLF.
  */
 
-import type { ProofModeMetadata, ProofModeSignals } from '../types';
-import { extractSignals } from './signals';
+import type { CSVLayout, ProofModeMetadata, ProofModeSignals } from '../types';
+import { extractSignals, isKnownField } from './signals';
 
 /**
- * Parse ProofMode CSV metadata.
+ * Split CSV text into records of fields (RFC 4180).
  *
- * Format is typically:
- * ```
- * key,value
- * Location.Latitude,40.7484
- * Location.Longitude,-73.9857
- * ...
- * ```
- *
- * Some bundles use colon-separated or tab-separated formats.
+ * Lenient where the RFC is strict: an unterminated quote runs to the end of
+ * the text, and text after a closing quote is kept.
  */
-export function parseCSV(csvText: string): ProofModeMetadata {
-  const raw: Record<string, string> = {};
-  const lines = csvText.trim().split('\n');
+export function readCSVRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = 0;
 
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith('#')) continue;
+  const endField = () => {
+    record.push(field);
+    field = '';
+  };
+  const endRecord = () => {
+    endField();
+    records.push(record);
+    record = [];
+  };
+
+  while (i < text.length) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        quoted = false;
+      } else {
+        field += c;
+      }
+      i++;
+    } else if (c === '"' && field.trim() === '') {
+      field = '';
+      quoted = true;
+      i++;
+    } else if (c === ',') {
+      endField();
+      i++;
+    } else if (c === '\r' || c === '\n') {
+      endRecord();
+      i += c === '\r' && text[i + 1] === '\n' ? 2 : 1;
+    } else {
+      field += c;
+      i++;
+    }
+  }
+  if (field !== '' || record.length > 0) endRecord();
+
+  return records;
+}
+
+const isBlank = (record: string[]) => record.every(f => f.trim() === '');
+const isComment = (record: string[]) => record[0].trimStart().startsWith('#');
+const looksLikeFieldName = (value: string) => /^[A-Za-z][\w .\-]*$/.test(value.trim());
+
+/**
+ * Decide the layout from the first two records. A header row is made of
+ * field names and has as many columns as the row after it. With only two
+ * columns, the first record of a key-value file is itself a pair, so the
+ * header must name two known ProofMode fields; what the next row holds
+ * says nothing, as a value such as `gps` looks like a name too.
+ */
+function detectLayout(records: string[][]): CSVLayout {
+  const [header, next] = records;
+  if (!header || !next || header.length < 2 || next.length !== header.length) return 'key-value';
+  if (!header.every(looksLikeFieldName)) return 'key-value';
+  if (header.length > 2) return 'wide';
+  return header.every(isKnownField) ? 'wide' : 'key-value';
+}
+
+/**
+ * Read one `key,value` pair per record. Records without a comma fall back
+ * to tab- or colon-separated pairs, and an unquoted value that contains
+ * commas is kept whole.
+ */
+function readKeyValue(records: string[][]): Record<string, string> {
+  const raw: Record<string, string> = {};
 
-    // Try comma, then colon, then tab
+  for (const record of records) {
     let key: string;
     let value: string;
 
-    const commaIdx = trimmed.indexOf(',');
-    const colonIdx = trimmed.indexOf(':');
-    const tabIdx = trimmed.indexOf('\t');
-
-    if (commaIdx > 0) {
-      key = trimmed.substring(0, commaIdx).trim();
-      value = trimmed.substring(commaIdx + 1).trim();
-    } else if (tabIdx > 0) {
-      key = trimmed.substring(0, tabIdx).trim();
-      value = trimmed.substring(tabIdx + 1).trim();
-    } else if (colonIdx > 0) {
-      key = trimmed.substring(0, colonIdx).trim();
-      value = trimmed.substring(colonIdx + 1).trim();
+    if (record.length > 1) {
+      key = record[0];
+      value = record.slice(1).join(',');
     } else {
-      continue;
+      const line = record[0];
+      const tabIdx = line.indexOf('\t');
+      const colonIdx = line.indexOf(':');
+      const idx = tabIdx > 0 ? tabIdx : colonIdx;
+      if (idx <= 0) continue;
+      key = line.substring(0, idx);
+      value = line.substring(idx + 1);
     }
 
-    // Strip quotes
-    if (value.startsWith('"') && value.endsWith('"')) {
-      value = value.slice(1, -1);
-    }
+    key = key.trim();
+    value = value.trim();
+    if (!key) continue;
 
     // Skip header row
     if (key.toLowerCase() === 'key' && value.toLowerCase() === 'value') continue;
@@ -62,6 +123,58 @@ export function parseCSV(csvText: string): ProofModeMetadata {
     raw[key] = value;
   }
 
+  return raw;
+}
+
+function readRow(header: string[], row: string[]): Record<string, string> {
+  const raw: Record<string, string> = {};
+  header.forEach((name, i) => {
+    const key = name.trim();
+    if (key && row[i] !== undefined) raw[key] = row[i];
+  });
+  return raw;
+}
+
+/**
+ * Parse ProofMode CSV metadata.
+ *
+ * Key-value layout:
+ * ```
+ * key,value
+ * Location.Latitude,40.7484
+ * Location.Longitude,-73.9857
+ * ...
+ * ```
+ *
+ * Wide layout:
+ * ```
+ * Location.Latitude,Location.Longitude,CellInfo,...
+ * 40.7484,-73.9857,"[{""cid"":1},{""cid"":2}]",...
+ * ```
+ *
+ * The detected layout is reported in `csvLayout`. A wide file may hold
+ * several data rows: `signals` comes from the first and `rows` holds all.
+ * Some key-value bundles use colon-separated or tab-separated pairs.
+ */
+export function parseCSV(csvText: string): ProofModeMetadata {
+  const records = readCSVRecords(csvText).filter(r => !isBlank(r) && !isComment(r));
+  const layout = detectLayout(records);
+
+  if (layout === 'wide') {
+    const [header, ...data] = records;
+    const rawRows = data.map(row => readRow(header, row));
+    const rows: ProofModeSignals[] = rawRows.map(extractSignals);
+    const first = rawRows[0];
+    return {
+      signals: rows[0],
+      format: 'csv',
+      fileHash: first['FileHash'] || first['File.Hash'],
+      csvLayout: layout,
+      rows,
+    };
+  }
+
+  const raw = readKeyValue(records);
   const signals = extractSignals(raw);
-  return { signals, format: 'csv', fileHash: raw['FileHash'] || raw['File.Hash'] };
+  return { signals, format: 'csv', fileHash: raw['FileHash'] || raw['File.Hash'], csvLayout: layout };
 }
@@ -0,0 +1,202 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * EXIF (TIFF) parser
+ *
+ * Reads the handful of tags verification needs — make, model, orientation,
+ * capture time and GPS position — from a TIFF-structured EXIF block. Any
+ * offset outside the block ends that IFD quietly: media files are
+ * untrusted, and a damaged EXIF block just means less metadata.
+ */
+
+import type { MediaMetadata } from '../types';
+
+/** TIFF field type sizes in bytes, indexed by type. */
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8,
+};
+
+const TAG = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  exifIFD: 0x8769,
+  gpsIFD: 0x8825,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+} as const;
+
+const GPS_TAG = {
+  latitudeRef: 1,
+  latitude: 2,
+  longitudeRef: 3,
+  longitude: 4,
+  altitudeRef: 5,
+  altitude: 6,
+  timeStamp: 7,
+  dateStamp: 29,
+  hPositioningError: 31,
+} as const;
+
+/** Upper bound on entries read from one IFD. */
+const MAX_IFD_ENTRIES = 512;
+
+type TagValue = string | number[];
+
+class TIFFReader {
+  private readonly view: DataView;
+  private readonly little: boolean;
+
+  constructor(private readonly data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const order = String.fromCharCode(data[0] ?? 0, data[1] ?? 0);
+    if (order !== 'II' && order !== 'MM') throw new Error('Not a TIFF block');
+    this.little = order === 'II';
+    if (this.u16(2) !== 42) throw new Error('Not a TIFF block');
+  }
+
+  u16(offset: number): number {
+    return this.view.getUint16(offset, this.little);
+  }
+
+  u32(offset: number): number {
+    return this.view.getUint32(offset, this.little);
+  }
+
+  /** Read an IFD into a tag → value map. */
+  readIFD(offset: number): Map<number, TagValue> {
+    const tags = new Map<number, TagValue>();
+    if (offset < 8 || offset + 2 > this.data.length) return tags;
+
+    const count = Math.min(this.u16(offset), MAX_IFD_ENTRIES);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > this.data.length) break;
+      const value = this.readEntry(entry);
+      if (value !== undefined) tags.set(this.u16(entry), value);
+    }
+    return tags;
+  }
+
+  private readEntry(entry: number): TagValue | undefined {
+    const type = this.u16(entry + 2);
+    const count = this.u32(entry + 4);
+    const size = TYPE_SIZES[type];
+    if (!size) return undefined;
+
+    const length = size * count;
+    const start = length <= 4 ? entry + 8 : this.u32(entry + 8);
+    if (start + length > this.data.length) return undefined;
+
+    if (type === 2) {
+      const bytes = this.data.subarray(start, start + length);
+      const end = bytes.indexOf(0);
+      return new TextDecoder().decode(end >= 0 ? bytes.subarray(0, end) : bytes).trim();
+    }
+
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const at = start + i * size;
+      switch (type) {
+        case 3: values.push(this.u16(at)); break;
+        case 4: values.push(this.u32(at)); break;
+        case 8: values.push(this.view.getInt16(at, this.little)); break;
+        case 9: values.push(this.view.getInt32(at, this.little)); break;
+        case 5: values.push(this.u32(at) / this.u32(at + 4)); break;
+        case 10: values.push(this.view.getInt32(at, this.little) / this.view.getInt32(at + 4, this.little)); break;
+        case 11: values.push(this.view.getFloat32(at, this.little)); break;
+        case 12: values.push(this.view.getFloat64(at, this.little)); break;
+        default: values.push(this.data[at]);
+      }
+    }
+    return values;
+  }
+}
+
+const text = (value: TagValue | undefined) =>
+  typeof value === 'string' && value !== '' ? value : undefined;
+const numbers = (value: TagValue | undefined) =>
+  Array.isArray(value) && value.every(Number.isFinite) ? value : undefined;
+
+/**
+ * Parse an EXIF `YYYY:MM:DD HH:MM:SS` time as UTC, in Unix seconds.
+ */
+export function parseExifDateTime(value: string): number | undefined {
+  const m = /^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!m) return undefined;
+  const ms = Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]);
+  return Number.isNaN(ms) ? undefined : ms / 1000;
+}
+
+/**
+ * Parse a `+HH:MM` / `-HH:MM` / `Z` UTC offset into seconds.
+ */
+export function parseUTCOffset(value: string): number | undefined {
+  if (value === 'Z') return 0;
+  const m = /^([+-])(\d{2}):?(\d{2})$/.exec(value.trim());
+  if (!m) return undefined;
+  return (m[1] === '-' ? -1 : 1) * (+m[2] * 3600 + +m[3] * 60);
+}
+
+/** Degrees/minutes/seconds with a hemisphere reference to signed degrees. */
+function coordinate(dms: number[] | undefined, ref: string | undefined, negative: string): number | undefined {
+  if (!dms || dms.length === 0) return undefined;
+  const [d, m = 0, s = 0] = dms;
+  const degrees = d + m / 60 + s / 3600;
+  return ref?.toUpperCase() === negative ? -degrees : degrees;
+}
+
+/**
+ * Extract capture metadata from an EXIF block (TIFF header onwards).
+ *
+ * @throws Error if the block has no TIFF header
+ */
+export function parseExif(data: Uint8Array): Partial<MediaMetadata> {
+  const reader = new TIFFReader(data);
+  const ifd0 = reader.readIFD(reader.u32(4));
+  const exifOffset = numbers(ifd0.get(TAG.exifIFD))?.[0];
+  const gpsOffset = numbers(ifd0.get(TAG.gpsIFD))?.[0];
+  const exif = exifOffset ? reader.readIFD(exifOffset) : new Map<number, TagValue>();
+  const gps = gpsOffset ? reader.readIFD(gpsOffset) : new Map<number, TagValue>();
+
+  const result: Partial<MediaMetadata> = {
+    make: text(ifd0.get(TAG.make)),
+    model: text(ifd0.get(TAG.model)),
+    orientation: numbers(ifd0.get(TAG.orientation))?.[0],
+  };
+
+  const dateTimeOriginal = text(exif.get(TAG.dateTimeOriginal));
+  const local = dateTimeOriginal ? parseExifDateTime(dateTimeOriginal) : undefined;
+  if (dateTimeOriginal && local !== undefined) {
+    const offsetText = text(exif.get(TAG.offsetTimeOriginal));
+    const offset = offsetText ? parseUTCOffset(offsetText) : undefined;
+    result.dateTimeOriginal = dateTimeOriginal;
+    result.captureTime = local - (offset ?? 0);
+    result.timeZoneKnown = offset !== undefined;
+  }
+
+  const latitude = coordinate(numbers(gps.get(GPS_TAG.latitude)), text(gps.get(GPS_TAG.latitudeRef)), 'S');
+  const longitude = coordinate(numbers(gps.get(GPS_TAG.longitude)), text(gps.get(GPS_TAG.longitudeRef)), 'W');
+  if (latitude !== undefined && longitude !== undefined) {
+    result.latitude = latitude;
+    result.longitude = longitude;
+  }
+
+  const altitude = numbers(gps.get(GPS_TAG.altitude))?.[0];
+  if (altitude !== undefined) {
+    // GPSAltitudeRef 1 means below sea level
+    result.altitude = numbers(gps.get(GPS_TAG.altitudeRef))?.[0] === 1 ? -altitude : altitude;
+  }
+  result.gpsAccuracy = numbers(gps.get(GPS_TAG.hPositioningError))?.[0];
+
+  const dateStamp = text(gps.get(GPS_TAG.dateStamp));
+  const timeStamp = numbers(gps.get(GPS_TAG.timeStamp));
+  if (dateStamp && timeStamp?.length === 3) {
+    const day = parseExifDateTime(`${dateStamp} 00:00:00`);
+    if (day !== undefined) {
+      result.gpsTime = Math.round(day + timeStamp[0] * 3600 + timeStamp[1] * 60 + timeStamp[2]);
+    }
+  }
+
+  return result;
+}
@@ -1,6 +1,15 @@
 // Copyright © 2026 Sophia Systems Corporation
 
-export { parseBundle } from './bundle';
+export { parseBundle, parseBundleItems } from './bundle';
+export { parseBundleStream } from './stream';
+export { DEFAULT_BUNDLE_LIMITS } from './limits';
+export type { StreamParseOptions, BundleSource } from './stream';
 export { parseCSV } from './csv';
 export { parseJSON } from './json';
-export { extractSignals } from './signals';
+export { parseCellInfo } from './cellinfo';
+export { extractMediaMetadata, extractJUMBF } from './media';
+export { parseJUMBF } from './jumbf';
+export type { JUMBFBox, JUMBFSuperbox } from './jumbf';
+export { parseExif } from './exif';
+export { parseXMP } from './xmp';
+export { extractSignals, platformFromSignals } from './signals';
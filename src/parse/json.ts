@@ -3,37 +3,58 @@
 /**
  * ProofMode JSON metadata parser
  *
- * ProofMode v1 can output metadata as JSON.
+ * ProofMode v1 can output metadata as JSON. Nested objects are flattened to
+ * dot-separated keys; arrays of objects become typed collections.
  */
 
-import type { ProofModeMetadata } from '../types';
+import type { ProofModeMetadata, ProofModeSignals } from '../types';
 import { extractSignals } from './signals';
+import { addCollection } from './collections';
 
 /**
  * Parse ProofMode JSON metadata.
+ *
+ * Arrays of cell towers, WiFi access points and location samples are
+ * parsed into `Cells`, `WiFi.AccessPoints` and `Location.Samples`. Their
+ * original key still holds the array, as JSON text.
  */
 export function parseJSON(jsonText: string): ProofModeMetadata {
   const parsed = JSON.parse(jsonText);
 
   // ProofMode JSON can be a flat object or nested
   const raw: Record<string, string> = {};
+  const arrays: Array<[string, unknown[]]> = [];
 
   if (typeof parsed === 'object' && parsed !== null) {
-    flattenObject(parsed, '', raw);
+    flattenObject(parsed, '', raw, arrays);
   }
 
-  const signals = extractSignals(raw);
+  // Collections from the arrays themselves win over any re-parsed from text
+  const collections: ProofModeSignals = {};
+  for (const [key, values] of arrays) {
+    addCollection(collections, key, values);
+  }
+  const signals = { ...extractSignals(raw), ...collections };
   return { signals, format: 'json', fileHash: raw['FileHash'] || raw['File.Hash'] };
 }
 
 /**
- * Flatten a nested object into dot-separated key-value pairs.
+ * Flatten a nested object into dot-separated key-value pairs, setting aside
+ * arrays that contain objects.
  */
-function flattenObject(obj: Record<string, unknown>, prefix: string, result: Record<string, string>): void {
+function flattenObject(
+  obj: Record<string, unknown>,
+  prefix: string,
+  result: Record<string, string>,
+  arrays: Array<[string, unknown[]]>
+): void {
   for (const [key, value] of Object.entries(obj)) {
     const fullKey = prefix ? `${prefix}.${key}` : key;
-    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-      flattenObject(value as Record<string, unknown>, fullKey, result);
+    if (Array.isArray(value) && value.some(v => typeof v === 'object' && v !== null)) {
+      arrays.push([fullKey, value]);
+      result[fullKey] = JSON.stringify(value);
+    } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      flattenObject(value as Record<string, unknown>, fullKey, result, arrays);
     } else {
       result[fullKey] = String(value);
     }
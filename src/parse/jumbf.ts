@@ -0,0 +1,84 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * JUMBF (ISO/IEC 19566-5) parser
+ *
+ * A JUMBF superbox (`jumb`) holds a description box (`jumd`) with a
+ * content type UUID and an optional label, followed by content boxes or
+ * nested superboxes. C2PA manifest stores are JUMBF trees addressed by
+ * these labels.
+ */
+
+import { boxes } from './media';
+
+/** A content box inside a superbox, e.g. `cbor` or `json`. */
+export interface JUMBFBox {
+  type: string;
+  payload: Uint8Array;
+}
+
+/** A parsed `jumb` superbox. */
+export interface JUMBFSuperbox {
+  /** Content type UUID from the description box (lowercase hex) */
+  contentType: string;
+  label?: string;
+  /** Superbox bytes after its own header: description and content boxes */
+  contents: Uint8Array;
+  /** Content boxes, in order */
+  boxes: JUMBFBox[];
+  /** Nested superboxes, in order */
+  children: JUMBFSuperbox[];
+}
+
+/** Description box toggle bits. */
+const TOGGLE_LABEL = 0x02;
+
+const utf8 = new TextDecoder();
+
+/** Nesting depth beyond which input is rejected as hostile. */
+const MAX_DEPTH = 32;
+
+function parseSuperbox(contents: Uint8Array, depth: number): JUMBFSuperbox {
+  if (depth > MAX_DEPTH) throw new Error('JUMBF: nesting too deep');
+  const children = [...boxes(contents, 0, contents.length)];
+  const description = children[0];
+  if (!description || description.type !== 'jumd' || description.end - description.start < 17) {
+    throw new Error('JUMBF: superbox has no description box');
+  }
+
+  const contentType = Array.from(
+    contents.subarray(description.start, description.start + 16),
+    b => b.toString(16).padStart(2, '0')
+  ).join('');
+  const toggles = contents[description.start + 16];
+  let label: string | undefined;
+  if (toggles & TOGGLE_LABEL) {
+    const labelStart = description.start + 17;
+    const labelEnd = contents.indexOf(0, labelStart);
+    if (labelEnd < 0 || labelEnd >= description.end) throw new Error('JUMBF: unterminated label');
+    label = utf8.decode(contents.subarray(labelStart, labelEnd));
+  }
+
+  const superbox: JUMBFSuperbox = { contentType, label, contents, boxes: [], children: [] };
+  for (const box of children.slice(1)) {
+    const payload = contents.subarray(box.start, box.end);
+    if (box.type === 'jumb') {
+      superbox.children.push(parseSuperbox(payload, depth + 1));
+    } else {
+      superbox.boxes.push({ type: box.type, payload });
+    }
+  }
+  return superbox;
+}
+
+/**
+ * Parse a JUMBF superbox, header included.
+ * @throws Error if the data is not a well-formed `jumb` box
+ */
+export function parseJUMBF(data: Uint8Array): JUMBFSuperbox {
+  const [box] = boxes(data, 0, data.length);
+  if (!box || box.type !== 'jumb') {
+    throw new Error('JUMBF: data is not a jumb superbox');
+  }
+  return parseSuperbox(data.subarray(box.start, box.end), 0);
+}
@@ -0,0 +1,143 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Archive safeguards
+ *
+ * Bundles come from the public, so every entry is checked from its ZIP
+ * header before it is inflated: entry count, declared sizes, compression
+ * ratio, and names that could traverse out of an extraction directory.
+ * Streamed entries, whose sizes may be unknown up front, are also counted
+ * as they inflate.
+ */
+
+import type { BundleLimits } from '../types';
+import {
+  BundleError,
+  BundleTooLargeError,
+  MalformedBundleError,
+  SuspiciousEntryError,
+} from '../errors';
+
+export const DEFAULT_BUNDLE_LIMITS: BundleLimits = {
+  maxEntries: 2000,
+  maxEntrySize: 1024 * 1024 * 1024,
+  maxTotalSize: 2 * 1024 * 1024 * 1024,
+  maxCompressionRatio: 100,
+};
+
+/** Small entries legitimately compress very well (CSV, padding), so the ratio is only checked above this. */
+const RATIO_CHECK_THRESHOLD = 1024 * 1024;
+
+/**
+ * Reject names that are absolute, contain `..` segments, backslashes,
+ * drive letters or control characters.
+ */
+export function checkEntryName(name: string): void {
+  const reason =
+    name.length === 0 ? 'empty name' :
+    /[\x00-\x1f]/.test(name) ? 'control character in name' :
+    name.includes('\\') ? 'backslash in name' :
+    name.startsWith('/') ? 'absolute path' :
+    /^[a-zA-Z]:/.test(name) ? 'drive letter' :
+    name.split('/').includes('..') ? 'path traversal' :
+    undefined;
+
+  if (reason) {
+    throw new SuspiciousEntryError(`Suspicious bundle entry ${JSON.stringify(name)}: ${reason}`, name);
+  }
+}
+
+/**
+ * Tracks entries as they are read and throws as soon as a limit is crossed.
+ */
+export class EntryGuard {
+  private readonly limits: BundleLimits;
+  private readonly names = new Set<string>();
+  private totalSize = 0;
+
+  constructor(limits: Partial<BundleLimits> = {}) {
+    this.limits = { ...DEFAULT_BUNDLE_LIMITS, ...limits };
+  }
+
+  /**
+   * Admit an entry by name, before any of its data is read.
+   */
+  enter(name: string): void {
+    checkEntryName(name);
+    if (this.names.has(name)) {
+      throw new SuspiciousEntryError(`Duplicate bundle entry ${JSON.stringify(name)}`, name);
+    }
+    this.names.add(name);
+
+    if (this.names.size > this.limits.maxEntries) {
+      throw new BundleTooLargeError(
+        `Bundle has more than ${this.limits.maxEntries} entries`,
+        'maxEntries',
+        this.names.size
+      );
+    }
+  }
+
+  /**
+   * Check the sizes an entry's header declares. Only sound when the
+   * decompressor never writes past the declared size, as unzipSync does.
+   */
+  declared(name: string, compressedSize: number, originalSize: number): void {
+    this.checkEntry(name, originalSize, compressedSize);
+    this.grow(originalSize);
+  }
+
+  /**
+   * Count bytes of a streamed entry as they inflate.
+   *
+   * @param entrySize - Bytes inflated so far for this entry
+   * @param chunkSize - Bytes in the latest chunk
+   * @param compressedSize - Compressed size from the header, if known
+   */
+  inflated(name: string, entrySize: number, chunkSize: number, compressedSize?: number): void {
+    this.checkEntry(name, entrySize, compressedSize);
+    this.grow(chunkSize);
+  }
+
+  private checkEntry(name: string, size: number, compressedSize?: number): void {
+    if (size > this.limits.maxEntrySize) {
+      throw new BundleTooLargeError(
+        `Bundle entry ${JSON.stringify(name)} exceeds ${this.limits.maxEntrySize} bytes`,
+        'maxEntrySize',
+        size
+      );
+    }
+
+    if (compressedSize !== undefined && size > RATIO_CHECK_THRESHOLD) {
+      const ratio = size / Math.max(compressedSize, 1);
+      if (ratio > this.limits.maxCompressionRatio) {
+        throw new BundleTooLargeError(
+          `Bundle entry ${JSON.stringify(name)} has compression ratio ${Math.round(ratio)}, ` +
+            `over ${this.limits.maxCompressionRatio}`,
+          'maxCompressionRatio',
+          ratio
+        );
+      }
+    }
+  }
+
+  private grow(size: number): void {
+    this.totalSize += size;
+    if (this.totalSize > this.limits.maxTotalSize) {
+      throw new BundleTooLargeError(
+        `Bundle exceeds ${this.limits.maxTotalSize} bytes decompressed`,
+        'maxTotalSize',
+        this.totalSize
+      );
+    }
+  }
+}
+
+/**
+ * Pass BundleErrors through; anything the ZIP reader threw means the archive is malformed.
+ */
+export function asBundleError(err: unknown): BundleError {
+  if (err instanceof BundleError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  return new MalformedBundleError(`Invalid ProofMode bundle ZIP: ${message}`);
+}
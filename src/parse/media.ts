@@ -0,0 +1,333 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Media metadata extraction
+ *
+ * Finds the EXIF and XMP blocks in JPEG, PNG and HEIC files and reads them
+ * with parseExif and parseXMP, and finds embedded C2PA manifest stores
+ * (JUMBF). Only the container structure is walked; no image data is decoded.
+ */
+
+import { unzlibSync } from 'fflate';
+import type { MediaFormat, MediaMetadata } from '../types';
+import { parseExif } from './exif';
+import { parseXMP } from './xmp';
+
+const XMP_JPEG_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp';
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const HEIF_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1', 'avif'];
+/** ISOBMFF `uuid` box type carrying a C2PA manifest store. */
+const C2PA_BMFF_UUID = 'd8fec3d61b0e483c92975828877ec481';
+
+/** Raw metadata blocks found in a container. */
+interface MetadataBlocks {
+  format: MediaFormat;
+  exif?: Uint8Array;
+  xmp?: string;
+  /** JUMBF superboxes, e.g. a C2PA manifest store */
+  jumbf: Uint8Array[];
+}
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder();
+
+const ascii = (data: Uint8Array, start: number, length: number) =>
+  latin1.decode(data.subarray(start, start + length));
+
+const u16 = (d: Uint8Array, o: number) => (d[o] << 8) | d[o + 1];
+const u32 = (d: Uint8Array, o: number) => ((d[o] << 24) | (d[o + 1] << 16) | (d[o + 2] << 8) | d[o + 3]) >>> 0;
+
+/**
+ * Reassemble JUMBF boxes split across APP11 segments. Each segment carries
+ * `JP`, a box instance number, a sequence number and then the box; from the
+ * second segment on the box header (LBox/TBox) is repeated and dropped.
+ */
+function assembleJPEGJUMBF(segments: Map<number, Array<[number, Uint8Array]>>): Uint8Array[] {
+  return [...segments.values()].map(parts => {
+    const ordered = parts.sort((a, b) => a[0] - b[0]).map(([, payload], i) => (i === 0 ? payload : payload.subarray(8)));
+    const out = new Uint8Array(ordered.reduce((n, p) => n + p.length, 0));
+    let at = 0;
+    for (const part of ordered) {
+      out.set(part, at);
+      at += part.length;
+    }
+    return out;
+  });
+}
+
+function readJPEG(data: Uint8Array): MetadataBlocks {
+  const blocks: MetadataBlocks = { format: 'jpeg', jumbf: [] };
+  const jumbfSegments = new Map<number, Array<[number, Uint8Array]>>();
+  let pos = 2;
+  while (pos + 4 <= data.length && data[pos] === 0xff) {
+    const marker = data[pos + 1];
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) { pos++; continue; }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) { pos += 2; continue; }
+    // Start of scan: image data follows
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = u16(data, pos + 2);
+    const start = pos + 4;
+    const end = pos + 2 + length;
+    if (length < 2 || end > data.length) break;
+
+    if (marker === 0xe1) {
+      if (!blocks.exif && ascii(data, start, 6) === 'Exif\0\0') {
+        blocks.exif = data.subarray(start + 6, end);
+      } else if (!blocks.xmp && ascii(data, start, XMP_JPEG_HEADER.length) === XMP_JPEG_HEADER) {
+        blocks.xmp = utf8.decode(data.subarray(start + XMP_JPEG_HEADER.length, end));
+      }
+    } else if (marker === 0xeb && end - start >= 16 && ascii(data, start, 2) === 'JP') {
+      const instance = u16(data, start + 2);
+      const parts = jumbfSegments.get(instance) ?? [];
+      parts.push([u32(data, start + 4), data.subarray(start + 8, end)]);
+      jumbfSegments.set(instance, parts);
+    }
+    pos = end;
+  }
+  blocks.jumbf = assembleJPEGJUMBF(jumbfSegments);
+  return blocks;
+}
+
+/** Text of an iTXt chunk if its keyword is the XMP one. */
+function pngXMP(chunk: Uint8Array): string | undefined {
+  const keywordEnd = chunk.indexOf(0);
+  if (keywordEnd < 0 || ascii(chunk, 0, keywordEnd) !== XMP_PNG_KEYWORD) return undefined;
+  const compressed = chunk[keywordEnd + 1] === 1;
+  // Skip the language tag and translated keyword, both null-terminated
+  const languageEnd = chunk.indexOf(0, keywordEnd + 3);
+  const translatedEnd = languageEnd < 0 ? -1 : chunk.indexOf(0, languageEnd + 1);
+  if (translatedEnd < 0) return undefined;
+  const text = chunk.subarray(translatedEnd + 1);
+  return utf8.decode(compressed ? unzlibSync(text) : text);
+}
+
+function readPNG(data: Uint8Array): MetadataBlocks {
+  const blocks: MetadataBlocks = { format: 'png', jumbf: [] };
+  let pos = PNG_SIGNATURE.length;
+  while (pos + 8 <= data.length) {
+    const length = u32(data, pos);
+    const type = ascii(data, pos + 4, 4);
+    const start = pos + 8;
+    if (start + length > data.length || type === 'IEND') break;
+
+    const chunk = data.subarray(start, start + length);
+    if (type === 'eXIf' && !blocks.exif) {
+      blocks.exif = chunk;
+    } else if (type === 'iTXt' && !blocks.xmp) {
+      blocks.xmp = pngXMP(chunk);
+    } else if (type === 'caBX') {
+      blocks.jumbf.push(chunk);
+    }
+    pos = start + length + 4; // data + CRC
+  }
+  return blocks;
+}
+
+/** An ISOBMFF box: type and the byte range of its payload. */
+export interface Box {
+  type: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Iterate the ISOBMFF boxes between `start` and `end`, stopping at the
+ * first malformed size. JUMBF uses the same box structure.
+ */
+export function* boxes(data: Uint8Array, start: number, end: number): Generator<Box> {
+  let pos = start;
+  while (pos + 8 <= end) {
+    let size = u32(data, pos);
+    const type = ascii(data, pos + 4, 4);
+    let header = 8;
+    if (size === 1) {
+      if (pos + 16 > end) return;
+      size = u32(data, pos + 8) * 2 ** 32 + u32(data, pos + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = end - pos;
+    }
+    if (size < header || pos + size > end) return;
+    yield { type, start: pos + header, end: pos + size };
+    pos += size;
+  }
+}
+
+const child = (data: Uint8Array, box: Box, type: string, skip = 0) =>
+  [...boxes(data, box.start + skip, box.end)].find(b => b.type === type);
+
+/** Read an unsigned big-endian integer of 0, 4 or 8 bytes. */
+function uint(data: Uint8Array, pos: number, size: number): number {
+  if (size === 0) return 0;
+  if (size === 4) return u32(data, pos);
+  if (size === 8) return u32(data, pos) * 2 ** 32 + u32(data, pos + 4);
+  return size === 2 ? u16(data, pos) : data[pos];
+}
+
+/** Item ID → item type (or MIME content type for `mime` items) from `iinf`. */
+function itemTypes(data: Uint8Array, iinf: Box): Map<number, string> {
+  const types = new Map<number, string>();
+  const version = data[iinf.start];
+  const skip = 4 + (version === 0 ? 2 : 4);
+  for (const infe of boxes(data, iinf.start + skip, iinf.end)) {
+    if (infe.type !== 'infe' || data[infe.start] < 2) continue;
+    const wide = data[infe.start] >= 3;
+    const id = wide ? u32(data, infe.start + 4) : u16(data, infe.start + 4);
+    const typeAt = infe.start + 4 + (wide ? 4 : 2) + 2;
+    let type = ascii(data, typeAt, 4);
+    if (type === 'mime') {
+      // item_name, then content_type, both null-terminated
+      const nameEnd = data.indexOf(0, typeAt + 4);
+      const typeEnd = nameEnd < 0 ? -1 : data.indexOf(0, nameEnd + 1);
+      if (typeEnd > 0 && typeEnd < infe.end) type = ascii(data, nameEnd + 1, typeEnd - nameEnd - 1);
+    }
+    types.set(id, type);
+  }
+  return types;
+}
+
+/** Item ID → item bytes from `iloc`, for items stored in the file. */
+function itemData(data: Uint8Array, iloc: Box, wanted: Set<number>): Map<number, Uint8Array> {
+  const items = new Map<number, Uint8Array>();
+  const version = data[iloc.start];
+  let pos = iloc.start + 4;
+  const offsetSize = data[pos] >> 4;
+  const lengthSize = data[pos] & 0x0f;
+  const baseOffsetSize = data[pos + 1] >> 4;
+  const indexSize = version >= 1 ? data[pos + 1] & 0x0f : 0;
+  pos += 2;
+  const count = version < 2 ? u16(data, pos) : u32(data, pos);
+  pos += version < 2 ? 2 : 4;
+
+  for (let i = 0; i < count && pos < iloc.end; i++) {
+    const id = version < 2 ? u16(data, pos) : u32(data, pos);
+    pos += version < 2 ? 2 : 4;
+    const method = version >= 1 ? u16(data, pos) & 0x0f : 0;
+    if (version >= 1) pos += 2;
+    pos += 2; // data_reference_index
+    const base = uint(data, pos, baseOffsetSize);
+    pos += baseOffsetSize;
+    const extents = u16(data, pos);
+    pos += 2;
+
+    const parts: Uint8Array[] = [];
+    for (let e = 0; e < extents; e++) {
+      pos += indexSize;
+      const offset = uint(data, pos, offsetSize);
+      pos += offsetSize;
+      const length = uint(data, pos, lengthSize);
+      pos += lengthSize;
+      const start = base + offset;
+      parts.push(data.subarray(start, length ? start + length : data.length));
+    }
+    // Only file-offset items (construction method 0) are supported
+    if (method === 0 && wanted.has(id) && parts.length > 0) {
+      items.set(id, parts.length === 1 ? parts[0] : new Uint8Array(parts.flatMap(p => [...p])));
+    }
+  }
+  return items;
+}
+
+/**
+ * The manifest store in a C2PA `uuid` box follows the UUID, version and
+ * flags, a null-terminated purpose and an 8-byte offset.
+ */
+function bmffJUMBF(data: Uint8Array, box: Box): Uint8Array | undefined {
+  const uuid = Array.from(data.subarray(box.start, box.start + 16), b => b.toString(16).padStart(2, '0')).join('');
+  if (uuid !== C2PA_BMFF_UUID) return undefined;
+  const purposeEnd = data.indexOf(0, box.start + 20);
+  if (purposeEnd < 0 || purposeEnd >= box.end) return undefined;
+  const start = purposeEnd + 1 + 8;
+  return start < box.end ? data.subarray(start, box.end) : undefined;
+}
+
+function readHEIF(data: Uint8Array): MetadataBlocks {
+  const blocks: MetadataBlocks = { format: 'heic', jumbf: [] };
+  const topLevel = [...boxes(data, 0, data.length)];
+  for (const box of topLevel) {
+    const jumbf = box.type === 'uuid' ? bmffJUMBF(data, box) : undefined;
+    if (jumbf) blocks.jumbf.push(jumbf);
+  }
+  const meta = topLevel.find(b => b.type === 'meta');
+  if (!meta) return blocks;
+  // meta is a full box: version and flags precede its children
+  const iinf = child(data, meta, 'iinf', 4);
+  const iloc = child(data, meta, 'iloc', 4);
+  if (!iinf || !iloc) return blocks;
+
+  const types = itemTypes(data, iinf);
+  const exifId = [...types].find(([, type]) => type === 'Exif')?.[0];
+  const xmpId = [...types].find(([, type]) => type === 'application/rdf+xml')?.[0];
+  const wanted = new Set([exifId, xmpId].filter((id): id is number => id !== undefined));
+  const items = itemData(data, iloc, wanted);
+
+  const exif = exifId !== undefined ? items.get(exifId) : undefined;
+  if (exif && exif.length > 4) {
+    // The Exif item starts with the offset to its TIFF header
+    blocks.exif = exif.subarray(4 + u32(exif, 0));
+  }
+  const xmp = xmpId !== undefined ? items.get(xmpId) : undefined;
+  if (xmp) blocks.xmp = utf8.decode(xmp);
+  return blocks;
+}
+
+function readContainer(data: Uint8Array): MetadataBlocks | undefined {
+  if (data[0] === 0xff && data[1] === 0xd8) return readJPEG(data);
+  if (PNG_SIGNATURE.every((b, i) => data[i] === b)) return readPNG(data);
+  if (ascii(data, 4, 4) === 'ftyp' && HEIF_BRANDS.includes(ascii(data, 8, 4))) return readHEIF(data);
+  return undefined;
+}
+
+/**
+ * Extract capture metadata from a JPEG, PNG or HEIC file's EXIF and XMP.
+ * EXIF values take precedence over XMP. Returns undefined for other
+ * formats and for files with neither block; damaged blocks are skipped.
+ */
+export function extractMediaMetadata(data: Uint8Array): MediaMetadata | undefined {
+  let blocks: MetadataBlocks | undefined;
+  try {
+    blocks = readContainer(data);
+  } catch {
+    return undefined;
+  }
+  if (!blocks) return undefined;
+
+  const metadata: MediaMetadata = { format: blocks.format, sources: [] };
+  const merge = (values: Partial<MediaMetadata>) => {
+    for (const [key, value] of Object.entries(values)) {
+      if (value !== undefined && metadata[key as keyof MediaMetadata] === undefined) {
+        (metadata as unknown as Record<string, unknown>)[key] = value;
+      }
+    }
+  };
+
+  if (blocks.exif) {
+    try {
+      merge(parseExif(blocks.exif));
+      metadata.sources.push('exif');
+    } catch {
+      // Damaged EXIF: fall back to XMP
+    }
+  }
+  if (blocks.xmp) {
+    merge(parseXMP(blocks.xmp));
+    metadata.sources.push('xmp');
+  }
+  return metadata.sources.length > 0 ? metadata : undefined;
+}
+
+/**
+ * Extract the JUMBF superboxes embedded in a JPEG (APP11), PNG (caBX) or
+ * HEIC (C2PA uuid box). Returns an empty array for other formats and for
+ * damaged containers.
+ */
+export function extractJUMBF(data: Uint8Array): Uint8Array[] {
+  try {
+    return readContainer(data)?.jumbf ?? [];
+  } catch {
+    return [];
+  }
+}
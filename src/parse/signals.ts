@@ -4,9 +4,16 @@
  * Signal field extraction and typing
  *
  * Takes raw key-value pairs from CSV/JSON and produces typed ProofModeSignals.
+ * Android writes dotted keys (`Location.Latitude`); the iOS app writes
+ * spaced ones (`Location Latitude`) and CoreLocation names
+ * (`Location Horizontal Accuracy`), and ISO 8601 times. Times without a
+ * UTC offset are read as UTC wall-clock time and flagged with
+ * `Location.TimeZoneKnown: false`, for temporal.ts to resolve.
  */
 
-import type { ProofModeSignals } from '../types';
+import type { DevicePlatform, ProofModeSignals } from '../types';
+import { parseCellInfo } from './cellinfo';
+import { parseDateTime } from '../temporal';
 
 /** Fields that should be parsed as numbers. */
 const NUMERIC_FIELDS = new Set([
@@ -23,6 +30,7 @@ const NUMERIC_FIELDS = new Set([
 
 /**
  * Known field name aliases — normalizes variant names to canonical form.
+ * Matched ignoring case, spaces, dots, dashes and underscores.
  */
 const ALIASES: Record<string, string> = {
   'location.latitude': 'Location.Latitude',
@@ -60,8 +68,40 @@ const ALIASES: Record<string, string> = {
   filesize: 'File.Size',
   datecreated: 'DateCreated',
   timestamp: 'Timestamp',
+  // iOS
+  'location.horizontalaccuracy': 'Location.Accuracy',
+  'location.course': 'Location.Bearing',
+  'location.timestamp': 'Location.Time',
+  'file.hash.sha256': 'FileHash',
+  'device.model': 'Model',
+  identifierforvendor: 'DeviceID',
 };
 
+const squash = (key: string) => key.toLowerCase().replace(/[\s._-]/g, '');
+
+const ALIAS_LOOKUP = new Map(Object.entries(ALIASES).map(([alias, canonical]) => [squash(alias), canonical]));
+
+/**
+ * Whether a column name is a ProofMode field this module knows, under any
+ * of its aliases.
+ */
+export function isKnownField(name: string): boolean {
+  return ALIAS_LOOKUP.has(squash(name));
+}
+
+/** Model names of Apple devices, which run iOS or iPadOS. */
+const APPLE_MODELS = /^(iphone|ipad|ipod)/i;
+
+/**
+ * Infer the capturing platform from device metadata, for bundles that
+ * carry no attestation file.
+ */
+export function platformFromSignals(signals: ProofModeSignals): DevicePlatform {
+  const manufacturer = String(signals.Manufacturer ?? '');
+  const model = String(signals.Model ?? '');
+  return /^apple$/i.test(manufacturer) || APPLE_MODELS.test(model) ? 'ios' : 'android';
+}
+
 /**
  * Extract typed ProofMode signals from raw key-value pairs.
  */
@@ -70,13 +110,18 @@ export function extractSignals(raw: Record<string, string>): ProofModeSignals {
 
   for (const [rawKey, rawValue] of Object.entries(raw)) {
     // Normalize key
-    const canonical = ALIASES[rawKey.toLowerCase()] || rawKey;
+    const canonical = ALIAS_LOOKUP.get(squash(rawKey)) ?? rawKey;
     const value = rawValue.trim();
 
     if (!value) continue;
 
     // Type conversion
-    if (NUMERIC_FIELDS.has(canonical)) {
+    const date = canonical === 'Location.Time' && !/^-?[\d.]+$/.test(value) ? parseDateTime(value) : undefined;
+    if (date) {
+      // iOS writes an ISO 8601 date, not always with its offset; Android writes epoch milliseconds
+      signals[canonical] = date.time * 1000;
+      if (!date.zoneKnown) signals['Location.TimeZoneKnown'] = false;
+    } else if (NUMERIC_FIELDS.has(canonical)) {
       const num = parseFloat(value);
       if (!isNaN(num)) {
         signals[canonical] = num;
@@ -88,5 +133,11 @@ export function extractSignals(raw: Record<string, string>): ProofModeSignals {
     }
   }
 
+  // Structured view of the CellInfo string
+  if (typeof signals.CellInfo === 'string') {
+    const cells = parseCellInfo(signals.CellInfo);
+    if (cells.length > 0) signals.Cells = cells;
+  }
+
   return signals;
 }
@@ -0,0 +1,149 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Streaming ProofMode bundle parser
+ *
+ * Reads ZIP entries one chunk at a time instead of inflating the whole
+ * archive into memory. Proof files are small and buffered; media files are
+ * hashed as they stream and, unless asked to keep them, never held whole.
+ * Inflated bytes are counted against the bundle limits as they arrive, so
+ * a zip bomb is stopped mid-entry.
+ */
+
+import { Unzip, UnzipInflate } from 'fflate';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import type { BundleFile, BundleLimits, ParsedBundle } from '../types';
+import { assembleBundles, classifyEntry, type MediaEntry } from './bundle';
+import { EntryGuard, asBundleError } from './limits';
+
+/**
+ * Options for parseBundleStream.
+ */
+export interface StreamParseOptions {
+  /**
+   * Keep media bytes in `mediaFile` (default false). Without them the media
+   * is still hashed, so integrity checks work, but the media PGP signature
+   * cannot be verified and verifyBundle reports it invalid.
+   */
+  keepMedia?: boolean;
+  /** Overrides for DEFAULT_BUNDLE_LIMITS */
+  limits?: Partial<BundleLimits>;
+}
+
+/** Anything that yields the ZIP bytes in order. */
+export type BundleSource = AsyncIterable<Uint8Array> | ReadableStream<Uint8Array>;
+
+async function* chunks(source: BundleSource): AsyncIterable<Uint8Array> {
+  if ('getReader' in source) {
+    const reader = source.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+  yield* source as AsyncIterable<Uint8Array>;
+}
+
+function concatChunks(parts: Uint8Array[], size: number): Uint8Array {
+  const out = new Uint8Array(size);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * Parse a ProofMode bundle ZIP from a stream, one entry at a time.
+ *
+ * Returns one ParsedBundle per media item, like parseBundleItems. Every
+ * bundle has `mediaSha256` and `mediaSize`; `mediaFile` is only set with
+ * `keepMedia: true`.
+ */
+export async function parseBundleStream(
+  source: BundleSource,
+  options: StreamParseOptions = {}
+): Promise<ParsedBundle[]> {
+  const proofFiles: BundleFile[] = [];
+  const media: MediaEntry[] = [];
+  const guard = new EntryGuard(options.limits);
+  let failure: Error | undefined;
+
+  const unzip = new Unzip(file => {
+    if (failure) return;
+    try {
+      guard.enter(file.name);
+    } catch (err) {
+      failure = err as Error;
+      return;
+    }
+
+    const { kind } = classifyEntry(file.name);
+    if (kind === 'directory') return;
+
+    const parts: Uint8Array[] = [];
+    let size = 0;
+    const hash = kind === 'media' ? sha256.create() : undefined;
+    const keep = kind !== 'media' || options.keepMedia;
+
+    file.ondata = (err, chunk, final) => {
+      if (err) {
+        failure ??= asBundleError(err);
+        return;
+      }
+      if (failure) return;
+      size += chunk.length;
+      try {
+        guard.inflated(file.name, size, chunk.length, file.size || undefined);
+      } catch (guardErr) {
+        failure = guardErr as Error;
+        file.terminate();
+        return;
+      }
+      hash?.update(chunk);
+      if (keep) parts.push(chunk);
+      if (!final) return;
+
+      const data = keep ? concatChunks(parts, size) : undefined;
+      if (kind === 'media') {
+        media.push({ name: file.name, data, sha256: bytesToHex(hash!.digest()), size });
+      } else {
+        proofFiles.push({ name: file.name, data: data! });
+      }
+    };
+    file.start();
+  });
+  unzip.register(UnzipInflate);
+
+  const push = (chunk: Uint8Array, final?: boolean) => {
+    try {
+      unzip.push(chunk, final);
+    } catch (err) {
+      throw asBundleError(err);
+    }
+    if (failure) throw failure;
+  };
+
+  for await (const chunk of chunks(source)) {
+    push(chunk);
+  }
+  push(new Uint8Array(0), true);
+
+  const bundles = assembleBundles(proofFiles, media);
+
+  // A single-item bundle owns every file in the archive
+  if (bundles.length === 1) {
+    bundles[0].files = [
+      ...proofFiles,
+      ...media.flatMap(m => (m.data ? [{ name: m.name, data: m.data }] : [])),
+    ];
+  }
+  return bundles;
+}
@@ -0,0 +1,115 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * XMP packet parser
+ *
+ * Pulls the EXIF-equivalent properties out of an XMP packet without a full
+ * RDF parser. Properties may be written as attributes
+ * (`exif:GPSLatitude="40,44.904N"`) or as simple elements
+ * (`<tiff:Model>Pixel 7</tiff:Model>`); both forms are read.
+ */
+
+import type { MediaMetadata } from '../types';
+import { parseExifDateTime, parseUTCOffset } from './exif';
+
+function property(xmp: string, name: string): string | undefined {
+  const attribute = new RegExp(`\\b${name}\\s*=\\s*(["'])(.*?)\\1`, 's').exec(xmp);
+  if (attribute) return decodeEntities(attribute[2]).trim();
+  const element = new RegExp(`<${name}(?:\\s[^>]*)?>([^<]*)</${name}>`, 's').exec(xmp);
+  return element ? decodeEntities(element[1]).trim() : undefined;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * XMP GPS coordinates are `DDD,MM,SSk` or `DDD,MM.mmk`, k one of N/S/E/W.
+ */
+function coordinate(value: string | undefined): number | undefined {
+  const m = value && /^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?\s*([NSEW])$/i.exec(value);
+  if (!m) return undefined;
+  const degrees = +m[1] + +m[2] / 60 + (m[3] ? +m[3] / 3600 : 0);
+  return /[SW]/i.test(m[4]) ? -degrees : degrees;
+}
+
+/** XMP rationals are `n/d`. */
+function rational(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const [n, d = '1'] = value.split('/');
+  const result = Number(n) / Number(d);
+  return Number.isFinite(result) ? result : undefined;
+}
+
+/**
+ * Parse an ISO 8601 date-time; a missing zone leaves the time as local.
+ */
+function dateTime(value: string): { time: number; zoned: boolean } | undefined {
+  const m = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(Z|[+-]\d{2}:?\d{2})?$/.exec(value);
+  if (!m) {
+    const exif = parseExifDateTime(value);
+    return exif !== undefined ? { time: exif, zoned: false } : undefined;
+  }
+  const local = Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +(m[6] ?? 0)) / 1000;
+  const offset = m[7] ? parseUTCOffset(m[7]) : undefined;
+  return { time: local - (offset ?? 0), zoned: offset !== undefined };
+}
+
+/**
+ * Extract capture metadata from an XMP packet.
+ */
+export function parseXMP(xmp: string): Partial<MediaMetadata> {
+  return readExifProperties(name => property(xmp, name));
+}
+
+/**
+ * Read capture metadata from XMP-style `exif:`/`tiff:` properties, as found
+ * in XMP packets and in C2PA `stds.exif` assertions.
+ *
+ * @param property - Returns the trimmed text of a prefixed property, if present
+ */
+export function readExifProperties(property: (name: string) => string | undefined): Partial<MediaMetadata> {
+  const result: Partial<MediaMetadata> = {
+    make: property('tiff:Make') || undefined,
+    model: property('tiff:Model') || undefined,
+  };
+
+  const orientation = Number(property('tiff:Orientation'));
+  if (Number.isInteger(orientation) && orientation > 0) result.orientation = orientation;
+
+  const created =
+    property('exif:DateTimeOriginal') ??
+    property('photoshop:DateCreated') ??
+    property('xmp:CreateDate');
+  const parsed = created ? dateTime(created) : undefined;
+  if (created && parsed) {
+    result.dateTimeOriginal = created;
+    result.captureTime = parsed.time;
+    result.timeZoneKnown = parsed.zoned;
+  }
+
+  const latitude = coordinate(property('exif:GPSLatitude'));
+  const longitude = coordinate(property('exif:GPSLongitude'));
+  if (latitude !== undefined && longitude !== undefined) {
+    result.latitude = latitude;
+    result.longitude = longitude;
+  }
+
+  const altitude = rational(property('exif:GPSAltitude'));
+  if (altitude !== undefined) {
+    result.altitude = property('exif:GPSAltitudeRef') === '1' ? -altitude : altitude;
+  }
+  result.gpsAccuracy = rational(property('exif:GPSHPositioningError'));
+
+  const gpsTime = property('exif:GPSTimeStamp');
+  const gps = gpsTime ? dateTime(gpsTime) : undefined;
+  // GPS time is UTC even when the zone is omitted
+  if (gps) result.gpsTime = gps.time;
+
+  return result;
+}
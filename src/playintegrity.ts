@@ -0,0 +1,168 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Play Integrity token decoding
+ *
+ * Play Integrity replaced SafetyNet on current Android devices. Its token is
+ * a JWE (A256KW key wrapping, A256GCM content encryption) around an ES256
+ * JWS, decrypted and verified with the app's response keys from the Play
+ * Console. Keys are supplied by the caller, so decoding happens locally
+ * without calling Google's decodeIntegrityToken endpoint.
+ */
+
+import type { PlayIntegrityKeys, SafetyNetResult, SafetyNetVerification } from './types';
+
+/** Device verdicts, weakest first; each implies the ones before it. */
+const BASIC_VERDICTS = ['MEETS_BASIC_INTEGRITY', 'MEETS_DEVICE_INTEGRITY', 'MEETS_STRONG_INTEGRITY'];
+const DEVICE_VERDICTS = ['MEETS_DEVICE_INTEGRITY', 'MEETS_STRONG_INTEGRITY'];
+
+function subtle() {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('WebCrypto (globalThis.crypto.subtle) is not available in this runtime');
+  }
+  return globalThis.crypto.subtle;
+}
+
+const fromBase64url = (data: string) => new Uint8Array(Buffer.from(data, 'base64url'));
+const keyBytes = (key: string | Uint8Array) =>
+  typeof key === 'string' ? new Uint8Array(Buffer.from(key.trim(), 'base64')) : key;
+
+const record = (value: unknown) =>
+  (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+
+/**
+ * Whether a decoded token payload is a Play Integrity verdict rather than
+ * a SafetyNet one.
+ */
+export function isPlayIntegrityPayload(payload: Record<string, unknown>): boolean {
+  return 'deviceIntegrity' in payload || 'requestDetails' in payload || 'appIntegrity' in payload;
+}
+
+/**
+ * Map a Play Integrity verdict payload onto the unified attestation result.
+ * Accepts the `tokenPayloadExternal` wrapper returned by decodeIntegrityToken.
+ */
+export function playIntegrityResult(decoded: Record<string, unknown>): SafetyNetResult {
+  const payload = 'tokenPayloadExternal' in decoded ? record(decoded.tokenPayloadExternal) : decoded;
+  const request = record(payload.requestDetails);
+  const app = record(payload.appIntegrity);
+  const account = record(payload.accountDetails);
+  const verdicts = record(payload.deviceIntegrity).deviceRecognitionVerdict;
+  const device = Array.isArray(verdicts) ? verdicts.filter((v): v is string => typeof v === 'string') : [];
+
+  const timestamp = Number(request.timestampMillis);
+  const nonce = request.nonce ?? request.requestHash;
+  return {
+    format: 'play-integrity',
+    basicIntegrity: device.some(v => BASIC_VERDICTS.includes(v)),
+    ctsProfileMatch: device.some(v => DEVICE_VERDICTS.includes(v)),
+    apkPackageName: (app.packageName ?? request.requestPackageName) as string | undefined,
+    timestampMs: Number.isFinite(timestamp) ? timestamp : undefined,
+    nonce: typeof nonce === 'string' ? nonce : undefined,
+    deviceRecognitionVerdict: device,
+    appRecognitionVerdict: app.appRecognitionVerdict as string | undefined,
+    appLicensingVerdict: account.appLicensingVerdict as string | undefined,
+    payload,
+  };
+}
+
+/**
+ * Decrypt a compact JWE (A256KW + A256GCM) to its plaintext.
+ * @throws Error on unsupported algorithms or a failed decryption
+ */
+async function decryptJWE(token: string, decryptionKey: Uint8Array): Promise<string> {
+  const [encodedHeader, encryptedKey, iv, ciphertext, tag] = token.split('.');
+  const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf-8'));
+  if (header.alg !== 'A256KW' || header.enc !== 'A256GCM') {
+    throw new Error(`Unsupported JWE algorithms ${header.alg}/${header.enc}`);
+  }
+
+  const kek = await subtle().importKey('raw', decryptionKey, 'AES-KW', false, ['unwrapKey']);
+  const cek = await subtle().unwrapKey(
+    'raw', fromBase64url(encryptedKey), kek, 'AES-KW', 'AES-GCM', false, ['decrypt']
+  );
+  const sealed = new Uint8Array([...fromBase64url(ciphertext), ...fromBase64url(tag)]);
+  const plaintext = await subtle().decrypt(
+    { name: 'AES-GCM', iv: fromBase64url(iv), additionalData: new TextEncoder().encode(encodedHeader) },
+    cek,
+    sealed
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+/** Verify an ES256 compact JWS against an SPKI public key. */
+async function verifyES256(jws: string, verificationKey: Uint8Array): Promise<SafetyNetVerification> {
+  const [encodedHeader, encodedPayload, encodedSignature] = jws.split('.');
+  let header: { alg?: string };
+  try {
+    header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf-8'));
+  } catch {
+    return { verified: false, signatureValid: false, error: 'JWS header is not valid JSON' };
+  }
+  if (header.alg !== 'ES256') {
+    return { verified: false, signatureValid: false, error: `Unsupported JWS algorithm '${header.alg}'` };
+  }
+
+  try {
+    const key = await subtle().importKey(
+      'spki', verificationKey, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']
+    );
+    const signatureValid = await subtle().verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      fromBase64url(encodedSignature),
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+    );
+    return signatureValid
+      ? { verified: true, signatureValid }
+      : { verified: false, signatureValid, error: 'JWS signature does not verify' };
+  } catch (err) {
+    return { verified: false, signatureValid: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Decrypt (if it is a JWE) and verify a Play Integrity token with the app's
+ * response keys, and decode its verdicts.
+ *
+ * Returns null if the decrypted token cannot be decoded; a token that does
+ * not decrypt is returned with a failed `verification`.
+ */
+export async function verifyPlayIntegrityToken(
+  token: string,
+  keys: PlayIntegrityKeys
+): Promise<SafetyNetResult | null> {
+  let jws = token.trim();
+  if (jws.split('.').length === 5) {
+    try {
+      jws = await decryptJWE(jws, keyBytes(keys.decryptionKey));
+    } catch (err) {
+      return {
+        format: 'play-integrity',
+        basicIntegrity: false,
+        ctsProfileMatch: false,
+        encrypted: true,
+        payload: {},
+        verification: {
+          verified: false,
+          signatureValid: false,
+          error: `Play Integrity token could not be decrypted: ${err instanceof Error ? err.message : String(err)}`,
+        },
+      };
+    }
+  }
+
+  const parts = jws.split('.');
+  if (parts.length !== 3) return null;
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf-8'));
+  } catch {
+    return null;
+  }
+
+  return {
+    ...playIntegrityResult(payload),
+    verification: await verifyES256(jws, keyBytes(keys.verificationKey)),
+  };
+}
@@ -0,0 +1,117 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Verification policy presets
+ *
+ * - lenient: wide thresholds; timestamp drift only warns
+ * - standard: the plugin's defaults
+ * - forensic: tight thresholds; PGP key, OTS proof and a verified SafetyNet,
+ *   Play Integrity or App Attest attestation are required, and suspicious accuracy, a distant serving
+ *   cell or access point, or a mismatched IP geolocation or C2PA
+ *   assertion is fatal
+ */
+
+import type { PolicyOverrides, PolicyPreset, VerificationPolicy } from './types';
+
+export const POLICY_PRESETS: Record<PolicyPreset, VerificationPolicy> = {
+  lenient: {
+    maxTimestampDriftSeconds: 6 * 3600,
+    maxGpsAccuracyMeters: 500,
+    minNetworkAccuracyMeters: 1,
+    cellTowerMarginMeters: 5000,
+    wifiMarginMeters: 1000,
+    ipMarginMeters: 1_000_000,
+    mediaLocationMarginMeters: 1000,
+    maxTravelSpeedMetersPerSecond: 1000,
+    speedToleranceMetersPerSecond: 20,
+    bearingToleranceDegrees: 90,
+    requirePGPKey: false,
+    requireOTS: false,
+    requireSafetyNet: false,
+    severities: {
+      TIMESTAMP_DRIFT: 'warn',
+      IP_REGION_MISMATCH: 'info',
+    },
+  },
+  standard: {
+    maxTimestampDriftSeconds: 3600,
+    maxGpsAccuracyMeters: 100,
+    minNetworkAccuracyMeters: 5,
+    cellTowerMarginMeters: 1000,
+    wifiMarginMeters: 250,
+    ipMarginMeters: 250_000,
+    mediaLocationMarginMeters: 250,
+    maxTravelSpeedMetersPerSecond: 340,
+    speedToleranceMetersPerSecond: 10,
+    bearingToleranceDegrees: 45,
+    requirePGPKey: false,
+    requireOTS: false,
+    requireSafetyNet: false,
+    severities: {},
+  },
+  forensic: {
+    maxTimestampDriftSeconds: 300,
+    maxGpsAccuracyMeters: 50,
+    minNetworkAccuracyMeters: 10,
+    cellTowerMarginMeters: 500,
+    wifiMarginMeters: 100,
+    ipMarginMeters: 100_000,
+    mediaLocationMarginMeters: 50,
+    maxTravelSpeedMetersPerSecond: 250,
+    speedToleranceMetersPerSecond: 5,
+    bearingToleranceDegrees: 30,
+    requirePGPKey: true,
+    requireOTS: true,
+    requireSafetyNet: true,
+    severities: {
+      GPS_ACCURACY_SUSPICIOUS: 'fail',
+      NETWORK_ACCURACY_SUSPICIOUS: 'fail',
+      SAFETYNET_MALFORMED: 'fail',
+      SAFETYNET_UNVERIFIED: 'fail',
+      APPATTEST_MALFORMED: 'fail',
+      APPATTEST_UNVERIFIED: 'fail',
+      CELL_TOWER_TOO_FAR: 'fail',
+      WIFI_AP_TOO_FAR: 'fail',
+      IP_COUNTRY_MISMATCH: 'fail',
+      IP_LOCATION_MISMATCH: 'fail',
+      C2PA_LOCATION_MISMATCH: 'fail',
+      C2PA_TIME_MISMATCH: 'fail',
+      TEMPORAL_FOOTPRINT_ESTIMATED: 'fail',
+      KEY_UNKNOWN: 'fail',
+      KEY_CHANGED: 'fail',
+      KEY_UNVERIFIED: 'fail',
+      TRAJECTORY_SPEED_MISMATCH: 'fail',
+      TRAJECTORY_BEARING_MISMATCH: 'fail',
+      TRAJECTORY_DEVICE_MISMATCH: 'fail',
+    },
+  },
+};
+
+/**
+ * Resolve a preset name or overrides into a complete policy.
+ *
+ * @throws Error for an unknown preset name
+ */
+export function resolvePolicy(policy: PolicyPreset | PolicyOverrides = 'standard'): VerificationPolicy {
+  const { preset = 'standard', ...overrides } =
+    typeof policy === 'string' ? { preset: policy } : policy;
+
+  // Own properties only, so 'constructor' or 'toString' is not a preset
+  if (!Object.hasOwn(POLICY_PRESETS, preset)) {
+    throw new Error(`Unknown verification policy preset '${preset}'`);
+  }
+  const base = POLICY_PRESETS[preset];
+
+  // Options built from optional config values carry undefined entries;
+  // those leave the preset's value in place
+  const { severities, ...settings } = overrides;
+  return {
+    ...base,
+    ...definedEntries(settings),
+    severities: { ...base.severities, ...definedEntries(severities ?? {}) },
+  };
+}
+
+function definedEntries<T extends object>(object: T): Partial<T> {
+  return Object.fromEntries(Object.entries(object).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
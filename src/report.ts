@@ -0,0 +1,68 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Verification report
+ *
+ * Collects VerificationChecks and derives the StampVerificationResult
+ * flags from them: a category is valid unless it has a `fail` finding.
+ * The policy's severity overrides are applied as checks are added.
+ */
+
+import type { StampVerificationResult } from '@decentralized-geo/astral-sdk/plugins';
+import type { CheckCategory, CheckCode, CheckSeverity, VerificationCheck } from './types';
+
+export class VerificationReport {
+  readonly checks: VerificationCheck[] = [];
+
+  constructor(private readonly severities: Partial<Record<CheckCode, CheckSeverity>> = {}) {}
+
+  add(
+    code: CheckCode,
+    category: CheckCategory,
+    severity: CheckSeverity,
+    message: string,
+    value?: unknown
+  ): void {
+    const check: VerificationCheck = {
+      code,
+      severity: this.severities[code] ?? severity,
+      category,
+      message,
+    };
+    if (value !== undefined) check.value = value;
+    this.checks.push(check);
+  }
+
+  fail(code: CheckCode, category: CheckCategory, message: string, value?: unknown): void {
+    this.add(code, category, 'fail', message, value);
+  }
+
+  warn(code: CheckCode, category: CheckCategory, message: string, value?: unknown): void {
+    this.add(code, category, 'warn', message, value);
+  }
+
+  info(code: CheckCode, category: CheckCategory, message: string, value?: unknown): void {
+    this.add(code, category, 'info', message, value);
+  }
+
+  passes(category: CheckCategory): boolean {
+    return !this.checks.some(c => c.category === category && c.severity === 'fail');
+  }
+
+  /**
+   * Build the result. The checks are placed in `details.checks`, next to
+   * any extra data the verifier collected.
+   */
+  toResult(data: Record<string, unknown> = {}): StampVerificationResult {
+    const structureValid = this.passes('structure');
+    const signaturesValid = this.passes('signature');
+    const signalsConsistent = this.passes('signals');
+    return {
+      valid: structureValid && signaturesValid && signalsConsistent,
+      structureValid,
+      signaturesValid,
+      signalsConsistent,
+      details: { ...data, checks: this.checks },
+    };
+  }
+}
@@ -0,0 +1,242 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * SafetyNet attestation parsing and JWS verification
+ *
+ * A SafetyNet attestation is a JWS signed by a key whose certificate chain
+ * (`x5c` header) leads to a Google root and whose leaf is issued to
+ * attest.android.com. Roots are supplied by the caller — nothing is fetched.
+ *
+ * Current devices write a Play Integrity token to the `.gst` file instead:
+ * an encrypted JWE, its inner JWS, or the verdict JSON already decoded by
+ * Google. The format is detected here and decoded by playintegrity.ts.
+ */
+
+import type {
+  SafetyNetResult,
+  SafetyNetVerification,
+  SafetyNetVerificationOptions,
+  VerificationOptions,
+} from './types';
+import { isPlayIntegrityPayload, playIntegrityResult, verifyPlayIntegrityToken } from './playintegrity';
+import {
+  JWS_ALGORITHMS,
+  parseCertificate,
+  verifyCertificateChain,
+  verifySignature,
+  type Certificate,
+} from './crypto/x509';
+
+/** Hostname Google issues SafetyNet attestation leaf certificates to. */
+export const SAFETYNET_HOSTNAME = 'attest.android.com';
+
+/**
+ * Parse a SafetyNet JWT or Play Integrity token and extract relevant fields,
+ * detecting the format. An encrypted Play Integrity token is reported with
+ * `encrypted` set and no verdicts. Decodes structure only; use
+ * verifyAttestationToken to check the signature.
+ */
+export function parseSafetyNetJWT(jwt: string): SafetyNetResult | null {
+  try {
+    const token = jwt.trim();
+    // Verdict JSON decoded by Google's decodeIntegrityToken endpoint
+    if (token.startsWith('{')) {
+      const decoded = JSON.parse(token);
+      return isPlayIntegrityPayload(decoded.tokenPayloadExternal ?? decoded)
+        ? playIntegrityResult(decoded)
+        : safetyNetResult(decoded);
+    }
+
+    const parts = token.split('.');
+    if (parts.length === 5) {
+      return {
+        format: 'play-integrity',
+        basicIntegrity: false,
+        ctsProfileMatch: false,
+        encrypted: true,
+        payload: {},
+      };
+    }
+    if (parts.length !== 3) return null;
+
+    // Decode the payload (middle part)
+    const payload = JSON.parse(
+      Buffer.from(parts[1], 'base64url').toString('utf-8')
+    );
+    return isPlayIntegrityPayload(payload) ? playIntegrityResult(payload) : safetyNetResult(payload);
+  } catch {
+    return null;
+  }
+}
+
+function safetyNetResult(payload: Record<string, unknown>): SafetyNetResult | null {
+  if (!payload || typeof payload !== 'object') return null;
+  return {
+    format: 'safetynet',
+    basicIntegrity: !!payload.basicIntegrity,
+    ctsProfileMatch: !!payload.ctsProfileMatch,
+    evaluationType: payload.evaluationType as string | undefined,
+    apkPackageName: payload.apkPackageName as string | undefined,
+    timestampMs: payload.timestampMs as number | undefined,
+    nonce: payload.nonce as string | undefined,
+    payload,
+  };
+}
+
+function failed(error: string, partial: Partial<SafetyNetVerification> = {}): SafetyNetVerification {
+  return {
+    verified: false,
+    signatureValid: false,
+    chainValid: false,
+    hostnameValid: false,
+    ...partial,
+    error,
+  };
+}
+
+async function verifyJWS(
+  jwt: string,
+  result: SafetyNetResult,
+  options: SafetyNetVerificationOptions
+): Promise<SafetyNetVerification> {
+  const [encodedHeader, encodedPayload, encodedSignature] = jwt.split('.');
+
+  let header: { alg?: string; x5c?: unknown };
+  try {
+    header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf-8'));
+  } catch {
+    return failed('JWS header is not valid JSON');
+  }
+
+  const algorithm = header.alg ? JWS_ALGORITHMS[header.alg] : undefined;
+  if (!algorithm) {
+    return failed(`Unsupported JWS algorithm '${header.alg}'`);
+  }
+  if (!Array.isArray(header.x5c) || header.x5c.length === 0 ||
+      !header.x5c.every(c => typeof c === 'string')) {
+    return failed('JWS header has no x5c certificate chain');
+  }
+
+  let chain: Certificate[];
+  let roots: Certificate[];
+  try {
+    chain = (header.x5c as string[]).map(c => parseCertificate(c));
+  } catch (err) {
+    return failed(`Malformed x5c certificate: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  try {
+    roots = options.trustedRoots.map(r => parseCertificate(r));
+  } catch (err) {
+    return failed(`Malformed trusted root: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const leaf = chain[0];
+  const expectedHostname = options.expectedHostname ?? SAFETYNET_HOSTNAME;
+  const hostnames = leaf.dnsNames.length > 0 ? leaf.dnsNames : [leaf.subjectCommonName ?? ''];
+  const hostnameValid = hostnames.includes(expectedHostname);
+  const leafHostname = hostnameValid ? expectedHostname : hostnames[0] || undefined;
+
+  const at =
+    options.at ??
+    (typeof result.timestampMs === 'number'
+      ? Math.floor(result.timestampMs / 1000)
+      : Math.floor(Date.now() / 1000));
+  const chainResult = await verifyCertificateChain(chain, roots, at);
+
+  let signatureValid = false;
+  let signatureError: string | undefined;
+  try {
+    signatureValid = await verifySignature(
+      leaf,
+      algorithm,
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`),
+      new Uint8Array(Buffer.from(encodedSignature, 'base64url')),
+      true
+    );
+  } catch (err) {
+    signatureError = err instanceof Error ? err.message : String(err);
+  }
+
+  const verification: SafetyNetVerification = {
+    verified: signatureValid && chainResult.valid && hostnameValid,
+    signatureValid,
+    chainValid: chainResult.valid,
+    hostnameValid,
+    leafHostname,
+    trustedRoot: chainResult.trustedRoot,
+  };
+
+  if (!signatureValid) {
+    verification.error = signatureError ?? 'JWS signature does not verify';
+  } else if (!chainResult.valid) {
+    verification.error = chainResult.error;
+  } else if (!hostnameValid) {
+    verification.error = `Leaf certificate is not issued to ${expectedHostname}`;
+  }
+
+  return verification;
+}
+
+/**
+ * Parse a SafetyNet JWT and verify its JWS signature, x5c certificate chain
+ * and leaf hostname against the supplied trusted roots.
+ *
+ * Returns null if the token cannot be decoded at all; otherwise the parsed
+ * result with `verification` filled in.
+ */
+export async function verifySafetyNetJWT(
+  jwt: string,
+  options: SafetyNetVerificationOptions
+): Promise<SafetyNetResult | null> {
+  const result = parseSafetyNetJWT(jwt);
+  if (!result) return null;
+
+  return { ...result, verification: await verifyJWS(jwt, result, options) };
+}
+
+/**
+ * Decode a `.gst` attestation token of either format and verify it with
+ * whatever trust material is configured: SafetyNet JWS against
+ * `options.safetyNet` roots, Play Integrity tokens with
+ * `options.playIntegrity` keys. Without any, the token is only decoded.
+ *
+ * Once trust material is configured, a token it cannot verify — verdict
+ * JSON, which carries no signature, or a format only the other trust
+ * material covers — fails verification rather than passing as decoded,
+ * so a forged verdict cannot stand in for a signed one.
+ *
+ * Returns null if the token cannot be decoded at all and no trust material
+ * is configured; with trust material, an undecodable token is a failed
+ * result with no verdicts.
+ */
+export async function verifyAttestationToken(
+  token: string,
+  options: Pick<VerificationOptions, 'safetyNet' | 'playIntegrity'>
+): Promise<SafetyNetResult | null> {
+  const trustConfigured = !!(options.safetyNet || options.playIntegrity);
+  const parsed = parseSafetyNetJWT(token);
+  if (!parsed) {
+    if (!trustConfigured) return null;
+    return {
+      format: 'safetynet',
+      basicIntegrity: false,
+      ctsProfileMatch: false,
+      payload: {},
+      verification: failed('Token could not be decoded'),
+    };
+  }
+  const unverifiable = (error: string): SafetyNetResult =>
+    trustConfigured ? { ...parsed, verification: failed(error) } : parsed;
+
+  if (token.trim().startsWith('{')) {
+    return unverifiable('Token is unsigned verdict JSON');
+  }
+  if (parsed.format === 'play-integrity') {
+    return options.playIntegrity
+      ? verifyPlayIntegrityToken(token, options.playIntegrity)
+      : unverifiable('Play Integrity token cannot be verified; no Play Integrity keys configured');
+  }
+  return options.safetyNet
+    ? verifySafetyNetJWT(token, options.safetyNet)
+    : unverifiable('SafetyNet token cannot be verified; no trusted roots configured');
+}
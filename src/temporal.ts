@@ -0,0 +1,192 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Evidence-based temporal footprints
+ *
+ * A bundle carries several independent times: the GPS fix, the metadata
+ * Timestamp, the file creation date, the SafetyNet verdict time, the PGP
+ * signature creation time and, once verified, the OTS block time. The
+ * footprint spans those that agree with the primary source (the first
+ * present in that order, OTS excepted), and every time found is recorded.
+ * Units are detected from the value's range rather than guessed, and
+ * dates without a UTC offset are resolved against the other evidence.
+ */
+
+import type { CreateStampOptions, ParsedBundle, ProofModeSignals, TimeEvidence, TimeSource } from './types';
+import { parseSafetyNetJWT } from './safetynet';
+
+const DEFAULT_MAX_SPREAD_SECONDS = 3600;
+
+/** Plausible capture times: 2000-01-01 to 2100-01-01 (Unix seconds). */
+const MIN_TIME = 946684800;
+const MAX_TIME = 4102444800;
+
+/** Seconds, milliseconds, microseconds, nanoseconds. */
+const UNIT_DIVISORS = [1, 1e3, 1e6, 1e9];
+
+/** UTC offsets in use, in quarter hours: UTC-12:00 to UTC+14:00. */
+const MIN_OFFSET_QUARTERS = -48;
+const MAX_OFFSET_QUARTERS = 56;
+
+/** Primary-source preference; OTS only bounds the capture from above. */
+const PRIORITY: TimeSource[] = ['gps', 'timestamp', 'pgp-signature', 'safetynet', 'file-created', 'ots'];
+
+const ISO_LOCAL = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/;
+const HAS_ZONE = /\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?\s*(?:Z|[+-]\d{2}:?\d{2})$|\b(?:UTC|GMT|UT|[ECMP][SD]T)\b/i;
+
+/**
+ * Convert an epoch time in seconds, milliseconds, microseconds or
+ * nanoseconds to Unix seconds. The unit is the one that puts the value
+ * between 2000 and 2100; values that fit none are rejected.
+ */
+export function epochSeconds(value: number): number | undefined {
+  if (!Number.isFinite(value)) return undefined;
+  for (const divisor of UNIT_DIVISORS) {
+    const seconds = value / divisor;
+    if (seconds >= MIN_TIME && seconds < MAX_TIME) return Math.floor(seconds);
+  }
+  return undefined;
+}
+
+/**
+ * Parse a date string to Unix seconds, noting whether it named its UTC
+ * offset. Dates without one are read as UTC wall-clock time rather than in
+ * the runtime's zone.
+ */
+export function parseDateTime(text: string): { time: number; zoneKnown: boolean } | undefined {
+  const value = text.trim();
+  const local = ISO_LOCAL.exec(value);
+  if (local) {
+    const [, y, mo, d, h = '0', mi = '0', s = '0'] = local;
+    return { time: Date.UTC(+y, +mo - 1, +d, +h, +mi, +s) / 1000, zoneKnown: false };
+  }
+
+  const zoneKnown = HAS_ZONE.test(value);
+  const ms = Date.parse(zoneKnown ? value : `${value} UTC`);
+  return Number.isNaN(ms) ? undefined : { time: Math.floor(ms / 1000), zoneKnown };
+}
+
+/** The wall-clock reading shifted by the UTC offset that brings it closest to `anchor`. */
+function nearestOffset(wallClock: number, anchor: number): number {
+  let best = wallClock;
+  for (let q = MIN_OFFSET_QUARTERS; q <= MAX_OFFSET_QUARTERS; q++) {
+    const candidate = wallClock - q * 900;
+    if (Math.abs(candidate - anchor) < Math.abs(best - anchor)) best = candidate;
+  }
+  return best;
+}
+
+/**
+ * Every time the bundle (and, if given, its verification result and
+ * signature times) carries, with zoneless dates still in wall-clock time.
+ */
+function collectTimes(
+  bundle: ParsedBundle,
+  { verification, signatureTimes }: CreateStampOptions
+): Array<{ source: TimeSource; time: number; zoneKnown: boolean }> {
+  const signals = bundle.metadata.signals;
+  const times: Array<{ source: TimeSource; time: number; zoneKnown: boolean }> = [];
+  const add = (source: TimeSource, time: number | undefined, zoneKnown = true) => {
+    if (time !== undefined) times.push({ source, time, zoneKnown });
+  };
+
+  for (const [source, key] of [['gps', 'Location.Time'], ['timestamp', 'Timestamp']] as const) {
+    const value = signals[key];
+    if (typeof value === 'number') {
+      add(source, epochSeconds(value), key !== 'Location.Time' || signals['Location.TimeZoneKnown'] !== false);
+    }
+    else if (typeof value === 'string') {
+      const parsed = parseDateTime(value);
+      add(source, parsed?.time, parsed?.zoneKnown);
+    }
+  }
+
+  if (typeof signals.DateCreated === 'string') {
+    const parsed = parseDateTime(signals.DateCreated);
+    add('file-created', parsed?.time, parsed?.zoneKnown);
+  }
+
+  if (bundle.safetyNetToken) {
+    const timestampMs = parseSafetyNetJWT(bundle.safetyNetToken)?.timestampMs;
+    add('safetynet', timestampMs !== undefined ? epochSeconds(timestampMs) : undefined);
+  }
+
+  // Verified signature times when available, else the times they claim
+  const verifiedSignatures = verification?.signatures.filter(s => s.valid && s.signatureCreated);
+  if (verifiedSignatures?.length) {
+    for (const signature of verifiedSignatures) add('pgp-signature', signature.signatureCreated);
+  } else {
+    for (const time of signatureTimes ?? []) add('pgp-signature', epochSeconds(time));
+  }
+
+  if (verification?.timestamp?.valid) {
+    add('ots', verification.timestamp.attestedTime);
+  }
+
+  return times;
+}
+
+/**
+ * Build a stamp's temporal footprint from every time in the bundle.
+ *
+ * The primary source anchors the footprint; other sources within
+ * `maxTimeSpreadSeconds` of it widen it, and the rest are recorded as
+ * unused. A footprint is at least one second long.
+ *
+ * @throws Error if the bundle has no usable time and `timeFallback` is not 'now'
+ */
+export function temporalFootprint(
+  bundle: ParsedBundle,
+  options: CreateStampOptions = {}
+): { start: number; end: number; evidence: TimeEvidence[]; estimated: boolean } {
+  const times = collectTimes(bundle, options);
+  const maxSpread = options.maxTimeSpreadSeconds ?? DEFAULT_MAX_SPREAD_SECONDS;
+
+  const byPriority = (list: typeof times) =>
+    [...list].sort((a, b) => PRIORITY.indexOf(a.source) - PRIORITY.indexOf(b.source));
+  const primary = byPriority(times.filter(t => t.zoneKnown))[0] ?? byPriority(times)[0];
+
+  if (!primary) {
+    if (options.timeFallback === 'now') {
+      const now = Math.floor(Date.now() / 1000);
+      return { start: now, end: now + 1, evidence: [], estimated: true };
+    }
+    throw new Error(
+      'ProofMode bundle has no usable time (Location.Time, Timestamp, DateCreated, ' +
+        'SafetyNet or signature time); pass timeFallback: \'now\' to estimate one'
+    );
+  }
+
+  const evidence: TimeEvidence[] = times.map(t => {
+    const time = t.zoneKnown || t === primary ? t.time : nearestOffset(t.time, primary.time);
+    const entry: TimeEvidence = { source: t.source, time, used: Math.abs(time - primary.time) <= maxSpread };
+    if (!t.zoneKnown) entry.estimated = true;
+    return entry;
+  });
+
+  const used = evidence.filter(e => e.used).map(e => e.time);
+  const start = Math.min(...used);
+  const end = Math.max(start + 1, ...used);
+  return { start, end, evidence, estimated: !primary.zoneKnown };
+}
+
+/**
+ * The GPS fix time in Unix seconds. A Location.Time read from a date
+ * without a UTC offset is resolved against the bundle's other time
+ * evidence, as it is in the temporal footprint.
+ */
+export function fixTime(bundle: ParsedBundle): number | undefined {
+  const signals = bundle.metadata.signals;
+  const value = signals['Location.Time'];
+  const time = typeof value === 'number' ? epochSeconds(value) : undefined;
+  if (time === undefined || signals['Location.TimeZoneKnown'] !== false) return time;
+  return temporalFootprint(bundle).evidence.find(e => e.source === 'gps')?.time ?? time;
+}
+
+/** The bundle's signals with Location.Time resolved by fixTime(). */
+export function resolvedSignals(bundle: ParsedBundle): ProofModeSignals {
+  const signals = bundle.metadata.signals;
+  if (signals['Location.TimeZoneKnown'] !== false) return signals;
+  const time = fixTime(bundle);
+  return time === undefined ? signals : { ...signals, 'Location.Time': time * 1000 };
+}
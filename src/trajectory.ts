@@ -0,0 +1,194 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Trajectory plausibility across a series of stamps
+ *
+ * verify() judges one stamp at a time, so a device that is in Kyiv at noon
+ * and Lisbon five minutes later passes twice. checkTrajectory takes one
+ * device's stamps or parsed bundles in capture order and checks each
+ * consecutive pair: the speed implied beyond both accuracies, the reported
+ * Location.Speed and Location.Bearing against the movement, time running
+ * backwards, and fixes duplicated or replayed from earlier in the series.
+ */
+
+import type { LocationStamp, UnsignedLocationStamp } from '@decentralized-geo/astral-sdk/plugins';
+import type {
+  ParsedBundle,
+  PolicyOverrides,
+  PolicyPreset,
+  ProofModeSignals,
+  TrajectoryFix,
+  TrajectoryPair,
+  TrajectoryResult,
+  VerificationPolicy,
+} from './types';
+import { VerificationReport } from './report';
+import { resolvePolicy } from './policy';
+import { haversineDistance, initialBearing } from './geo';
+import { epochSeconds, fixTime } from './temporal';
+
+/** Reported speed and bearing are instantaneous; compare them only over short gaps. */
+const REPORTED_MOTION_WINDOW_SECONDS = 60;
+
+/** Below this reported speed the bearing is noise, in m/s. */
+const MIN_BEARING_SPEED = 1;
+
+/** A stamp (signed or not) or a parsed bundle. */
+export type TrajectoryItem = LocationStamp | UnsignedLocationStamp | ParsedBundle;
+
+const finite = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * The fix a stamp or bundle records: Location.* signals, timed by
+ * Location.Time or, failing that, the stamp's temporal footprint.
+ */
+function toFix(item: TrajectoryItem, index: number): TrajectoryFix | undefined {
+  const bundle = 'metadata' in item ? (item as ParsedBundle) : undefined;
+  const signals: ProofModeSignals = bundle ? bundle.metadata.signals : (item.signals ?? {});
+  const latitude = signals['Location.Latitude'];
+  const longitude = signals['Location.Longitude'];
+  const locationTime = signals['Location.Time'];
+  // Stamps carry Location.Time already resolved; bundles may hold a zoneless reading
+  const time = bundle
+    ? fixTime(bundle)
+    : (finite(locationTime) ? epochSeconds(locationTime) : undefined) ??
+      (item as UnsignedLocationStamp).temporalFootprint?.start;
+  if (!finite(latitude) || !finite(longitude) || !finite(time)) return undefined;
+
+  const accuracy = signals['Location.Accuracy'];
+  const speed = signals['Location.Speed'];
+  const bearing = signals['Location.Bearing'];
+  return {
+    index,
+    deviceId: typeof signals.DeviceID === 'string' ? signals.DeviceID : undefined,
+    latitude,
+    longitude,
+    accuracy: finite(accuracy) && accuracy > 0 ? accuracy : 0,
+    time,
+    speed: finite(speed) ? speed : undefined,
+    bearing: finite(bearing) ? bearing : undefined,
+    fileHash: typeof signals.FileHash === 'string' ? signals.FileHash.toLowerCase() : undefined,
+  };
+}
+
+/** The same fix reported twice, or the same media. */
+function sameFix(a: TrajectoryFix, b: TrajectoryFix): boolean {
+  if (a.fileHash && a.fileHash === b.fileHash) return true;
+  return a.latitude === b.latitude && a.longitude === b.longitude && a.time === b.time;
+}
+
+/** Smallest angle between two bearings, in degrees. */
+function bearingDifference(a: number, b: number): number {
+  const difference = Math.abs(a - b) % 360;
+  return difference > 180 ? 360 - difference : difference;
+}
+
+function checkPair(
+  earlier: TrajectoryFix,
+  later: TrajectoryFix,
+  fixes: TrajectoryFix[],
+  policy: VerificationPolicy
+): TrajectoryPair {
+  const report = new VerificationReport(policy.severities);
+  const distance = haversineDistance(earlier.latitude, earlier.longitude, later.latitude, later.longitude);
+  const elapsed = later.time - earlier.time;
+  // Distance the device must have covered, whatever the true positions within the accuracies
+  const slack = earlier.accuracy + later.accuracy;
+  const travelled = Math.max(0, distance - slack);
+  const pair: TrajectoryPair = {
+    from: earlier.index,
+    to: later.index,
+    distance,
+    elapsed,
+    checks: report.checks,
+    consistent: true,
+  };
+  if (distance > 0) pair.bearing = initialBearing(earlier.latitude, earlier.longitude, later.latitude, later.longitude);
+
+  if (earlier.deviceId && later.deviceId && earlier.deviceId !== later.deviceId) {
+    report.warn('TRAJECTORY_DEVICE_MISMATCH', 'signals',
+      `Fixes come from different devices (${earlier.deviceId}, ${later.deviceId})`,
+      [earlier.deviceId, later.deviceId]);
+  }
+
+  const replayed = fixes.find(f => f.index < earlier.index && sameFix(f, later));
+  if (sameFix(earlier, later)) {
+    report.fail('TRAJECTORY_FIX_DUPLICATED', 'signals', 'Fix repeats the previous one', earlier.index);
+  } else if (replayed) {
+    report.fail('TRAJECTORY_FIX_REPLAYED', 'signals',
+      `Fix replays the one at position ${replayed.index}`, replayed.index);
+  }
+
+  if (elapsed < 0) {
+    report.fail('TRAJECTORY_TIME_REVERSED', 'signals',
+      `Fix time is ${-elapsed}s earlier than the previous fix`, elapsed);
+  } else if (elapsed === 0) {
+    if (travelled > 0) {
+      report.fail('TRAJECTORY_SPEED_IMPLAUSIBLE', 'signals',
+        `Fixes ${Math.round(distance)}m apart have the same time`, distance);
+    }
+  } else {
+    pair.impliedSpeed = travelled / elapsed;
+    if (pair.impliedSpeed > policy.maxTravelSpeedMetersPerSecond) {
+      report.fail('TRAJECTORY_SPEED_IMPLAUSIBLE', 'signals',
+        `Covering ${Math.round(distance)}m in ${elapsed}s needs ${Math.round(pair.impliedSpeed)} m/s`,
+        pair.impliedSpeed);
+    }
+
+    if (elapsed <= REPORTED_MOTION_WINDOW_SECONDS) {
+      const speeds = [earlier.speed, later.speed].filter(finite);
+      if (speeds.length > 0) {
+        const reported = speeds.reduce((a, b) => a + b, 0) / speeds.length;
+        const slowest = pair.impliedSpeed;
+        const fastest = (distance + slack) / elapsed;
+        const gap = Math.max(slowest - reported, reported - fastest, 0);
+        if (gap > policy.speedToleranceMetersPerSecond) {
+          report.warn('TRAJECTORY_SPEED_MISMATCH', 'signals',
+            `Reported speed ${reported.toFixed(1)} m/s is ${gap.toFixed(1)} m/s from the movement between fixes`,
+            reported);
+        }
+      }
+
+      if (earlier.bearing !== undefined && (earlier.speed ?? 0) >= MIN_BEARING_SPEED && travelled > 0) {
+        const difference = bearingDifference(earlier.bearing, pair.bearing!);
+        if (difference > policy.bearingToleranceDegrees) {
+          report.warn('TRAJECTORY_BEARING_MISMATCH', 'signals',
+            `Reported bearing ${earlier.bearing}° is ${Math.round(difference)}° from the direction travelled`,
+            difference);
+        }
+      }
+    }
+  }
+
+  if (report.checks.length === 0) {
+    report.info('TRAJECTORY_CONSISTENT', 'signals',
+      `Fixes ${Math.round(distance)}m and ${elapsed}s apart`, pair.impliedSpeed);
+  }
+  pair.consistent = report.passes('signals');
+  return pair;
+}
+
+/**
+ * Check one device's stamps or parsed bundles, in capture order, as a
+ * trajectory. Each consecutive pair of fixes gets its own findings, with
+ * thresholds and severities from the policy (default 'standard'). Items
+ * without a position or time are skipped.
+ *
+ * @throws Error for an unknown policy preset
+ */
+export function checkTrajectory(
+  items: TrajectoryItem[],
+  options: { policy?: PolicyPreset | PolicyOverrides } = {}
+): TrajectoryResult {
+  const policy = resolvePolicy(options.policy);
+  const fixes: TrajectoryFix[] = [];
+  const skipped: number[] = [];
+  items.forEach((item, index) => {
+    const fix = toFix(item, index);
+    if (fix) fixes.push(fix);
+    else skipped.push(index);
+  });
+
+  const pairs = fixes.slice(1).map((later, i) => checkPair(fixes[i], later, fixes, policy));
+  return { plausible: pairs.every(p => p.consistent), fixes, pairs, skipped };
+}
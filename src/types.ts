@@ -19,6 +19,7 @@ export interface ProofModeSignals {
   'Location.Bearing'?: number; // Direction of travel (degrees)
   'Location.Speed'?: number; // Speed in m/s
   'Location.Time'?: number; // Timestamp of GPS fix (milliseconds)
+  'Location.TimeZoneKnown'?: boolean; // false if Location.Time had no UTC offset and was read as UTC
 
   // Network context
   CellInfo?: string; // Cell tower ID + signal strength
@@ -44,10 +45,67 @@ export interface ProofModeSignals {
   DateCreated?: string; // ISO 8601
   Timestamp?: number; // Unix timestamp
 
+  // Collections parsed from arrays of objects (JSON metadata)
+  Cells?: CellObservation[]; // Visible cell towers
+  'WiFi.AccessPoints'?: WiFiAccessPoint[]; // WiFi scan results
+  'Location.Samples'?: LocationSample[]; // Successive location fixes
+
   // Catch-all for additional fields
   [key: string]: unknown;
 }
 
+/**
+ * One cell tower seen by the device. Identifiers follow Android's
+ * CellIdentity naming; absent fields were not reported.
+ */
+export interface CellObservation {
+  /** Radio technology, lowercase: gsm, cdma, wcdma, lte, nr, tdscdma */
+  type?: string;
+  mcc?: number;
+  mnc?: number;
+  /** Location area code (GSM/WCDMA) */
+  lac?: number;
+  /** Tracking area code (LTE/NR) */
+  tac?: number;
+  /** Cell identity (CID, CI or NCI) */
+  cid?: number;
+  /** Physical cell ID (LTE/NR) */
+  pci?: number;
+  /** Signal strength in dBm */
+  signalStrength?: number;
+  /** Whether the device was registered to this cell */
+  registered?: boolean;
+}
+
+/**
+ * One access point from a WiFi scan.
+ */
+export interface WiFiAccessPoint {
+  /** MAC address, lowercase and colon-separated */
+  bssid?: string;
+  ssid?: string;
+  /** Signal strength in dBm */
+  signalStrength?: number;
+  /** Channel frequency in MHz */
+  frequency?: number;
+}
+
+/**
+ * One location fix.
+ */
+export interface LocationSample {
+  latitude?: number;
+  longitude?: number;
+  /** Horizontal accuracy in meters */
+  accuracy?: number;
+  altitude?: number;
+  provider?: string;
+  /** Timestamp of the fix (milliseconds) */
+  time?: number;
+  speed?: number;
+  bearing?: number;
+}
+
 /**
  * Parsed ProofMode metadata (from CSV or JSON format).
  */
@@ -58,8 +116,19 @@ export interface ProofModeMetadata {
   format: 'csv' | 'json';
   /** SHA-256 hash of the associated media file */
   fileHash?: string;
+  /** CSV only: the layout parseCSV detected */
+  csvLayout?: CSVLayout;
+  /** Wide CSV only: signals of every data row; `signals` holds the first */
+  rows?: ProofModeSignals[];
 }
 
+/**
+ * Layout of a ProofMode CSV metadata file.
+ * - key-value: one `key,value` pair per line
+ * - wide: a header row of field names, then one or more data rows
+ */
+export type CSVLayout = 'key-value' | 'wide';
+
 /**
  * Represents a file within a ProofMode proof bundle ZIP.
  */
@@ -78,32 +147,1057 @@ export interface ParsedBundle {
   publicKey?: string;
   /** PGP detached signature of the metadata file */
   metadataSignature?: Uint8Array;
+  /** Raw bytes of the metadata file that metadataSignature covers */
+  signedMetadata?: Uint8Array;
   /** PGP detached signature of the media file */
   mediaSignature?: Uint8Array;
-  /** Google SafetyNet/Play Integrity JWT */
+  /** Operating system of the capturing device */
+  platform: DevicePlatform;
+  /** Google SafetyNet JWT or Play Integrity token (JWE, JWS or decoded JSON) */
   safetyNetToken?: string;
+  /** Apple App Attest attestation object (CBOR) */
+  appAttestation?: Uint8Array;
+  /** Apple DeviceCheck token (base64), only verifiable by Apple's servers */
+  deviceCheckToken?: string;
   /** OpenTimestamps proof */
   otsProof?: Uint8Array;
   /** The media file data */
   mediaFile?: Uint8Array;
   /** Media file name */
   mediaFileName?: string;
+  /**
+   * SHA-256 of the media file (lowercase hex), when it was hashed during
+   * parsing. Always set by parseBundleStream, which may discard mediaFile.
+   */
+  mediaSha256?: string;
+  /** Media file size in bytes */
+  mediaSize?: number;
+  /**
+   * Set by bundleFromStamp: the media is not part of a destructured stamp's
+   * evidence, so its hash, size and signature are left unchecked.
+   */
+  mediaExcluded?: boolean;
   /** SHA-256 hash from the bundle (pre-computed) */
   expectedHash?: string;
   /** All raw files in the bundle */
   files: BundleFile[];
+  /**
+   * Media files in the archive that matched no item by hash or File.Name,
+   * so no item's proofs cover them. Absent when every media file matched.
+   */
+  unmatchedMedia?: string[];
 }
 
+/** Operating system a bundle was captured on, from its files and device metadata. */
+export type DevicePlatform = 'android' | 'ios';
+
+/** Device attestation format found in a bundle's `.gst` file. */
+export type AttestationFormat = 'safetynet' | 'play-integrity';
+
 /**
- * Result of SafetyNet/Play Integrity JWT parsing.
- * We validate structure but skip certificate chain verification for v0.
+ * Result of SafetyNet or Play Integrity token parsing, unified: Play
+ * Integrity device verdicts are also mapped onto `basicIntegrity`
+ * (MEETS_BASIC_INTEGRITY or better) and `ctsProfileMatch`
+ * (MEETS_DEVICE_INTEGRITY or better).
+ * `verification` is only present when the token was verified.
  */
 export interface SafetyNetResult {
+  format: AttestationFormat;
   basicIntegrity: boolean;
   ctsProfileMatch: boolean;
   evaluationType?: string;
   apkPackageName?: string;
   timestampMs?: number;
-  /** Raw JWT payload for reference */
+  /** Request nonce (Play Integrity standard requests: requestHash) */
+  nonce?: string;
+  /** Play Integrity `deviceIntegrity.deviceRecognitionVerdict` */
+  deviceRecognitionVerdict?: string[];
+  /** Play Integrity `appIntegrity.appRecognitionVerdict`, e.g. PLAY_RECOGNIZED */
+  appRecognitionVerdict?: string;
+  /** Play Integrity `accountDetails.appLicensingVerdict`, e.g. LICENSED */
+  appLicensingVerdict?: string;
+  /** Play Integrity token that is still encrypted; verdicts need the decryption key */
+  encrypted?: boolean;
+  /** Raw token payload for reference */
   payload: Record<string, unknown>;
+  /** Signature (and, for SafetyNet, certificate chain) verification outcome */
+  verification?: SafetyNetVerification;
+}
+
+/**
+ * Outcome of verifying a SafetyNet JWS against trusted roots, or a Play
+ * Integrity token against its verification key.
+ */
+export interface SafetyNetVerification {
+  /** True only if every applicable check passed */
+  verified: boolean;
+  /** JWS signature verifies against the leaf certificate (SafetyNet) or verification key (Play Integrity) */
+  signatureValid: boolean;
+  /** SafetyNet only: x5c chain validates up to a trusted root */
+  chainValid?: boolean;
+  /** SafetyNet only: leaf certificate is issued to the attestation service hostname */
+  hostnameValid?: boolean;
+  /** Hostname the leaf certificate was issued to */
+  leafHostname?: string;
+  /** Common name of the trusted root the chain terminated at */
+  trustedRoot?: string;
+  /** Why verification failed, if it did */
+  error?: string;
+}
+
+/**
+ * Trust configuration for SafetyNet JWS verification.
+ */
+export interface SafetyNetVerificationOptions {
+  /** Trusted root certificates (PEM, base64 DER or raw DER), supplied offline */
+  trustedRoots: Array<string | Uint8Array>;
+  /** Hostname the leaf certificate must be issued to (default: attest.android.com) */
+  expectedHostname?: string;
+  /**
+   * Time to validate certificates at (Unix seconds). Defaults to the
+   * attestation's timestampMs, so archived bundles stay verifiable.
+   */
+  at?: number;
+}
+
+/**
+ * An app's Play Integrity response keys, downloaded from the Play Console
+ * for local token decoding.
+ */
+export interface PlayIntegrityKeys {
+  /** AES-256 decryption key (base64 or raw bytes) */
+  decryptionKey: string | Uint8Array;
+  /** EC P-256 verification public key, DER SubjectPublicKeyInfo (base64 or raw bytes) */
+  verificationKey: string | Uint8Array;
+}
+
+/**
+ * Parsed Apple App Attest attestation object (`apple-appattest` format).
+ * `verification` is only present when trusted roots were configured.
+ */
+export interface AppAttestResult {
+  /** Attestation statement format */
+  format: string;
+  /** Key identifier: SHA-256 of the attested public key (base64) */
+  keyId: string;
+  /** App Attest environment, from the authenticator data AAGUID */
+  environment: 'production' | 'development';
+  /** SHA-256 of the App ID (`<team ID>.<bundle ID>`), lowercase hex */
+  rpIdHash: string;
+  /** Authenticator sign counter; 0 for a fresh attestation */
+  counter: number;
+  /** Certificate chain, nonce and key identifier verification outcome */
+  verification?: AppAttestVerification;
+}
+
+/**
+ * Outcome of verifying an App Attest attestation against Apple's root.
+ */
+export interface AppAttestVerification {
+  /** True only if every applicable check passed */
+  verified: boolean;
+  /** x5c chain validates up to a trusted root */
+  chainValid: boolean;
+  /** Common name of the trusted root the chain terminated at */
+  trustedRoot?: string;
+  /** The credential ID is the SHA-256 of the leaf certificate's public key */
+  keyIdValid: boolean;
+  /**
+   * The leaf's nonce extension is SHA-256(authData || clientDataHash).
+   * Undefined, and the attestation not verified, when the attested client
+   * data is unknown.
+   */
+  nonceValid?: boolean;
+  /** rpIdHash matches the configured App ID; undefined when none is configured */
+  appIdValid?: boolean;
+  /** Why verification failed, if it did */
+  error?: string;
+}
+
+/**
+ * Trust configuration for App Attest verification.
+ */
+export interface AppAttestVerificationOptions {
+  /** Apple App Attestation Root CA (PEM, base64 DER or raw DER), supplied offline */
+  trustedRoots: Array<string | Uint8Array>;
+  /** `<team ID>.<bundle ID>` the attestation must be for */
+  appId?: string;
+  /** Accept attestations from the development environment (default false) */
+  allowDevelopment?: boolean;
+  /**
+   * Time to validate certificates at (Unix seconds). Defaults to the
+   * bundle's Location.Time, so archived bundles stay verifiable.
+   */
+  at?: number;
+}
+
+/**
+ * Options shared by stamp and bundle verification.
+ */
+export interface VerificationOptions {
+  /** Verify SafetyNet JWS signatures against these trust settings */
+  safetyNet?: SafetyNetVerificationOptions;
+  /** Decrypt and verify Play Integrity tokens with these keys */
+  playIntegrity?: PlayIntegrityKeys;
+  /** Verify App Attest attestations against these trust settings */
+  appAttest?: AppAttestVerificationOptions;
+  /** Verify OpenTimestamps proofs against headers from this source */
+  blockHeaders?: BlockHeaderSource;
+  /** Thresholds and fatal findings for stamp verification (default 'standard') */
+  policy?: PolicyPreset | PolicyOverrides;
+  /** Check the serving cell against towers from this source */
+  cellTowers?: CellTowerSource;
+  /** Check WiFi BSSIDs against access points from this source */
+  accessPoints?: AccessPointSource;
+  /** Check public IP addresses against this GeoIP database */
+  ipGeolocation?: IPGeoSource;
+  /** Resolve the GPS fix to a country and region, for IP comparison */
+  reverseGeocoder?: ReverseGeocoder;
+  /** Validate C2PA claim signing certificates against these roots */
+  c2pa?: C2PAVerificationOptions;
+  /**
+   * Check bundle keys against pinned and previously seen device keys.
+   * verifyBundle also records keys whose signatures verify.
+   */
+  keyRegistry?: KeyRegistry;
+}
+
+/**
+ * Result of verifying one PGP detached signature from a bundle.
+ */
+export interface PGPSignatureResult {
+  /** Which bundle file the signature covers */
+  target: 'metadata' | 'media';
+  /** True if the signature cryptographically verifies against the bundle's public key */
+  valid: boolean;
+  /** Fingerprint of the bundle's public key (uppercase hex) */
+  keyFingerprint?: string;
+  /** Issuer key ID recorded in the signature (uppercase hex) */
+  keyId?: string;
+  /** Signature creation time (Unix seconds) */
+  signatureCreated?: number;
+  /** Why verification failed, if it did */
+  error?: string;
+}
+
+/**
+ * A PGP detached signature from a bundle, read but not verified.
+ */
+export interface PGPSignatureInfo {
+  /** Which bundle file the signature covers */
+  target: 'metadata' | 'media';
+  /** The signature, ASCII-armored */
+  armored: string;
+  /** Fingerprint of the signing key (uppercase hex) */
+  signerFingerprint: string;
+  /** Signature creation time (Unix seconds) */
+  signatureCreated: number;
+}
+
+/**
+ * Result of cryptographically verifying a parsed ProofMode bundle.
+ */
+export interface BundleVerificationResult {
+  /** True only if every applicable check passed */
+  valid: boolean;
+  /** Fingerprint of the bundle's public key (uppercase hex) */
+  keyFingerprint?: string;
+  /** The bundle's public key; a revoked key makes the bundle invalid */
+  key?: PGPKeyInfo;
+  /**
+   * The key against the configured key registry; a key other than the one
+   * pinned for the device makes the bundle invalid.
+   */
+  keyContinuity?: KeyContinuityCheck;
+  /** Media hash and size checks; absent when the bundle has no media file */
+  integrity?: MediaIntegrityResult;
+  /**
+   * Per-signature results: metadata first, then media if a media file or
+   * media signature is present. A media signature whose media was not
+   * retained (parseBundleStream without keepMedia) is reported invalid.
+   */
+  signatures: PGPSignatureResult[];
+  /** Parsed SafetyNet attestation, verified when trusted roots are configured */
+  safetyNet?: SafetyNetResult;
+  /** Parsed App Attest attestation, verified when trusted roots are configured */
+  appAttest?: AppAttestResult;
+  /**
+   * OpenTimestamps verification, when the bundle has a proof and a header
+   * source is configured. Only an `invalid` proof makes the bundle invalid;
+   * `pending` and `unbound` proofs prove nothing but contradict nothing.
+   */
+  timestamp?: OTSVerificationResult;
+  /**
+   * EXIF/XMP from the media file compared with the metadata; absent when
+   * the media has none. Mismatches do not affect `valid`.
+   */
+  mediaMetadata?: MediaMetadataResult;
+  /**
+   * C2PA manifest embedded in the media. A bad signature, assertion hash
+   * or chain, or a hard binding that fails or was not checked, makes the
+   * bundle invalid; an unchecked chain only does with roots configured.
+   * Disagreement with the metadata does not.
+   */
+  c2pa?: C2PAVerificationResult;
+}
+
+/**
+ * One attestation reached by walking an OpenTimestamps operation tree.
+ */
+export interface OTSAttestation {
+  /** Attestation kind; unknown tags are preserved rather than rejected */
+  type: 'bitcoin' | 'litecoin' | 'pending' | 'unknown';
+  /** Block height (bitcoin/litecoin attestations) */
+  height?: number;
+  /** Calendar server URI (pending attestations) */
+  uri?: string;
+  /** 8-byte attestation tag (hex), for unknown attestations */
+  tag?: string;
+  /** Commitment the operations produce at this attestation (hex). For bitcoin, the block merkle root */
+  commitment: string;
+}
+
+/**
+ * Parsed OpenTimestamps detached timestamp file.
+ */
+export interface OTSProof {
+  /** OTS file format version */
+  version: number;
+  /** Hash algorithm of the timestamped digest */
+  hashAlgorithm: 'sha1' | 'sha256' | 'ripemd160' | 'keccak256';
+  /** The timestamped digest (hex) */
+  digest: string;
+  /** All attestations in the operation tree, in file order */
+  attestations: OTSAttestation[];
+}
+
+/**
+ * Supplies raw Bitcoin block headers for OTS verification. Implementations
+ * are expected to be local (a headers file, a node you run, an in-memory map).
+ */
+export interface BlockHeaderSource {
+  /** Return the 80-byte serialized header of the block at `height`, if known */
+  getBlockHeader(height: number): Promise<Uint8Array | undefined>;
+}
+
+/**
+ * Verification outcome for one OTS attestation.
+ */
+export interface OTSAttestationResult extends OTSAttestation {
+  /** True if the commitment matched the block header's merkle root */
+  verified: boolean;
+  /** Block time from the verified header (Unix seconds) */
+  blockTime?: number;
+  /** Why the attestation could not be verified, if it was not */
+  error?: string;
+}
+
+/**
+ * Result of verifying an OTS proof against block headers.
+ */
+/**
+ * What an OTS proof establishes:
+ * - `verified`: a Bitcoin attestation verified and the proof's digest is the expected one
+ * - `unbound`: a Bitcoin attestation verified, but no expected digest was given to bind it to
+ * - `pending`: no attestation could be verified (calendar-only proof, or no block header)
+ * - `invalid`: the digest differs, a block header contradicts the proof, or it could not be parsed
+ */
+export type OTSStatus = 'verified' | 'unbound' | 'pending' | 'invalid';
+
+export interface OTSVerificationResult {
+  /** True only if the status is `verified` */
+  valid: boolean;
+  status: OTSStatus;
+  /** Whether the proof's digest matches the expected digest; undefined if none was given */
+  digestMatches?: boolean;
+  /** Earliest verified block time (Unix seconds): the data existed no later than this */
+  attestedTime?: number;
+  /** Height of the block that gives attestedTime */
+  attestedHeight?: number;
+  attestations: OTSAttestationResult[];
+  /** Why the proof could not be parsed, if it could not */
+  error?: string;
+}
+
+/**
+ * One comparison between the media file and a value the bundle declares for it.
+ */
+export interface MediaIntegrityCheck {
+  /** Where the declared value came from */
+  source: 'filename' | 'FileHash' | 'File.Size';
+  expected: string | number;
+  /** Undefined when the bundle has no media to compare with */
+  actual?: string | number;
+  matches: boolean;
+}
+
+/**
+ * Result of checking the media file against the bundle's declared hashes and size.
+ */
+export interface MediaIntegrityResult {
+  /** False if any declared value disagrees with the media file, or the media is missing */
+  valid: boolean;
+  /** Set when the bundle declares a hash or size but carries no media */
+  error?: 'MEDIA_MISSING';
+  /** SHA-256 of the media file (lowercase hex); absent when the media is missing */
+  sha256?: string;
+  /** Media file size in bytes; absent when the media is missing */
+  size?: number;
+  checks: MediaIntegrityCheck[];
+}
+
+/** Container format of a media file with readable metadata. */
+export type MediaFormat = 'jpeg' | 'png' | 'heic';
+
+/**
+ * Capture metadata embedded in a media file's EXIF and XMP. EXIF wins
+ * where both record a value.
+ */
+export interface MediaMetadata {
+  format: MediaFormat;
+  /** Which blocks were found */
+  sources: Array<'exif' | 'xmp'>;
+  make?: string;
+  model?: string;
+  /** EXIF orientation, 1-8 */
+  orientation?: number;
+  /** Capture time as recorded, e.g. `2023:11:14 12:00:00` */
+  dateTimeOriginal?: string;
+  /**
+   * Capture time in Unix seconds. Without a recorded UTC offset the
+   * local time is read as UTC and `timeZoneKnown` is false.
+   */
+  captureTime?: number;
+  timeZoneKnown?: boolean;
+  /** GPS fix time (UTC) in Unix seconds */
+  gpsTime?: number;
+  latitude?: number;
+  longitude?: number;
+  /** Meters above sea level */
+  altitude?: number;
+  /** GPSHPositioningError, in meters */
+  gpsAccuracy?: number;
+}
+
+/**
+ * One comparison between the media's own metadata and the ProofMode metadata.
+ */
+export interface MediaMetadataCheck {
+  field: 'location' | 'time' | 'make' | 'model';
+  /** Value from the ProofMode metadata */
+  expected: string | number;
+  /** Value from the media file */
+  actual: string | number;
+  matches: boolean;
+  /** Distance in meters (location) or seconds (time) */
+  difference?: number;
+}
+
+/**
+ * Result of comparing a media file's EXIF/XMP with the ProofMode metadata.
+ */
+export interface MediaMetadataResult {
+  /** False if any compared value disagrees */
+  consistent: boolean;
+  metadata: MediaMetadata;
+  checks: MediaMetadataCheck[];
+}
+
+/**
+ * Trust configuration for C2PA claim signature verification.
+ */
+export interface C2PAVerificationOptions {
+  /** Trusted root certificates (PEM, base64 DER or raw DER), supplied offline */
+  trustedRoots: Array<string | Uint8Array>;
+  /** Time to validate certificates at (Unix seconds). Defaults to now */
+  at?: number;
+}
+
+/**
+ * One assertion from a C2PA manifest. CBOR and JSON assertions are decoded;
+ * other content is left as raw bytes.
+ */
+export interface C2PAAssertion {
+  /** Assertion label, e.g. `c2pa.hash.data` or `stds.exif` */
+  label: string;
+  data: unknown;
+}
+
+/**
+ * The active manifest of a C2PA manifest store embedded in the media.
+ */
+export interface C2PAManifest {
+  /** Manifest label, usually `urn:uuid:...` */
+  label: string;
+  /** Software that produced the claim */
+  claimGenerator?: string;
+  /** Claim signature algorithm, e.g. ES256 */
+  signatureAlgorithm?: string;
+  /** Subject CN of the claim signing certificate */
+  signer?: string;
+  assertions: C2PAAssertion[];
+  /** Capture metadata from the `stds.exif` assertion */
+  metadata?: Partial<MediaMetadata>;
+}
+
+/**
+ * Result of verifying a C2PA manifest and comparing its assertions with
+ * the ProofMode metadata.
+ */
+export interface C2PAVerificationResult {
+  /**
+   * Signature, assertion hashes, hard binding and chain all verify. False
+   * when the chain (no roots configured) or hard binding was not checked.
+   */
+  valid: boolean;
+  manifest: C2PAManifest;
+  /** COSE claim signature verifies against the signing certificate */
+  signatureValid: boolean;
+  /** Signing certificate chains to a trusted root; only set with roots configured */
+  chainValid?: boolean;
+  trustedRoot?: string;
+  /** Every assertion referenced by the claim matches its hash */
+  assertionsValid: boolean;
+  /**
+   * `c2pa.hash.data` matches the media bytes. Undefined when the manifest
+   * uses a hard binding this plugin does not check (e.g. `c2pa.hash.bmff`).
+   */
+  hardBindingValid?: boolean;
+  /** Manifest location and capture time compared with the ProofMode metadata */
+  checks: MediaMetadataCheck[];
+  /** False if any compared value disagrees */
+  consistent: boolean;
+  errors: string[];
+}
+
+/**
+ * How much of the original bundle a stamp carries.
+ * - destructured: the signed essentials are embedded (~15-20KB); media is discarded
+ * - undestructured: only a content hash; the original archive must be preserved
+ */
+export type StampMode = 'destructured' | 'undestructured';
+
+/**
+ * Options for createStampFromBundle.
+ */
+export interface CreateStampOptions {
+  /** Verification path to prepare the stamp for; omit to embed neither */
+  mode?: StampMode;
+  /** Original ZIP bytes, required for 'undestructured' mode */
+  archive?: Uint8Array;
+  /** How the stamp's location represents the fix's uncertainty (default: a bare point) */
+  geometry?: LocationGeometryOptions;
+  /**
+   * verifyBundle's result for this bundle: adds verified PGP signature times
+   * and the OTS attested block time to the temporal footprint
+   */
+  verification?: BundleVerificationResult;
+  /**
+   * Creation times the bundle's PGP signatures claim (Unix seconds), read
+   * with readSignatureCreationTime; used when `verification` has no
+   * verified signature. createLocationStampFromBundle reads them itself.
+   */
+  signatureTimes?: number[];
+  /**
+   * Largest gap from the primary time source for another source to widen
+   * the temporal footprint, in seconds (default 3600)
+   */
+  maxTimeSpreadSeconds?: number;
+  /**
+   * With no usable time evidence: 'error' (default) throws; 'now' uses the
+   * current time and flags the footprint as estimated
+   */
+  timeFallback?: 'error' | 'now';
+}
+
+/** Where a time considered for a stamp's temporal footprint came from. */
+export type TimeSource = 'gps' | 'timestamp' | 'file-created' | 'safetynet' | 'pgp-signature' | 'ots';
+
+/**
+ * One time found in a bundle, recorded in the `TemporalFootprint.Sources` signal.
+ */
+export interface TimeEvidence {
+  source: TimeSource;
+  /** Unix seconds */
+  time: number;
+  /** Whether it was within the allowed spread of the primary source and shaped the footprint */
+  used: boolean;
+  /** A time without a UTC offset, resolved to the offset nearest the primary source (or read as UTC) */
+  estimated?: boolean;
+}
+
+/**
+ * How a stamp's location is emitted:
+ * - point: a bare GeoJSON point
+ * - point-uncertainty: a point, with the radius in a `Location.Uncertainty` signal
+ * - circle: a polygon approximating the uncertainty circle, plus that signal
+ */
+export type LocationShape = 'point' | 'point-uncertainty' | 'circle';
+
+/**
+ * Options for deriving stamp geometry from Location.Accuracy and Location.Provider.
+ */
+export interface LocationGeometryOptions {
+  /** Default 'point' */
+  shape?: LocationShape;
+  /** Polygon vertices for 'circle' (default 32, at least 3) */
+  vertices?: number;
+  /** Radius floor, in meters (default 5) */
+  minRadiusMeters?: number;
+}
+
+/**
+ * Horizontal uncertainty of a fix, recorded as the `Location.Uncertainty` signal.
+ */
+export interface LocationUncertainty {
+  /** The fix, [lon, lat] */
+  center: [number, number];
+  /** Radius of the uncertainty circle, in meters */
+  radiusMeters: number;
+  /** Probability that the true position is inside the circle */
+  confidence: number;
+  /** Whether the radius is the reported accuracy or the provider's typical accuracy */
+  basis: 'accuracy' | 'provider';
+  /** Location.Provider of the fix */
+  provider?: string;
+}
+
+/**
+ * Limits applied to an archive before its entries are decompressed.
+ */
+export interface BundleLimits {
+  /** Maximum number of entries, directories included */
+  maxEntries: number;
+  /** Maximum decompressed size of one entry, in bytes */
+  maxEntrySize: number;
+  /** Maximum decompressed size of all entries together, in bytes */
+  maxTotalSize: number;
+  /** Maximum decompressed-to-compressed size ratio of one entry */
+  maxCompressionRatio: number;
+}
+
+/**
+ * Options for the ProofModePlugin constructor.
+ */
+export interface ProofModePluginOptions extends VerificationOptions {
+  /** Overrides for the archive limits applied when parsing bundles */
+  limits?: Partial<BundleLimits>;
+  /** Location geometry for stamps made by create() and createAll() */
+  geometry?: LocationGeometryOptions;
+  /** What create() and createAll() do with a bundle that has no usable time */
+  timeFallback?: CreateStampOptions['timeFallback'];
+}
+
+/** How a verification finding affects the result. */
+export type CheckSeverity = 'info' | 'warn' | 'fail';
+
+/** Which part of StampVerificationResult a finding affects. */
+export type CheckCategory = 'structure' | 'signature' | 'signals';
+
+/**
+ * Stable identifiers for stamp verification findings. Codes are never
+ * renamed or reused; new checks get new codes.
+ */
+export type CheckCode =
+  // structure
+  | 'LP_VERSION_MISMATCH'
+  | 'PLUGIN_MISMATCH'
+  | 'LOCATION_MISSING'
+  | 'TEMPORAL_FOOTPRINT_MISSING'
+  | 'SIGNALS_MISSING'
+  | 'EMBEDDED_EVIDENCE_MALFORMED'
+  | 'LOCATION_MALFORMED'
+  | 'LOCATION_GEOMETRY_INVALID'
+  | 'TEMPORAL_FOOTPRINT_ESTIMATED'
+  // signature
+  | 'SIGNATURES_MISSING'
+  | 'SIGNATURE_EMPTY'
+  | 'SIGNER_MISSING'
+  | 'SIGNATURES_UNVERIFIED'
+  | 'PGP_KEY_MISSING'
+  | 'OTS_MISSING'
+  | 'SAFETYNET_MISSING'
+  | 'SAFETYNET_MALFORMED'
+  | 'SAFETYNET_UNVERIFIED'
+  | 'SAFETYNET_VERIFIED'
+  | 'SAFETYNET_INVALID'
+  | 'APPATTEST_MALFORMED'
+  | 'APPATTEST_UNVERIFIED'
+  | 'APPATTEST_VERIFIED'
+  | 'APPATTEST_INVALID'
+  | 'DEVICECHECK_UNVERIFIED'
+  | 'EMBEDDED_SIGNATURE_VALID'
+  | 'EMBEDDED_SIGNATURE_INVALID'
+  | 'KEY_REVOKED'
+  | 'KEY_EXPIRED'
+  | 'KEY_PINNED'
+  | 'KEY_PIN_MISMATCH'
+  | 'KEY_KNOWN'
+  | 'KEY_UNKNOWN'
+  | 'KEY_CHANGED'
+  | 'KEY_FINGERPRINT_MISMATCH'
+  | 'KEY_UNVERIFIED'
+  // signals
+  | 'LATITUDE_INVALID'
+  | 'LONGITUDE_INVALID'
+  | 'GPS_ACCURACY_SUSPICIOUS'
+  | 'NETWORK_ACCURACY_SUSPICIOUS'
+  | 'EMBEDDED_LOCATION_MISMATCH'
+  | 'TIMESTAMP_DRIFT'
+  | 'CELL_TOWER_UNKNOWN'
+  | 'CELL_TOWER_CONSISTENT'
+  | 'CELL_TOWER_TOO_FAR'
+  | 'WIFI_MAC_RANDOMIZED'
+  | 'WIFI_AP_UNKNOWN'
+  | 'WIFI_AP_CONSISTENT'
+  | 'WIFI_AP_TOO_FAR'
+  | 'IP_NOT_PUBLIC'
+  | 'IP_GEO_UNKNOWN'
+  | 'IP_GEO_CONSISTENT'
+  | 'IP_COUNTRY_UNCHECKED'
+  | 'IP_COUNTRY_MISMATCH'
+  | 'IP_REGION_MISMATCH'
+  | 'IP_LOCATION_MISMATCH'
+  | 'C2PA_CONSISTENT'
+  | 'C2PA_LOCATION_MISMATCH'
+  | 'C2PA_TIME_MISMATCH'
+  // signals, between consecutive stamps (checkTrajectory)
+  | 'TRAJECTORY_CONSISTENT'
+  | 'TRAJECTORY_TIME_REVERSED'
+  | 'TRAJECTORY_FIX_DUPLICATED'
+  | 'TRAJECTORY_FIX_REPLAYED'
+  | 'TRAJECTORY_SPEED_IMPLAUSIBLE'
+  | 'TRAJECTORY_SPEED_MISMATCH'
+  | 'TRAJECTORY_BEARING_MISMATCH'
+  | 'TRAJECTORY_DEVICE_MISMATCH';
+
+/**
+ * One finding from stamp verification. Only `fail` findings make the
+ * result invalid; `warn` and `info` are reported for review.
+ */
+export interface VerificationCheck {
+  code: CheckCode;
+  severity: CheckSeverity;
+  category: CheckCategory;
+  /** Human-readable description; wording may change, codes do not */
+  message: string;
+  /** The offending value, if any */
+  value?: unknown;
+}
+
+/**
+ * Thresholds and strictness applied by stamp verification.
+ */
+export interface VerificationPolicy {
+  /** Allowed gap between Location.Time and the temporal footprint, in seconds */
+  maxTimestampDriftSeconds: number;
+  /** GPS fixes reporting a coarser accuracy than this are suspicious, in meters */
+  maxGpsAccuracyMeters: number;
+  /** Network fixes reporting a finer accuracy than this are suspicious, in meters */
+  minNetworkAccuracyMeters: number;
+  /** Slack added to a cell tower's range and the GPS accuracy, in meters */
+  cellTowerMarginMeters: number;
+  /** Slack added to an access point's range and the GPS accuracy, in meters */
+  wifiMarginMeters: number;
+  /** Slack added to a GeoIP accuracy radius, in meters */
+  ipMarginMeters: number;
+  /** Slack added to both GPS accuracies when comparing EXIF GPS with the fix, in meters */
+  mediaLocationMarginMeters: number;
+  /** Fastest plausible travel between consecutive fixes, beyond both accuracies, in m/s */
+  maxTravelSpeedMetersPerSecond: number;
+  /** Allowed gap between the reported Location.Speed and the implied speed, in m/s */
+  speedToleranceMetersPerSecond: number;
+  /** Allowed gap between the reported Location.Bearing and the direction travelled, in degrees */
+  bearingToleranceDegrees: number;
+  /** Require a PGP public key that verifies the bundle's signatures */
+  requirePGPKey: boolean;
+  /** Require an OpenTimestamps proof attested in a block header */
+  requireOTS: boolean;
+  /** Require a SafetyNet, Play Integrity or App Attest attestation in the bundle */
+  requireSafetyNet: boolean;
+  /** Severity overrides by check code, e.g. `{ TIMESTAMP_DRIFT: 'warn' }` */
+  severities: Partial<Record<CheckCode, CheckSeverity>>;
+}
+
+/** Named VerificationPolicy presets. */
+export type PolicyPreset = 'lenient' | 'standard' | 'forensic';
+
+/**
+ * A preset (default 'standard') with individual settings overridden.
+ * `severities` are merged with the preset's.
+ */
+export interface PolicyOverrides extends Partial<VerificationPolicy> {
+  preset?: PolicyPreset;
+}
+
+/**
+ * A cell tower's estimated position, as in OpenCellID exports.
+ */
+export interface CellTower {
+  /** Radio type as exported (GSM, UMTS, CDMA, LTE, NR) */
+  radio?: string;
+  mcc: number;
+  mnc: number;
+  /** LAC, or TAC for LTE/NR */
+  lac: number;
+  cid: number;
+  latitude: number;
+  longitude: number;
+  /** Estimated coverage radius in meters */
+  range?: number;
+  /** Number of measurements behind the estimate */
+  samples?: number;
+}
+
+/**
+ * Source of cell tower positions, e.g. a local OpenCellID extract.
+ */
+export interface CellTowerSource {
+  getCellTower(cell: CellObservation): Promise<CellTower | undefined>;
+}
+
+/**
+ * Result of comparing the GPS fix with the serving cell tower.
+ */
+export interface CellTowerCheck {
+  /** The registered cell, or the first cell if none is marked registered */
+  cell: CellObservation;
+  /** The tower, if the source knows it */
+  tower?: CellTower;
+  /** Distance from the GPS fix to the tower, in meters */
+  distance?: number;
+  /** Tower range plus GPS accuracy plus policy margin, in meters */
+  allowedDistance?: number;
+  consistent?: boolean;
+}
+
+/**
+ * An access point's estimated position, keyed by BSSID.
+ */
+export interface AccessPointLocation {
+  /** MAC address, lowercase and colon-separated */
+  bssid: string;
+  latitude: number;
+  longitude: number;
+  /** Estimated coverage radius in meters */
+  range?: number;
+}
+
+/**
+ * Source of access point positions, e.g. a local wardriving export.
+ */
+export interface AccessPointSource {
+  /** @param bssid - Lowercase, colon-separated MAC address */
+  getAccessPoint(bssid: string): Promise<AccessPointLocation | undefined>;
+}
+
+/**
+ * Result of checking one BSSID seen by the device.
+ */
+export interface WiFiCheck {
+  /** Lowercase, colon-separated MAC address */
+  bssid: string;
+  /** Locally administered (typically randomized) MACs identify no physical AP */
+  locallyAdministered: boolean;
+  /** The AP, if the source knows it */
+  accessPoint?: AccessPointLocation;
+  /** Distance from the GPS fix to the AP, in meters */
+  distance?: number;
+  /** AP range plus GPS accuracy plus policy margin, in meters */
+  allowedDistance?: number;
+  consistent?: boolean;
+}
+
+/** Address class of an IP; only public addresses are geolocated. */
+export type IPAddressClass =
+  | 'public'
+  | 'private'
+  | 'loopback'
+  | 'link-local'
+  | 'shared'
+  | 'multicast'
+  | 'reserved'
+  | 'invalid';
+
+/**
+ * Where a GeoIP database places an address.
+ */
+export interface IPGeoRecord {
+  /** ISO 3166-1 alpha-2 country code, uppercase */
+  country?: string;
+  /** ISO 3166-2 subdivision code without the country prefix, e.g. `NY` */
+  region?: string;
+  latitude?: number;
+  longitude?: number;
+  /** Accuracy radius in meters */
+  accuracyRadius?: number;
+}
+
+/**
+ * Offline GeoIP lookup, e.g. an MMDB file or a CSV of address ranges.
+ */
+export interface IPGeoSource {
+  lookup(ip: string): Promise<IPGeoRecord | undefined>;
+}
+
+/**
+ * Country and, optionally, first-level subdivision of a place.
+ */
+export interface GeoRegion {
+  /** ISO 3166-1 alpha-2 country code */
+  country: string;
+  /** ISO 3166-2 subdivision code without the country prefix */
+  region?: string;
+}
+
+/**
+ * Resolves coordinates to a country and region, e.g. from a local
+ * boundaries dataset.
+ */
+export interface ReverseGeocoder {
+  regionAt(latitude: number, longitude: number): Promise<GeoRegion | undefined>;
+}
+
+/**
+ * Result of geolocating one IP address from the signals.
+ */
+export interface IPGeoCheck {
+  ip: string;
+  /** The signal the address came from */
+  signal: 'IPv4' | 'IPv6';
+  addressClass: IPAddressClass;
+  record?: IPGeoRecord;
+  /** Where the reverse geocoder places the GPS fix */
+  fixRegion?: GeoRegion;
+  countryMatches?: boolean;
+  regionMatches?: boolean;
+  /** Distance from the GPS fix to the GeoIP location, in meters */
+  distance?: number;
+  /** GeoIP accuracy radius plus policy margin, in meters */
+  allowedDistance?: number;
+  /** False if the country differs or the fix is beyond allowedDistance */
+  consistent?: boolean;
+}
+
+/**
+ * A PGP public key's identity and validity, as read from a bundle.
+ */
+export interface PGPKeyInfo {
+  /** Primary key fingerprint (uppercase hex) */
+  fingerprint: string;
+  /** Primary key ID (uppercase hex) */
+  keyId: string;
+  /** openpgp algorithm name, e.g. `eddsaLegacy` or `rsaEncryptSign` */
+  algorithm: string;
+  userIds: string[];
+  /** Key creation time (Unix seconds) */
+  created: number;
+  /** Expiry (Unix seconds); absent if the key does not expire */
+  expires?: number;
+  /** True if the key carries a valid revocation signature */
+  revoked: boolean;
+}
+
+/**
+ * A device key known to a KeyRegistry, for one DeviceID.
+ */
+export interface KeyRecord {
+  /** Primary key fingerprint (uppercase hex) */
+  fingerprint: string;
+  /** Device the key belongs to; absent for a key pinned for any device */
+  deviceId?: string;
+  /** The key is expected: other keys for its device are rejected */
+  pinned?: boolean;
+  /** First and last capture time it was seen at (Unix seconds); absent if never seen */
+  firstSeen?: number;
+  lastSeen?: number;
+}
+
+/**
+ * Store of pinned and previously seen device keys, e.g. a JSON file kept
+ * by a newsroom for the devices of its contributors.
+ */
+export interface KeyRegistry {
+  /** Records for every device the key was pinned or seen for */
+  getKey(fingerprint: string): Promise<KeyRecord[]>;
+  /** Records for every key pinned or seen for the device */
+  getDeviceKeys(deviceId: string): Promise<KeyRecord[]>;
+  /** Note that the key was seen for the device at `seenAt` (Unix seconds) */
+  recordKey(fingerprint: string, deviceId: string | undefined, seenAt: number): Promise<void>;
+}
+
+/**
+ * How a bundle's key relates to what the registry knows:
+ * - `pinned`: it is the key pinned for the device (or for any device)
+ * - `pin-mismatch`: another key is pinned for the device
+ * - `known`: seen before, for this device if it has a DeviceID
+ * - `changed`: never seen for this device, which has presented other keys
+ * - `new`: never seen at all
+ */
+export type KeyContinuityStatus = 'pinned' | 'pin-mismatch' | 'known' | 'changed' | 'new';
+
+/**
+ * Result of checking a bundle's key against a KeyRegistry.
+ */
+export interface KeyContinuityCheck {
+  /** Fingerprint checked (uppercase hex) */
+  fingerprint: string;
+  deviceId?: string;
+  status: KeyContinuityStatus;
+  /** The device's other keys: pinned ones for `pin-mismatch`, seen ones for `changed` */
+  otherKeys: string[];
+  /** When the key was first seen, if it was */
+  firstSeen?: number;
+}
+
+/**
+ * One fix in a trajectory, taken from a stamp or a parsed bundle.
+ */
+export interface TrajectoryFix {
+  /** Position of the stamp or bundle in the input */
+  index: number;
+  deviceId?: string;
+  latitude: number;
+  longitude: number;
+  /** Location.Accuracy in meters, 0 if not reported */
+  accuracy: number;
+  /** Fix time (Unix seconds) */
+  time: number;
+  /** Reported Location.Speed in m/s */
+  speed?: number;
+  /** Reported Location.Bearing in degrees */
+  bearing?: number;
+  fileHash?: string;
+}
+
+/**
+ * Findings for two consecutive fixes in a trajectory.
+ */
+export interface TrajectoryPair {
+  /** Input positions of the earlier and later fix */
+  from: number;
+  to: number;
+  /** Great-circle distance between the fixes, in meters */
+  distance: number;
+  /** Seconds from the earlier fix to the later; negative if time went backwards */
+  elapsed: number;
+  /** Speed needed to cover the distance beyond both accuracies, in m/s; absent if elapsed <= 0 */
+  impliedSpeed?: number;
+  /** Initial bearing from the earlier fix to the later, in degrees */
+  bearing?: number;
+  checks: VerificationCheck[];
+  /** False if any check is a `fail` */
+  consistent: boolean;
+}
+
+/**
+ * Result of checking a series of stamps or bundles as one device's trajectory.
+ */
+export interface TrajectoryResult {
+  /** True unless some pair has a `fail` finding */
+  plausible: boolean;
+  fixes: TrajectoryFix[];
+  pairs: TrajectoryPair[];
+  /** Input positions without a usable fix or time, left out of the pairs */
+  skipped: number[];
 }
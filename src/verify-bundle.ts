@@ -0,0 +1,189 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * ProofMode bundle verification
+ *
+ * Cryptographically verifies the evidence inside a parsed ProofMode bundle:
+ * - Media integrity (SHA-256 and size against the filename hash, FileHash and File.Size)
+ * - Metadata signature (PGP detached signature over the CSV/JSON bytes)
+ * - Media signature (PGP detached signature over the media file, if present)
+ * - SafetyNet JWS signature and certificate chain (if trusted roots are configured),
+ *   or Play Integrity token decryption and signature (if its keys are configured)
+ * - App Attest certificate chain, key identifier and nonce (if Apple's root is configured)
+ * - OpenTimestamps proof against Bitcoin block headers (if a header source is configured)
+ * - EXIF/XMP in the media file against the metadata's location, time and device
+ * - C2PA manifest in the media file: claim signature, assertion hashes and
+ *   hard binding, and its location and capture time against the metadata
+ * - The public key's revocation status and, with a key registry configured,
+ *   the key against those pinned or seen before for the DeviceID
+ *
+ * Unlike verifyProofModeStamp, this needs the original bundle contents.
+ */
+
+import type {
+  AppAttestResult,
+  BlockHeaderSource,
+  BundleVerificationResult,
+  KeyContinuityCheck,
+  ParsedBundle,
+  OTSVerificationResult,
+  PGPSignatureResult,
+  SafetyNetResult,
+  VerificationOptions,
+} from './types';
+import { readPublicKeyInfo, verifyDetachedSignature } from './crypto';
+import { verifyAttestationToken } from './safetynet';
+import { parseAppAttestation, verifyAppAttestation } from './appattest';
+import { parseOTSProof, verifyOTSProof } from './ots';
+import { checkMediaIntegrity } from './integrity';
+import { checkMediaMetadata } from './media-metadata';
+import { verifyC2PA } from './c2pa';
+import { resolvePolicy } from './policy';
+import { fixTime } from './temporal';
+import { checkKeyContinuity } from './keys';
+
+/**
+ * Verify one signature, or report why it could not be checked.
+ */
+async function checkSignature(
+  target: PGPSignatureResult['target'],
+  data: Uint8Array | undefined,
+  signature: Uint8Array | undefined,
+  publicKey: string | undefined
+): Promise<PGPSignatureResult> {
+  if (!signature) {
+    return { target, valid: false, error: `Bundle has no ${target} signature` };
+  }
+  if (!data) {
+    return { target, valid: false, error: `Bundle has no ${target} file for the signature` };
+  }
+  if (!publicKey) {
+    return { target, valid: false, error: 'Bundle has no public key' };
+  }
+  return verifyDetachedSignature(target, data, signature, publicKey);
+}
+
+/**
+ * Parse and verify the bundle's OTS proof. ProofMode timestamps the media
+ * hash, so the proof digest must match the hash in the bundle file names.
+ */
+async function checkTimestamp(
+  bundle: ParsedBundle,
+  headers: BlockHeaderSource
+): Promise<OTSVerificationResult> {
+  try {
+    return await verifyOTSProof(parseOTSProof(bundle.otsProof!), headers, bundle.expectedHash);
+  } catch (err) {
+    return {
+      valid: false,
+      status: 'invalid',
+      attestations: [],
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Parse the bundle's App Attest object, verifying it when Apple's root is
+ * configured. The attested client data is the media hash, and certificates
+ * are checked at the capture time unless the options say otherwise.
+ */
+async function checkAppAttestation(
+  bundle: ParsedBundle,
+  options: VerificationOptions
+): Promise<AppAttestResult | null> {
+  if (!options.appAttest) return parseAppAttestation(bundle.appAttestation!);
+  return verifyAppAttestation(bundle.appAttestation!, options.appAttest, bundle.expectedHash, fixTime(bundle));
+}
+
+/**
+ * Verify media integrity, PGP signatures, SafetyNet or App Attest attestation,
+ * OpenTimestamps proof and any C2PA manifest in a parsed ProofMode bundle,
+ * and compare the media's EXIF/XMP and C2PA assertions with its metadata.
+ * Tolerances for those comparisons come from `options.policy`.
+ */
+export async function verifyBundle(
+  bundle: ParsedBundle,
+  options: VerificationOptions = {}
+): Promise<BundleVerificationResult> {
+  const policy = resolvePolicy(options.policy);
+  const integrity = checkMediaIntegrity(bundle);
+  const mediaMetadata = checkMediaMetadata(bundle, policy);
+  const c2pa = await verifyC2PA(bundle, policy, options);
+
+  const signatures: PGPSignatureResult[] = [
+    await checkSignature('metadata', bundle.signedMetadata, bundle.metadataSignature, bundle.publicKey),
+  ];
+
+  if (bundle.mediaFile) {
+    signatures.push(
+      await checkSignature('media', bundle.mediaFile, bundle.mediaSignature, bundle.publicKey)
+    );
+  } else if (bundle.mediaSignature && !bundle.mediaExcluded) {
+    // parseBundleStream drops the media bytes unless keepMedia is set; a
+    // signature left unchecked must not pass for a verified one
+    signatures.push({
+      target: 'media',
+      valid: false,
+      error: bundle.mediaSha256
+        ? 'Media not retained; signature not verified'
+        : 'Bundle has no media file for the signature',
+    });
+  }
+
+  let safetyNet: SafetyNetResult | null = null;
+  if (bundle.safetyNetToken) {
+    safetyNet = await verifyAttestationToken(bundle.safetyNetToken, options);
+  }
+  const safetyNetValid = !safetyNet?.verification || safetyNet.verification.verified;
+
+  const appAttest = bundle.appAttestation ? await checkAppAttestation(bundle, options) : null;
+  const appAttestValid = !appAttest?.verification || appAttest.verification.verified;
+
+  // As with attestations, the manifest's chain is only judged once roots are
+  // configured; an unchecked hard binding never binds it to the media
+  const c2paValid = !c2pa || c2pa.valid ||
+    (!options.c2pa && c2pa.signatureValid && c2pa.assertionsValid && c2pa.hardBindingValid === true);
+
+  let timestamp: OTSVerificationResult | undefined;
+  if (bundle.otsProof && options.blockHeaders) {
+    timestamp = await checkTimestamp(bundle, options.blockHeaders);
+  }
+
+  const key = bundle.publicKey ? await readPublicKeyInfo(bundle.publicKey) : undefined;
+  const deviceId = bundle.metadata.signals.DeviceID;
+  let keyContinuity: KeyContinuityCheck | undefined;
+  if (key && options.keyRegistry) {
+    keyContinuity = await checkKeyContinuity(key.fingerprint, deviceId, options.keyRegistry);
+  }
+
+  const valid =
+    (integrity?.valid ?? true) &&
+    signatures.every(s => s.valid) &&
+    safetyNetValid &&
+    appAttestValid &&
+    timestamp?.status !== 'invalid' &&
+    c2paValid &&
+    !key?.revoked &&
+    keyContinuity?.status !== 'pin-mismatch';
+
+  // Only keys that signed a bundle that verifies join the device's history
+  if (valid && key && options.keyRegistry) {
+    const seenAt = fixTime(bundle) ?? Math.floor(Date.now() / 1000);
+    await options.keyRegistry.recordKey(key.fingerprint, deviceId, seenAt);
+  }
+
+  return {
+    valid,
+    keyFingerprint: signatures.find(s => s.keyFingerprint)?.keyFingerprint,
+    key,
+    keyContinuity,
+    integrity,
+    signatures,
+    safetyNet: safetyNet ?? undefined,
+    appAttest: appAttest ?? undefined,
+    timestamp,
+    mediaMetadata,
+    c2pa,
+  };
+}
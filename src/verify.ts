@@ -7,101 +7,120 @@
  * - Structure validity (required fields present)
  * - Signature presence (PGP signature exists)
  * - Signal consistency (location provider matches accuracy range)
- * - SafetyNet/Play Integrity JWT structure (if present)
+ * - SafetyNet JWT or Play Integrity token (if present), plus the SafetyNet
+ *   JWS signature and certificate chain when trusted roots are configured,
+ *   or the Play Integrity token's decryption and signature when its keys are
+ * - App Attest attestation (if present), plus its certificate chain, attested
+ *   key and nonce when Apple's root is configured; DeviceCheck tokens are
+ *   only noted, as Apple's servers alone can validate them
+ * - Serving cell tower distance, when a tower database is configured
+ * - WiFi BSSIDs: randomized MACs, and access point distance when an
+ *   access point dataset is configured
+ * - Public IP country, region and distance, when a GeoIP database is
+ *   configured
+ * - Location and capture time asserted by an embedded C2PA manifest
+ * - Device key revocation and expiry, and the key against pinned and
+ *   previously seen keys when a key registry is configured
  *
- * Note: Full PGP signature cryptographic verification requires openpgp.js
- * which is deferred to a later version. For v0 we validate structure,
- * format, and consistency.
+ * A destructured stamp carries its signed evidence, which is re-verified
+ * with verifyBundle and checked against the stamp's location. Other stamps
+ * no longer carry the signed bundle files, so for them this validates
+ * structure, format, and consistency only; PGP verification of the bundle
+ * itself needs verifyBundle on the original ZIP (see verify-bundle.ts).
  */
 
 import type { LocationStamp, StampVerificationResult } from '@decentralized-geo/astral-sdk/plugins';
-import type { SafetyNetResult } from './types';
+import type { BundleVerificationResult, VerificationOptions } from './types';
+import { verifyAttestationToken } from './safetynet';
+import { parseAppAttestation, verifyAppAttestation } from './appattest';
+import { bundleFromStamp } from './evidence';
+import { verifyBundle } from './verify-bundle';
+import { VerificationReport } from './report';
+import { resolvePolicy } from './policy';
+import { checkServingCell } from './celltowers';
+import { checkAccessPoints } from './wifi';
+import { checkIPGeolocation } from './ip';
+import { compareCaptureMetadata } from './media-metadata';
+import { checkStampLocation } from './geometry';
+import { epochSeconds } from './temporal';
+import { checkKeyContinuity } from './keys';
 
-/**
- * Parse a SafetyNet/Play Integrity JWT and extract relevant fields.
- * Validates structure but does NOT verify the certificate chain (documented v0 limitation).
- */
-export function parseSafetyNetJWT(jwt: string): SafetyNetResult | null {
-  try {
-    const parts = jwt.split('.');
-    if (parts.length !== 3) return null;
-
-    // Decode the payload (middle part)
-    const payload = JSON.parse(
-      Buffer.from(parts[1], 'base64url').toString('utf-8')
-    );
-
-    return {
-      basicIntegrity: !!payload.basicIntegrity,
-      ctsProfileMatch: !!payload.ctsProfileMatch,
-      evaluationType: payload.evaluationType,
-      apkPackageName: payload.apkPackageName,
-      timestampMs: payload.timestampMs,
-      payload,
-    };
-  } catch {
-    return null;
-  }
-}
+export { parseSafetyNetJWT } from './safetynet';
 
 /**
  * Verify a ProofMode LocationStamp's internal validity.
+ *
+ * Thresholds, required proofs and which findings are fatal come from
+ * `options.policy` (default 'standard', see policy.ts).
+ *
+ * Every finding is reported in `details.checks` with a stable code (see
+ * CheckCode). `details` also carries the signature count and algorithms,
+ * the decoded SafetyNet verdict and, for destructured stamps, the embedded
+ * evidence result.
  */
 export async function verifyProofModeStamp(
-  stamp: LocationStamp
+  stamp: LocationStamp,
+  options: VerificationOptions = {}
 ): Promise<StampVerificationResult> {
-  const details: Record<string, unknown> = {};
-  let structureValid = true;
-  let signaturesValid = true;
-  let signalsConsistent = true;
+  const policy = resolvePolicy(options.policy);
+  const report = new VerificationReport(policy.severities);
+  const data: Record<string, unknown> = {};
 
   // ---- Structure validation ----
 
   if (stamp.lpVersion !== '0.2') {
-    structureValid = false;
-    details.lpVersionError = `Expected '0.2', got '${stamp.lpVersion}'`;
+    report.fail('LP_VERSION_MISMATCH', 'structure',
+      `Expected lpVersion '0.2', got '${stamp.lpVersion}'`, stamp.lpVersion);
   }
 
   if (stamp.plugin !== 'proofmode') {
-    structureValid = false;
-    details.pluginMismatch = `Expected 'proofmode', got '${stamp.plugin}'`;
+    report.fail('PLUGIN_MISMATCH', 'structure',
+      `Expected plugin 'proofmode', got '${stamp.plugin}'`, stamp.plugin);
   }
 
   if (!stamp.location) {
-    structureValid = false;
-    details.missingLocation = true;
+    report.fail('LOCATION_MISSING', 'structure', 'Stamp has no location');
   }
 
   if (!stamp.temporalFootprint || !stamp.temporalFootprint.start || !stamp.temporalFootprint.end) {
-    structureValid = false;
-    details.missingTemporalFootprint = true;
+    report.fail('TEMPORAL_FOOTPRINT_MISSING', 'structure',
+      'Stamp has no temporal footprint start and end');
   }
 
   if (!stamp.signals || typeof stamp.signals !== 'object') {
-    structureValid = false;
-    details.missingSignals = true;
+    report.fail('SIGNALS_MISSING', 'structure', 'Stamp has no signals object');
+  }
+
+  if (stamp.signals?.['TemporalFootprint.Estimated']) {
+    report.warn('TEMPORAL_FOOTPRINT_ESTIMATED', 'structure',
+      'Temporal footprint is an estimate, not taken from time evidence with a known UTC offset');
+  }
+
+  // A polygon or uncertainty radius must describe the fix it was made from
+  const geometry = checkStampLocation(stamp.location, stamp.signals ?? {});
+  if (geometry.error) {
+    report.fail(geometry.malformed ? 'LOCATION_MALFORMED' : 'LOCATION_GEOMETRY_INVALID', 'structure',
+      geometry.error, stamp.location?.type);
   }
 
   // ---- Signature validation ----
-  // For v0: check that signatures exist and have valid format.
-  // Full PGP cryptographic verification is deferred.
+  // Check that signatures exist and have valid format. Only destructured
+  // evidence lets them be verified here (below); otherwise verifyBundle
+  // must check them against the original bundle.
 
   if (!stamp.signatures || stamp.signatures.length === 0) {
-    signaturesValid = false;
-    details.noSignatures = true;
+    report.fail('SIGNATURES_MISSING', 'signature', 'Stamp has no signatures');
   } else {
-    for (const sig of stamp.signatures) {
+    stamp.signatures.forEach((sig, index) => {
       if (!sig.value || typeof sig.value !== 'string') {
-        signaturesValid = false;
-        details.emptySignature = true;
+        report.fail('SIGNATURE_EMPTY', 'signature', `Signature ${index} has no value`, index);
       }
       if (!sig.signer || !sig.signer.value) {
-        signaturesValid = false;
-        details.missingSigner = true;
+        report.fail('SIGNER_MISSING', 'signature', `Signature ${index} has no signer`, index);
       }
-    }
-    details.signatureCount = stamp.signatures.length;
-    details.signatureAlgorithms = stamp.signatures.map(s => s.algorithm);
+    });
+    data.signatureCount = stamp.signatures.length;
+    data.signatureAlgorithms = stamp.signatures.map(s => s.algorithm);
   }
 
   // ---- Signal consistency ----
@@ -114,58 +133,372 @@ export async function verifyProofModeStamp(
 
     // Validate coordinates are finite numbers in valid ranges
     if (lat !== undefined && (typeof lat !== 'number' || !Number.isFinite(lat) || lat < -90 || lat > 90)) {
-      signalsConsistent = false;
-      details.invalidLatitude = lat;
+      report.fail('LATITUDE_INVALID', 'signals', `Latitude ${lat} is outside [-90, 90]`, lat);
     }
     if (lon !== undefined && (typeof lon !== 'number' || !Number.isFinite(lon) || lon < -180 || lon > 180)) {
-      signalsConsistent = false;
-      details.invalidLongitude = lon;
+      report.fail('LONGITUDE_INVALID', 'signals', `Longitude ${lon} is outside [-180, 180]`, lon);
     }
 
     // Provider-accuracy consistency
     if (provider && accuracy !== undefined) {
-      if (provider === 'gps' && accuracy > 100) {
-        details.suspiciousGPSAccuracy = accuracy;
-        // Don't fail, but note it
+      if (provider === 'gps' && accuracy > policy.maxGpsAccuracyMeters) {
+        report.warn('GPS_ACCURACY_SUSPICIOUS', 'signals',
+          `GPS fix reports ${accuracy}m accuracy, unusually coarse for GPS`, accuracy);
       }
-      if (provider === 'network' && accuracy < 5) {
-        details.suspiciousNetworkAccuracy = accuracy;
+      if (provider === 'network' && accuracy < policy.minNetworkAccuracyMeters) {
+        report.warn('NETWORK_ACCURACY_SUSPICIOUS', 'signals',
+          `Network fix reports ${accuracy}m accuracy, unusually precise for network location`, accuracy);
       }
     }
 
     // SafetyNet/Play Integrity (if present in signals)
     const safetyNetJwt = stamp.signals['SafetyNet.JWT'] as string | undefined;
     if (safetyNetJwt) {
-      const safetyNet = parseSafetyNetJWT(safetyNetJwt);
-      if (safetyNet) {
-        details.safetyNet = {
+      const safetyNet = await verifyAttestationToken(safetyNetJwt, options);
+      if (!safetyNet) {
+        report.warn('SAFETYNET_MALFORMED', 'signature', 'SafetyNet/Play Integrity token could not be decoded');
+      } else {
+        const name = safetyNet.format === 'play-integrity' ? 'Play Integrity' : 'SafetyNet';
+        data.safetyNet = {
+          format: safetyNet.format,
           basicIntegrity: safetyNet.basicIntegrity,
           ctsProfileMatch: safetyNet.ctsProfileMatch,
           evaluationType: safetyNet.evaluationType,
+          deviceRecognitionVerdict: safetyNet.deviceRecognitionVerdict,
+          appRecognitionVerdict: safetyNet.appRecognitionVerdict,
+          appLicensingVerdict: safetyNet.appLicensingVerdict,
+          verified: safetyNet.verification?.verified,
         };
+        if (!safetyNet.verification) {
+          const reason = safetyNet.encrypted
+            ? 'token is encrypted and no Play Integrity keys are configured'
+            : safetyNetJwt.trim().startsWith('{')
+              ? 'token is unsigned verdict JSON and cannot be verified'
+              : safetyNet.format === 'play-integrity'
+              ? 'token decoded but not verified; no Play Integrity keys configured'
+              : 'token decoded but not verified; no trusted roots configured';
+          report.info('SAFETYNET_UNVERIFIED', 'signature', `${name} ${reason}`);
+        } else if (safetyNet.verification.verified) {
+          report.info('SAFETYNET_VERIFIED', 'signature',
+            safetyNet.format === 'play-integrity'
+              ? 'Play Integrity token decrypted and its signature verified'
+              : 'SafetyNet token signature and certificate chain verified');
+        } else {
+          // An attestation that fails verification is a forged signature
+          report.fail('SAFETYNET_INVALID', 'signature',
+            `${name} token failed verification: ${safetyNet.verification.error}`,
+            safetyNet.verification.error);
+        }
+      }
+    }
+
+    // App Attest/DeviceCheck (iOS)
+    const appAttestation = stamp.signals['AppAttest.Attestation'] as string | undefined;
+    if (appAttestation) {
+      const appAttest = options.appAttest
+        ? await verifyAppAttestation(
+          appAttestation,
+          options.appAttest,
+          stamp.signals['FileHash'] as string | undefined,
+          stamp.temporalFootprint?.start
+        )
+        : parseAppAttestation(appAttestation);
+      if (!appAttest) {
+        report.warn('APPATTEST_MALFORMED', 'signature', 'App Attest attestation could not be decoded');
       } else {
-        details.safetyNetParseError = true;
+        data.appAttest = {
+          keyId: appAttest.keyId,
+          environment: appAttest.environment,
+          verified: appAttest.verification?.verified,
+        };
+        if (!appAttest.verification) {
+          report.info('APPATTEST_UNVERIFIED', 'signature',
+            'App Attest attestation decoded but not verified; no Apple root configured');
+        } else if (appAttest.verification.verified) {
+          report.info('APPATTEST_VERIFIED', 'signature',
+            'App Attest certificate chain and attested key verified');
+        } else {
+          report.fail('APPATTEST_INVALID', 'signature',
+            `App Attest attestation failed verification: ${appAttest.verification.error}`,
+            appAttest.verification.error);
+        }
+      }
+    }
+    if (stamp.signals['DeviceCheck.Token']) {
+      report.info('DEVICECHECK_UNVERIFIED', 'signature',
+        'DeviceCheck token present; only Apple\'s DeviceCheck service can validate it');
+    }
+
+    // Proofs the policy requires (the PGP key and OTS proof once the
+    // embedded evidence has been checked, below)
+    if (policy.requireSafetyNet && !safetyNetJwt && !appAttestation) {
+      report.fail('SAFETYNET_MISSING', 'signature',
+        'Policy requires a device attestation (SafetyNet, Play Integrity or App Attest)');
+    }
+
+    // Device key validity, as the signals claim it
+    if (stamp.signals['PGP.KeyRevoked'] === true) {
+      report.fail('KEY_REVOKED', 'signature', 'Device key has been revoked', stamp.signals['PGP.Fingerprint']);
+    }
+    const keyExpires = stamp.signals['PGP.KeyExpires'];
+    if (typeof keyExpires === 'number' && stamp.temporalFootprint && keyExpires <= stamp.temporalFootprint.start) {
+      report.fail('KEY_EXPIRED', 'signature', 'Device key had expired before the capture', keyExpires);
+    }
+    // Destructured stamps carry the signed metadata — re-verify it and make
+    // sure the stamp claims the location that was actually signed
+    let evidence: BundleVerificationResult | undefined;
+    if (stamp.signals['Bundle.Mode'] === 'destructured') {
+      try {
+        const bundle = bundleFromStamp(stamp);
+        // The key registry is consulted below; stamp verification records nothing
+        evidence = await verifyBundle(bundle, { ...options, keyRegistry: undefined });
+        data.embeddedEvidence = {
+          valid: evidence.valid,
+          keyFingerprint: evidence.keyFingerprint,
+          signatures: evidence.signatures,
+        };
+        if (evidence.valid) {
+          report.info('EMBEDDED_SIGNATURE_VALID', 'signature',
+            'Embedded metadata signature verified', evidence.keyFingerprint);
+        } else {
+          report.fail('EMBEDDED_SIGNATURE_INVALID', 'signature',
+            'Embedded bundle evidence failed verification');
+        }
+
+        const signed = bundle.metadata.signals;
+        const signedLat = signed['Location.Latitude'];
+        const signedLon = signed['Location.Longitude'];
+        const [pointLon, pointLat] = geometry.center ?? [];
+        if (
+          signedLat !== lat || signedLon !== lon ||
+          signedLat !== pointLat || signedLon !== pointLon
+        ) {
+          report.fail('EMBEDDED_LOCATION_MISMATCH', 'signals',
+            'Stamp location differs from the location in the signed metadata',
+            [signedLon, signedLat]);
+        }
+      } catch (err) {
+        report.fail('EMBEDDED_EVIDENCE_MALFORMED', 'structure',
+          `Embedded bundle evidence is malformed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    // The stamp's signatures are copies of the bundle's; they count only
+    // when made by the key that verified the embedded evidence
+    if (stamp.signatures?.length && (!evidence || evidence.valid)) {
+      const verifiedKey = evidence?.keyFingerprint;
+      const unverified = stamp.signatures.flatMap((sig, index) =>
+        verifiedKey && sig.signer?.value === verifiedKey ? [] : [index]);
+      if (unverified.length > 0) {
+        report.fail('SIGNATURES_UNVERIFIED', 'signature', verifiedKey
+          ? 'Stamp signatures were not made by the key that verified the embedded evidence'
+          : 'Stamp signatures cannot be verified without destructured evidence; verify the original bundle',
+        unverified);
+      }
+    }
+
+    // Device key continuity, for the key that verified the embedded
+    // evidence; the PGP.Fingerprint signal is only a claim about it
+    const verifiedKey = evidence?.signatures.find(s => s.target === 'metadata' && s.valid)?.keyFingerprint;
+    const claimedKey = stamp.signals['PGP.Fingerprint'];
+    if (verifiedKey && typeof claimedKey === 'string' && claimedKey.toUpperCase() !== verifiedKey) {
+      report.fail('KEY_FINGERPRINT_MISMATCH', 'signature',
+        'PGP.Fingerprint differs from the key that verified the embedded evidence', claimedKey);
+    }
+    if (options.keyRegistry && !verifiedKey) {
+      report.warn('KEY_UNVERIFIED', 'signature',
+        'Device key continuity needs a key verified by destructured evidence', claimedKey);
+    } else if (options.keyRegistry && verifiedKey) {
+      const deviceId = stamp.signals['DeviceID'] as string | undefined;
+      const continuity = await checkKeyContinuity(verifiedKey, deviceId, options.keyRegistry);
+      data.keyContinuity = continuity;
+      const device = deviceId ? `device ${deviceId}` : 'the device';
+      switch (continuity.status) {
+        case 'pinned':
+          report.info('KEY_PINNED', 'signature', `Device key is pinned for ${device}`, continuity.fingerprint);
+          break;
+        case 'pin-mismatch':
+          report.fail('KEY_PIN_MISMATCH', 'signature',
+            `Device key is not the key pinned for ${device}`, continuity.otherKeys);
+          break;
+        case 'known':
+          report.info('KEY_KNOWN', 'signature', 'Device key has been seen before', continuity.firstSeen);
+          break;
+        case 'changed':
+          report.warn('KEY_CHANGED', 'signature',
+            `${device[0].toUpperCase()}${device.slice(1)} previously presented a different key`,
+            continuity.otherKeys);
+          break;
+        case 'new':
+          report.warn('KEY_UNKNOWN', 'signature', 'Device key has never been seen', continuity.fingerprint);
+          break;
+      }
+    }
+
+    // A required key or OTS proof counts only once verified, which needs
+    // the embedded evidence: the key must verify the signatures, and the
+    // proof must be attested in a block header
+    if (policy.requirePGPKey) {
+      const keyVerified = !!evidence?.keyFingerprint &&
+        evidence.signatures.length > 0 && evidence.signatures.every(s => s.valid);
+      if (!keyVerified) {
+        const hasKey = stamp.signals['HasPGPKey'] || stamp.signals['Bundle.PublicKey'];
+        report.fail('PGP_KEY_MISSING', 'signature', hasKey
+          ? 'Policy requires a PGP public key that verifies the embedded signatures'
+          : 'Policy requires a PGP public key');
+      }
+    }
+    if (policy.requireOTS && evidence?.timestamp?.status !== 'verified') {
+      const hasOTS = stamp.signals['HasOTS'] || stamp.signals['Bundle.OTSProof'];
+      report.fail('OTS_MISSING', 'signature', hasOTS
+        ? `Policy requires a verified OpenTimestamps proof; the proof is ${evidence?.timestamp?.status ?? 'unchecked'}`
+        : 'Policy requires an OpenTimestamps proof', evidence?.timestamp?.status);
+    }
+
+    // Timestamp coherence: the fix should fall within the footprint
+    const locationTime = stamp.signals['Location.Time'];
+    const locationTimeSec = typeof locationTime === 'number' ? epochSeconds(locationTime) : undefined;
+    if (locationTimeSec !== undefined && stamp.temporalFootprint) {
+      const { start, end } = stamp.temporalFootprint;
+      const drift = Math.max(0, start - locationTimeSec, locationTimeSec - end);
+      if (drift > policy.maxTimestampDriftSeconds) {
+        report.fail('TIMESTAMP_DRIFT', 'signals',
+          `Location.Time is ${drift}s outside the temporal footprint`, drift);
+      }
+    }
+
+    // C2PA manifest assertions vs the ProofMode fix. The manifest's
+    // signature and hard binding are checked by verifyBundle.
+    if (stamp.signals['C2PA.Manifest'] !== undefined) {
+      const num = (key: string) =>
+        typeof stamp.signals[key] === 'number' ? (stamp.signals[key] as number) : undefined;
+      const c2paChecks = compareCaptureMetadata({
+        latitude: num('C2PA.Latitude'),
+        longitude: num('C2PA.Longitude'),
+        gpsAccuracy: num('C2PA.Accuracy'),
+        captureTime: num('C2PA.Time'),
+        timeZoneKnown: true,
+      }, stamp.signals, policy);
+      if (c2paChecks.length > 0) data.c2pa = c2paChecks;
+
+      for (const check of c2paChecks.filter(c => !c.matches)) {
+        if (check.field === 'location') {
+          report.warn('C2PA_LOCATION_MISMATCH', 'signals',
+            `C2PA manifest location is ${Math.round(check.difference!)}m from the GPS fix`, check.difference);
+        } else {
+          report.warn('C2PA_TIME_MISMATCH', 'signals',
+            `C2PA capture time is ${check.difference}s from Location.Time`, check.difference);
+        }
+      }
+      if (c2paChecks.length > 0 && c2paChecks.every(c => c.matches)) {
+        report.info('C2PA_CONSISTENT', 'signals',
+          'C2PA manifest location and capture time agree with the ProofMode metadata',
+          stamp.signals['C2PA.Manifest']);
+      }
+    }
+
+    // Serving cell tower vs GPS fix (with a tower database configured)
+    if (options.cellTowers) {
+      const cellCheck = await checkServingCell(
+        stamp.signals, options.cellTowers, policy.cellTowerMarginMeters
+      );
+      if (cellCheck) {
+        data.cellTower = cellCheck;
+        const { cell, distance, allowedDistance } = cellCheck;
+        const id = `${cell.mcc}:${cell.mnc}:${cell.lac ?? cell.tac}:${cell.cid}`;
+        if (!cellCheck.tower) {
+          report.info('CELL_TOWER_UNKNOWN', 'signals', `Serving cell ${id} is not in the tower database`, id);
+        } else if (cellCheck.consistent) {
+          report.info('CELL_TOWER_CONSISTENT', 'signals',
+            `GPS fix is ${Math.round(distance!)}m from serving cell ${id}`, distance);
+        } else {
+          report.warn('CELL_TOWER_TOO_FAR', 'signals',
+            `GPS fix is ${Math.round(distance!)}m from serving cell ${id}, ` +
+              `beyond its ${Math.round(allowedDistance!)}m plausible range`,
+            distance);
+        }
+      }
+    }
+
+    // WiFi access points: randomized MACs always, positions with a dataset
+    const wifiChecks = await checkAccessPoints(
+      stamp.signals, options.accessPoints, policy.wifiMarginMeters
+    );
+    if (wifiChecks.length > 0) {
+      data.wifi = wifiChecks;
+      const randomized = wifiChecks.filter(c => c.locallyAdministered).map(c => c.bssid);
+      if (randomized.length > 0) {
+        report.warn('WIFI_MAC_RANDOMIZED', 'signals',
+          `Locally administered (randomized) BSSID cannot locate the device: ${randomized.join(', ')}`,
+          randomized);
+      }
+
+      const lookedUp = wifiChecks.filter(c => !c.locallyAdministered);
+      if (options.accessPoints && lookedUp.length > 0) {
+        const located = lookedUp.filter(c => c.accessPoint);
+        const far = located.filter(c => !c.consistent);
+        if (located.length === 0) {
+          report.info('WIFI_AP_UNKNOWN', 'signals',
+            'No observed access point is in the access point dataset', lookedUp.map(c => c.bssid));
+        } else if (far.length > 0) {
+          report.warn('WIFI_AP_TOO_FAR', 'signals',
+            far.map(c => `GPS fix is ${Math.round(c.distance!)}m from access point ${c.bssid}, ` +
+              `beyond its ${Math.round(c.allowedDistance!)}m plausible range`).join('; '),
+            far.map(c => ({ bssid: c.bssid, distance: c.distance })));
+        } else {
+          report.info('WIFI_AP_CONSISTENT', 'signals',
+            `GPS fix is within range of ${located.length} known access point(s)`,
+            located.map(c => c.bssid));
+        }
       }
     }
 
-    // Timestamp coherence
-    const locationTime = stamp.signals['Location.Time'] as number | undefined;
-    if (locationTime && stamp.temporalFootprint) {
-      // Location.Time is in milliseconds, temporalFootprint in seconds
-      const locationTimeSec = locationTime > 1e12 ? Math.floor(locationTime / 1000) : locationTime;
-      const drift = Math.abs(locationTimeSec - stamp.temporalFootprint.start);
-      if (drift > 3600) {
-        signalsConsistent = false;
-        details.timestampDrift = drift;
+    // Public IP geolocation vs GPS fix (with a GeoIP database configured)
+    if (options.ipGeolocation) {
+      const ipChecks = await checkIPGeolocation(
+        stamp.signals, options.ipGeolocation, options.reverseGeocoder, policy.ipMarginMeters
+      );
+      if (ipChecks.length > 0) data.ip = ipChecks;
+      for (const check of ipChecks) {
+        const { ip, record, fixRegion } = check;
+        if (check.addressClass !== 'public') {
+          report.info('IP_NOT_PUBLIC', 'signals',
+            `${check.signal} ${ip} is a ${check.addressClass} address and says nothing about location`,
+            check.addressClass);
+        } else if (!record) {
+          report.info('IP_GEO_UNKNOWN', 'signals', `${check.signal} ${ip} is not in the GeoIP database`, ip);
+        } else {
+          if (record.country && check.countryMatches === undefined) {
+            report.info('IP_COUNTRY_UNCHECKED', 'signals', options.reverseGeocoder
+              ? `${check.signal} ${ip} geolocates to ${record.country}, but the GPS fix could not be placed in a country`
+              : `${check.signal} ${ip} geolocates to ${record.country}; countries not compared, no reverse geocoder configured`,
+              record.country);
+          }
+          if (check.countryMatches === false) {
+            report.warn('IP_COUNTRY_MISMATCH', 'signals',
+              `${check.signal} ${ip} geolocates to ${record.country}, but the GPS fix is in ${fixRegion!.country}`,
+              record.country);
+          }
+          if (check.regionMatches === false) {
+            report.warn('IP_REGION_MISMATCH', 'signals',
+              `${check.signal} ${ip} geolocates to region ${record.region}, ` +
+                `but the GPS fix is in ${fixRegion!.region}`,
+              record.region);
+          }
+          if (check.distance !== undefined && check.distance > check.allowedDistance!) {
+            report.warn('IP_LOCATION_MISMATCH', 'signals',
+              `GPS fix is ${Math.round(check.distance / 1000)}km from where ${ip} geolocates, ` +
+                `beyond its ${Math.round(check.allowedDistance! / 1000)}km plausible range`,
+              check.distance);
+          }
+          if (check.consistent && check.regionMatches !== false) {
+            report.info('IP_GEO_CONSISTENT', 'signals',
+              `${check.signal} ${ip} geolocates consistently with the GPS fix`, ip);
+          }
+        }
       }
     }
   }
 
-  return {
-    valid: structureValid && signaturesValid && signalsConsistent,
-    structureValid,
-    signaturesValid,
-    signalsConsistent,
-    details,
-  };
+  return report.toResult(data);
 }
@@ -0,0 +1,152 @@
+// Copyright © 2026 Sophia Systems Corporation
+
+/**
+ * Offline WiFi access point cross-check
+ *
+ * Compares the GPS fix with the estimated positions of the access points
+ * the device saw (`WiFi.MAC` and any `WiFi.AccessPoints` scan). Positions
+ * come from a caller-supplied AccessPointSource — typically a local CSV
+ * export loaded with MemoryAccessPointDatabase.fromCSV(). Nothing is fetched.
+ *
+ * Locally administered MACs are flagged and never looked up: Android and
+ * iOS randomize them per network, so they identify no physical AP.
+ */
+
+import type {
+  AccessPointLocation,
+  AccessPointSource,
+  ProofModeSignals,
+  WiFiCheck,
+} from './types';
+import { readCSVRecords } from './parse/csv';
+import { haversineDistance } from './geo';
+
+/** Assumed coverage radius for access points without a range. */
+const DEFAULT_AP_RANGE = 150;
+
+/** Accepted column names, lowercase, for each field of a dataset row. */
+const COLUMNS: Record<keyof AccessPointLocation, string[]> = {
+  bssid: ['bssid', 'mac', 'netid'],
+  latitude: ['lat', 'latitude', 'trilat'],
+  longitude: ['lon', 'lng', 'longitude', 'trilong'],
+  range: ['range', 'accuracy', 'radius'],
+};
+
+/**
+ * Normalize a MAC address to lowercase colon-separated form.
+ * Returns undefined if it is not a 48-bit MAC.
+ */
+export function normalizeMac(mac: string): string | undefined {
+  const hex = mac.trim().toLowerCase().replace(/[:\-.]/g, '');
+  if (!/^[0-9a-f]{12}$/.test(hex)) return undefined;
+  return hex.match(/../g)!.join(':');
+}
+
+/**
+ * Whether a MAC has the locally administered bit set (second-least
+ * significant bit of the first octet), as randomized MACs do.
+ */
+export function isLocallyAdministered(mac: string): boolean {
+  return (parseInt(mac.slice(0, 2), 16) & 0x02) !== 0;
+}
+
+/**
+ * In-memory AccessPointSource keyed by BSSID.
+ */
+export class MemoryAccessPointDatabase implements AccessPointSource {
+  private readonly accessPoints = new Map<string, AccessPointLocation>();
+
+  constructor(accessPoints: AccessPointLocation[] = []) {
+    accessPoints.forEach(ap => this.add(ap));
+  }
+
+  /**
+   * Load a CSV with a header row naming at least the BSSID, latitude and
+   * longitude columns (`bssid,lat,lon,range`; WiGLE's `netid,trilat,trilong`
+   * also works). Rows that do not parse are skipped.
+   */
+  static fromCSV(text: string): MemoryAccessPointDatabase {
+    const db = new MemoryAccessPointDatabase();
+    const [header, ...records] = readCSVRecords(text);
+    if (!header) return db;
+
+    const names = header.map(h => h.trim().toLowerCase());
+    const index = (field: keyof AccessPointLocation) =>
+      names.findIndex(n => COLUMNS[field].includes(n));
+    const [bssidCol, latCol, lonCol, rangeCol] =
+      (['bssid', 'latitude', 'longitude', 'range'] as const).map(index);
+    if (bssidCol < 0 || latCol < 0 || lonCol < 0) {
+      throw new Error('Access point CSV needs bssid, latitude and longitude columns');
+    }
+
+    for (const record of records) {
+      const bssid = normalizeMac(record[bssidCol] ?? '');
+      const latitude = parseFloat(record[latCol]);
+      const longitude = parseFloat(record[lonCol]);
+      const range = rangeCol >= 0 ? parseFloat(record[rangeCol]) : NaN;
+      if (bssid && Number.isFinite(latitude) && Number.isFinite(longitude)) {
+        db.add({ bssid, latitude, longitude, range: Number.isFinite(range) ? range : undefined });
+      }
+    }
+    return db;
+  }
+
+  add(accessPoint: AccessPointLocation): void {
+    const bssid = normalizeMac(accessPoint.bssid);
+    if (bssid) this.accessPoints.set(bssid, { ...accessPoint, bssid });
+  }
+
+  async getAccessPoint(bssid: string): Promise<AccessPointLocation | undefined> {
+    return this.accessPoints.get(bssid);
+  }
+}
+
+/**
+ * Every distinct, well-formed BSSID in the signals: `WiFi.MAC` first, then
+ * the scan results.
+ */
+export function observedBssids(signals: ProofModeSignals): string[] {
+  const candidates = [
+    typeof signals['WiFi.MAC'] === 'string' ? signals['WiFi.MAC'] : undefined,
+    ...(Array.isArray(signals['WiFi.AccessPoints'])
+      ? signals['WiFi.AccessPoints'].map(ap => ap.bssid)
+      : []),
+  ];
+  const bssids = candidates
+    .map(mac => (mac ? normalizeMac(mac) : undefined))
+    .filter((mac): mac is string => mac !== undefined);
+  return [...new Set(bssids)];
+}
+
+/**
+ * Check each observed BSSID: flag randomized MACs and, with a source,
+ * compare the GPS fix with the AP's position.
+ *
+ * @param marginMeters - Slack added to the AP range and the GPS accuracy
+ */
+export async function checkAccessPoints(
+  signals: ProofModeSignals,
+  accessPoints: AccessPointSource | undefined,
+  marginMeters: number
+): Promise<WiFiCheck[]> {
+  const lat = signals['Location.Latitude'];
+  const lon = signals['Location.Longitude'];
+  const accuracy = signals['Location.Accuracy'] ?? 0;
+  const hasFix = typeof lat === 'number' && typeof lon === 'number';
+
+  const checks: WiFiCheck[] = [];
+  for (const bssid of observedBssids(signals)) {
+    const check: WiFiCheck = { bssid, locallyAdministered: isLocallyAdministered(bssid) };
+    checks.push(check);
+    if (check.locallyAdministered || !accessPoints || !hasFix) continue;
+
+    const accessPoint = await accessPoints.getAccessPoint(bssid);
+    if (!accessPoint) continue;
+
+    check.accessPoint = accessPoint;
+    check.distance = haversineDistance(lat, lon, accessPoint.latitude, accessPoint.longitude);
+    check.allowedDistance = (accessPoint.range || DEFAULT_AP_RANGE) + accuracy + marginMeters;
+    check.consistent = check.distance <= check.allowedDistance;
+  }
+  return checks;
+}
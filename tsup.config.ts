@@ -1,14 +1,28 @@
 import { defineConfig } from 'tsup';
 
-export default defineConfig({
-  entry: ['src/index.ts'],
-  format: ['cjs', 'esm'],
-  dts: true,
-  splitting: false,
-  sourcemap: true,
-  clean: true,
-  treeshake: true,
-  minify: false,
-  platform: 'neutral',
-  external: ['@decentralized-geo/astral-sdk'],
-});
+export default defineConfig([
+  {
+    entry: ['src/index.ts'],
+    format: ['cjs', 'esm'],
+    dts: true,
+    splitting: false,
+    sourcemap: true,
+    clean: true,
+    treeshake: true,
+    minify: false,
+    platform: 'neutral',
+    // Node built-ins are only loaded by Node-only features (JSONFileKeyRegistry)
+    external: ['@decentralized-geo/astral-sdk', /^node:/],
+  },
+  {
+    // The proofmode CLI; tsup keeps the shebang and marks the file executable
+    entry: { cli: 'src/cli/bin.ts' },
+    format: ['cjs'],
+    sourcemap: true,
+    treeshake: true,
+    minify: false,
+    platform: 'node',
+    target: 'node18',
+    external: ['@decentralized-geo/astral-sdk'],
+  },
+]);